@@ -1,5 +1,6 @@
 import { createClient } from '@supabase/supabase-js'
 import dotenv from 'dotenv'
+import { createRiotClient } from '../src/lib/riot/riotClient'
 
 dotenv.config({ path: '.env.local' })
 dotenv.config({ path: '.env' })
@@ -23,13 +24,10 @@ const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, {
 
 const AMERICAS = 'https://americas.api.riotgames.com'
 
-async function riotFetch<T>(url: string): Promise<T> {
-  const res = await fetch(url, { headers: { 'X-Riot-Token': RIOT_API_KEY } })
-  if (!res.ok) {
-    const t = await res.text().catch(() => '')
-    throw new Error(`Riot ${res.status}: ${t}`.slice(0, 240))
-  }
-  return (await res.json()) as T
+const riot = createRiotClient({ apiKey: RIOT_API_KEY })
+
+function riotFetch<T>(url: string): Promise<T> {
+  return riot.fetchJson<T>(url)
 }
 
 type RiotAccount = {
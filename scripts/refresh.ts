@@ -1,6 +1,51 @@
 import { createClient } from '@supabase/supabase-js'
+import { randomUUID } from 'node:crypto'
+import os from 'node:os'
 import dotenv from 'dotenv'
-import { getSeasonStartIso } from '../src/lib/riot/season'
+import { getCurrentSeasonInfo, getSeasonStartIso } from '../src/lib/riot/season'
+import { DEFAULT_PLATFORM, isPlatform, normalizePlatform, platformBaseUrl, regionalBaseUrl, type Platform } from '../src/lib/riot/platforms'
+import { createRiotClient, RiotApiError } from '../src/lib/riot/riotClient'
+import { participantRow, type MatchEndType } from '../src/lib/riot/matchParticipants'
+import { classifyGamelessLpLoss } from '../src/lib/riot/decay'
+import {
+  computeGoalState,
+  formatGoalLabel,
+  formatGoalResult,
+  GOAL_WINDOW_BASELINE_MS,
+  GOAL_WINDOW_LEAD_MS,
+  isScoredWindowMode,
+  isWindowedGoalMode,
+  normalizeGoalMode,
+  type GoalConfig,
+  type GoalState,
+  type LpHistoryRow as GoalHistoryRow,
+} from '../src/lib/leaderboardGoals'
+import { getMoversDataFresh } from '../src/lib/leaderboard/movers'
+import {
+  CHALLENGE_PERIOD_MS,
+  challengePeriodStartMs,
+  CLUB_CHALLENGE_COLUMNS,
+  evaluateChallenge,
+  isChallengeKind,
+  type ClubChallenge,
+} from '../src/lib/clubChallenges'
+import { getFinalShowdownScores, showdownWinner } from '../src/lib/showdowns'
+import {
+  dailyMoversEmbed,
+  formatRankForEmbed,
+  goalCompletedEmbed,
+  nextWebhookAttemptAt,
+  peakLpEmbed,
+  postDiscordWebhook,
+  raceEmbed,
+  rankChangeEmbed,
+  WEBHOOK_MAX_ATTEMPTS,
+  WEBHOOK_TOGGLE_BY_EVENT,
+  type DiscordWebhookPayload,
+  type WebhookEventType,
+  type WebhookLeaderboard,
+  type WebhookSettings,
+} from '../src/lib/discord/webhooks'
 
 dotenv.config({ path: '.env.local' })
 dotenv.config({ path: '.env' })
@@ -8,8 +53,6 @@ dotenv.config({ path: '.env' })
 const SUPABASE_URL = process.env.SUPABASE_URL ?? process.env.NEXT_PUBLIC_SUPABASE_URL!
 const SUPABASE_SERVICE_ROLE_KEY = process.env.SUPABASE_SERVICE_ROLE_KEY!
 const rawRiotApiKey = process.env.RIOT_API_KEY
-const RANKED_SEASON_START = process.env.RANKED_SEASON_START
-const ENABLE_SEASON_RESET = String(process.env.ENABLE_SEASON_RESET ?? '').toLowerCase() === 'true'
 const APP_URL = process.env.NEXT_PUBLIC_APP_URL?.trim() ?? ''
 const INTERNAL_REVALIDATE_SECRET = process.env.INTERNAL_REVALIDATE_SECRET?.trim() ?? ''
 
@@ -28,7 +71,11 @@ const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, {
   auth: { persistSession: false },
 })
 
-const NA1 = 'https://na1.api.riotgames.com'
+const riot = createRiotClient({ apiKey: RIOT_API_KEY, userAgent: 'climb.lol-refresh/1.0' })
+
+// Rank cutoffs are only tracked for the default platform's apex ladder.
+const NA1 = platformBaseUrl(DEFAULT_PLATFORM)
+// Account-v1 is global, so any regional cluster resolves every player.
 const AMERICAS = 'https://americas.api.riotgames.com'
 
 const CUTOFF_POLL_MS = 60 * 60 * 1000 // hourly
@@ -36,12 +83,22 @@ const CUTOFF_POLL_MS = 60 * 60 * 1000 // hourly
 const QUEUE_SOLO = 'RANKED_SOLO_5x5'
 const QUEUE_FLEX = 'RANKED_FLEX_SR'
 const QUEUE_SOLO_ID = 420
+const QUEUE_FLEX_ID = 440
 
 const MATCHLIST_SEASON_START_ISO = getSeasonStartIso()
 const MATCHLIST_SEASON_START_MS = new Date(MATCHLIST_SEASON_START_ISO).getTime()
-const MATCHLIST_SEASON_START_UNIX = Number.isFinite(MATCHLIST_SEASON_START_MS)
-  ? Math.floor(MATCHLIST_SEASON_START_MS / 1000)
-  : null
+
+const matchlistStartUnixByPlatform = new Map<Platform, number | null>()
+
+function matchlistSeasonStartUnix(platform: Platform): number | null {
+  if (matchlistStartUnixByPlatform.has(platform)) {
+    return matchlistStartUnixByPlatform.get(platform) ?? null
+  }
+  const startMs = new Date(getSeasonStartIso({ region: platform })).getTime()
+  const startUnix = Number.isFinite(startMs) ? Math.floor(startMs / 1000) : null
+  matchlistStartUnixByPlatform.set(platform, startUnix)
+  return startUnix
+}
 
 function sleep(ms: number) {
   return new Promise((r) => setTimeout(r, ms))
@@ -55,65 +112,82 @@ function chunkArray<T>(arr: T[], size: number): T[][] {
   return chunks
 }
 
-async function resetSeasonDataIfNeeded() {
-  if (!RANKED_SEASON_START) return
-  if (!ENABLE_SEASON_RESET) {
-    console.warn('[season] RANKED_SEASON_START is set, but ENABLE_SEASON_RESET!=true, skipping destructive season reset')
-    return
-  }
+// Season rollover keeps everything that is timestamped (matches, participants,
+// LP events, LP history) and reads past seasons back by their window. Only the
+// final rank snapshots need copying, since player_rank_snapshot is overwritten
+// as soon as placements start.
+async function archiveSeasonIfNeeded() {
+  const current = getCurrentSeasonInfo()
+
+  const { data: latest, error: latestErr } = await supabase
+    .from('season_rollovers')
+    .select('season, start_at')
+    .order('season', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+  if (latestErr) throw latestErr
 
-  const seasonStartMs = new Date(RANKED_SEASON_START).getTime()
-  if (Number.isNaN(seasonStartMs)) {
-    console.warn('[season] invalid RANKED_SEASON_START:', RANKED_SEASON_START)
+  if (!latest) {
+    // First run against this database: nothing to archive yet, just record
+    // which season the existing data belongs to.
+    const { error } = await supabase
+      .from('season_rollovers')
+      .insert({ season: current.season, start_at: current.startIso })
+    if (error) throw error
+    console.log('[season] recorded current season', current.season)
     return
   }
 
-  const { data: oldMatch, error: oldMatchErr } = await supabase
-    .from('matches')
-    .select('match_id')
-    .lt('game_end_ts', seasonStartMs)
-    .limit(1)
-    .maybeSingle()
+  if (latest.season >= current.season) return
 
-  if (oldMatchErr) throw oldMatchErr
-  if (!oldMatch) {
-    console.log('[season] no pre-season matches found; still resetting rank data')
+  const archivedSeason = latest.season
+  if (Number.isNaN(new Date(current.startIso).getTime())) {
+    console.warn('[season] invalid season start:', current.startIso)
+    return
   }
 
-  console.log('[season] clearing data before', RANKED_SEASON_START)
+  console.log('[season] archiving season', archivedSeason, 'before', current.startIso)
 
   const chunkSize = 500
   let offset = 0
+  let archived = 0
 
   while (true) {
-    const { data: matches, error: matchErr } = await supabase
-      .from('matches')
-      .select('match_id')
-      .lt('game_end_ts', seasonStartMs)
+    const { data: snaps, error: snapErr } = await supabase
+      .from('player_rank_snapshot')
+      .select('puuid, queue_type, tier, rank, league_points, wins, losses, fetched_at')
+      .order('puuid', { ascending: true })
+      .order('queue_type', { ascending: true })
       .range(offset, offset + chunkSize - 1)
 
-    if (matchErr) throw matchErr
-    if (!matches || matches.length === 0) break
+    if (snapErr) throw snapErr
+    if (!snaps || snaps.length === 0) break
 
-    const matchIds = matches.map((m: any) => m.match_id).filter(Boolean)
-    if (!matchIds.length) break
+    const rows = snaps.map((snap: any) => ({
+      season: archivedSeason,
+      puuid: snap.puuid,
+      queue_type: snap.queue_type,
+      tier: snap.tier,
+      rank: snap.rank,
+      league_points: snap.league_points,
+      wins: snap.wins,
+      losses: snap.losses,
+      fetched_at: snap.fetched_at,
+    }))
 
-    await Promise.all([
-      supabase.from('match_participants').delete().in('match_id', matchIds),
-      supabase.from('player_lp_events').delete().in('match_id', matchIds),
-      supabase.from('matches').delete().in('match_id', matchIds)
-    ]).then(results => {
-      for (const { error } of results) {
-        if (error) throw error
-      }
-    })
+    const { error: archiveErr } = await supabase
+      .from('player_season_ranks')
+      .upsert(rows, { onConflict: 'season,puuid,queue_type' })
+    if (archiveErr) throw archiveErr
 
+    archived += rows.length
+    if (snaps.length < chunkSize) break
     offset += chunkSize
   }
 
+  // Per-player refresh state is only meaningful within a season; clearing it
+  // makes the next poll treat placements as a fresh start.
   await Promise.all([
-    supabase.from('player_lp_history').delete().neq('puuid', ''),
-    supabase.from('player_rank_snapshot').delete().neq('puuid', ''),
     supabase.from('player_top_champions').delete().neq('puuid', ''),
     supabase
       .from('player_riot_state')
@@ -124,49 +198,35 @@ async function resetSeasonDataIfNeeded() {
         last_solo_wins: null,
         last_solo_losses: null,
         last_solo_match_id: null,
+        last_flex_lp: null,
+        last_flex_tier: null,
+        last_flex_rank: null,
+        last_flex_wins: null,
+        last_flex_losses: null,
+        last_flex_match_id: null,
         last_poll_at: null,
+        last_matchlist_full_scan_at: null,
+        backfill_pending: 0,
+        backfill_failed: 0,
       })
-      .neq('puuid', '')
+      .neq('puuid', ''),
+    supabase.from('match_backfill_queue').delete().neq('puuid', ''),
   ]).then(results => {
     for (const { error } of results) {
       if (error) throw error
     }
   })
 
-  console.log('[season] reset complete')
-}
-
-async function riotFetch<T>(url: string, attempt = 0): Promise<T> {
-  const res = await fetch(url, { headers: { 'X-Riot-Token': RIOT_API_KEY } })
+  const { error: rolloverErr } = await supabase
+    .from('season_rollovers')
+    .upsert({ season: current.season, start_at: current.startIso }, { onConflict: 'season' })
+  if (rolloverErr) throw rolloverErr
 
-  if (res.status === 429) {
-    const retryAfter = Number(res.headers.get('Retry-After') ?? '1')
-    // Wait the full retry-after time as specified by Riot
-    const backoff = Math.max(retryAfter * 1000, 1000)
-    console.warn('[riotFetch] 429 retryAfter=', retryAfter, 'backoff=', backoff, 'url=', url)
-    
-    // Only retry a limited number of times to avoid infinite loops
-    if (attempt >= 3) {
-      throw new Error(`Rate limited after ${attempt + 1} attempts. Wait before retrying.`)
-    }
-    
-    await sleep(backoff)
-    return riotFetch<T>(url, attempt + 1)
-  }
-
-  if (!res.ok) {
-    const t = await res.text().catch(() => '')
-    if (res.status === 401) {
-      throw new Error('Riot API key invalid or missing. Check RIOT_API_KEY (no quotes).')
-    }
-    if (res.status === 403) {
-      throw new Error('Riot API key forbidden. Key may be expired or blocked.')
-    }
-    console.error('[riotFetch] FAIL', res.status, url, t.slice(0, 200))
-    throw new Error(`Riot ${res.status}: ${t}`.slice(0, 240))
-  }
+  console.log('[season] archived', archived, 'rank snapshots into season', archivedSeason)
+}
 
-  return (await res.json()) as T
+function riotFetch<T>(url: string): Promise<T> {
+  return riot.fetchJson<T>(url)
 }
 
 async function upsertRiotState(puuid: string, patch: Record<string, any>) {
@@ -250,9 +310,9 @@ async function migratePuuid(oldPuuid: string, newPuuid: string) {
   }
 }
 
-async function syncSummonerBasics(puuid: string) {
+async function syncSummonerBasics(puuid: string, platform: Platform) {
   const data = await riotFetch<{ id: string; profileIconId: number }>(
-    `${NA1}/lol/summoner/v4/summoners/by-puuid/${encodeURIComponent(puuid)}`
+    `${platformBaseUrl(platform)}/lol/summoner/v4/summoners/by-puuid/${encodeURIComponent(puuid)}`
   )
 
   return {
@@ -304,12 +364,11 @@ async function syncAccountIdentity(puuid: string): Promise<string> {
       // PUUID decryption failed (production key mismatch)
       console.error(`[sync] ❌ Both strategies failed for ${puuid.slice(0, 12)}:`, e.message)
       
-      // Strategy 3: Manual intervention needed
-      await upsertRiotState(puuid, { 
-        last_error: `MIGRATION_NEEDED: Cannot fetch account. Riot ID may have changed and PUUID is encrypted with different key. Last known: ${player?.game_name}#${player?.tag_line}`
-      })
-      
-      throw new Error(`Cannot sync ${puuid.slice(0, 12)} - manual intervention needed`)
+      // Strategy 3: Manual intervention needed. refreshOnePlayer stores this
+      // message as last_error, where the dashboard picks it up for triage.
+      throw new Error(
+        `MIGRATION_NEEDED: Cannot fetch account. Riot ID may have changed and PUUID is encrypted with different key. Last known: ${player?.game_name}#${player?.tag_line}`
+      )
     }
   }
   
@@ -377,8 +436,8 @@ type RankEntry = {
   losses: number
 }
 
-type SoloSnapshot = {
-  queue_type: typeof QUEUE_SOLO
+type QueueSnapshot = {
+  queue_type: typeof QUEUE_SOLO | typeof QUEUE_FLEX
   tier: string
   rank: string
   lp: number
@@ -408,9 +467,17 @@ type RefreshState = {
   last_solo_wins?: number | null
   last_solo_losses?: number | null
   last_solo_match_id?: string | null
+  last_flex_lp?: number | null
+  last_flex_tier?: string | null
+  last_flex_rank?: string | null
+  last_flex_wins?: number | null
+  last_flex_losses?: number | null
+  last_flex_match_id?: string | null
   last_account_sync_at?: string | null
   last_top_champs_at?: string | null
   last_game_at?: string | null
+  last_matchlist_full_scan_at?: string | null
+  backfill_pending?: number | null
 }
 
 const NON_APEX_TIERS = ['IRON', 'BRONZE', 'SILVER', 'GOLD', 'PLATINUM', 'EMERALD', 'DIAMOND'] as const
@@ -430,24 +497,6 @@ function rankStepIndex(tier?: string | null, rank?: string | null): number | nul
   return tierIndex * DIVISION_ORDER.length + divisionIndex
 }
 
-const TIER_WEIGHT: Record<string, number> = {
-  CHALLENGER: 10,
-  GRANDMASTER: 9,
-  MASTER: 8,
-  DIAMOND: 7,
-  EMERALD: 6,
-  PLATINUM: 5,
-  GOLD: 4,
-  SILVER: 3,
-  BRONZE: 2,
-  IRON: 1,
-}
-
-function tierWeight(tier?: string | null): number {
-  if (!tier) return 0
-  return TIER_WEIGHT[tier.toUpperCase()] ?? 0
-}
-
 function computeLpDelta(opts: {
   lastTier?: string | null
   lastRank?: string | null
@@ -470,19 +519,34 @@ function logLpDeltaHelper(puuid: string, matchId: string | null, lpDelta: number
   console.log('[lp_delta_helper]', shortPuuid, 'match', shortMatch, 'lp_delta', lpDelta)
 }
 
-function pickSolo(entries: RankEntry[]): RankEntry | null {
-  return entries.find((e) => e.queueType === QUEUE_SOLO) ?? null
+function pickQueue(
+  entries: RankEntry[],
+  queueType: typeof QUEUE_SOLO | typeof QUEUE_FLEX,
+  fetchedAt: string
+): QueueSnapshot | null {
+  const entry = entries.find((e) => e.queueType === queueType)
+  if (!entry) return null
+  return {
+    queue_type: queueType,
+    tier: entry.tier,
+    rank: entry.rank,
+    lp: entry.leaguePoints,
+    wins: entry.wins,
+    losses: entry.losses,
+    fetched_at: fetchedAt,
+  }
 }
 
-async function syncRankByPuuid(puuid: string): Promise<{ soloSnap: SoloSnapshot | null; rankRows: RankSnapshotRow[] }> {
+async function syncRankByPuuid(
+  puuid: string,
+  platform: Platform
+): Promise<{ soloSnap: QueueSnapshot | null; flexSnap: QueueSnapshot | null; rankRows: RankSnapshotRow[] }> {
   const entries = await riotFetch<RankEntry[]>(
-    `${NA1}/lol/league/v4/entries/by-puuid/${encodeURIComponent(puuid)}`
+    `${platformBaseUrl(platform)}/lol/league/v4/entries/by-puuid/${encodeURIComponent(puuid)}`
   )
 
   const now = new Date().toISOString()
 
-  const solo = pickSolo(entries)
-
   const rankRows = entries
     .filter((e) => e.queueType === QUEUE_SOLO || e.queueType === QUEUE_FLEX)
     .map((e) => ({
@@ -496,19 +560,10 @@ async function syncRankByPuuid(puuid: string): Promise<{ soloSnap: SoloSnapshot
       fetched_at: now,
     }))
 
-  const soloSnap = !solo
-    ? null
-    : {
-        queue_type: QUEUE_SOLO as typeof QUEUE_SOLO,
-        tier: solo.tier,
-        rank: solo.rank,
-        lp: solo.leaguePoints,
-        wins: solo.wins,
-        losses: solo.losses,
-        fetched_at: now,
-      }
+  const soloSnap = pickQueue(entries, QUEUE_SOLO, now)
+  const flexSnap = pickQueue(entries, QUEUE_FLEX, now)
 
-  return { soloSnap, rankRows }
+  return { soloSnap, flexSnap, rankRows }
 }
 
 const MATCHLIST_PAGE_SIZE = Math.min(Math.max(Number(process.env.MATCHLIST_PAGE_SIZE ?? 100), 1), 100)
@@ -523,6 +578,20 @@ const MATCHLIST_QUEUE = (process.env.MATCHLIST_QUEUE ?? '420').trim()
 const MATCHDETAIL_MAX_PER_RUN = Math.max(Number(process.env.MATCHDETAIL_MAX_PER_RUN ?? 60), 1)
 const MATCHDETAIL_SLEEP_MS = Math.max(Number(process.env.MATCHDETAIL_SLEEP_MS ?? 400), 0)
 const MATCH_SYNC_FALLBACK_MS = Math.max(Number(process.env.MATCH_SYNC_FALLBACK_MS ?? 10 * 60 * 1000), 10_000)
+// Players with a completed full matchlist scan only page until nothing new turns up;
+// a full re-scan still runs on this interval to catch gaps Riot's paging can hide.
+const MATCHLIST_FULL_SCAN_INTERVAL_MS = Math.max(
+  Number(process.env.MATCHLIST_FULL_SCAN_INTERVAL_MS ?? 24 * 60 * 60 * 1000),
+  60_000
+)
+const MATCH_BACKFILL_MAX_ATTEMPTS = Math.max(Number(process.env.MATCH_BACKFILL_MAX_ATTEMPTS ?? 5), 1)
+
+// Backfill queue priorities: fresh games of tracked players first, a brand new
+// player's season history last.
+const BACKFILL_PRIORITY_RECENT = 100
+const BACKFILL_PRIORITY_GAP = 50
+const BACKFILL_PRIORITY_NEW_PLAYER_RECENT = 25
+const BACKFILL_PRIORITY_NEW_PLAYER_HISTORY = 0
 
 // Player refresh scheduler controls.
 // NOTE: refreshOnePlayer() currently includes account/summoner/rank sync calls,
@@ -532,17 +601,79 @@ const PLAYER_REFRESH_CYCLE_SECONDS = Math.max(Number(process.env.PLAYER_REFRESH_
 const PLAYER_REFRESH_CYCLE_MS = PLAYER_REFRESH_CYCLE_SECONDS * 1000
 const REFRESH_RUN_WINDOW_MS = Math.max(Number(process.env.REFRESH_RUN_WINDOW_MS ?? 55_000), 5_000)
 
+// Single-runner lease: a run only proceeds while it holds this lease, so two
+// overlapping schedulers can't insert duplicate player_lp_events.
+const REFRESH_LEASE_NAME = 'refresh'
+const REFRESH_LEASE_TTL_MS = Math.max(Number(process.env.REFRESH_LEASE_TTL_MS ?? 60_000), 15_000)
+const REFRESH_LEASE_HEARTBEAT_MS = Math.floor(REFRESH_LEASE_TTL_MS / 3)
+
+// Live game detection (spectator-v5). One lookup per player per run; finished
+// games are kept briefly so the site can link them until the match is ingested.
+const LIVE_GAME_POLL_ENABLED = String(process.env.LIVE_GAME_POLL ?? 'true').toLowerCase() !== 'false'
+const LIVE_GAME_RETENTION_MS = 30 * 60 * 1000
+
+// Discord webhooks. Player and goal events are queued in
+// leaderboard_webhook_deliveries as soon as they're detected, race and movers
+// posts at the end of the run, and then the queue is drained with backoff.
+const WEBHOOK_DRAIN_LIMIT = 50
+const WEBHOOK_POST_SPACING_MS = 500
+// Race start/end posts are skipped if the worker only notices them this late.
+const WEBHOOK_RACE_NOTIFY_WINDOW_MS = 6 * 60 * 60 * 1000
+// Local hour (MOVERS_TIMEZONE) after which the daily movers summary is posted.
+const WEBHOOK_MOVERS_SUMMARY_HOUR = Math.min(Math.max(Number(process.env.WEBHOOK_MOVERS_SUMMARY_HOUR ?? 23), 0), 23)
+
+type PlayerWebhookEvent =
+  | { type: 'RANK_CHANGE'; puuid: string; promoted: boolean; tier: string | null; rank: string | null; lp: number; lpDelta: number; at: string }
+  | { type: 'PEAK_LP'; puuid: string; tier: string | null; rank: string | null; lp: number; at: string }
+
+type GoalWebhookEvent = {
+  lbId: string
+  config: GoalConfig
+  state: GoalState
+  teamName: string | null
+}
+
+type WebhookEvents = {
+  players: PlayerWebhookEvent[]
+  goals: GoalWebhookEvent[]
+}
+
+// Per-run counters written to refresh_runs when the run finishes.
+const REFRESH_RUN_MAX_ERRORS = 50
+const runTelemetry = {
+  cycles: 0,
+  playersPolled: 0,
+  playerErrors: 0,
+  matchesIngested: 0,
+  lpEventsWritten: 0,
+  errors: [] as Array<{ puuid: string; error: string; at: string }>,
+}
+
 function toFiniteNumber(value: unknown): number | null {
   const n = typeof value === 'number' ? value : Number(value)
   return Number.isFinite(n) ? n : null
 }
 
+function gameCountChanged(snap: QueueSnapshot | null, prevWinsRaw: unknown, prevLossesRaw: unknown): boolean {
+  if (!snap) return false
+
+  const prevWins = toFiniteNumber(prevWinsRaw)
+  const prevLosses = toFiniteNumber(prevLossesRaw)
+  if (prevWins === null || prevLosses === null) return true
+
+  const previousGames = prevWins + prevLosses
+  const currentGames = snap.wins + snap.losses
+  return currentGames !== previousGames
+}
+
 function shouldSyncMatches(opts: {
   state: RefreshState | undefined
-  soloSnap: SoloSnapshot | null
+  soloSnap: QueueSnapshot | null
+  // Only passed for players on a flex-enabled leaderboard.
+  flexSnap: QueueSnapshot | null
   nowMs: number
 }): boolean {
-  const { state, soloSnap, nowMs } = opts
+  const { state, soloSnap, flexSnap, nowMs } = opts
 
   const lastMatchesSyncAt = typeof state?.last_matches_sync_at === 'string' ? state.last_matches_sync_at : null
   if (!lastMatchesSyncAt) return true
@@ -553,106 +684,221 @@ function shouldSyncMatches(opts: {
 
   if (nowMs - lastSyncMs >= MATCH_SYNC_FALLBACK_MS) return true
 
-  if (!soloSnap) return false
-
-  const prevWins = toFiniteNumber(state?.last_solo_wins)
-  const prevLosses = toFiniteNumber(state?.last_solo_losses)
-  if (prevWins === null || prevLosses === null) return true
+  return (
+    gameCountChanged(soloSnap, state?.last_solo_wins, state?.last_solo_losses) ||
+    gameCountChanged(flexSnap, state?.last_flex_wins, state?.last_flex_losses)
+  )
+}
 
-  const previousGames = prevWins + prevLosses
-  const currentGames = soloSnap.wins + soloSnap.losses
-  return currentGames !== previousGames
+// Riot's matchlist filter takes a single queue. Solo (and flex, for flex-enabled
+// players) always get their own pass, so LP events are matched to a game of the
+// same queue. Any other MATCHLIST_QUEUE, including empty for every queue, adds
+// one more pass that only feeds the backfill.
+function matchlistQueuesFor(trackFlex: boolean): string[] {
+  const queues = [String(QUEUE_SOLO_ID)]
+  if (trackFlex) queues.push(String(QUEUE_FLEX_ID))
+  if (!queues.includes(MATCHLIST_QUEUE)) queues.push(MATCHLIST_QUEUE)
+  return queues
 }
 
-async function fetchMatchIdsPage(puuid: string, start: number, count: number): Promise<string[]> {
+async function fetchMatchIdsPage(
+  puuid: string,
+  platform: Platform,
+  queue: string,
+  start: number,
+  count: number
+): Promise<string[]> {
   const params = new URLSearchParams({ start: String(start), count: String(count) })
-  if (MATCHLIST_QUEUE) params.set('queue', MATCHLIST_QUEUE)
-  if (MATCHLIST_SEASON_START_UNIX != null) params.set('startTime', String(MATCHLIST_SEASON_START_UNIX))
+  if (queue) params.set('queue', queue)
+  const seasonStartUnix = matchlistSeasonStartUnix(platform)
+  if (seasonStartUnix != null) params.set('startTime', String(seasonStartUnix))
   return riotFetch<string[]>(
-    `${AMERICAS}/lol/match/v5/matches/by-puuid/${encodeURIComponent(puuid)}/ids?${params.toString()}`
+    `${regionalBaseUrl(platform)}/lol/match/v5/matches/by-puuid/${encodeURIComponent(puuid)}/ids?${params.toString()}`
   )
 }
 
-async function syncMatchesAll(
+type MatchlistScan = {
+  // Newest-first match ids per matchlist queue filter ('' when unfiltered).
+  idsByQueue: Map<string, string[]>
+  // Ids this scan saw for the first time (not stored, not already queued).
+  newIds: string[]
+  fullScan: boolean
+}
+
+// Scans the player's matchlist and enqueues every match we have no participant
+// row for. A full scan (up to MATCHLIST_MAX_PAGES) only runs for players we have
+// never fully scanned, or once MATCHLIST_FULL_SCAN_INTERVAL_MS has passed; in
+// between, paging stops at the first page that turns up nothing new.
+async function scanMatchlist(
   puuid: string,
-  playerCache: Map<string, { game_name: string; tag_line: string }>
-): Promise<{ ids: string[]; newIds: string[] }> {
-  const playerIdentity = playerCache.get(puuid)
+  platform: Platform,
+  state: RefreshState | undefined,
+  queues: string[]
+): Promise<MatchlistScan> {
+  const lastFullScanMs = state?.last_matchlist_full_scan_at
+    ? new Date(state.last_matchlist_full_scan_at).getTime()
+    : NaN
+  const isNewPlayer = !Number.isFinite(lastFullScanMs)
+  const fullScan = isNewPlayer || Date.now() - lastFullScanMs >= MATCHLIST_FULL_SCAN_INTERVAL_MS
+
+  const idsByQueue = new Map<string, string[]>()
+  const newIds: string[] = []
+
+  // Returns how many ids on the page were neither stored nor already queued.
+  async function processPage(pageIds: string[], priority: number): Promise<number> {
+    const [{ data: existingParticipants, error: participantsErr }, { data: queued, error: queuedErr }] =
+      await Promise.all([
+        supabase
+          .from('match_participants')
+          .select('match_id')
+          .in('match_id', pageIds)
+          .eq('puuid', puuid),
+        supabase
+          .from('match_backfill_queue')
+          .select('match_id')
+          .in('match_id', pageIds)
+          .eq('puuid', puuid),
+      ])
+    if (participantsErr) throw participantsErr
+    if (queuedErr) throw queuedErr
 
-  const identityGameName = String(playerIdentity?.game_name ?? '').trim().toLowerCase()
-  const identityTagLine = String(playerIdentity?.tag_line ?? '').trim().toLowerCase()
+    const knownSet = new Set([
+      ...(existingParticipants ?? []).map((r) => r.match_id),
+      ...(queued ?? []).map((r) => r.match_id),
+    ])
+    const missing = pageIds.filter((id) => !knownSet.has(id))
+    if (!missing.length) return 0
 
-  const ids: string[] = []
-  const idsSet = new Set<string>()
-  const matchIdsToFetch = new Set<string>()
+    const { error } = await supabase
+      .from('match_backfill_queue')
+      .upsert(
+        missing.map((match_id) => ({ match_id, puuid, platform, priority })),
+        { onConflict: 'match_id,puuid', ignoreDuplicates: true }
+      )
+    if (error) throw error
 
-  const firstPageIds = await fetchMatchIdsPage(puuid, 0, MATCHLIST_FIRST_PAGE_SIZE)
-  if (!firstPageIds.length) {
-    return { ids: [], newIds: [] }
+    newIds.push(...missing)
+    return missing.length
   }
 
-  // Do not early-return when latest match id is unchanged.
-  // We still need to scan additional pages because past sync runs may have
-  // missed historical matches (rate limits, run caps, interrupted jobs, etc.).
-  // Missing historical rows directly cause champion/game under-counting.
+  for (const queue of queues) {
+    const ids: string[] = []
+    const idsSet = new Set<string>()
+    idsByQueue.set(queue, ids)
 
-  async function processPage(pageIds: string[]) {
-    for (const id of pageIds) {
-      if (!idsSet.has(id)) {
-        idsSet.add(id)
-        ids.push(id)
+    const collect = (pageIds: string[]) => {
+      for (const id of pageIds) {
+        if (!idsSet.has(id)) {
+          idsSet.add(id)
+          ids.push(id)
+        }
       }
     }
 
-    const { data: existingParticipants, error: participantsErr } = await supabase
-      .from('match_participants')
-      .select('match_id')
-      .in('match_id', pageIds)
-      .eq('puuid', puuid)
-    if (participantsErr) throw participantsErr
-
-    const existingParticipantsSet = new Set((existingParticipants ?? []).map((r) => r.match_id))
-    const missing = pageIds.filter((id) => !existingParticipantsSet.has(id))
+    const firstPageIds = await fetchMatchIdsPage(puuid, platform, queue, 0, MATCHLIST_FIRST_PAGE_SIZE)
+    if (!firstPageIds.length) continue
 
-    for (const id of missing) matchIdsToFetch.add(id)
-  }
+    collect(firstPageIds)
+    let newOnPage = await processPage(
+      firstPageIds,
+      isNewPlayer ? BACKFILL_PRIORITY_NEW_PLAYER_RECENT : BACKFILL_PRIORITY_RECENT
+    )
 
-  await processPage(firstPageIds)
+    let exhaustedPages = firstPageIds.length < MATCHLIST_FIRST_PAGE_SIZE
+    let start = MATCHLIST_FIRST_PAGE_SIZE
+    for (let page = 1; page < MATCHLIST_MAX_PAGES && !exhaustedPages; page += 1) {
+      if (!fullScan && newOnPage === 0) break
 
-  let exhaustedPages = firstPageIds.length < MATCHLIST_FIRST_PAGE_SIZE
-  let start = MATCHLIST_FIRST_PAGE_SIZE
-  for (let page = 1; page < MATCHLIST_MAX_PAGES; page += 1) {
-    const pageIds = await fetchMatchIdsPage(puuid, start, MATCHLIST_PAGE_SIZE)
-    if (!pageIds.length) {
-      exhaustedPages = true
-      break
+      const pageIds = await fetchMatchIdsPage(puuid, platform, queue, start, MATCHLIST_PAGE_SIZE)
+      if (!pageIds.length) {
+        exhaustedPages = true
+        break
+      }
+      collect(pageIds)
+      newOnPage = await processPage(
+        pageIds,
+        isNewPlayer ? BACKFILL_PRIORITY_NEW_PLAYER_HISTORY : BACKFILL_PRIORITY_GAP
+      )
+      if (pageIds.length < MATCHLIST_PAGE_SIZE) {
+        exhaustedPages = true
+        break
+      }
+      start += MATCHLIST_PAGE_SIZE
     }
-    await processPage(pageIds)
-    if (pageIds.length < MATCHLIST_PAGE_SIZE) {
-      exhaustedPages = true
-      break
+
+    if (exhaustedPages && Number.isFinite(MATCHLIST_SEASON_START_MS)) {
+      // NOTE: destructive stale-row reconciliation is intentionally disabled.
+      // We only backfill missing rows to avoid accidental data loss from transient
+      // Riot matchlist gaps or paging inconsistencies.
     }
-    start += MATCHLIST_PAGE_SIZE
   }
 
-  if (exhaustedPages && Number.isFinite(MATCHLIST_SEASON_START_MS)) {
-    // NOTE: destructive stale-row reconciliation is intentionally disabled.
-    // We only backfill missing rows to avoid accidental data loss from transient
-    // Riot matchlist gaps or paging inconsistencies.
-  }
+  return { idsByQueue, newIds, fullScan }
+}
 
-  if (!ids.length) {
-    return { ids: [], newIds: [] }
-  }
+type BackfillDrain = {
+  fetchedIds: string[]
+  pending: number
+  failed: number
+}
+
+// Fetches up to MATCHDETAIL_MAX_PER_RUN queued match details for one player,
+// highest priority (then newest match id) first. Failures stay queued with a
+// backoff until MATCH_BACKFILL_MAX_ATTEMPTS, after which they are parked as FAILED.
+async function drainMatchBackfill(
+  puuid: string,
+  platform: Platform,
+  playerCache: Map<string, { game_name: string; tag_line: string }>
+): Promise<BackfillDrain> {
+  const playerIdentity = playerCache.get(puuid)
+
+  const identityGameName = String(playerIdentity?.game_name ?? '').trim().toLowerCase()
+  const identityTagLine = String(playerIdentity?.tag_line ?? '').trim().toLowerCase()
 
-  const matchIdsArray = Array.from(matchIdsToFetch)
-  const limitedIds = matchIdsArray.slice(0, MATCHDETAIL_MAX_PER_RUN)
+  const { data: queued, error: queueErr } = await supabase
+    .from('match_backfill_queue')
+    .select('match_id, attempts')
+    .eq('puuid', puuid)
+    .eq('status', 'PENDING')
+    .lte('next_attempt_at', new Date().toISOString())
+    .order('priority', { ascending: false })
+    .order('match_id', { ascending: false })
+    .limit(MATCHDETAIL_MAX_PER_RUN)
+  if (queueErr) throw queueErr
 
   const matchUpserts = []
   const participantUpserts = []
+  const doneIds: string[] = []
+
+  for (const row of queued ?? []) {
+    const matchId = String(row.match_id)
+    let fetchError: unknown = null
+    const match = await riotFetch<any>(`${regionalBaseUrl(platform)}/lol/match/v5/matches/${encodeURIComponent(matchId)}`)
+      .catch((e: unknown) => {
+        fetchError = e
+        return null
+      })
+
+    if (!match) {
+      const attempts = Number(row.attempts ?? 0) + 1
+      const backoffMs = Math.min(2 ** attempts * 60_000, 24 * 60 * 60 * 1000)
+      const { error } = await supabase
+        .from('match_backfill_queue')
+        .update({
+          attempts,
+          status: attempts >= MATCH_BACKFILL_MAX_ATTEMPTS ? 'FAILED' : 'PENDING',
+          last_error: fetchError instanceof Error ? fetchError.message : String(fetchError),
+          last_attempt_at: new Date().toISOString(),
+          next_attempt_at: new Date(Date.now() + backoffMs).toISOString(),
+        })
+        .eq('match_id', matchId)
+        .eq('puuid', puuid)
+      if (error) throw error
 
-  for (const matchId of limitedIds) {
-    const match = await riotFetch<any>(`${AMERICAS}/lol/match/v5/matches/${encodeURIComponent(matchId)}`)
+      // Out of rate budget: leave the rest for the next run.
+      if (fetchError instanceof RiotApiError && fetchError.status === 429) break
+      continue
+    }
 
     const info = match.info
     const meta = match.metadata
@@ -676,32 +922,28 @@ async function syncMatchesAll(
       })
     }
 
-    if (part) {
-      // Determine end type
-      let endType: 'REMAKE' | 'EARLY_SURRENDER' | 'SURRENDER' | 'NORMAL' = 'NORMAL'
-      if (info.gameDuration < 300) { // Less than 5 minutes
-        endType = 'REMAKE'
-      } else if (info.gameEndedInEarlySurrender) {
-        endType = 'EARLY_SURRENDER'
-      } else if (info.gameEndedInSurrender) {
-        endType = 'SURRENDER'
-      }
+    // Determine end type
+    let endType: MatchEndType = 'NORMAL'
+    if (info.gameDuration < 300) { // Less than 5 minutes
+      endType = 'REMAKE'
+    } else if (info.gameEndedInEarlySurrender) {
+      endType = 'EARLY_SURRENDER'
+    } else if (info.gameEndedInSurrender) {
+      endType = 'SURRENDER'
+    }
 
-      participantUpserts.push({
-        match_id: meta.matchId,
-        puuid,
-        champion_id: Number(part.championId ?? 0),
-        kills: Number(part.kills ?? 0),
-        deaths: Number(part.deaths ?? 0),
-        assists: Number(part.assists ?? 0),
-        cs: Number((part.totalMinionsKilled ?? 0) + (part.neutralMinionsKilled ?? 0)),
-        win: Boolean(part.win),
-        vision_score: Number(part.visionScore ?? 0),
-        end_type: endType,
-        // LP data will be populated by updateMatchParticipantsWithLpData after all matches are fetched
-      })
+    // Store all ten participants so teammate/opponent stats don't need Riot.
+    // The tracked player's row is keyed by our PUUID even when matched by Riot ID.
+    // LP data is filled in by updateMatchParticipantsWithLpData, for these matches
+    // and for any match that gets an LP event later in the run.
+    for (const p of participants) {
+      const rowPuuid = p === part ? puuid : String(p?.puuid ?? '').trim()
+      if (!rowPuuid || (p !== part && rowPuuid === puuid)) continue
+      participantUpserts.push(participantRow(meta.matchId, rowPuuid, p, endType))
     }
 
+    doneIds.push(matchId)
+
     if (MATCHDETAIL_SLEEP_MS > 0) await sleep(MATCHDETAIL_SLEEP_MS)
   }
 
@@ -710,6 +952,7 @@ async function syncMatchesAll(
       .from('matches')
       .upsert(matchUpserts, { onConflict: 'match_id' })
     if (error) throw error
+    runTelemetry.matchesIngested += matchUpserts.length
   }
 
   if (participantUpserts.length > 0) {
@@ -720,7 +963,31 @@ async function syncMatchesAll(
     if (error) throw error
   }
 
-  return { ids, newIds: limitedIds }
+  if (doneIds.length > 0) {
+    const { error } = await supabase
+      .from('match_backfill_queue')
+      .delete()
+      .eq('puuid', puuid)
+      .in('match_id', doneIds)
+    if (error) throw error
+  }
+
+  const [{ count: pending, error: pendingErr }, { count: failed, error: failedErr }] = await Promise.all([
+    supabase
+      .from('match_backfill_queue')
+      .select('match_id', { count: 'exact', head: true })
+      .eq('puuid', puuid)
+      .eq('status', 'PENDING'),
+    supabase
+      .from('match_backfill_queue')
+      .select('match_id', { count: 'exact', head: true })
+      .eq('puuid', puuid)
+      .eq('status', 'FAILED'),
+  ])
+  if (pendingErr) throw pendingErr
+  if (failedErr) throw failedErr
+
+  return { fetchedIds: doneIds, pending: pending ?? 0, failed: failed ?? 0 }
 }
 
 async function updateMatchParticipantsWithLpData(puuid: string, matchIds: string[]) {
@@ -729,7 +996,7 @@ async function updateMatchParticipantsWithLpData(puuid: string, matchIds: string
   // Get LP events for these matches
   const { data: lpEvents, error: lpError } = await supabase
     .from('player_lp_events')
-    .select('match_id, lp_before, lp_after, lp_delta, note')
+    .select('match_id, queue_type, lp_before, lp_after, lp_delta, note')
     .eq('puuid', puuid)
     .in('match_id', matchIds)
 
@@ -743,9 +1010,9 @@ async function updateMatchParticipantsWithLpData(puuid: string, matchIds: string
   // Get LP history to find rank snapshots
   const { data: lpHistory, error: histError } = await supabase
     .from('player_lp_history')
-    .select('tier, rank, lp, fetched_at')
+    .select('queue_type, tier, rank, lp, fetched_at')
     .eq('puuid', puuid)
-    .eq('queue_type', QUEUE_SOLO)
+    .in('queue_type', [QUEUE_SOLO, QUEUE_FLEX])
     .order('fetched_at', { ascending: true })
 
   if (histError) {
@@ -781,8 +1048,9 @@ async function updateMatchParticipantsWithLpData(puuid: string, matchIds: string
     if (!matchEndTs) continue
 
     // Find rank snapshot before this match
+    const eventQueue = event.queue_type ?? QUEUE_SOLO
     const beforeSnapshot = lpHistory
-      ?.filter(h => new Date(h.fetched_at).getTime() <= matchEndTs)
+      ?.filter(h => h.queue_type === eventQueue && new Date(h.fetched_at).getTime() <= matchEndTs)
       ?.slice(-1)[0] // Get the most recent one before match
 
     if (!beforeSnapshot) continue
@@ -823,7 +1091,7 @@ async function updateMatchParticipantsWithLpData(puuid: string, matchIds: string
   console.log('[updateLpData]', puuid.slice(0, 12), 'updated', lpEvents.length, 'matches')
 }
 
-async function insertLpHistory(puuid: string, snap: SoloSnapshot) {
+async function insertLpHistory(puuid: string, snap: QueueSnapshot) {
   const { error } = await supabase.from('player_lp_history').insert({
     puuid,
     queue_type: snap.queue_type,
@@ -837,27 +1105,67 @@ async function insertLpHistory(puuid: string, snap: SoloSnapshot) {
   if (error) throw error
 }
 
+type QueueLpState = {
+  lp: number | null
+  tier: string | null
+  rank: string | null
+  wins: number | null
+  losses: number | null
+  match_id: string | null
+}
+
+// Solo and flex progress live side by side in player_riot_state as
+// last_solo_* and last_flex_* columns.
+function queueStatePrefix(queueType: QueueSnapshot['queue_type']) {
+  return queueType === QUEUE_FLEX ? 'last_flex' : 'last_solo'
+}
+
+function readQueueLpState(state: RefreshState | undefined, queueType: QueueSnapshot['queue_type']): QueueLpState {
+  const raw = (state ?? {}) as Record<string, unknown>
+  const prefix = queueStatePrefix(queueType)
+  const lp = raw[`${prefix}_lp`]
+  const wins = raw[`${prefix}_wins`]
+  const losses = raw[`${prefix}_losses`]
+  const tier = raw[`${prefix}_tier`]
+  const rank = raw[`${prefix}_rank`]
+  const matchId = raw[`${prefix}_match_id`]
+  return {
+    lp: typeof lp === 'number' ? Number(lp) : null,
+    tier: tier ? String(tier) : null,
+    rank: rank ? String(rank) : null,
+    wins: typeof wins === 'number' ? Number(wins) : null,
+    losses: typeof losses === 'number' ? Number(losses) : null,
+    match_id: matchId ? String(matchId) : null,
+  }
+}
+
+function queueLpStatePatch(queueType: QueueSnapshot['queue_type'], next: QueueLpState): Record<string, number | string | null> {
+  const prefix = queueStatePrefix(queueType)
+  return {
+    [`${prefix}_lp`]: next.lp,
+    [`${prefix}_tier`]: next.tier,
+    [`${prefix}_rank`]: next.rank,
+    [`${prefix}_wins`]: next.wins,
+    [`${prefix}_losses`]: next.losses,
+    [`${prefix}_match_id`]: next.match_id,
+  }
+}
+
 async function maybeInsertPerGameLpEvent(opts: {
   puuid: string
-  snap: SoloSnapshot
+  snap: QueueSnapshot
+  // Newest-first match ids from this queue's matchlist.
   ids: string[]
-  state: RefreshState | undefined
-}): Promise<{
-  last_solo_lp: number
-  last_solo_tier: string
-  last_solo_rank: string
-  last_solo_wins: number
-  last_solo_losses: number
-  last_solo_match_id: string | null
-}> {
-  const { puuid, snap, ids, state } = opts
-
-  const lastLp = typeof state?.last_solo_lp === 'number' ? Number(state.last_solo_lp) : null
-  const lastW = typeof state?.last_solo_wins === 'number' ? Number(state.last_solo_wins) : null
-  const lastL = typeof state?.last_solo_losses === 'number' ? Number(state.last_solo_losses) : null
-  const lastMatch = state?.last_solo_match_id ? String(state.last_solo_match_id) : null
-  const lastTier = state?.last_solo_tier ? String(state.last_solo_tier) : null
-  const lastRank = state?.last_solo_rank ? String(state.last_solo_rank) : null
+  prev: QueueLpState
+}): Promise<{ state: QueueLpState; lpEventMatchId: string | null }> {
+  const { puuid, snap, ids, prev } = opts
+
+  const lastLp = prev.lp
+  const lastW = prev.wins
+  const lastL = prev.losses
+  const lastMatch = prev.match_id
+  const lastTier = prev.tier
+  const lastRank = prev.rank
 
   let newSince: string[] = []
   if (ids.length && lastMatch) {
@@ -867,15 +1175,17 @@ async function maybeInsertPerGameLpEvent(opts: {
 
   const newest = ids[0] ?? null
 
+  const state: QueueLpState = {
+    lp: snap.lp,
+    tier: snap.tier,
+    rank: snap.rank,
+    wins: snap.wins,
+    losses: snap.losses,
+    match_id: newest,
+  }
+
   if (lastLp === null || lastW === null || lastL === null) {
-    return {
-      last_solo_lp: snap.lp,
-      last_solo_tier: snap.tier,
-      last_solo_rank: snap.rank,
-      last_solo_wins: snap.wins,
-      last_solo_losses: snap.losses,
-      last_solo_match_id: newest,
-    }
+    return { state, lpEventMatchId: null }
   }
 
   const gamesDelta = (snap.wins + snap.losses) - (lastW + lastL)
@@ -938,18 +1248,63 @@ async function maybeInsertPerGameLpEvent(opts: {
     if (error && !String(error.message ?? '').toLowerCase().includes('duplicate')) {
       throw error
     }
+    if (!error) runTelemetry.lpEventsWritten += 1
+
+    if (!error && snap.queue_type === QUEUE_SOLO) {
+      const rankState = { puuid, tier: snap.tier, rank: snap.rank, lp: snap.lp, at: snap.fetched_at }
+      const players: PlayerWebhookEvent[] = []
+      if (stepDelta !== 0) players.push({ type: 'RANK_CHANGE', promoted: stepDelta > 0, lpDelta, ...rankState })
+      if (lpDelta > 0) players.push({ type: 'PEAK_LP', ...rankState })
+      try {
+        await queueWebhookEvents({ players, goals: [] })
+      } catch (webhookErr) {
+        console.warn('[webhooks] failed to queue player events (non-fatal)', webhookErr)
+      }
+    }
 
     console.log('[lp_event]', puuid.slice(0, 12), (matchId ?? 'no_match').slice(0, 10), 'delta', lpDelta)
-  }
+    return { state, lpEventMatchId: matchId }
+  } else if (hasRankMovement && gamesDelta === 0) {
+    // LP lost without a game is a dodge penalty or Diamond+ decay. Record it on
+    // its own so it isn't folded into the next game's delta.
+    const lpDelta = computeLpDelta({
+      lastTier,
+      lastRank,
+      lastLp,
+      nextTier: snap.tier,
+      nextRank: snap.rank,
+      nextLp: snap.lp,
+    })
 
-  return {
-    last_solo_lp: snap.lp,
-    last_solo_tier: snap.tier,
-    last_solo_rank: snap.rank,
-    last_solo_wins: snap.wins,
-    last_solo_losses: snap.losses,
-    last_solo_match_id: newest,
+    if (lpDelta < 0) {
+      const note = classifyGamelessLpLoss(lastTier, lpDelta)
+      const { error } = await supabase.from('player_lp_events').insert({
+        puuid,
+        queue_type: snap.queue_type,
+        match_id: null,
+        lp_before: lastLp,
+        lp_after: snap.lp,
+        lp_delta: lpDelta,
+        wins_before: lastW,
+        wins_after: snap.wins,
+        losses_before: lastL,
+        losses_after: snap.losses,
+        recorded_at: snap.fetched_at,
+        note,
+        match_verified: false,
+        match_verify_error: null,
+      })
+
+      if (error && !String(error.message ?? '').toLowerCase().includes('duplicate')) {
+        throw error
+      }
+      if (!error) runTelemetry.lpEventsWritten += 1
+
+      console.log('[lp_event]', puuid.slice(0, 12), note.toLowerCase(), 'delta', lpDelta)
+    }
   }
+
+  return { state, lpEventMatchId: null }
 }
 
 async function computeTopChamps(puuid: string) {
@@ -1059,13 +1414,19 @@ async function fetchAndUpsertRankCutoffsIfDue() {
 
 async function refreshOnePlayer(
   puuid: string,
+  platform: Platform,
   state: RefreshState | undefined,
-  playerCache: Map<string, { game_name: string; tag_line: string }>
+  playerCache: Map<string, { game_name: string; tag_line: string }>,
+  trackFlex: boolean,
+  // Write a solo history row even if nothing changed: a scored window is
+  // opening and the player has no row to score it from.
+  writeWindowBaseline = false
 ): Promise<
   | { requestedPuuid: string; actualPuuid: string; patch: Record<string, any> }
   | null
 > {
-  console.log('[player] refresh', puuid.slice(0, 12))
+  console.log('[player] refresh', puuid.slice(0, 12), platform)
+  runTelemetry.playersPolled += 1
 
   try {
     const accountLastSyncMs = state?.last_account_sync_at
@@ -1079,7 +1440,7 @@ async function refreshOnePlayer(
       const { data: migratedState, error: migratedStateErr } = await supabase
         .from('player_riot_state')
         .select(
-          'last_matches_sync_at, last_solo_wins, last_solo_losses, last_solo_lp, last_solo_tier, last_solo_rank, last_solo_match_id, last_account_sync_at, last_top_champs_at, last_game_at'
+          'last_matches_sync_at, last_solo_wins, last_solo_losses, last_solo_lp, last_solo_tier, last_solo_rank, last_solo_match_id, last_account_sync_at, last_top_champs_at, last_game_at, last_matchlist_full_scan_at, backfill_pending, last_flex_wins, last_flex_losses, last_flex_lp, last_flex_tier, last_flex_rank, last_flex_match_id'
         )
         .eq('puuid', actualPuuid)
         .maybeSingle()
@@ -1096,40 +1457,60 @@ async function refreshOnePlayer(
     
     const now = new Date().toISOString()
     const summonerData = accountSyncWasStale
-      ? await syncSummonerBasics(actualPuuid)
+      ? await syncSummonerBasics(actualPuuid, platform)
       : {}
 
-    const { soloSnap: snapBefore, rankRows: rankRowsBefore } = await syncRankByPuuid(actualPuuid)
+    const {
+      soloSnap: snapBefore,
+      flexSnap: flexSnapBefore,
+      rankRows: rankRowsBefore,
+    } = await syncRankByPuuid(actualPuuid, platform)
 
     const nowMs = Date.now()
-    const shouldSync = shouldSyncMatches({ state: effectiveState, soloSnap: snapBefore, nowMs })
-    const { ids, newIds } = shouldSync
-      ? await syncMatchesAll(actualPuuid, playerCache)
-      : { ids: [] as string[], newIds: [] as string[] }
-
-    const { soloSnap: snapAfter, rankRows: rankRowsAfter } = newIds.length > 0
-      ? await syncRankByPuuid(actualPuuid)
-      : { soloSnap: snapBefore, rankRows: rankRowsBefore }
+    const shouldSync = shouldSyncMatches({
+      state: effectiveState,
+      soloSnap: snapBefore,
+      flexSnap: trackFlex ? flexSnapBefore : null,
+      nowMs,
+    })
+    const matchlistQueues = matchlistQueuesFor(trackFlex)
+    const scan = shouldSync
+      ? await scanMatchlist(actualPuuid, platform, effectiveState, matchlistQueues)
+      : { idsByQueue: new Map<string, string[]>(), newIds: [] as string[], fullScan: false }
+    const ids = scan.idsByQueue.get(String(QUEUE_SOLO_ID)) ?? []
+    const flexIds = scan.idsByQueue.get(String(QUEUE_FLEX_ID)) ?? []
+
+    // Keep draining a pending backfill even when the matchlist itself is unchanged.
+    const hasPendingBackfill = scan.newIds.length > 0 || (toFiniteNumber(effectiveState?.backfill_pending) ?? 0) > 0
+    const backfill = hasPendingBackfill
+      ? await drainMatchBackfill(actualPuuid, platform, playerCache)
+      : null
+    const drainedIds = backfill?.fetchedIds ?? []
+    // Only games new to the matchlist mean the rank or champion pool moved;
+    // drained ids can be old history queued by earlier runs.
+    const newIds = scan.newIds
+
+    const {
+      soloSnap: snapAfter,
+      flexSnap: flexSnapAfter,
+      rankRows: rankRowsAfter,
+    } = shouldSync && newIds.length > 0
+      ? await syncRankByPuuid(actualPuuid, platform)
+      : { soloSnap: snapBefore, flexSnap: flexSnapBefore, rankRows: rankRowsBefore }
 
     if (!shouldSync) {
       console.log('[player] skip match sync (league game count unchanged and fallback not due)', actualPuuid.slice(0, 12))
     }
 
-    let soloPatch: {
-      last_solo_lp: number | null
-      last_solo_tier: string | null
-      last_solo_rank: string | null
-      last_solo_wins: number | null
-      last_solo_losses: number | null
-      last_solo_match_id: string | null
-    } = {
-      last_solo_lp: snapAfter?.lp ?? null,
-      last_solo_tier: snapAfter?.tier ?? null,
-      last_solo_rank: snapAfter?.rank ?? null,
-      last_solo_wins: snapAfter?.wins ?? null,
-      last_solo_losses: snapAfter?.losses ?? null,
-      last_solo_match_id: shouldSync ? ids[0] ?? null : (effectiveState?.last_solo_match_id ?? null),
-    }
+    const prevSolo = readQueueLpState(effectiveState, QUEUE_SOLO)
+    let soloPatch = queueLpStatePatch(QUEUE_SOLO, {
+      lp: snapAfter?.lp ?? null,
+      tier: snapAfter?.tier ?? null,
+      rank: snapAfter?.rank ?? null,
+      wins: snapAfter?.wins ?? null,
+      losses: snapAfter?.losses ?? null,
+      match_id: shouldSync ? ids[0] ?? null : prevSolo.match_id,
+    })
 
     const prevLp = toFiniteNumber(effectiveState?.last_solo_lp)
     const prevTier = effectiveState?.last_solo_tier ?? null
@@ -1147,7 +1528,30 @@ async function refreshOnePlayer(
         : (snapAfter.wins + snapAfter.losses) !== (prevWins + prevLosses)
       : prevWins !== null || prevLosses !== null
 
-    if (rankChanged || gamesChanged) {
+    // Flex progress is only tracked for players on a flex-enabled leaderboard.
+    const prevFlex = readQueueLpState(effectiveState, QUEUE_FLEX)
+    let flexPatch: Record<string, number | string | null> = {}
+    let flexChanged = false
+    if (trackFlex) {
+      flexPatch = queueLpStatePatch(QUEUE_FLEX, {
+        lp: flexSnapAfter?.lp ?? null,
+        tier: flexSnapAfter?.tier ?? null,
+        rank: flexSnapAfter?.rank ?? null,
+        wins: flexSnapAfter?.wins ?? null,
+        losses: flexSnapAfter?.losses ?? null,
+        match_id: shouldSync ? flexIds[0] ?? null : prevFlex.match_id,
+      })
+
+      const flexRankChanged = flexSnapAfter
+        ? flexSnapAfter.lp !== prevFlex.lp || flexSnapAfter.tier !== prevFlex.tier || flexSnapAfter.rank !== prevFlex.rank
+        : prevFlex.lp !== null || prevFlex.tier !== null || prevFlex.rank !== null
+      const flexGamesChanged = flexSnapAfter
+        ? gameCountChanged(flexSnapAfter, prevFlex.wins, prevFlex.losses)
+        : prevFlex.wins !== null || prevFlex.losses !== null
+      flexChanged = flexRankChanged || flexGamesChanged
+    }
+
+    if (rankChanged || gamesChanged || flexChanged) {
       if (rankRowsAfter.length > 0) {
         const { error: rankSnapErr } = await supabase
           .from('player_rank_snapshot')
@@ -1160,18 +1564,31 @@ async function refreshOnePlayer(
           .eq('puuid', actualPuuid)
         if (rankDeleteErr) throw rankDeleteErr
       }
-
-      if (snapAfter) {
-        await insertLpHistory(actualPuuid, snapAfter)
-      }
     }
 
+    // Matches that just got an LP event. The match may have been ingested
+    // earlier (another tracked player was in it), so it won't be in drainedIds.
+    const lpEventMatchIds: string[] = []
+
     if (snapAfter && (rankChanged || gamesChanged)) {
-      soloPatch = await maybeInsertPerGameLpEvent({ puuid: actualPuuid, snap: snapAfter, ids, state: effectiveState })
+      await insertLpHistory(actualPuuid, snapAfter)
+      const solo = await maybeInsertPerGameLpEvent({ puuid: actualPuuid, snap: snapAfter, ids, prev: prevSolo })
+      soloPatch = queueLpStatePatch(QUEUE_SOLO, solo.state)
+      if (solo.lpEventMatchId) lpEventMatchIds.push(solo.lpEventMatchId)
+    } else if (snapAfter && writeWindowBaseline) {
+      await insertLpHistory(actualPuuid, snapAfter)
     }
 
-    if (newIds.length > 0) {
-      await updateMatchParticipantsWithLpData(actualPuuid, newIds)
+    if (flexSnapAfter && flexChanged) {
+      await insertLpHistory(actualPuuid, flexSnapAfter)
+      const flex = await maybeInsertPerGameLpEvent({ puuid: actualPuuid, snap: flexSnapAfter, ids: flexIds, prev: prevFlex })
+      flexPatch = queueLpStatePatch(QUEUE_FLEX, flex.state)
+      if (flex.lpEventMatchId) lpEventMatchIds.push(flex.lpEventMatchId)
+    }
+
+    const lpMatchIds = Array.from(new Set([...drainedIds, ...lpEventMatchIds]))
+    if (lpMatchIds.length > 0) {
+      await updateMatchParticipantsWithLpData(actualPuuid, lpMatchIds)
     }
 
     const lastTopChamps = effectiveState?.last_top_champs_at
@@ -1181,7 +1598,9 @@ async function refreshOnePlayer(
     const hadNewMatches = newIds.length > 0
     let lastTopChampsAt = effectiveState?.last_top_champs_at ?? null
 
-    if (hadNewMatches || (topChampsStale && gamesChanged)) {
+    // History drained from the backfill queue refreshes stale top champions too,
+    // without recomputing them on every run of a long backfill.
+    if (hadNewMatches || (topChampsStale && (gamesChanged || drainedIds.length > 0))) {
       await computeTopChamps(actualPuuid)
       lastTopChampsAt = new Date().toISOString()
     }
@@ -1189,12 +1608,13 @@ async function refreshOnePlayer(
     const patch: Record<string, any> = {
       ...(accountSyncWasStale ? summonerData : {}),
       ...soloPatch,
+      ...flexPatch,
       last_poll_at: new Date().toISOString(),
       last_error: null,
       last_top_champs_at: lastTopChampsAt,
     }
 
-    if (rankChanged || gamesChanged) {
+    if (rankChanged || gamesChanged || flexChanged) {
       patch.last_rank_sync_at = now
     }
 
@@ -1202,6 +1622,15 @@ async function refreshOnePlayer(
       patch.last_matches_sync_at = new Date().toISOString()
     }
 
+    if (scan.fullScan && (ids.length > 0 || flexIds.length > 0)) {
+      patch.last_matchlist_full_scan_at = new Date().toISOString()
+    }
+
+    if (backfill) {
+      patch.backfill_pending = backfill.pending
+      patch.backfill_failed = backfill.failed
+    }
+
     if (accountSyncWasStale) {
       patch.last_account_sync_at = new Date().toISOString()
     }
@@ -1219,46 +1648,606 @@ async function refreshOnePlayer(
     }
   } catch (e: any) {
     console.error('[player] error', puuid.slice(0, 12), e?.message ?? e)
+    runTelemetry.playerErrors += 1
+    if (runTelemetry.errors.length < REFRESH_RUN_MAX_ERRORS) {
+      runTelemetry.errors.push({ puuid, error: String(e?.message ?? e).slice(0, 500), at: new Date().toISOString() })
+    }
     await upsertRiotState(puuid, { last_error: String(e?.message ?? e) })
     return null
   }
 }
 
+type RefreshLease = {
+  holderId: string
+  isLost: () => boolean
+  release: () => Promise<void>
+}
+
+async function acquireRefreshLease(): Promise<RefreshLease | null> {
+  const holderId = `${os.hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`
+  const ttlSeconds = Math.ceil(REFRESH_LEASE_TTL_MS / 1000)
+
+  const { data, error } = await supabase.rpc('try_acquire_refresh_lease', {
+    lease_name: REFRESH_LEASE_NAME,
+    holder: holderId,
+    ttl_seconds: ttlSeconds,
+  })
+  if (error) throw error
+
+  const row = (Array.isArray(data) ? data[0] : data) as
+    | { acquired: boolean; holder_id: string; expires_at: string }
+    | null
+  if (!row?.acquired) {
+    console.log('[lease] held by', row?.holder_id ?? 'unknown', 'until', row?.expires_at ?? 'unknown', '- exiting')
+    return null
+  }
+
+  console.log('[lease] acquired', holderId)
+
+  let lost = false
+  let heartbeatInFlight: Promise<void> | null = null
+
+  const heartbeat = setInterval(() => {
+    if (lost || heartbeatInFlight) return
+    heartbeatInFlight = (async () => {
+      const { data: renewed, error: renewErr } = await supabase.rpc('renew_refresh_lease', {
+        lease_name: REFRESH_LEASE_NAME,
+        holder: holderId,
+        ttl_seconds: ttlSeconds,
+      })
+      if (renewErr) {
+        // A single failed heartbeat is not fatal; the lease is still ours until it expires.
+        console.warn('[lease] heartbeat failed:', renewErr.message)
+        return
+      }
+      if (renewed !== true) {
+        lost = true
+        console.warn('[lease] lost to another runner', holderId)
+      }
+    })().finally(() => {
+      heartbeatInFlight = null
+    })
+  }, REFRESH_LEASE_HEARTBEAT_MS)
+
+  return {
+    holderId,
+    isLost: () => lost,
+    release: async () => {
+      clearInterval(heartbeat)
+      if (heartbeatInFlight) await heartbeatInFlight
+      if (lost) return
+      const { error: releaseErr } = await supabase.rpc('release_refresh_lease', {
+        lease_name: REFRESH_LEASE_NAME,
+        holder: holderId,
+      })
+      if (releaseErr) console.warn('[lease] release failed:', releaseErr.message)
+      else console.log('[lease] released', holderId)
+    },
+  }
+}
+
+type RefreshRunStatus = 'SUCCEEDED' | 'FAILED' | 'ABORTED'
+
+// Telemetry is best-effort: a failed write is logged but never fails the run.
+async function startRefreshRun(holderId: string): Promise<string | null> {
+  const { data, error } = await supabase
+    .from('refresh_runs')
+    .insert({ holder_id: holderId })
+    .select('id')
+    .single()
+
+  if (error) {
+    console.warn('[run] failed to record run start:', error.message)
+    return null
+  }
+  return String(data.id)
+}
+
+async function finishRefreshRun(runId: string | null, status: RefreshRunStatus, runError?: unknown) {
+  const riotStats = riot.getStats()
+  const summary = {
+    cycles: runTelemetry.cycles,
+    players_polled: runTelemetry.playersPolled,
+    player_errors: runTelemetry.playerErrors,
+    matches_ingested: runTelemetry.matchesIngested,
+    lp_events_written: runTelemetry.lpEventsWritten,
+    riot_requests: riotStats.requests,
+    riot_rate_limited: riotStats.rateLimited,
+    riot_by_status: riotStats.byStatus,
+  }
+
+  console.log(`[run] ${status.toLowerCase()}`, { ...summary, riot_queued_ms: riotStats.queuedMs })
+  if (!runId) return
+
+  const { error } = await supabase
+    .from('refresh_runs')
+    .update({
+      ...summary,
+      status,
+      finished_at: new Date().toISOString(),
+      errors: runTelemetry.errors,
+      error: runError ? (runError instanceof Error ? runError.message : String(runError)).slice(0, 1000) : null,
+    })
+    .eq('id', runId)
+  if (error) console.warn('[run] failed to record run result:', error.message)
+}
+
 async function main() {
-  await resetSeasonDataIfNeeded()
+  const lease = await acquireRefreshLease()
+  if (!lease) return
+
+  const runId = await startRefreshRun(lease.holderId)
+
+  try {
+    await runRefresh(lease)
+    await finishRefreshRun(runId, lease.isLost() ? 'ABORTED' : 'SUCCEEDED')
+  } catch (error) {
+    await finishRefreshRun(runId, 'FAILED', error)
+    throw error
+  } finally {
+    await lease.release()
+  }
+}
+
+type ActiveGame = {
+  gameId: number
+  platformId: string
+  gameQueueConfigId?: number
+  gameStartTime?: number
+  participants?: Array<{ puuid?: string | null; championId?: number }>
+}
+
+async function syncLiveGames(puuids: string[], platformByPuuid: Map<string, Platform>) {
+  if (!LIVE_GAME_POLL_ENABLED || puuids.length === 0) return
+
+  const wasLive = new Set<string>()
+  for (const chunk of chunkArray(puuids, 500)) {
+    const { data, error } = await supabase
+      .from('player_live_games')
+      .select('puuid')
+      .in('puuid', chunk)
+      .is('ended_at', null)
+    if (error) {
+      console.warn('[live] failed to load live games:', error.message)
+      return
+    }
+    for (const row of data ?? []) wasLive.add(String(row.puuid))
+  }
+
+  const nowIso = new Date().toISOString()
+  const liveRows: Array<Record<string, unknown>> = []
+  const endedPuuids: string[] = []
+
+  for (const chunk of chunkArray(puuids, PLAYER_CHECKS_PER_SECOND)) {
+    await Promise.all(
+      chunk.map(async (puuid) => {
+        const platform = platformByPuuid.get(puuid) ?? DEFAULT_PLATFORM
+        try {
+          const game = await riotFetch<ActiveGame>(
+            `${platformBaseUrl(platform)}/lol/spectator/v5/active-games/by-summoner/${encodeURIComponent(puuid)}`
+          )
+          const me = game.participants?.find((p) => p.puuid === puuid)
+          const startMs = Number(game.gameStartTime ?? 0)
+          liveRows.push({
+            puuid,
+            game_id: game.gameId,
+            platform: game.platformId,
+            match_id: `${game.platformId}_${game.gameId}`,
+            champion_id: me?.championId ?? null,
+            queue_id: game.gameQueueConfigId ?? null,
+            // gameStartTime is 0 while the game is still loading.
+            game_start_at: startMs > 0 ? new Date(startMs).toISOString() : null,
+            observed_at: nowIso,
+            ended_at: null,
+            updated_at: nowIso,
+          })
+        } catch (e) {
+          if (e instanceof RiotApiError && e.status === 404) {
+            if (wasLive.has(puuid)) endedPuuids.push(puuid)
+            return
+          }
+          console.warn('[live] spectator lookup failed', puuid.slice(0, 12), e instanceof Error ? e.message : e)
+        }
+      })
+    )
+  }
+
+  if (liveRows.length > 0) {
+    const { error } = await supabase.from('player_live_games').upsert(liveRows, { onConflict: 'puuid' })
+    if (error) console.warn('[live] upsert failed:', error.message)
+  }
+
+  if (endedPuuids.length > 0) {
+    const { error } = await supabase
+      .from('player_live_games')
+      .update({ ended_at: nowIso, updated_at: nowIso })
+      .in('puuid', endedPuuids)
+    if (error) console.warn('[live] failed to mark ended games:', error.message)
+  }
+
+  const { error: pruneErr } = await supabase
+    .from('player_live_games')
+    .delete()
+    .lt('ended_at', new Date(Date.now() - LIVE_GAME_RETENTION_MS).toISOString())
+  if (pruneErr) console.warn('[live] prune failed:', pruneErr.message)
+
+  console.log('[live] in game:', liveRows.length, 'finished:', endedPuuids.length)
+}
+
+type WebhookDeliveryInsert = {
+  leaderboard_id: string
+  event_type: WebhookEventType
+  dedupe_key: string
+  payload: DiscordWebhookPayload
+}
+
+type WebhookLeaderboardRow = {
+  id: string
+  name: string
+  slug: string
+  goal_mode: string | null
+  race_start_at: string | null
+  race_end_at: string | null
+}
+
+function ladderValue(tier?: string | null, rank?: string | null, lp?: number | null): number | null {
+  const step = rankStepIndex(tier, rank)
+  return step === null ? null : step * 100 + (lp ?? 0)
+}
+
+function localDayAndHour(nowMs: number, timeZone: string) {
+  const parts = new Intl.DateTimeFormat('en-CA', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(new Date(nowMs))
+  const get = (type: string) => parts.find((part) => part.type === type)?.value ?? ''
+  return { day: `${get('year')}-${get('month')}-${get('day')}`, hour: Number(get('hour')) }
+}
+
+// Only counts as a peak when the player already had ranked history this season
+// and the new ladder position beats all of it.
+async function isNewSeasonPeak(event: Extract<PlayerWebhookEvent, { type: 'PEAK_LP' }>) {
+  const next = ladderValue(event.tier, event.rank, event.lp)
+  if (next === null) return null
+
+  const { data, error } = await supabase
+    .from('player_lp_history')
+    .select('tier, rank, lp')
+    .eq('puuid', event.puuid)
+    .eq('queue_type', QUEUE_SOLO)
+    .gte('fetched_at', MATCHLIST_SEASON_START_ISO)
+    .lt('fetched_at', event.at)
+  if (error) throw error
+
+  let best: { value: number; label: string } | null = null
+  for (const row of data ?? []) {
+    const value = ladderValue(row.tier, row.rank, row.lp)
+    if (value === null || (best && value <= best.value)) continue
+    best = { value, label: formatRankForEmbed(row.tier, row.rank, row.lp) }
+  }
+  return best && next > best.value ? best.label : null
+}
+
+// Builds delivery rows for the given events. Race and movers posts depend on the
+// clock rather than on an event, so they're only built by the end-of-run pass.
+async function buildWebhookDeliveries(
+  webhooks: WebhookSettings[],
+  leaderboardsById: Map<string, WebhookLeaderboardRow>,
+  events: WebhookEvents,
+  includeScheduled: boolean
+): Promise<WebhookDeliveryInsert[]> {
+  const settingsByLbId = new Map(webhooks.map((hook) => [hook.leaderboard_id, hook]))
+  const lbIds = Array.from(settingsByLbId.keys())
+  const wants = (lbId: string, type: WebhookEventType) => Boolean(settingsByLbId.get(lbId)?.[WEBHOOK_TOGGLE_BY_EVENT[type]])
+  const embedLeaderboard = (lb: WebhookLeaderboardRow): WebhookLeaderboard => ({
+    name: lb.name,
+    url: APP_URL ? `${APP_URL.replace(/\/$/, '')}/lb/${lb.slug}` : null,
+  })
+
+  const { data: members, error: membersErr } = await supabase
+    .from('leaderboard_players')
+    .select('leaderboard_id, puuid, game_name')
+    .in('leaderboard_id', lbIds)
+  if (membersErr) throw membersErr
+
+  const lbIdsByPuuid = new Map<string, string[]>()
+  const puuidsByLbId = new Map<string, string[]>()
+  const nameByPuuid = new Map<string, string>()
+  for (const row of members ?? []) {
+    const puuid = String(row.puuid ?? '')
+    const lbId = String(row.leaderboard_id ?? '')
+    if (!puuid || !lbId) continue
+    lbIdsByPuuid.set(puuid, [...(lbIdsByPuuid.get(puuid) ?? []), lbId])
+    puuidsByLbId.set(lbId, [...(puuidsByLbId.get(lbId) ?? []), puuid])
+    if (row.game_name && !nameByPuuid.has(puuid)) nameByPuuid.set(puuid, String(row.game_name))
+  }
+  const playerName = (puuid: string | null) => (puuid ? nameByPuuid.get(puuid) ?? 'A player' : 'A player')
+
+  const deliveries: WebhookDeliveryInsert[] = []
+  const push = (lbId: string, type: WebhookEventType, dedupeKey: string, build: (lb: WebhookLeaderboard) => DiscordWebhookPayload) => {
+    const lb = leaderboardsById.get(lbId)
+    if (!lb || !wants(lbId, type)) return
+    deliveries.push({ leaderboard_id: lbId, event_type: type, dedupe_key: dedupeKey, payload: build(embedLeaderboard(lb)) })
+  }
+
+  for (const event of events.players) {
+    const targets = lbIdsByPuuid.get(event.puuid) ?? []
+    if (targets.length === 0) continue
+
+    if (event.type === 'RANK_CHANGE') {
+      for (const lbId of targets) {
+        push(lbId, 'RANK_CHANGE', `rank:${lbId}:${event.puuid}:${event.at}`, (lb) =>
+          rankChangeEmbed(lb, { ...event, playerName: playerName(event.puuid) })
+        )
+      }
+      continue
+    }
+
+    if (!targets.some((lbId) => wants(lbId, 'PEAK_LP'))) continue
+    const previousPeak = await isNewSeasonPeak(event)
+    if (!previousPeak) continue
+    for (const lbId of targets) {
+      push(lbId, 'PEAK_LP', `peak:${lbId}:${event.puuid}:${event.at}`, (lb) =>
+        peakLpEmbed(lb, { ...event, playerName: playerName(event.puuid), previousPeak })
+      )
+    }
+  }
+
+  for (const goal of events.goals) {
+    push(goal.lbId, 'GOAL_COMPLETED', `goal:${goal.lbId}:${goal.state.completionAt}`, (lb) =>
+      goalCompletedEmbed(lb, {
+        goalLabel: formatGoalLabel(goal.state.mode, goal.config),
+        result: formatGoalResult(goal.state.mode, goal.state.winnerValue),
+        teamName: goal.teamName,
+        winnerName: goal.state.winnerPuuid ? playerName(goal.state.winnerPuuid) : null,
+        tier: goal.state.winnerTier,
+        rank: goal.state.winnerRank,
+        lp: goal.state.winnerLp,
+        at: goal.state.completionAt ?? new Date().toISOString(),
+      })
+    )
+  }
+
+  if (!includeScheduled) return deliveries
+
+  const nowMs = Date.now()
+  for (const lb of leaderboardsById.values()) {
+    const goalMode = normalizeGoalMode(lb.goal_mode)
+    if (!isWindowedGoalMode(goalMode)) continue
+    const startMs = lb.race_start_at ? new Date(lb.race_start_at).getTime() : NaN
+    const endMs = lb.race_end_at ? new Date(lb.race_end_at).getTime() : NaN
+
+    if (nowMs >= startMs && nowMs - startMs <= WEBHOOK_RACE_NOTIFY_WINDOW_MS) {
+      push(lb.id, 'RACE_STARTED', `race_start:${lb.id}:${lb.race_start_at}`, (embedLb) =>
+        raceEmbed(embedLb, { started: true, at: new Date(startMs).toISOString(), endsAt: lb.race_end_at })
+      )
+    }
+
+    // Scored modes announce their winner through the goal completion post instead.
+    if (goalMode === 'RACE' && nowMs >= endMs && nowMs - endMs <= WEBHOOK_RACE_NOTIFY_WINDOW_MS && wants(lb.id, 'RACE_ENDED')) {
+      const puuids = puuidsByLbId.get(lb.id) ?? []
+      const { data: snaps, error: snapsErr } = puuids.length
+        ? await supabase
+            .from('player_rank_snapshot')
+            .select('puuid, tier, rank, league_points')
+            .in('puuid', puuids)
+            .eq('queue_type', QUEUE_SOLO)
+        : { data: [], error: null }
+      if (snapsErr) throw snapsErr
+      const standings = (snaps ?? [])
+        .map((row) => ({ row, value: ladderValue(row.tier, row.rank, row.league_points) ?? -1 }))
+        .sort((a, b) => b.value - a.value)
+        .map(({ row }) => ({ name: playerName(row.puuid), rank: formatRankForEmbed(row.tier, row.rank, row.league_points) }))
+      push(lb.id, 'RACE_ENDED', `race_end:${lb.id}:${lb.race_end_at}`, (embedLb) =>
+        raceEmbed(embedLb, { started: false, at: new Date(endMs).toISOString(), standings })
+      )
+    }
+  }
+
+  const { day, hour } = localDayAndHour(nowMs, process.env.MOVERS_TIMEZONE ?? 'America/Chicago')
+  const moversLbIds = lbIds.filter((lbId) => wants(lbId, 'DAILY_MOVERS'))
+  if (hour >= WEBHOOK_MOVERS_SUMMARY_HOUR && moversLbIds.length > 0) {
+    const moversKeys = moversLbIds.map((lbId) => `movers:${lbId}:${day}`)
+    const { data: sent, error: sentErr } = await supabase
+      .from('leaderboard_webhook_deliveries')
+      .select('dedupe_key')
+      .in('dedupe_key', moversKeys)
+    if (sentErr) throw sentErr
+    const sentKeys = new Set((sent ?? []).map((row) => String(row.dedupe_key)))
+
+    for (const lbId of moversLbIds) {
+      const key = `movers:${lbId}:${day}`
+      if (sentKeys.has(key)) continue
+      const movers = await getMoversDataFresh(lbId)
+      const mover = (entry: [string, number] | null) =>
+        entry ? { name: movers.playersByPuuidRecord[entry[0]]?.game_name ?? playerName(entry[0]), lpDelta: entry[1] } : null
+      push(lbId, 'DAILY_MOVERS', key, (lb) =>
+        dailyMoversEmbed(lb, { day, topGain: mover(movers.dailyTopGain), topLoss: mover(movers.resolvedTopLoss) })
+      )
+    }
+  }
+
+  return deliveries
+}
+
+async function drainWebhookDeliveries(webhooks: WebhookSettings[]) {
+  const urlByLbId = new Map(webhooks.map((hook) => [hook.leaderboard_id, hook.url]))
+
+  const { data: pending, error } = await supabase
+    .from('leaderboard_webhook_deliveries')
+    .select('id, leaderboard_id, event_type, payload, attempts')
+    .eq('status', 'PENDING')
+    .in('leaderboard_id', Array.from(urlByLbId.keys()))
+    .lte('next_attempt_at', new Date().toISOString())
+    .order('id', { ascending: true })
+    .limit(WEBHOOK_DRAIN_LIMIT)
+  if (error) throw error
+
+  let delivered = 0
+  let failed = 0
+  for (const row of pending ?? []) {
+    const url = urlByLbId.get(row.leaderboard_id)
+    if (!url) continue
+
+    const result = await postDiscordWebhook(url, row.payload as DiscordWebhookPayload)
+    const attempts = (row.attempts ?? 0) + 1
+    const nowIso = new Date().toISOString()
+
+    const patch = result.ok
+      ? { status: 'DELIVERED', attempts, delivered_at: nowIso, last_error: null }
+      : {
+          status: !result.retryable || attempts >= WEBHOOK_MAX_ATTEMPTS ? 'FAILED' : 'PENDING',
+          attempts,
+          last_error: result.error,
+          next_attempt_at: nextWebhookAttemptAt(attempts, result.retryAfterMs),
+        }
+    const { error: updateErr } = await supabase.from('leaderboard_webhook_deliveries').update(patch).eq('id', row.id)
+    if (updateErr) console.warn('[webhooks] failed to update delivery', row.id, updateErr.message)
+
+    if (result.ok) delivered += 1
+    else {
+      failed += 1
+      console.warn('[webhooks] delivery failed', { id: row.id, type: row.event_type, attempts, error: result.error })
+    }
+    await sleep(WEBHOOK_POST_SPACING_MS)
+  }
+
+  if (delivered || failed) console.log('[webhooks] delivered:', delivered, 'failed:', failed)
+}
+
+// Enabled webhooks, optionally only for the given leaderboards, with the
+// leaderboard details their embeds need.
+async function loadWebhookTargets(lbIds?: string[]) {
+  let hooksQuery = supabase
+    .from('leaderboard_webhooks')
+    .select('leaderboard_id, url, enabled, notify_rank_changes, notify_peak_lp, notify_goals, notify_races, notify_daily_movers')
+    .eq('enabled', true)
+  if (lbIds) hooksQuery = hooksQuery.in('leaderboard_id', lbIds)
+  const { data: hooks, error } = await hooksQuery
+  if (error) throw error
+
+  const webhooks = (hooks ?? []) as WebhookSettings[]
+  if (webhooks.length === 0) return { webhooks, leaderboardsById: new Map<string, WebhookLeaderboardRow>() }
+
+  const { data: lbRows, error: lbErr } = await supabase
+    .from('leaderboards')
+    .select('id, name, slug, goal_mode, race_start_at, race_end_at')
+    .in('id', webhooks.map((hook) => hook.leaderboard_id))
+  if (lbErr) throw lbErr
+  const leaderboardsById = new Map(((lbRows ?? []) as WebhookLeaderboardRow[]).map((lb) => [lb.id, lb]))
+  return { webhooks, leaderboardsById }
+}
+
+async function insertWebhookDeliveries(deliveries: WebhookDeliveryInsert[]) {
+  if (deliveries.length === 0) return
+  const { error } = await supabase
+    .from('leaderboard_webhook_deliveries')
+    .upsert(deliveries, { onConflict: 'dedupe_key', ignoreDuplicates: true })
+  if (error) throw error
+  console.log('[webhooks] queued:', deliveries.length)
+}
+
+// Queues deliveries for events as they're detected, so a crash or a lost lease
+// before the end of the run can't drop them. dedupe_key makes retries safe.
+async function queueWebhookEvents(events: WebhookEvents) {
+  if (events.players.length === 0 && events.goals.length === 0) return
+
+  const lbIds = new Set(events.goals.map((goal) => goal.lbId))
+  const puuids = Array.from(new Set(events.players.map((event) => event.puuid)))
+  if (puuids.length > 0) {
+    const { data, error } = await supabase.from('leaderboard_players').select('leaderboard_id').in('puuid', puuids)
+    if (error) throw error
+    for (const row of data ?? []) lbIds.add(String(row.leaderboard_id))
+  }
+  if (lbIds.size === 0) return
+
+  const { webhooks, leaderboardsById } = await loadWebhookTargets(Array.from(lbIds))
+  if (webhooks.length === 0) return
+  await insertWebhookDeliveries(await buildWebhookDeliveries(webhooks, leaderboardsById, events, false))
+}
+
+async function runLeaderboardWebhooks() {
+  try {
+    const { webhooks, leaderboardsById } = await loadWebhookTargets()
+    if (webhooks.length === 0) return
+
+    await insertWebhookDeliveries(await buildWebhookDeliveries(webhooks, leaderboardsById, { players: [], goals: [] }, true))
+    await drainWebhookDeliveries(webhooks)
+  } catch (error) {
+    console.warn('[webhooks] run failed (non-fatal)', error)
+  }
+}
+
+async function runRefresh(lease: RefreshLease) {
+  await archiveSeasonIfNeeded()
 
   await fetchAndUpsertRankCutoffsIfDue()
 
   const { data: lbs, error: lbErr } = await supabase
     .from('leaderboard_players')
-    .select('puuid, leaderboard_id, leaderboards(goal_mode, race_start_at, race_end_at, lp_goal, rank_goal_tier, goal_completed_at)')
+    .select('puuid, leaderboard_id, platform, leaderboards(goal_mode, race_start_at, race_end_at, lp_goal, rank_goal_tier, goal_completed_at, track_flex)')
   if (lbErr) throw lbErr
 
   const now = Date.now()
   const activePuuids = new Set<string>()
   const activeLbIds = new Set<string>()
+  const platformByPuuid = new Map<string, Platform>()
+  const flexPuuids = new Set<string>()
+  // Players in an open (or about to open) scored window, with the earliest
+  // time a history row still counts as their baseline.
+  const baselineSinceByPuuid = new Map<string, number>()
 
   for (const row of lbs ?? []) {
     const puuid = String((row as any).puuid ?? '').trim()
     if (!puuid) continue
 
     const lb = (row as any).leaderboards ?? null
-    const mode = String(lb?.goal_mode ?? 'LIVE').toUpperCase()
+    const mode = normalizeGoalMode(lb?.goal_mode)
 
     if (lb?.goal_completed_at) continue
 
-    if (mode === 'RACE') {
+    if (isWindowedGoalMode(mode)) {
       const startMs = lb?.race_start_at ? new Date(lb.race_start_at).getTime() : null
       const endMs = lb?.race_end_at ? new Date(lb.race_end_at).getTime() : null
-      if (startMs && now < startMs) continue
+      // Scored windows start polling a little early so the baseline row is in place.
+      const leadMs = isScoredWindowMode(mode) ? GOAL_WINDOW_LEAD_MS : 0
+      if (startMs && now < startMs - leadMs) continue
       if (endMs && now > endMs) continue
+      if (startMs && isScoredWindowMode(mode)) {
+        const since = startMs - GOAL_WINDOW_BASELINE_MS
+        baselineSinceByPuuid.set(puuid, Math.max(baselineSinceByPuuid.get(puuid) ?? since, since))
+      }
     }
 
     activePuuids.add(puuid)
+    if (!platformByPuuid.has(puuid)) {
+      platformByPuuid.set(puuid, normalizePlatform((row as any).platform))
+    }
+    if (lb?.track_flex) flexPuuids.add(puuid)
     const lbId = String((row as any).leaderboard_id ?? '').trim()
     if (lbId) activeLbIds.add(lbId)
   }
 
+  // Club members are polled too, so club standings stay fresh for players who
+  // aren't on any leaderboard.
+  for (const member of await fetchClubMembers()) {
+    if (platformByPuuid.has(member.puuid)) {
+      activePuuids.add(member.puuid)
+      continue
+    }
+    let platform = member.platform
+    if (!platform && !member.platformCheckedRecently) {
+      platform = await resolveClubMemberPlatform(member.puuid)
+    }
+    if (!platform) continue
+    activePuuids.add(member.puuid)
+    platformByPuuid.set(member.puuid, platform)
+  }
+
   const puuids = [...activePuuids]
   if (!puuids.length) {
     console.log('No players to refresh.')
@@ -1288,13 +2277,18 @@ async function main() {
       .select(
         'puuid, last_poll_at, last_matches_sync_at, last_solo_lp, last_solo_tier, ' +
         'last_solo_rank, last_solo_wins, last_solo_losses, last_solo_match_id, ' +
-        'last_account_sync_at, last_top_champs_at, last_game_at'
+        'last_account_sync_at, last_top_champs_at, last_game_at, last_matchlist_full_scan_at, backfill_pending, ' +
+        'last_flex_lp, last_flex_tier, last_flex_rank, last_flex_wins, last_flex_losses, last_flex_match_id'
       )
       .in('puuid', chunk)
     if (error) throw error
     for (const s of (data ?? []) as any[]) stateMap.set(String(s.puuid), s as RefreshState)
   }
 
+  const windowBaselinePuuids = await fetchPuuidsMissingWindowBaseline(baselineSinceByPuuid)
+
+  await syncLiveGames(puuids, platformByPuuid)
+
   const runStartedAt = Date.now()
   const runDeadline = runStartedAt + REFRESH_RUN_WINDOW_MS
   let cycles = 0
@@ -1311,15 +2305,27 @@ async function main() {
     const cycleStartedAt = Date.now()
 
     for (let offset = 0; offset < ordered.length; offset += PLAYER_CHECKS_PER_SECOND) {
+      if (lease.isLost()) break
+
       const secondStartedAt = Date.now()
       const batch = ordered.slice(offset, offset + PLAYER_CHECKS_PER_SECOND)
 
       const results = await Promise.all(
-        batch.map((puuid) => refreshOnePlayer(puuid, stateMap.get(puuid), playerCache))
+        batch.map((puuid) =>
+          refreshOnePlayer(
+            puuid,
+            platformByPuuid.get(puuid) ?? DEFAULT_PLATFORM,
+            stateMap.get(puuid),
+            playerCache,
+            flexPuuids.has(puuid),
+            windowBaselinePuuids.has(puuid)
+          )
+        )
       )
 
       for (const result of results) {
         if (!result) continue
+        windowBaselinePuuids.delete(result.requestedPuuid)
         const nextState = {
           ...(stateMap.get(result.actualPuuid) ?? {}),
           ...result.patch,
@@ -1336,6 +2342,12 @@ async function main() {
     }
 
     cycles += 1
+    runTelemetry.cycles = cycles
+
+    if (lease.isLost()) {
+      console.warn('[lease] stopping run early; another runner holds the lease')
+      return
+    }
 
     const remainingRunMs = runDeadline - Date.now()
     if (remainingRunMs <= 0) break
@@ -1351,115 +2363,504 @@ async function main() {
   }
 
   await finalizeLeaderboardGoalsIfNeeded()
+  await runClubChallenges()
+  await expireShowdownRequests()
+  await expireClubInvites()
+  await finalizeShowdowns()
+  await runLeaderboardWebhooks()
   await triggerLeaderboardCacheRevalidate(Array.from(activeLbIds))
+}
+
+// A member whose platform lookup failed is looked up again after this long,
+// rather than spending Riot requests on the same account every run.
+const CLUB_PLATFORM_RECHECK_MS = 24 * 60 * 60 * 1000
 
-  console.log('Done.', { cycles })
+type ClubMemberTarget = { puuid: string; platform: Platform | null; platformCheckedRecently: boolean }
+
+async function fetchClubMembers(): Promise<ClubMemberTarget[]> {
+  try {
+    const { data, error } = await supabase
+      .from('club_members')
+      .select('player_puuid, platform, platform_checked_at')
+      .not('player_puuid', 'is', null)
+    if (error) throw error
+    const recheckBefore = Date.now() - CLUB_PLATFORM_RECHECK_MS
+    const byPuuid = new Map<string, ClubMemberTarget>()
+    for (const row of (data ?? []) as Array<{
+      player_puuid: string | null
+      platform: string | null
+      platform_checked_at: string | null
+    }>) {
+      const puuid = String(row.player_puuid ?? '').trim()
+      if (!puuid) continue
+      const platform = isPlatform(row.platform) ? row.platform : null
+      const checkedAt = row.platform_checked_at ? new Date(row.platform_checked_at).getTime() : NaN
+      const platformCheckedRecently = Number.isFinite(checkedAt) && checkedAt > recheckBefore
+      const existing = byPuuid.get(puuid)
+      if (!existing?.platform) {
+        byPuuid.set(puuid, {
+          puuid,
+          platform,
+          platformCheckedRecently: platformCheckedRecently || Boolean(existing?.platformCheckedRecently),
+        })
+      }
+    }
+    return [...byPuuid.values()]
+  } catch (error) {
+    console.warn('[clubs] member enrollment failed (non-fatal)', error)
+    return []
+  }
+}
+
+// Club rows added before platforms were stored, or whose lookup failed when
+// they were added, get the account's active region from Riot and keep it.
+// Members we still can't place are skipped rather than polled on a guess, and
+// stamped so the lookup waits CLUB_PLATFORM_RECHECK_MS before trying again.
+async function resolveClubMemberPlatform(puuid: string): Promise<Platform | null> {
+  let region = ''
+  try {
+    const data = await riotFetch<{ region?: string }>(
+      `${AMERICAS}/riot/account/v1/region/by-game/lol/by-puuid/${encodeURIComponent(puuid)}`
+    )
+    region = String(data?.region ?? '').trim().toUpperCase()
+    if (!isPlatform(region)) {
+      console.warn(`[clubs] no platform for ${puuid.slice(0, 12)} (region ${region || 'missing'}), skipping`)
+    }
+  } catch (error) {
+    console.warn(`[clubs] platform lookup failed for ${puuid.slice(0, 12)} (non-fatal)`, error)
+  }
+
+  const platform = isPlatform(region) ? region : null
+  const { error } = await supabase
+    .from('club_members')
+    .update(platform ? { platform } : { platform_checked_at: new Date().toISOString() })
+    .eq('player_puuid', puuid)
+    .is('platform', null)
+  if (error) console.warn('[clubs] failed to store member platform (non-fatal)', error.message)
+  return platform
+}
+
+const GOAL_HISTORY_PAGE_SIZE = 1000
+
+// Players in a scored window with no solo history row since their baseline
+// cutoff. Without one, computeWindowScores would start them from the row
+// written after their first game in the window and miss that game.
+async function fetchPuuidsMissingWindowBaseline(sinceByPuuid: Map<string, number>): Promise<Set<string>> {
+  const missing = new Set(sinceByPuuid.keys())
+  if (!missing.size) return missing
+
+  const earliestSince = Math.min(...sinceByPuuid.values())
+  try {
+    for (const chunk of chunkArray([...missing], 200)) {
+      for (let from = 0; ; from += GOAL_HISTORY_PAGE_SIZE) {
+        const { data, error } = await supabase
+          .from('player_lp_history')
+          .select('puuid, fetched_at')
+          .in('puuid', chunk)
+          .eq('queue_type', QUEUE_SOLO)
+          .gte('fetched_at', new Date(earliestSince).toISOString())
+          .order('fetched_at', { ascending: true })
+          .order('puuid', { ascending: true })
+          .range(from, from + GOAL_HISTORY_PAGE_SIZE - 1)
+        if (error) throw error
+        for (const row of (data ?? []) as Array<{ puuid: string; fetched_at: string }>) {
+          const since = sinceByPuuid.get(row.puuid)
+          if (since !== undefined && new Date(row.fetched_at).getTime() >= since) missing.delete(row.puuid)
+        }
+        if ((data ?? []).length < GOAL_HISTORY_PAGE_SIZE) break
+      }
+    }
+  } catch (error) {
+    // Writing an extra row is harmless, so fall back to baselining everyone.
+    console.warn('[goals] baseline lookup failed (non-fatal)', error)
+  }
+  return missing
 }
 
 async function finalizeLeaderboardGoalsIfNeeded() {
   const { data: leaderboards, error } = await supabase
     .from('leaderboards')
-    .select('id, goal_mode, lp_goal, rank_goal_tier, goal_completed_at')
-    .in('goal_mode', ['LP_GOAL', 'RANK_GOAL'])
+    .select('id, goal_mode, lp_goal, rank_goal_tier, race_start_at, race_end_at, goal_min_games, team_scoring, goal_completed_at')
+    .in('goal_mode', ['LP_GOAL', 'RANK_GOAL', 'LP_RACE', 'GAMES_RACE', 'WINRATE_CHALLENGE'])
     .is('goal_completed_at', null)
 
   if (error) throw error
   if (!leaderboards || leaderboards.length === 0) return
 
+  const nowMs = Date.now()
   for (const lb of leaderboards) {
+    const mode = normalizeGoalMode(lb.goal_mode)
+    const isLpGoal = mode === 'LP_GOAL' && typeof lb.lp_goal === 'number' && lb.lp_goal > 0
+    const isRankGoal = mode === 'RANK_GOAL' && Boolean(lb.rank_goal_tier)
+    const raceEndMs = lb.race_end_at ? new Date(lb.race_end_at).getTime() : NaN
+    // Scored windows are only decided once they close.
+    const isClosedWindow = isWindowedGoalMode(mode) && Number.isFinite(raceEndMs) && nowMs > raceEndMs
+    if (!isLpGoal && !isRankGoal && !isClosedWindow) continue
+
     const { data: players, error: plErr } = await supabase
       .from('leaderboard_players')
-      .select('puuid')
+      .select('puuid, team_id')
       .eq('leaderboard_id', lb.id)
 
     if (plErr) throw plErr
-    const puuids = (players ?? []).map((p: any) => p.puuid).filter(Boolean)
+    const puuids = (players ?? []).map((p) => p.puuid).filter(Boolean)
     if (!puuids.length) continue
 
-    if (lb.goal_mode === 'LP_GOAL' && typeof lb.lp_goal === 'number' && lb.lp_goal > 0) {
-      const { data: history, error: histErr } = await supabase
+    // Team competitions are decided per team; goals that finish on a single
+    // player's climb (LP/rank goals) ignore teams.
+    const teamByPuuid = new Map<string, string>()
+    if (isClosedWindow) {
+      for (const p of players ?? []) {
+        if (p.puuid && p.team_id) teamByPuuid.set(p.puuid, p.team_id)
+      }
+    }
+
+    const buildHistoryQuery = () => {
+      let query = supabase
         .from('player_lp_history')
-        .select('puuid, tier, rank, lp, fetched_at')
+        .select('puuid, tier, rank, lp, wins, losses, fetched_at')
         .in('puuid', puuids)
         .eq('queue_type', QUEUE_SOLO)
-        .gte('fetched_at', MATCHLIST_SEASON_START_ISO)
-        .gte('lp', lb.lp_goal)
-        .in('tier', ['MASTER', 'GRANDMASTER', 'CHALLENGER'])
-        .order('fetched_at', { ascending: true })
+      // LP goals only count apex LP, so skip the rest of the season server-side.
+      if (isLpGoal) {
+        query = query
+          .gte('fetched_at', MATCHLIST_SEASON_START_ISO)
+          .gte('lp', lb.lp_goal)
+          .in('tier', ['MASTER', 'GRANDMASTER', 'CHALLENGER'])
+      } else if (isClosedWindow) {
+        const startMs = lb.race_start_at ? new Date(lb.race_start_at).getTime() : NaN
+        const baselineMs = Number.isFinite(startMs) ? startMs - GOAL_WINDOW_BASELINE_MS : MATCHLIST_SEASON_START_MS
+        query = query
+          .gte('fetched_at', new Date(Math.max(baselineMs, MATCHLIST_SEASON_START_MS)).toISOString())
+          .lte('fetched_at', new Date(raceEndMs).toISOString())
+      } else {
+        query = query.gte('fetched_at', MATCHLIST_SEASON_START_ISO)
+      }
+      return query.order('fetched_at', { ascending: true }).order('puuid', { ascending: true })
+    }
 
+    // Page through the history: one race can span more rows than a single
+    // response holds, and the winner is stored for good once decided.
+    const history: GoalHistoryRow[] = []
+    for (let from = 0; ; from += GOAL_HISTORY_PAGE_SIZE) {
+      const { data: page, error: histErr } = await buildHistoryQuery().range(from, from + GOAL_HISTORY_PAGE_SIZE - 1)
       if (histErr) throw histErr
-      const rows = history ?? []
-      if (!rows.length) continue
-
-      let winner = rows[0]
-      let winnerTs = new Date(winner.fetched_at).getTime()
-
-      for (const row of rows) {
-        const ts = new Date(row.fetched_at).getTime()
-        if (Number.isNaN(ts)) continue
-        if (ts < winnerTs || (ts === winnerTs && (row.lp ?? 0) > (winner.lp ?? 0))) {
-          winner = row
-          winnerTs = ts
-        }
-      }
+      history.push(...((page ?? []) as GoalHistoryRow[]))
+      if ((page ?? []).length < GOAL_HISTORY_PAGE_SIZE) break
+    }
 
-      await supabase
-        .from('leaderboards')
-        .update({
-          goal_completed_at: new Date(winnerTs).toISOString(),
-          goal_winner_puuid: winner.puuid,
-          goal_winner_lp: winner.lp ?? null,
-          goal_winner_tier: winner.tier ?? null,
-          goal_winner_rank: winner.rank ?? null,
-          updated_at: new Date().toISOString(),
-        })
-        .eq('id', lb.id)
+    const state = computeGoalState(lb, history, nowMs, teamByPuuid)
+    if (state.status !== 'COMPLETED' || !state.completionAt) continue
+
+    let teamName: string | null = null
+    if (state.winnerTeamId) {
+      const { data: team } = await supabase
+        .from('leaderboard_teams')
+        .select('name')
+        .eq('id', state.winnerTeamId)
+        .maybeSingle()
+      teamName = team?.name ?? null
     }
 
-    if (lb.goal_mode === 'RANK_GOAL' && lb.rank_goal_tier) {
-      const targetWeight = tierWeight(lb.rank_goal_tier)
-      if (!targetWeight) continue
+    // Queue the completion post before stamping the goal: once goal_completed_at
+    // is set this leaderboard is never looked at again. If queueing fails the
+    // goal stays open and the next run tries both again.
+    try {
+      await queueWebhookEvents({ players: [], goals: [{ lbId: lb.id, config: lb, state, teamName }] })
+    } catch (webhookErr) {
+      console.warn('[goals] failed to queue completion post, will retry (non-fatal)', { lbId: lb.id, error: webhookErr })
+      continue
+    }
 
-      const { data: history, error: histErr } = await supabase
-        .from('player_lp_history')
-        .select('puuid, tier, rank, lp, fetched_at')
-        .in('puuid', puuids)
+    const { error: completeErr } = await supabase
+      .from('leaderboards')
+      .update({
+        goal_completed_at: state.completionAt,
+        goal_winner_puuid: state.winnerPuuid,
+        goal_winner_lp: state.winnerLp,
+        goal_winner_tier: state.winnerTier,
+        goal_winner_rank: state.winnerRank,
+        goal_winner_value: state.winnerValue,
+        goal_winner_team_id: state.winnerTeamId,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', lb.id)
+      .is('goal_completed_at', null)
+    if (completeErr) console.warn('[goals] failed to record completion (non-fatal)', { lbId: lb.id, error: completeErr })
+  }
+}
+
+// Challenge progress is rescored at most this often; the queries scan a week of
+// games for every club member.
+const CHALLENGE_EVAL_INTERVAL_MS = 15 * 60 * 1000
+// Matches can be ingested a while after they end, so last week keeps being
+// rescored for this long into the new one.
+const CHALLENGE_GRACE_MS = 24 * 60 * 60 * 1000
+const CHALLENGE_PAGE_SIZE = 1000
+
+type ChallengeGameRow = { puuid: string; champion_id: number | null; win: boolean | null }
+type ChallengeLpRow = { puuid: string; lp_delta: number | null }
+type ChallengeProgressRow = { challenge_id: string; club_id: string; completed_at: string | null; points_awarded: number | null }
+
+async function fetchChallengeGames(puuids: string[], fromMs: number, toMs: number): Promise<ChallengeGameRow[]> {
+  const rows: ChallengeGameRow[] = []
+  if (fromMs >= toMs) return rows
+  for (const chunk of chunkArray(puuids, 200)) {
+    for (let from = 0; ; from += CHALLENGE_PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from('match_participants')
+        .select('puuid, champion_id, win, matches!inner(game_end_ts, queue_id)')
+        .in('puuid', chunk)
+        .eq('matches.queue_id', QUEUE_SOLO_ID)
+        .or('end_type.is.null,end_type.neq.REMAKE')
+        .gte('matches.game_end_ts', fromMs)
+        .lt('matches.game_end_ts', toMs)
+        .order('match_id', { ascending: true })
+        .order('puuid', { ascending: true })
+        .range(from, from + CHALLENGE_PAGE_SIZE - 1)
+      if (error) throw error
+      const page = (data ?? []) as unknown as ChallengeGameRow[]
+      rows.push(...page)
+      if (page.length < CHALLENGE_PAGE_SIZE) break
+    }
+  }
+  return rows
+}
+
+async function fetchChallengeLpDeltas(puuids: string[], fromMs: number, toMs: number): Promise<ChallengeLpRow[]> {
+  const rows: ChallengeLpRow[] = []
+  for (const chunk of chunkArray(puuids, 200)) {
+    for (let from = 0; ; from += CHALLENGE_PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from('player_lp_events')
+        .select('puuid, lp_delta')
+        .in('puuid', chunk)
         .eq('queue_type', QUEUE_SOLO)
-        .gte('fetched_at', MATCHLIST_SEASON_START_ISO)
-        .order('fetched_at', { ascending: true })
+        .gte('recorded_at', new Date(fromMs).toISOString())
+        .lt('recorded_at', new Date(toMs).toISOString())
+        .order('recorded_at', { ascending: true })
+        .range(from, from + CHALLENGE_PAGE_SIZE - 1)
+      if (error) throw error
+      const page = (data ?? []) as ChallengeLpRow[]
+      rows.push(...page)
+      if (page.length < CHALLENGE_PAGE_SIZE) break
+    }
+  }
+  return rows
+}
 
-      if (histErr) throw histErr
-      const rows = (history ?? []).filter((row: any) => tierWeight(row.tier) >= targetWeight)
-      if (!rows.length) continue
-
-      let earliestDay: string | null = null
-      let winner = rows[0]
-
-      for (const row of rows) {
-        const dayKey = new Date(row.fetched_at).toISOString().slice(0, 10)
-        if (!earliestDay || dayKey < earliestDay) {
-          earliestDay = dayKey
-          winner = row
-        } else if (dayKey === earliestDay && (row.lp ?? 0) > (winner.lp ?? 0)) {
-          winner = row
+async function runClubChallenges() {
+  try {
+    const { data: lastRow, error: lastErr } = await supabase
+      .from('club_challenge_progress')
+      .select('evaluated_at')
+      .order('evaluated_at', { ascending: false })
+      .limit(1)
+      .maybeSingle()
+    if (lastErr) throw lastErr
+    if (lastRow?.evaluated_at) {
+      const age = Date.now() - new Date(lastRow.evaluated_at).getTime()
+      if (age < CHALLENGE_EVAL_INTERVAL_MS) {
+        console.log('[challenges] skip (fresh)', Math.round(age / 1000), 's')
+        return
+      }
+    }
+
+    const [{ data: challengeRows, error: challengeErr }, { data: memberRows, error: memberErr }] = await Promise.all([
+      supabase.from('club_challenges').select(CLUB_CHALLENGE_COLUMNS).eq('active', true),
+      supabase.from('club_members').select('club_id, player_puuid').not('player_puuid', 'is', null),
+    ])
+    if (challengeErr) throw challengeErr
+    if (memberErr) throw memberErr
+
+    const challenges = ((challengeRows ?? []) as ClubChallenge[]).filter((challenge) => isChallengeKind(challenge.kind))
+    if (challenges.length === 0) return
+
+    const membersByClub = new Map<string, Set<string>>()
+    for (const row of (memberRows ?? []) as Array<{ club_id: string; player_puuid: string | null }>) {
+      if (!row.player_puuid) continue
+      const members = membersByClub.get(row.club_id) ?? new Set<string>()
+      members.add(row.player_puuid)
+      membersByClub.set(row.club_id, members)
+    }
+    if (membersByClub.size === 0) return
+
+    const puuids = Array.from(new Set(Array.from(membersByClub.values()).flatMap((members) => Array.from(members))))
+    const nowMs = Date.now()
+    const currentStartMs = challengePeriodStartMs(nowMs)
+    const periods = nowMs - currentStartMs < CHALLENGE_GRACE_MS ? [currentStartMs - CHALLENGE_PERIOD_MS, currentStartMs] : [currentStartMs]
+    const needsPriorChampions = challenges.some((challenge) => challenge.kind === 'NEW_CHAMPION_WINS')
+    const needsLp = challenges.some((challenge) => challenge.kind === 'CLUB_LP_GAIN')
+    const evaluatedAt = new Date().toISOString()
+    let completed = 0
+
+    for (const periodStartMs of periods) {
+      const periodEndMs = periodStartMs + CHALLENGE_PERIOD_MS
+      const periodStartIso = new Date(periodStartMs).toISOString()
+
+      const [games, priorGames, lpRows] = await Promise.all([
+        fetchChallengeGames(puuids, periodStartMs, periodEndMs),
+        needsPriorChampions ? fetchChallengeGames(puuids, MATCHLIST_SEASON_START_MS, periodStartMs) : Promise.resolve([]),
+        needsLp ? fetchChallengeLpDeltas(puuids, periodStartMs, periodEndMs) : Promise.resolve([]),
+      ])
+
+      const priorChampions = new Map<string, Set<number>>()
+      for (const row of priorGames) {
+        if (row.champion_id === null) continue
+        const champions = priorChampions.get(row.puuid) ?? new Set<number>()
+        champions.add(Number(row.champion_id))
+        priorChampions.set(row.puuid, champions)
+      }
+      const activity = {
+        games: games
+          .filter((row) => row.champion_id !== null)
+          .map((row) => ({ puuid: row.puuid, championId: Number(row.champion_id), win: row.win === true })),
+        priorChampions,
+        lpDeltas: lpRows.map((row) => ({ puuid: row.puuid, delta: Number(row.lp_delta ?? 0) })),
+      }
+
+      const { data: existingRows, error: existingErr } = await supabase
+        .from('club_challenge_progress')
+        .select('challenge_id, club_id, completed_at, points_awarded')
+        .eq('period_start', periodStartIso)
+      if (existingErr) throw existingErr
+      const existing = new Map(
+        ((existingRows ?? []) as ChallengeProgressRow[]).map((row) => [`${row.challenge_id}:${row.club_id}`, row])
+      )
+
+      const progressRows: Array<Record<string, string | number | null>> = []
+      const xpRows: Array<Record<string, string | number>> = []
+      for (const [clubId, members] of membersByClub) {
+        for (const challenge of challenges) {
+          const result = evaluateChallenge(challenge, members, activity)
+          const previous = existing.get(`${challenge.id}:${clubId}`)
+          // Completion is sticky: later LP losses don't take points back.
+          const completedNow = !previous?.completed_at && result.progress >= challenge.target
+          progressRows.push({
+            challenge_id: challenge.id,
+            club_id: clubId,
+            period_start: periodStartIso,
+            progress: result.progress,
+            completed_at: previous?.completed_at ?? (completedNow ? evaluatedAt : null),
+            points_awarded: previous?.completed_at ? previous.points_awarded ?? 0 : completedNow ? challenge.points_reward : 0,
+            evaluated_at: evaluatedAt,
+          })
+          if (!completedNow) continue
+          completed += 1
+          if (challenge.xp_reward <= 0) continue
+          for (const puuid of result.contributors) {
+            xpRows.push({
+              challenge_id: challenge.id,
+              club_id: clubId,
+              period_start: periodStartIso,
+              player_puuid: puuid,
+              xp: challenge.xp_reward,
+            })
+          }
         }
       }
 
-      const completionAt = earliestDay ? `${earliestDay}T23:59:59.999Z` : null
-      if (!completionAt) continue
+      // XP goes in first so a failed progress write is retried next run
+      // without awarding anyone twice.
+      for (const chunk of chunkArray(xpRows, 500)) {
+        const { error } = await supabase
+          .from('club_member_xp')
+          .upsert(chunk, { onConflict: 'challenge_id,club_id,period_start,player_puuid', ignoreDuplicates: true })
+        if (error) throw error
+      }
+      for (const chunk of chunkArray(progressRows, 500)) {
+        const { error } = await supabase
+          .from('club_challenge_progress')
+          .upsert(chunk, { onConflict: 'challenge_id,club_id,period_start' })
+        if (error) throw error
+      }
+    }
+
+    console.log('[challenges] evaluated', { clubs: membersByClub.size, challenges: challenges.length, periods: periods.length, completed })
+  } catch (error) {
+    console.warn('[challenges] run failed (non-fatal)', error)
+  }
+}
+
+async function expireShowdownRequests() {
+  try {
+    const { data: expired, error } = await supabase
+      .from('club_showdown_requests')
+      .update({ status: 'EXPIRED', responded_at: new Date().toISOString() })
+      .eq('status', 'PENDING')
+      .lt('expires_at', new Date().toISOString())
+      .select('id')
+    if (error) throw error
+    if (!expired?.length) return
+
+    const { error: historyErr } = await supabase
+      .from('club_showdown_history')
+      .insert(expired.map((row) => ({ showdown_id: row.id, status: 'EXPIRED' })))
+    if (historyErr) console.warn('[showdowns] history write failed (non-fatal)', historyErr)
+    console.log('[showdowns] expired requests', expired.length)
+  } catch (error) {
+    console.warn('[showdowns] expiry failed (non-fatal)', error)
+  }
+}
+
+async function expireClubInvites() {
+  try {
+    const { data: expired, error } = await supabase
+      .from('club_invites')
+      .update({ status: 'EXPIRED' })
+      .eq('status', 'PENDING')
+      .lt('expires_at', new Date().toISOString())
+      .select('id')
+    if (error) throw error
+    if (expired?.length) console.log('[clubs] expired invites', expired.length)
+  } catch (error) {
+    console.warn('[clubs] invite expiry failed (non-fatal)', error)
+  }
+}
+
+async function finalizeShowdowns() {
+  try {
+    const { data: due, error } = await supabase
+      .from('club_showdown_requests')
+      .select('id, requester_club_id, target_club_id, format, starts_at, ends_at, roster_size')
+      .eq('status', 'ACCEPTED')
+      .is('completed_at', null)
+      .lt('ends_at', new Date().toISOString())
+    if (error) throw error
 
-      await supabase
-        .from('leaderboards')
+    for (const showdown of due ?? []) {
+      let scores: Awaited<ReturnType<typeof getFinalShowdownScores>>
+      try {
+        scores = await getFinalShowdownScores(showdown)
+      } catch (scoreErr) {
+        // Left open; the next run scores it again.
+        console.warn('[showdowns] scoring failed, will retry (non-fatal)', { id: showdown.id, error: scoreErr })
+        continue
+      }
+      if (!scores) continue
+      const { error: updateErr } = await supabase
+        .from('club_showdown_requests')
         .update({
-          goal_completed_at: completionAt,
-          goal_winner_puuid: winner.puuid,
-          goal_winner_lp: winner.lp ?? null,
-          goal_winner_tier: winner.tier ?? null,
-          goal_winner_rank: winner.rank ?? null,
-          updated_at: new Date().toISOString(),
+          requester_score: scores.requester.score,
+          target_score: scores.target.score,
+          winner_club_id: showdownWinner(scores.requester, scores.target),
+          completed_at: new Date().toISOString(),
         })
-        .eq('id', lb.id)
+        .eq('id', showdown.id)
+        .is('completed_at', null)
+      if (updateErr) throw updateErr
+      const { error: historyErr } = await supabase
+        .from('club_showdown_history')
+        .insert({ showdown_id: showdown.id, status: 'COMPLETED' })
+      if (historyErr) console.warn('[showdowns] history write failed (non-fatal)', historyErr)
+      console.log('[showdowns] finalized', {
+        id: showdown.id,
+        requester: scores.requester.score,
+        target: scores.target.score,
+      })
     }
+  } catch (error) {
+    console.warn('[showdowns] finalize failed (non-fatal)', error)
   }
 }
 
@@ -0,0 +1,50 @@
+-- Club invites and shareable invite codes.
+-- club_invites gains an expiry and a response timestamp; the refresh worker
+-- marks lapsed PENDING invites EXPIRED. club_invite_links holds codes that
+-- anyone signed in can redeem until they expire, run out of uses or are
+-- revoked.
+-- Safe to run multiple times.
+
+alter table public.club_invites
+add column if not exists expires_at timestamptz,
+add column if not exists responded_at timestamptz;
+
+update public.club_invites
+set expires_at = now() + interval '7 days'
+where status = 'PENDING'
+  and expires_at is null;
+
+create index if not exists idx_club_invites_invitee_status
+  on public.club_invites (invitee_user_id, status);
+
+create index if not exists idx_club_invites_pending_expiry
+  on public.club_invites (expires_at)
+  where status = 'PENDING';
+
+create table if not exists public.club_invite_links (
+  id uuid primary key default gen_random_uuid(),
+  club_id uuid not null references public.clubs(id) on delete cascade,
+  code text not null unique,
+  created_by_user_id uuid references auth.users(id) on delete set null,
+  -- Null means unlimited.
+  max_uses integer,
+  use_count integer not null default 0,
+  expires_at timestamptz not null,
+  revoked_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+do $$
+begin
+  if not exists (select 1 from pg_constraint where conname = 'club_invite_links_max_uses_check') then
+    alter table public.club_invite_links
+      add constraint club_invite_links_max_uses_check
+      check (max_uses is null or max_uses > 0);
+  end if;
+end
+$$;
+
+create index if not exists idx_club_invite_links_club
+  on public.club_invite_links (club_id, created_at desc);
+
+alter table public.club_invite_links enable row level security;
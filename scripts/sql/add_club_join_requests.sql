@@ -0,0 +1,47 @@
+-- How people join a club, and the queue for clubs that review requests.
+-- clubs.join_policy is OPEN (anyone signed in can join), REQUEST (owners and
+-- admins approve each request) or INVITE_ONLY. PRIVATE clubs are treated as
+-- invite-only whatever the setting says. Each request keeps the Riot ID the
+-- requester had linked when they asked, so approving it can create the member.
+-- Safe to run multiple times.
+
+alter table public.clubs
+add column if not exists join_policy text not null default 'REQUEST';
+
+alter table public.clubs
+drop constraint if exists clubs_join_policy_check;
+
+alter table public.clubs
+add constraint clubs_join_policy_check
+check (join_policy in ('OPEN', 'REQUEST', 'INVITE_ONLY'));
+
+create table if not exists public.club_join_requests (
+  id uuid primary key default gen_random_uuid(),
+  club_id uuid not null references public.clubs(id) on delete cascade,
+  user_id uuid not null references auth.users(id) on delete cascade,
+  message text,
+  player_puuid text,
+  game_name text,
+  tag_line text,
+  status text not null default 'PENDING',
+  reviewed_by_user_id uuid references auth.users(id) on delete set null,
+  reviewed_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+alter table public.club_join_requests
+drop constraint if exists club_join_requests_status_check;
+
+alter table public.club_join_requests
+add constraint club_join_requests_status_check
+check (status in ('PENDING', 'APPROVED', 'REJECTED', 'CANCELLED'));
+
+-- One open request per user per club.
+create unique index if not exists idx_club_join_requests_pending
+  on public.club_join_requests (club_id, user_id)
+  where status = 'PENDING';
+
+create index if not exists idx_club_join_requests_club_status
+  on public.club_join_requests (club_id, status, created_at);
+
+alter table public.club_join_requests enable row level security;
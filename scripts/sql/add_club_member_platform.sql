@@ -0,0 +1,39 @@
+-- Stores the Riot platform (NA1, EUW1, KR, ...) of each club member's Riot
+-- account, so the refresh worker polls club-only players on the right host.
+-- Rows left null are resolved by the worker from Riot's active region lookup;
+-- platform_checked_at records a failed lookup so it is retried once a day.
+-- Safe to run multiple times.
+
+alter table public.club_members
+add column if not exists platform text;
+
+alter table public.club_members
+add column if not exists platform_checked_at timestamptz;
+
+do $$
+begin
+  if not exists (
+    select 1
+    from pg_constraint
+    where conname = 'club_members_platform_check'
+  ) then
+    alter table public.club_members
+      add constraint club_members_platform_check
+      check (platform is null or platform in (
+        'NA1', 'EUW1', 'EUN1', 'KR', 'JP1', 'BR1', 'LA1', 'LA2',
+        'OC1', 'TR1', 'RU', 'PH2', 'SG2', 'TH2', 'TW2', 'VN2'
+      ));
+  end if;
+end
+$$;
+
+-- Members already tracked on a leaderboard take that player's platform.
+update public.club_members cm
+set platform = lp.platform
+from (
+  select distinct on (puuid) puuid, platform
+  from public.leaderboard_players
+  order by puuid, updated_at desc
+) lp
+where cm.platform is null
+  and cm.player_puuid = lp.puuid;
@@ -0,0 +1,25 @@
+-- Delegated club roles.
+-- club_members.role was only ever OWNER or MEMBER; ADMIN and MODERATOR are now
+-- valid too. What each role may do lives in src/lib/clubPermissions.ts. Roles
+-- are stored uppercase.
+-- Safe to run multiple times.
+
+update public.club_members
+set role = upper(role)
+where role is not null
+  and role <> upper(role);
+
+update public.club_members
+set role = 'MEMBER'
+where role is null;
+
+alter table public.club_members
+drop constraint if exists club_members_role_check;
+
+alter table public.club_members
+add constraint club_members_role_check
+check (role in ('OWNER', 'ADMIN', 'MODERATOR', 'MEMBER'));
+
+create index if not exists idx_club_members_club_user
+  on public.club_members (club_id, user_id)
+  where user_id is not null;
@@ -0,0 +1,45 @@
+-- Flex (RANKED_FLEX_SR) LP tracking alongside Solo/Duo.
+-- Leaderboards opt in with track_flex; the refresh worker then keeps
+-- last_flex_* state, writes flex player_lp_history / player_lp_events rows and
+-- ingests queue 440 matches for their players.
+-- Safe to run multiple times.
+
+alter table public.leaderboards
+add column if not exists track_flex boolean not null default false;
+
+alter table public.player_riot_state
+add column if not exists last_flex_lp integer,
+add column if not exists last_flex_tier text,
+add column if not exists last_flex_rank text,
+add column if not exists last_flex_wins integer,
+add column if not exists last_flex_losses integer,
+add column if not exists last_flex_match_id text;
+
+create index if not exists idx_player_lp_events_puuid_queue_recorded_at
+  on public.player_lp_events (puuid, queue_type, recorded_at);
+
+-- Queue-aware variant of get_leaderboard_movers_fast (solo-only original is kept
+-- for older deployments).
+create or replace function get_leaderboard_movers_fast(
+  lb_id uuid,
+  start_at timestamptz,
+  queue_type_input text
+)
+returns table (puuid text, lp_delta int) as $$
+  select
+    p.puuid,
+    (snap.league_points - hist.lp)::int as lp_delta
+  from leaderboard_players p
+  join player_rank_snapshot snap
+    on snap.puuid = p.puuid
+    and snap.queue_type = queue_type_input
+  join lateral (
+    select lp from player_lp_history
+    where puuid = p.puuid
+      and queue_type = queue_type_input
+      and fetched_at < start_at
+    order by fetched_at desc
+    limit 1
+  ) hist on true
+  where p.leaderboard_id = lb_id
+$$ language sql stable;
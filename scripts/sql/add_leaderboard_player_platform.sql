@@ -0,0 +1,24 @@
+-- Stores the Riot platform (NA1, EUW1, KR, ...) each leaderboard player is tracked on.
+-- The refresh worker routes summoner/league calls to the platform host and
+-- match-v5 calls to its regional cluster.
+-- Safe to run multiple times.
+
+alter table public.leaderboard_players
+add column if not exists platform text not null default 'NA1';
+
+do $$
+begin
+  if not exists (
+    select 1
+    from pg_constraint
+    where conname = 'leaderboard_players_platform_check'
+  ) then
+    alter table public.leaderboard_players
+      add constraint leaderboard_players_platform_check
+      check (platform in (
+        'NA1', 'EUW1', 'EUN1', 'KR', 'JP1', 'BR1', 'LA1', 'LA2',
+        'OC1', 'TR1', 'RU', 'PH2', 'SG2', 'TH2', 'TW2', 'VN2'
+      ));
+  end if;
+end
+$$;
@@ -0,0 +1,17 @@
+-- Full participant records for every ingested match.
+-- The refresh worker now stores all ten participants of a match-v5 payload
+-- (not just the tracked player), so teammate/opponent stats can be computed
+-- from match_participants without re-fetching matches from Riot.
+-- Safe to run multiple times.
+
+alter table public.match_participants
+add column if not exists riot_id_game_name text,
+add column if not exists riot_id_tagline text,
+add column if not exists team_id integer,
+add column if not exists team_position text,
+add column if not exists damage_to_champions integer,
+add column if not exists gold_earned integer,
+add column if not exists items integer[];
+
+create index if not exists idx_match_participants_match_team
+  on public.match_participants (match_id, team_id);
@@ -0,0 +1,27 @@
+-- Race-style goal modes scored over the race_start_at/race_end_at window:
+--   LP_RACE            most LP gained since the start (ladder LP, so tiers compete fairly)
+--   GAMES_RACE         most ranked games played in the window
+--   WINRATE_CHALLENGE  best win rate in the window, with a minimum number of games
+-- The refresh worker decides the winner once the window closes and records the
+-- winning score in goal_winner_value (LP gained, games, or win rate %).
+-- Safe to run multiple times.
+
+alter table public.leaderboards
+  add column if not exists goal_min_games integer,
+  add column if not exists goal_winner_value numeric;
+
+do $$
+begin
+  if exists (
+    select 1
+    from pg_constraint
+    where conname = 'leaderboards_goal_mode_check'
+  ) then
+    alter table public.leaderboards drop constraint leaderboards_goal_mode_check;
+  end if;
+
+  alter table public.leaderboards
+    add constraint leaderboards_goal_mode_check
+    check (goal_mode in ('LIVE', 'RACE', 'LP_GOAL', 'RANK_GOAL', 'LP_RACE', 'GAMES_RACE', 'WINRATE_CHALLENGE'));
+end
+$$;
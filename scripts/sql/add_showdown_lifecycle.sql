@@ -0,0 +1,59 @@
+-- Showdown request lifecycle.
+-- Requests carry proposed terms (format, duration, optional start, optional
+-- roster size). The club whose turn it is (awaiting_club_id) can accept,
+-- decline with a reason, or counter-propose new terms, which hands the turn
+-- back. Unanswered requests expire at expires_at; the refresh worker marks them
+-- EXPIRED. Every transition is logged in club_showdown_history.
+-- Requires scripts/sql/add_showdown_scoring.sql.
+-- Safe to run multiple times.
+
+alter table public.club_showdown_requests
+add column if not exists proposed_start_at timestamptz,
+add column if not exists roster_size integer,
+add column if not exists awaiting_club_id uuid references public.clubs(id) on delete cascade,
+add column if not exists response_note text,
+add column if not exists expires_at timestamptz,
+add column if not exists responded_at timestamptz;
+
+do $$
+begin
+  if not exists (select 1 from pg_constraint where conname = 'club_showdown_requests_roster_size_check') then
+    alter table public.club_showdown_requests
+      add constraint club_showdown_requests_roster_size_check
+      check (roster_size is null or roster_size between 1 and 50);
+  end if;
+end
+$$;
+
+-- Open requests made before counter-proposals existed wait on the target club
+-- and get a fresh three days to be answered.
+update public.club_showdown_requests
+set awaiting_club_id = target_club_id
+where awaiting_club_id is null;
+
+update public.club_showdown_requests
+set expires_at = now() + interval '3 days'
+where status = 'PENDING'
+  and expires_at is null;
+
+create index if not exists idx_club_showdown_requests_pending_expiry
+  on public.club_showdown_requests (expires_at)
+  where status = 'PENDING';
+
+create table if not exists public.club_showdown_history (
+  id uuid primary key default gen_random_uuid(),
+  showdown_id uuid not null references public.club_showdown_requests(id) on delete cascade,
+  -- REQUESTED, COUNTERED, ACCEPTED, DECLINED, CANCELLED, EXPIRED or COMPLETED.
+  status text not null,
+  actor_club_id uuid references public.clubs(id) on delete set null,
+  actor_user_id uuid references auth.users(id) on delete set null,
+  note text,
+  -- Terms on the table after this step, for requests and counter-proposals.
+  terms jsonb,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists idx_club_showdown_history_showdown
+  on public.club_showdown_history (showdown_id, created_at);
+
+alter table public.club_showdown_history enable row level security;
@@ -0,0 +1,42 @@
+-- Scoring windows for club showdowns.
+-- The requester picks a format and a duration; accepting the request opens the
+-- window (starts_at/ends_at). Live scores are computed from both clubs'
+-- player_lp_events, and the refresh worker stores the final scores and winner
+-- once ends_at passes. A tie leaves winner_club_id null.
+-- Safe to run multiple times.
+
+alter table public.club_showdown_requests
+add column if not exists format text not null default 'LP_GAINED',
+add column if not exists duration_days integer not null default 7,
+add column if not exists starts_at timestamptz,
+add column if not exists ends_at timestamptz,
+add column if not exists requester_score numeric,
+add column if not exists target_score numeric,
+add column if not exists winner_club_id uuid references public.clubs(id) on delete set null,
+add column if not exists completed_at timestamptz;
+
+do $$
+begin
+  if not exists (select 1 from pg_constraint where conname = 'club_showdown_requests_format_check') then
+    alter table public.club_showdown_requests
+      add constraint club_showdown_requests_format_check
+      check (format in ('LP_GAINED', 'WINS', 'AVG_RANK_GAIN'));
+  end if;
+  if not exists (select 1 from pg_constraint where conname = 'club_showdown_requests_duration_check') then
+    alter table public.club_showdown_requests
+      add constraint club_showdown_requests_duration_check
+      check (duration_days between 1 and 30);
+  end if;
+end
+$$;
+
+-- Showdowns accepted before windows existed start now.
+update public.club_showdown_requests
+set starts_at = now(),
+    ends_at = now() + make_interval(days => duration_days)
+where status = 'ACCEPTED'
+  and starts_at is null;
+
+create index if not exists idx_club_showdown_requests_open_windows
+  on public.club_showdown_requests (ends_at)
+  where status = 'ACCEPTED' and completed_at is null;
@@ -0,0 +1,79 @@
+-- Weekly club challenges.
+-- club_challenges holds the definitions; the refresh worker scores every club
+-- against each active definition once per week (Monday 00:00 UTC) and writes
+-- club_challenge_progress. When a club reaches the target, the row is stamped
+-- with completed_at and the points it earned, and each contributing member gets
+-- an XP row in club_member_xp.
+-- Safe to run multiple times.
+
+create table if not exists public.club_challenges (
+  id uuid primary key default gen_random_uuid(),
+  key text not null unique,
+  title text not null,
+  description text not null,
+  kind text not null,
+  -- Wins, LP or members, depending on kind.
+  target integer not null,
+  -- Games each member needs for MEMBERS_PLAY_GAMES; unused otherwise.
+  threshold integer,
+  xp_reward integer not null default 0,
+  points_reward integer not null default 0,
+  active boolean not null default true,
+  created_at timestamptz not null default now()
+);
+
+do $$
+begin
+  if not exists (select 1 from pg_constraint where conname = 'club_challenges_kind_check') then
+    alter table public.club_challenges
+      add constraint club_challenges_kind_check
+      check (kind in ('NEW_CHAMPION_WINS', 'CLUB_LP_GAIN', 'MEMBERS_PLAY_GAMES'));
+  end if;
+end
+$$;
+
+alter table public.club_challenges enable row level security;
+
+create table if not exists public.club_challenge_progress (
+  id uuid primary key default gen_random_uuid(),
+  challenge_id uuid not null references public.club_challenges(id) on delete cascade,
+  club_id uuid not null references public.clubs(id) on delete cascade,
+  period_start timestamptz not null,
+  progress integer not null default 0,
+  completed_at timestamptz,
+  points_awarded integer not null default 0,
+  evaluated_at timestamptz not null default now(),
+  unique (challenge_id, club_id, period_start)
+);
+
+create index if not exists idx_club_challenge_progress_period
+  on public.club_challenge_progress (period_start, challenge_id);
+
+create index if not exists idx_club_challenge_progress_club
+  on public.club_challenge_progress (club_id)
+  where completed_at is not null;
+
+alter table public.club_challenge_progress enable row level security;
+
+create table if not exists public.club_member_xp (
+  id uuid primary key default gen_random_uuid(),
+  challenge_id uuid not null references public.club_challenges(id) on delete cascade,
+  club_id uuid not null references public.clubs(id) on delete cascade,
+  period_start timestamptz not null,
+  player_puuid text not null,
+  xp integer not null,
+  created_at timestamptz not null default now(),
+  unique (challenge_id, club_id, period_start, player_puuid)
+);
+
+create index if not exists idx_club_member_xp_player
+  on public.club_member_xp (player_puuid);
+
+alter table public.club_member_xp enable row level security;
+
+insert into public.club_challenges (key, title, description, kind, target, threshold, xp_reward, points_reward)
+values
+  ('new-champion-wins', 'Fresh picks', 'Win 10 solo queue games on champions you hadn''t played this season.', 'NEW_CHAMPION_WINS', 10, null, 150, 30),
+  ('club-lp-500', 'Climb together', 'Gain 500 combined solo queue LP as a club.', 'CLUB_LP_GAIN', 500, null, 100, 50),
+  ('five-members-three-games', 'Full roster', 'Get 5 members to play at least 3 solo queue games each.', 'MEMBERS_PLAY_GAMES', 5, 3, 75, 20)
+on conflict (key) do nothing;
@@ -0,0 +1,42 @@
+-- Named teams inside a leaderboard for internal team competitions.
+-- Each player belongs to at most one team (leaderboard_players.team_id). Teams
+-- are ranked by LP gained since the race start, summed or averaged over their
+-- members per leaderboards.team_scoring. When a scored race window closes the
+-- refresh worker records the winning team in goal_winner_team_id.
+-- Safe to run multiple times.
+
+create table if not exists public.leaderboard_teams (
+  id uuid primary key default gen_random_uuid(),
+  leaderboard_id uuid not null references public.leaderboards(id) on delete cascade,
+  name text not null,
+  created_at timestamptz not null default now()
+);
+
+create unique index if not exists leaderboard_teams_name_idx
+  on public.leaderboard_teams (leaderboard_id, lower(name));
+
+alter table public.leaderboard_teams enable row level security;
+
+alter table public.leaderboard_players
+  add column if not exists team_id uuid references public.leaderboard_teams(id) on delete set null;
+
+create index if not exists idx_leaderboard_players_team_id
+  on public.leaderboard_players (team_id);
+
+alter table public.leaderboards
+  add column if not exists team_scoring text not null default 'SUM',
+  add column if not exists goal_winner_team_id uuid references public.leaderboard_teams(id) on delete set null;
+
+do $$
+begin
+  if not exists (
+    select 1
+    from pg_constraint
+    where conname = 'leaderboards_team_scoring_check'
+  ) then
+    alter table public.leaderboards
+      add constraint leaderboards_team_scoring_check
+      check (team_scoring in ('SUM', 'AVG'));
+  end if;
+end
+$$;
@@ -0,0 +1,58 @@
+-- Outbound Discord webhooks per leaderboard.
+-- Owners connect one webhook URL per leaderboard and pick which event types are
+-- posted. The refresh worker queues each event as a delivery row keyed by a
+-- dedupe key (so the same promotion or race start is only ever posted once),
+-- then drains the queue with exponential backoff until delivered or parked as
+-- FAILED after too many attempts.
+-- Safe to run multiple times.
+
+create table if not exists public.leaderboard_webhooks (
+  leaderboard_id uuid primary key references public.leaderboards(id) on delete cascade,
+  url text not null,
+  enabled boolean not null default true,
+  notify_rank_changes boolean not null default true,
+  notify_peak_lp boolean not null default true,
+  notify_goals boolean not null default true,
+  notify_races boolean not null default true,
+  notify_daily_movers boolean not null default true,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+alter table public.leaderboard_webhooks enable row level security;
+
+create table if not exists public.leaderboard_webhook_deliveries (
+  id bigserial primary key,
+  leaderboard_id uuid not null references public.leaderboards(id) on delete cascade,
+  event_type text not null,
+  dedupe_key text not null,
+  payload jsonb not null,
+  status text not null default 'PENDING',
+  attempts integer not null default 0,
+  last_error text,
+  next_attempt_at timestamptz not null default now(),
+  delivered_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+create unique index if not exists leaderboard_webhook_deliveries_dedupe_idx
+  on public.leaderboard_webhook_deliveries (dedupe_key);
+
+do $$
+begin
+  if not exists (
+    select 1
+    from pg_constraint
+    where conname = 'leaderboard_webhook_deliveries_status_check'
+  ) then
+    alter table public.leaderboard_webhook_deliveries
+      add constraint leaderboard_webhook_deliveries_status_check
+      check (status in ('PENDING', 'DELIVERED', 'FAILED'));
+  end if;
+end
+$$;
+
+create index if not exists leaderboard_webhook_deliveries_drain_idx
+  on public.leaderboard_webhook_deliveries (status, next_attempt_at);
+
+alter table public.leaderboard_webhook_deliveries enable row level security;
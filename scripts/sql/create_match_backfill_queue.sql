@@ -0,0 +1,48 @@
+-- Durable queue of match details the refresh worker still has to fetch.
+-- Match ids are enqueued when a matchlist page turns up games we have no
+-- match_participants row for, then drained a few per player per run (highest
+-- priority first) so new players with long histories backfill over several
+-- runs instead of re-paging their whole matchlist every cycle.
+-- Safe to run multiple times.
+
+create table if not exists public.match_backfill_queue (
+  match_id text not null,
+  puuid text not null,
+  platform text not null default 'NA1',
+  priority integer not null default 0,
+  status text not null default 'PENDING',
+  attempts integer not null default 0,
+  last_error text,
+  last_attempt_at timestamptz,
+  next_attempt_at timestamptz not null default now(),
+  created_at timestamptz not null default now(),
+  primary key (match_id, puuid)
+);
+
+do $$
+begin
+  if not exists (
+    select 1
+    from pg_constraint
+    where conname = 'match_backfill_queue_status_check'
+  ) then
+    alter table public.match_backfill_queue
+      add constraint match_backfill_queue_status_check
+      check (status in ('PENDING', 'FAILED'));
+  end if;
+end
+$$;
+
+create index if not exists match_backfill_queue_drain_idx
+  on public.match_backfill_queue (puuid, status, priority desc, match_id desc);
+
+-- Per-player bookkeeping so the worker knows when a full matchlist scan last
+-- completed and how much backfill is still outstanding.
+alter table public.player_riot_state
+add column if not exists last_matchlist_full_scan_at timestamptz;
+
+alter table public.player_riot_state
+add column if not exists backfill_pending integer not null default 0;
+
+alter table public.player_riot_state
+add column if not exists backfill_failed integer not null default 0;
@@ -0,0 +1,24 @@
+-- Live "in game now" state from spectator-v5.
+-- The refresh worker polls active games for leaderboard players once per run:
+-- a row with ended_at null is a game in progress; when the player is no longer
+-- in game ended_at is stamped so the site can link the finished match until it
+-- is ingested. Finished rows are pruned after a short retention window.
+-- Safe to run multiple times.
+
+create table if not exists public.player_live_games (
+  puuid text primary key,
+  game_id bigint not null,
+  platform text not null,
+  match_id text not null,
+  champion_id integer,
+  queue_id integer,
+  game_start_at timestamptz,
+  observed_at timestamptz not null default now(),
+  ended_at timestamptz,
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists idx_player_live_games_ended_at
+  on public.player_live_games (ended_at);
+
+alter table public.player_live_games enable row level security;
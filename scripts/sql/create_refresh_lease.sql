@@ -0,0 +1,71 @@
+-- Single-runner lease for scripts/refresh.ts.
+-- A run acquires the lease before touching any data, heartbeats it while it
+-- works and releases it on exit. A lease whose expiry has passed (crashed or
+-- killed run) can be taken over by the next run.
+-- Safe to run multiple times.
+
+create table if not exists public.refresh_leases (
+  name text primary key,
+  holder_id text not null,
+  acquired_at timestamptz not null default now(),
+  heartbeat_at timestamptz not null default now(),
+  expires_at timestamptz not null
+);
+
+alter table public.refresh_leases enable row level security;
+
+create or replace function try_acquire_refresh_lease(
+  lease_name text,
+  holder text,
+  ttl_seconds int
+)
+returns table (acquired boolean, holder_id text, expires_at timestamptz) as $$
+#variable_conflict use_column
+begin
+  insert into refresh_leases as l (name, holder_id, acquired_at, heartbeat_at, expires_at)
+  values (lease_name, holder, now(), now(), now() + make_interval(secs => ttl_seconds))
+  on conflict (name) do update
+    set holder_id = excluded.holder_id,
+        acquired_at = excluded.acquired_at,
+        heartbeat_at = excluded.heartbeat_at,
+        expires_at = excluded.expires_at
+    where l.expires_at < now() or l.holder_id = excluded.holder_id;
+
+  return query
+    select l.holder_id = holder, l.holder_id, l.expires_at
+    from refresh_leases l
+    where l.name = lease_name;
+end;
+$$ language plpgsql volatile;
+
+create or replace function renew_refresh_lease(
+  lease_name text,
+  holder text,
+  ttl_seconds int
+)
+returns boolean as $$
+  with renewed as (
+    update refresh_leases
+    set heartbeat_at = now(),
+        expires_at = now() + make_interval(secs => ttl_seconds)
+    where name = lease_name
+      and holder_id = holder
+    returning 1
+  )
+  select exists (select 1 from renewed)
+$$ language sql volatile;
+
+create or replace function release_refresh_lease(
+  lease_name text,
+  holder text
+)
+returns void as $$
+  delete from refresh_leases
+  where name = lease_name
+    and holder_id = holder
+$$ language sql volatile;
+
+-- Only the service role (the worker) may take or touch the lease.
+revoke execute on function try_acquire_refresh_lease(text, text, int) from public, anon, authenticated;
+revoke execute on function renew_refresh_lease(text, text, int) from public, anon, authenticated;
+revoke execute on function release_refresh_lease(text, text) from public, anon, authenticated;
@@ -0,0 +1,42 @@
+-- One row per scripts/refresh.ts run, written at start and finalized on exit.
+-- /api/internal/health reads the latest rows to report how long ago the
+-- scheduler last completed a run, so a silently stopped cron can be alerted on.
+-- Safe to run multiple times.
+
+create table if not exists public.refresh_runs (
+  id uuid primary key default gen_random_uuid(),
+  holder_id text not null,
+  status text not null default 'RUNNING',
+  started_at timestamptz not null default now(),
+  finished_at timestamptz,
+  cycles integer not null default 0,
+  players_polled integer not null default 0,
+  player_errors integer not null default 0,
+  matches_ingested integer not null default 0,
+  lp_events_written integer not null default 0,
+  riot_requests integer not null default 0,
+  riot_rate_limited integer not null default 0,
+  riot_by_status jsonb not null default '{}'::jsonb,
+  errors jsonb not null default '[]'::jsonb,
+  error text
+);
+
+do $$
+begin
+  if not exists (
+    select 1
+    from pg_constraint
+    where conname = 'refresh_runs_status_check'
+  ) then
+    alter table public.refresh_runs
+      add constraint refresh_runs_status_check
+      check (status in ('RUNNING', 'SUCCEEDED', 'FAILED', 'ABORTED'));
+  end if;
+end
+$$;
+
+create index if not exists refresh_runs_status_started_idx
+  on public.refresh_runs (status, started_at desc);
+
+-- Worker and internal health route only (both use the service role).
+alter table public.refresh_runs enable row level security;
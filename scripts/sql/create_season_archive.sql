@@ -0,0 +1,33 @@
+-- Non-destructive season rollover.
+-- When the refresh worker sees a new ranked season it copies every
+-- player_rank_snapshot row into player_season_ranks under the season that just
+-- ended, records the rollover in season_rollovers, and only then clears the
+-- transient per-player refresh state. Matches, participants, LP events and LP
+-- history are kept; past seasons are read back by their start/end window.
+-- Safe to run multiple times.
+
+create table if not exists public.season_rollovers (
+  season integer primary key,
+  start_at timestamptz not null,
+  rolled_over_at timestamptz not null default now()
+);
+
+create table if not exists public.player_season_ranks (
+  season integer not null,
+  puuid text not null,
+  queue_type text not null,
+  tier text,
+  rank text,
+  league_points integer,
+  wins integer,
+  losses integer,
+  fetched_at timestamptz,
+  archived_at timestamptz not null default now(),
+  primary key (season, puuid, queue_type)
+);
+
+create index if not exists idx_player_season_ranks_puuid
+  on public.player_season_ranks (puuid, season);
+
+-- Worker bookkeeping only.
+alter table public.season_rollovers enable row level security;
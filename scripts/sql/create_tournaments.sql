@@ -0,0 +1,115 @@
+-- Organizer-run tournaments between clubs or individual players.
+-- Entrants are seeded by current rank when the organizer starts the event; the
+-- whole bracket is generated up front. Each match row points at the match its
+-- winner (and, in double elimination, its loser) moves on to, so recording a
+-- result only has to fill the next slot. Round robin matches have no pointers.
+-- Safe to run multiple times.
+
+create table if not exists public.tournaments (
+  id uuid primary key default gen_random_uuid(),
+  organizer_user_id uuid not null references auth.users(id) on delete cascade,
+  name text not null,
+  description text,
+  format text not null,
+  entrant_type text not null,
+  status text not null default 'REGISTRATION',
+  starts_at timestamptz,
+  champion_entrant_id uuid,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists idx_tournaments_organizer
+  on public.tournaments (organizer_user_id);
+
+do $$
+begin
+  if not exists (select 1 from pg_constraint where conname = 'tournaments_format_check') then
+    alter table public.tournaments
+      add constraint tournaments_format_check
+      check (format in ('SINGLE_ELIMINATION', 'DOUBLE_ELIMINATION', 'ROUND_ROBIN'));
+  end if;
+  if not exists (select 1 from pg_constraint where conname = 'tournaments_entrant_type_check') then
+    alter table public.tournaments
+      add constraint tournaments_entrant_type_check
+      check (entrant_type in ('CLUB', 'PLAYER'));
+  end if;
+  if not exists (select 1 from pg_constraint where conname = 'tournaments_status_check') then
+    alter table public.tournaments
+      add constraint tournaments_status_check
+      check (status in ('REGISTRATION', 'IN_PROGRESS', 'COMPLETED'));
+  end if;
+end
+$$;
+
+alter table public.tournaments enable row level security;
+
+create table if not exists public.tournament_entrants (
+  id uuid primary key default gen_random_uuid(),
+  tournament_id uuid not null references public.tournaments(id) on delete cascade,
+  club_id uuid references public.clubs(id) on delete cascade,
+  player_puuid text,
+  display_name text not null,
+  seed integer,
+  created_at timestamptz not null default now()
+);
+
+create unique index if not exists tournament_entrants_club_idx
+  on public.tournament_entrants (tournament_id, club_id)
+  where club_id is not null;
+
+create unique index if not exists tournament_entrants_player_idx
+  on public.tournament_entrants (tournament_id, player_puuid)
+  where player_puuid is not null;
+
+alter table public.tournament_entrants enable row level security;
+
+do $$
+begin
+  if not exists (select 1 from pg_constraint where conname = 'tournaments_champion_entrant_fkey') then
+    alter table public.tournaments
+      add constraint tournaments_champion_entrant_fkey
+      foreign key (champion_entrant_id) references public.tournament_entrants(id) on delete set null;
+  end if;
+end
+$$;
+
+create table if not exists public.tournament_matches (
+  id uuid primary key,
+  tournament_id uuid not null references public.tournaments(id) on delete cascade,
+  bracket text not null,
+  round integer not null,
+  position integer not null,
+  entrant_a_id uuid references public.tournament_entrants(id) on delete set null,
+  entrant_b_id uuid references public.tournament_entrants(id) on delete set null,
+  winner_entrant_id uuid references public.tournament_entrants(id) on delete set null,
+  score_a integer,
+  score_b integer,
+  winner_to_match_id uuid references public.tournament_matches(id) on delete set null,
+  winner_to_slot text,
+  loser_to_match_id uuid references public.tournament_matches(id) on delete set null,
+  loser_to_slot text,
+  scheduled_at timestamptz,
+  completed_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists idx_tournament_matches_tournament
+  on public.tournament_matches (tournament_id, bracket, round, position);
+
+do $$
+begin
+  if not exists (select 1 from pg_constraint where conname = 'tournament_matches_bracket_check') then
+    alter table public.tournament_matches
+      add constraint tournament_matches_bracket_check
+      check (bracket in ('WINNERS', 'LOSERS', 'GRAND_FINAL', 'ROUND_ROBIN'));
+  end if;
+  if not exists (select 1 from pg_constraint where conname = 'tournament_matches_slot_check') then
+    alter table public.tournament_matches
+      add constraint tournament_matches_slot_check
+      check (coalesce(winner_to_slot, 'A') in ('A', 'B') and coalesce(loser_to_slot, 'A') in ('A', 'B'));
+  end if;
+end
+$$;
+
+alter table public.tournament_matches enable row level security;
@@ -0,0 +1,52 @@
+import http from 'node:http'
+
+// Local stand-in for a Discord webhook. Point a leaderboard's webhook URL at
+// http://localhost:<port>/ (allowed outside production) and every delivery is
+// printed here. Failure modes can be simulated to exercise the retry path:
+//   WEBHOOK_STANDIN_PORT=8787      port to listen on
+//   WEBHOOK_STANDIN_FAIL_FIRST=2   answer the first N posts with a 500
+//   WEBHOOK_STANDIN_RATE_LIMIT=1   answer every other post with a 429 + retry_after
+//   WEBHOOK_STANDIN_GONE=1         answer every post with a 404 (deleted webhook)
+
+const PORT = Number(process.env.WEBHOOK_STANDIN_PORT ?? 8787)
+const FAIL_FIRST = Math.max(Number(process.env.WEBHOOK_STANDIN_FAIL_FIRST ?? 0), 0)
+const RATE_LIMIT = process.env.WEBHOOK_STANDIN_RATE_LIMIT === '1'
+const GONE = process.env.WEBHOOK_STANDIN_GONE === '1'
+
+let received = 0
+
+const server = http.createServer((req, res) => {
+  if (req.method !== 'POST') {
+    res.writeHead(405).end()
+    return
+  }
+
+  const chunks: Buffer[] = []
+  req.on('data', (chunk: Buffer) => chunks.push(chunk))
+  req.on('end', () => {
+    received += 1
+    const body = Buffer.concat(chunks).toString('utf8')
+    const reply = (status: number, payload?: unknown) => {
+      console.log(`[standin] #${received} ${req.url} -> ${status}`)
+      res.writeHead(status, { 'Content-Type': 'application/json' })
+      res.end(payload === undefined ? '' : JSON.stringify(payload))
+    }
+
+    if (GONE) return reply(404, { message: 'Unknown Webhook', code: 10015 })
+    if (received <= FAIL_FIRST) return reply(500, { message: 'Simulated failure' })
+    if (RATE_LIMIT && received % 2 === 1) {
+      return reply(429, { message: 'You are being rate limited.', retry_after: 1.5, global: false })
+    }
+
+    try {
+      console.log(JSON.stringify(JSON.parse(body), null, 2))
+    } catch {
+      console.log(body)
+    }
+    reply(204)
+  })
+})
+
+server.listen(PORT, () => {
+  console.log(`[standin] listening on http://localhost:${PORT}/`)
+})
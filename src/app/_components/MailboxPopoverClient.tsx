@@ -1,5 +1,6 @@
 'use client'
 
+import Link from 'next/link'
 import { useEffect, useMemo, useRef, useState } from 'react'
 
 type Invite = {
@@ -7,15 +8,16 @@ type Invite = {
   clubName: string
   inviterName?: string | null
   createdAt?: string | null
+  expiresAt?: string | null
+  status: string
 }
 
 type ShowdownRequest = {
   id: string
   opponentName: string
   createdAt?: string | null
-  requesterClubId?: string
-  targetClubId?: string
-  status?: string | null
+  expiresAt?: string | null
+  terms: string
 }
 
 type Props = {
@@ -24,6 +26,16 @@ type Props = {
   outgoingShowdowns?: ShowdownRequest[]
   onAcceptShowdown?: (formData: FormData) => void
   onCancelShowdown?: (formData: FormData) => void
+  onAcceptInvite?: (formData: FormData) => void
+  onDeclineInvite?: (formData: FormData) => void
+}
+
+const INVITE_STATUS_LABELS: Record<string, string> = {
+  PENDING: 'Pending',
+  ACCEPTED: 'Accepted',
+  DECLINED: 'Declined',
+  CANCELLED: 'Cancelled',
+  EXPIRED: 'Expired',
 }
 
 function formatDate(value?: string | null) {
@@ -39,12 +51,16 @@ export function MailboxPopoverClient({
   outgoingShowdowns = [],
   onAcceptShowdown,
   onCancelShowdown,
+  onAcceptInvite,
+  onDeclineInvite,
 }: Props) {
   const [open, setOpen] = useState(false)
   const [activeTab, setActiveTab] = useState<'inbox' | 'outgoing'>('inbox')
   const containerRef = useRef<HTMLDivElement | null>(null)
 
-  const total = invites.length + inboxShowdowns.length
+  // Answered and expired invites are listed for reference but don't count as new mail.
+  const pendingInvites = invites.filter((invite) => invite.status === 'PENDING')
+  const total = pendingInvites.length + inboxShowdowns.length
   const hasMail = total > 0
 
   useEffect(() => {
@@ -117,7 +133,7 @@ export function MailboxPopoverClient({
           <div className="max-h-96 overflow-y-auto p-4">
             {activeTab === 'inbox' && (
               <>
-                {!hasMail && (
+                {!hasMail && sortedInvites.length === 0 && (
                   <div className="rounded-xl border border-dashed border-slate-200 bg-slate-50 p-6 text-center text-xs text-slate-500 dark:border-slate-800 dark:bg-slate-900 dark:text-slate-400">
                     No new invites or requests.
                   </div>
@@ -136,6 +152,36 @@ export function MailboxPopoverClient({
                           <p className="mt-1 text-xs text-slate-500 dark:text-slate-400">
                             Invited by {invite.inviterName ?? 'Club owner'}
                           </p>
+                          <p className="mt-1 text-[11px] text-slate-400 dark:text-slate-500">
+                            {INVITE_STATUS_LABELS[invite.status] ?? invite.status}
+                            {invite.status === 'PENDING' && formatDate(invite.expiresAt) ? ` · expires ${formatDate(invite.expiresAt)}` : ''}
+                          </p>
+                          {invite.status === 'PENDING' && (
+                            <div className="mt-2 flex items-center gap-2">
+                              {onAcceptInvite && (
+                                <form action={onAcceptInvite}>
+                                  <input type="hidden" name="invite_id" value={invite.id} />
+                                  <button
+                                    type="submit"
+                                    className="inline-flex items-center justify-center rounded-lg border border-emerald-200 px-3 py-1.5 text-xs font-semibold text-emerald-700 transition hover:border-emerald-300 hover:text-emerald-800 dark:border-emerald-500/40 dark:text-emerald-300 dark:hover:border-emerald-400"
+                                  >
+                                    Accept
+                                  </button>
+                                </form>
+                              )}
+                              {onDeclineInvite && (
+                                <form action={onDeclineInvite}>
+                                  <input type="hidden" name="invite_id" value={invite.id} />
+                                  <button
+                                    type="submit"
+                                    className="inline-flex items-center justify-center rounded-lg border border-rose-200 px-3 py-1.5 text-xs font-semibold text-rose-600 transition hover:border-rose-300 hover:text-rose-700 dark:border-rose-500/40 dark:text-rose-300 dark:hover:border-rose-400"
+                                  >
+                                    Decline
+                                  </button>
+                                </form>
+                              )}
+                            </div>
+                          )}
                         </div>
                       ))}
                     </div>
@@ -152,22 +198,30 @@ export function MailboxPopoverClient({
                             <span className="font-semibold text-slate-800 dark:text-slate-100">{request.opponentName}</span>
                             <span className="text-[11px] text-slate-500 dark:text-slate-400">{formatDate(request.createdAt) ?? 'New'}</span>
                           </div>
-                          <p className="mt-1 text-xs text-slate-500 dark:text-slate-400">
-                            {request.status === 'ACCEPTED' ? 'Accepted' : 'Awaiting response'}
-                          </p>
-                          {onAcceptShowdown && request.targetClubId && (
-                            <form action={onAcceptShowdown} className="mt-2">
-                              <input type="hidden" name="request_id" value={request.id} />
-                              <input type="hidden" name="target_club_id" value={request.targetClubId} />
-                              <button
-                                type="submit"
-                                disabled={request.status === 'ACCEPTED'}
-                                className="inline-flex items-center justify-center rounded-lg border border-emerald-200 px-3 py-1.5 text-xs font-semibold text-emerald-700 transition hover:border-emerald-300 hover:text-emerald-800 dark:border-emerald-500/40 dark:text-emerald-300 dark:hover:border-emerald-400"
-                              >
-                                Accept
-                              </button>
-                            </form>
+                          <p className="mt-1 text-xs text-slate-500 dark:text-slate-400">{request.terms}</p>
+                          {formatDate(request.expiresAt) && (
+                            <p className="mt-1 text-[11px] text-slate-400 dark:text-slate-500">Expires {formatDate(request.expiresAt)}</p>
                           )}
+                          <div className="mt-2 flex items-center gap-2">
+                            {onAcceptShowdown && (
+                              <form action={onAcceptShowdown}>
+                                <input type="hidden" name="request_id" value={request.id} />
+                                <button
+                                  type="submit"
+                                  className="inline-flex items-center justify-center rounded-lg border border-emerald-200 px-3 py-1.5 text-xs font-semibold text-emerald-700 transition hover:border-emerald-300 hover:text-emerald-800 dark:border-emerald-500/40 dark:text-emerald-300 dark:hover:border-emerald-400"
+                                >
+                                  Accept
+                                </button>
+                              </form>
+                            )}
+                            <Link
+                              href={`/showdown/${request.id}`}
+                              onClick={() => setOpen(false)}
+                              className="inline-flex items-center justify-center rounded-lg border border-slate-200 px-3 py-1.5 text-xs font-semibold text-slate-700 transition hover:border-slate-300 hover:text-slate-900 dark:border-slate-700 dark:text-slate-200 dark:hover:border-slate-500"
+                            >
+                              Decline or counter
+                            </Link>
+                          </div>
                         </div>
                       ))}
                     </div>
@@ -192,16 +246,18 @@ export function MailboxPopoverClient({
                             <span className="font-semibold text-slate-800 dark:text-slate-100">{request.opponentName}</span>
                             <span className="text-[11px] text-slate-500 dark:text-slate-400">{formatDate(request.createdAt) ?? 'Sent'}</span>
                           </div>
-                          <p className="mt-1 text-xs text-slate-500 dark:text-slate-400">Pending response</p>
-                          {onCancelShowdown && request.requesterClubId && (
+                          <p className="mt-1 text-xs text-slate-500 dark:text-slate-400">{request.terms}</p>
+                          <p className="mt-1 text-[11px] text-slate-400 dark:text-slate-500">
+                            Awaiting response{formatDate(request.expiresAt) ? ` · expires ${formatDate(request.expiresAt)}` : ''}
+                          </p>
+                          {onCancelShowdown && (
                             <form action={onCancelShowdown} className="mt-2">
                               <input type="hidden" name="request_id" value={request.id} />
-                              <input type="hidden" name="requester_club_id" value={request.requesterClubId} />
                               <button
                                 type="submit"
                                 className="inline-flex items-center justify-center rounded-lg border border-rose-200 px-3 py-1.5 text-xs font-semibold text-rose-600 transition hover:border-rose-300 hover:text-rose-700 dark:border-rose-500/40 dark:text-rose-300 dark:hover:border-rose-400"
                               >
-                                Cancel
+                                Withdraw
                               </button>
                             </form>
                           )}
@@ -118,6 +118,15 @@ export async function GET(req: Request) {
       (riotUser.game_name && riotUser.tag_line ? `${riotUser.game_name}#${riotUser.tag_line}` : undefined) ??
       null
     const email = (riotUser.email as string | undefined) ?? `${riotSub}@riot.local`
+    // user_metadata is editable by the signed-in user, so the verified Riot
+    // account is also kept in app_metadata, which only the service role writes.
+    // Club joins read it from there.
+    const riotAppMetadata = {
+      riot_sub: riotSub,
+      ...(accountMe?.gameName ? { riot_game_name: accountMe.gameName } : {}),
+      ...(accountMe?.tagLine ? { riot_tag_line: accountMe.tagLine } : {}),
+      ...(summonerMe?.puuid ? { riot_puuid: summonerMe.puuid } : {}),
+    }
 
     const supabaseAdmin = createServiceClient()
 
@@ -132,6 +141,7 @@ export async function GET(req: Request) {
         ...(typeof summonerMe?.profileIconId === 'number' ? { riot_profile_icon_id: summonerMe.profileIconId } : {}),
         ...(riotDisplay ? { full_name: riotDisplay } : {}),
       },
+      app_metadata: riotAppMetadata,
     })
 
     let userId = created.data.user?.id ?? null
@@ -162,6 +172,7 @@ export async function GET(req: Request) {
           ...(typeof summonerMe?.profileIconId === 'number' ? { riot_profile_icon_id: summonerMe.profileIconId } : {}),
           ...(riotDisplay ? { full_name: riotDisplay } : {}),
         },
+        app_metadata: riotAppMetadata,
       })
     }
 
@@ -264,6 +275,7 @@ export async function GET(req: Request) {
             ...(typeof summonerMe?.profileIconId === 'number' ? { riot_profile_icon_id: summonerMe.profileIconId } : {}),
             ...(riotDisplay ? { full_name: riotDisplay } : {}),
           },
+          app_metadata: riotAppMetadata,
         })
       }
     } else {
@@ -0,0 +1,182 @@
+import { NextResponse } from 'next/server'
+import { createServiceClient } from '@/lib/supabase/service'
+
+export const dynamic = 'force-dynamic'
+
+// A run is scheduled every 1-5 minutes; anything older than this means the
+// scheduler has stopped (or every run is failing).
+const DEFAULT_MAX_RUN_AGE_SECONDS = 15 * 60
+const DEFAULT_STALE_PLAYER_SECONDS = 30 * 60
+const PUUID_PAGE_SIZE = 1000
+
+type RefreshRunRow = {
+  id: string
+  status: string
+  started_at: string
+  finished_at: string | null
+  players_polled: number
+  player_errors: number
+  matches_ingested: number
+  lp_events_written: number
+  riot_requests: number
+  riot_rate_limited: number
+  error: string | null
+}
+
+function positiveSeconds(value: string | null, fallback: number) {
+  const n = Number(value)
+  return Number.isFinite(n) && n > 0 ? Math.floor(n) : fallback
+}
+
+function ageSeconds(iso: string | null | undefined, nowMs: number): number | null {
+  if (!iso) return null
+  const ms = new Date(iso).getTime()
+  return Number.isFinite(ms) ? Math.max(0, Math.round((nowMs - ms) / 1000)) : null
+}
+
+// Every PUUID the refresh worker polls: leaderboard players and club members
+// with a linked Riot account. Paged, since responses stop at 1000 rows.
+async function fetchPolledPuuids(supabase: ReturnType<typeof createServiceClient>): Promise<string[]> {
+  const puuids = new Set<string>()
+  const sources = [
+    { table: 'leaderboard_players', column: 'puuid' },
+    { table: 'club_members', column: 'player_puuid' },
+  ] as const
+
+  for (const { table, column } of sources) {
+    for (let from = 0; ; from += PUUID_PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from(table)
+        .select(column)
+        .not(column, 'is', null)
+        .order(column, { ascending: true })
+        .range(from, from + PUUID_PAGE_SIZE - 1)
+      if (error) throw new Error(`${table}: ${error.message}`)
+      const rows = (data ?? []) as Array<Record<string, string | null>>
+      for (const row of rows) {
+        const puuid = String(row[column] ?? '').trim()
+        if (puuid) puuids.add(puuid)
+      }
+      if (rows.length < PUUID_PAGE_SIZE) break
+    }
+  }
+  return Array.from(puuids)
+}
+
+export async function GET(req: Request) {
+  const expectedSecret = process.env.INTERNAL_REVALIDATE_SECRET?.trim()
+  if (!expectedSecret) {
+    return NextResponse.json({ error: 'Missing INTERNAL_REVALIDATE_SECRET' }, { status: 500 })
+  }
+
+  const providedSecret = req.headers.get('x-internal-secret')?.trim()
+  if (!providedSecret || providedSecret !== expectedSecret) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const { searchParams } = new URL(req.url)
+  const maxRunAgeSeconds = positiveSeconds(searchParams.get('maxRunAge'), DEFAULT_MAX_RUN_AGE_SECONDS)
+  const staleAfterSeconds = positiveSeconds(searchParams.get('staleAfter'), DEFAULT_STALE_PLAYER_SECONDS)
+
+  const supabase = createServiceClient()
+  const nowMs = Date.now()
+
+  const runSelect =
+    'id, status, started_at, finished_at, players_polled, player_errors, matches_ingested, lp_events_written, riot_requests, riot_rate_limited, error'
+
+  const [latestRunRes, lastSuccessRes, pendingRes, failedRes] = await Promise.all([
+    supabase
+      .from('refresh_runs')
+      .select(runSelect)
+      .order('started_at', { ascending: false })
+      .limit(1)
+      .maybeSingle(),
+    supabase
+      .from('refresh_runs')
+      .select(runSelect)
+      .eq('status', 'SUCCEEDED')
+      .order('started_at', { ascending: false })
+      .limit(1)
+      .maybeSingle(),
+    supabase
+      .from('match_backfill_queue')
+      .select('match_id', { count: 'exact', head: true })
+      .eq('status', 'PENDING'),
+    supabase
+      .from('match_backfill_queue')
+      .select('match_id', { count: 'exact', head: true })
+      .eq('status', 'FAILED'),
+  ])
+
+  const queryError = latestRunRes.error ?? lastSuccessRes.error ?? pendingRes.error ?? failedRes.error
+  if (queryError) {
+    return NextResponse.json({ error: queryError.message }, { status: 500 })
+  }
+
+  let puuids: string[]
+  try {
+    puuids = await fetchPolledPuuids(supabase)
+  } catch (error) {
+    return NextResponse.json({ error: error instanceof Error ? error.message : String(error) }, { status: 500 })
+  }
+
+  const stateRows: Array<{ puuid: string; last_poll_at: string | null; last_error: string | null }> = []
+  for (let i = 0; i < puuids.length; i += 500) {
+    const { data, error } = await supabase
+      .from('player_riot_state')
+      .select('puuid, last_poll_at, last_error')
+      .in('puuid', puuids.slice(i, i + 500))
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 })
+    }
+    stateRows.push(...(data ?? []))
+  }
+
+  const stateByPuuid = new Map(stateRows.map((row) => [row.puuid, row]))
+  const players = puuids
+    .map((puuid) => {
+      const state = stateByPuuid.get(puuid)
+      const stalenessSeconds = ageSeconds(state?.last_poll_at, nowMs)
+      return {
+        puuid,
+        lastPollAt: state?.last_poll_at ?? null,
+        stalenessSeconds,
+        stale: stalenessSeconds === null || stalenessSeconds > staleAfterSeconds,
+        lastError: state?.last_error ?? null,
+      }
+    })
+    // Never-polled players first, then the longest-unpolled.
+    .sort((a, b) => (b.stalenessSeconds ?? Infinity) - (a.stalenessSeconds ?? Infinity))
+
+  const latestRun = (latestRunRes.data as RefreshRunRow | null) ?? null
+  const lastSuccess = (lastSuccessRes.data as RefreshRunRow | null) ?? null
+  const lastSuccessAgeSeconds = ageSeconds(lastSuccess?.finished_at ?? lastSuccess?.started_at, nowMs)
+  const ok = lastSuccessAgeSeconds !== null && lastSuccessAgeSeconds <= maxRunAgeSeconds
+
+  const res = NextResponse.json(
+    {
+      ok,
+      checkedAt: new Date(nowMs).toISOString(),
+      thresholds: { maxRunAgeSeconds, staleAfterSeconds },
+      lastSuccessfulRun: lastSuccess ? { ...lastSuccess, ageSeconds: lastSuccessAgeSeconds } : null,
+      latestRun: latestRun ? { ...latestRun, ageSeconds: ageSeconds(latestRun.started_at, nowMs) } : null,
+      players: {
+        total: players.length,
+        stale: players.filter((p) => p.stale).length,
+        maxStalenessSeconds: players.reduce<number | null>(
+          (max, p) => (p.stalenessSeconds === null || max === null ? null : Math.max(max, p.stalenessSeconds)),
+          players.length > 0 ? 0 : null
+        ),
+        byPlayer: players,
+      },
+      backlog: {
+        pending: pendingRes.count ?? 0,
+        failed: failedRes.count ?? 0,
+      },
+    },
+    // 503 lets uptime monitors alert on the status code alone.
+    { status: ok ? 200 : 503 }
+  )
+  res.headers.set('Cache-Control', 'no-store')
+  return res
+}
@@ -1,7 +1,9 @@
 import { NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
 import { createServiceClient } from '@/lib/supabase/service'
-import { getSeasonStartIso } from '@/lib/riot/season'
+import { getSeasonStartIso, parseArchivedSeason } from '@/lib/riot/season'
+import { LEADERBOARD_QUEUE_TYPES, parseLeaderboardQueue } from '@/lib/leaderboard/queues'
+import { isLpPenaltyNote } from '@/lib/leaderboard/lpPenalties'
 
 const HISTORY_PAGE_SIZE = 1000
 const GRAPH_PUBLIC_S_MAXAGE_SECONDS = 300
@@ -120,22 +122,26 @@ function sampleLpRows(rows: LpHistoryRow[], maxPoints: number) {
     .map((idx) => rows[idx])
 }
 
+type SeasonWindow = { startIso: string; endIso: string | null }
+
 async function fetchRecentLpEventsForPlayer(
   dataClient: ReturnType<typeof createServiceClient>,
   puuid: string,
+  queueType: string,
   limit: number,
-  seasonStartIso?: string
+  season?: SeasonWindow
 ): Promise<LpHistoryRow[]> {
   let query = dataClient
     .from('player_lp_events')
     .select('match_id, puuid, lp:lp_after, lp_delta, note, wins:wins_after, losses:losses_after, fetched_at:recorded_at')
     .eq('puuid', puuid)
-    .eq('queue_type', 'RANKED_SOLO_5x5')
+    .eq('queue_type', queueType)
     .order('recorded_at', { ascending: false })
     .limit(limit)
 
-  if (seasonStartIso) {
-    query = query.gte('recorded_at', seasonStartIso)
+  if (season) {
+    query = query.gte('recorded_at', season.startIso)
+    if (season.endIso) query = query.lt('recorded_at', season.endIso)
   }
 
   const { data } = await query
@@ -178,19 +184,21 @@ async function fetchRecentLpEventsForPlayer(
 async function fetchRecentLpHistoryForPlayer(
   dataClient: ReturnType<typeof createServiceClient>,
   puuid: string,
+  queueType: string,
   limit: number,
-  seasonStartIso?: string
+  season?: SeasonWindow
 ): Promise<LpHistoryRow[]> {
   let query = dataClient
     .from('player_lp_history')
     .select('puuid, tier, rank, lp, wins, losses, fetched_at')
     .eq('puuid', puuid)
-    .eq('queue_type', 'RANKED_SOLO_5x5')
+    .eq('queue_type', queueType)
     .order('fetched_at', { ascending: false })
     .limit(limit)
 
-  if (seasonStartIso) {
-    query = query.gte('fetched_at', seasonStartIso)
+  if (season) {
+    query = query.gte('fetched_at', season.startIso)
+    if (season.endIso) query = query.lt('fetched_at', season.endIso)
   }
 
   const { data } = await query
@@ -200,8 +208,9 @@ async function fetchRecentLpHistoryForPlayer(
 async function fetchPage(
   dataClient: ReturnType<typeof createServiceClient>,
   puuid: string,
+  queueType: string,
   page: number,
-  seasonStartIso?: string
+  season?: SeasonWindow
 ): Promise<LpHistoryRow[]> {
   const from = page * HISTORY_PAGE_SIZE
   const to = from + HISTORY_PAGE_SIZE - 1
@@ -210,12 +219,13 @@ async function fetchPage(
     .from('player_lp_history')
     .select('puuid, tier, rank, lp, wins, losses, fetched_at')
     .eq('puuid', puuid)
-    .eq('queue_type', 'RANKED_SOLO_5x5')
+    .eq('queue_type', queueType)
     .order('fetched_at', { ascending: true })
     .range(from, to)
 
-  if (seasonStartIso) {
-    query = query.gte('fetched_at', seasonStartIso)
+  if (season) {
+    query = query.gte('fetched_at', season.startIso)
+    if (season.endIso) query = query.lt('fetched_at', season.endIso)
   }
 
   const { data } = await query
@@ -225,16 +235,17 @@ async function fetchPage(
 async function fetchLpHistoryForPlayer(
   dataClient: ReturnType<typeof createServiceClient>,
   puuid: string,
-  seasonStartIso?: string
+  queueType: string,
+  season?: SeasonWindow
 ): Promise<LpHistoryRow[]> {
-  const firstPage = await fetchPage(dataClient, puuid, 0, seasonStartIso)
+  const firstPage = await fetchPage(dataClient, puuid, queueType, 0, season)
   if (firstPage.length < HISTORY_PAGE_SIZE) {
     return firstPage
   }
 
   const MAX_ADDITIONAL_PAGES = 9
   const additionalPages = await Promise.all(
-    Array.from({ length: MAX_ADDITIONAL_PAGES }, (_, i) => fetchPage(dataClient, puuid, i + 1, seasonStartIso))
+    Array.from({ length: MAX_ADDITIONAL_PAGES }, (_, i) => fetchPage(dataClient, puuid, queueType, i + 1, season))
   )
 
   const rows: LpHistoryRow[] = []
@@ -251,14 +262,22 @@ function mergeHistoryWithRecentEvents(historyRows: LpHistoryRow[], eventRows: Lp
   if (eventRows.length === 0) return historyRows
 
   const out = [...historyRows]
-  const seen = new Set(
-    historyRows.map((row) => `${row.fetched_at}|${row.lp ?? ''}|${row.wins ?? ''}|${row.losses ?? ''}`)
+  const indexByKey = new Map(
+    historyRows.map((row, idx) => [`${row.fetched_at}|${row.lp ?? ''}|${row.wins ?? ''}|${row.losses ?? ''}`, idx])
   )
 
   for (const row of eventRows) {
     const key = `${row.fetched_at}|${row.lp ?? ''}|${row.wins ?? ''}|${row.losses ?? ''}`
-    if (seen.has(key)) continue
-    seen.add(key)
+    const existingIdx = indexByKey.get(key)
+    if (existingIdx !== undefined) {
+      // History rows carry no note; keep a dodge or decay note so the point stays labelled.
+      const existing = out[existingIdx]
+      if (!existing.lp_note && isLpPenaltyNote(row.lp_note)) {
+        out[existingIdx] = { ...existing, lp_note: row.lp_note, lp_delta: existing.lp_delta ?? row.lp_delta }
+      }
+      continue
+    }
+    indexByKey.set(key, out.length)
     out.push(row)
   }
 
@@ -282,7 +301,7 @@ export async function GET(req: Request, { params }: { params: Promise<{ slug: st
     const supabase = await createClient()
     const { data: lb } = await supabase
       .from('leaderboards')
-      .select('id, user_id, visibility')
+      .select('id, user_id, visibility, track_flex')
       .eq('slug', slug)
       .maybeSingle()
 
@@ -312,16 +331,23 @@ export async function GET(req: Request, { params }: { params: Promise<{ slug: st
       return NextResponse.json({ error: 'Not found' }, { status: 404 })
     }
 
-    const seasonStartIso = getSeasonStartIso()
+    const queueType = LEADERBOARD_QUEUE_TYPES[parseLeaderboardQueue(searchParams.get('queue'), Boolean(lb.track_flex))]
+    // Archived seasons are a closed window; the all-time fallbacks below only
+    // apply to the live season.
+    const archivedSeason = parseArchivedSeason(searchParams.get('season'))
+    const season: SeasonWindow = archivedSeason
+      ? { startIso: archivedSeason.startIso, endIso: archivedSeason.endIso }
+      : { startIso: getSeasonStartIso(), endIso: null }
+    const allowAllTime = !archivedSeason
     let points: LpHistoryRow[] = []
 
     if (limit !== null) {
       // Recent mode should represent actual played games.
       // Prefer per-game LP events first (season scoped), then all-time events.
-      points = await fetchRecentLpEventsForPlayer(dataClient, puuid, limit, seasonStartIso)
+      points = await fetchRecentLpEventsForPlayer(dataClient, puuid, queueType, limit, season)
 
-      if (points.length < limit) {
-        const allTimeEvents = await fetchRecentLpEventsForPlayer(dataClient, puuid, limit)
+      if (allowAllTime && points.length < limit) {
+        const allTimeEvents = await fetchRecentLpEventsForPlayer(dataClient, puuid, queueType, limit)
         if (allTimeEvents.length > points.length) {
           points = allTimeEvents
         }
@@ -329,29 +355,29 @@ export async function GET(req: Request, { params }: { params: Promise<{ slug: st
 
       // Fallback for players missing event rows.
       if (points.length === 0) {
-        points = await fetchRecentLpHistoryForPlayer(dataClient, puuid, limit, seasonStartIso)
+        points = await fetchRecentLpHistoryForPlayer(dataClient, puuid, queueType, limit, season)
       }
-      if (points.length < limit) {
-        const allTimeHistory = await fetchRecentLpHistoryForPlayer(dataClient, puuid, limit)
+      if (allowAllTime && points.length < limit) {
+        const allTimeHistory = await fetchRecentLpHistoryForPlayer(dataClient, puuid, queueType, limit)
         if (allTimeHistory.length > points.length) {
           points = allTimeHistory
         }
       }
     } else {
-      const seasonRows = await fetchLpHistoryForPlayer(dataClient, puuid, seasonStartIso)
-      const fullRows = seasonRows.length > 0 ? seasonRows : await fetchLpHistoryForPlayer(dataClient, puuid)
-      const recentEventsSeason = await fetchRecentLpEventsForPlayer(dataClient, puuid, 200, seasonStartIso)
-      const recentEvents = recentEventsSeason.length > 0
+      const seasonRows = await fetchLpHistoryForPlayer(dataClient, puuid, queueType, season)
+      const fullRows = seasonRows.length > 0 || !allowAllTime ? seasonRows : await fetchLpHistoryForPlayer(dataClient, puuid, queueType)
+      const recentEventsSeason = await fetchRecentLpEventsForPlayer(dataClient, puuid, queueType, 200, season)
+      const recentEvents = recentEventsSeason.length > 0 || !allowAllTime
         ? recentEventsSeason
-        : await fetchRecentLpEventsForPlayer(dataClient, puuid, 200)
+        : await fetchRecentLpEventsForPlayer(dataClient, puuid, queueType, 200)
 
       const mergedRows = mergeHistoryWithRecentEvents(fullRows, recentEvents)
       const fallbackRows = mergedRows.length > 0
         ? mergedRows
-        : await fetchRecentLpEventsForPlayer(dataClient, puuid, 1000, seasonStartIso)
-      const baseRows = fallbackRows.length > 0
+        : await fetchRecentLpEventsForPlayer(dataClient, puuid, queueType, 1000, season)
+      const baseRows = fallbackRows.length > 0 || !allowAllTime
         ? fallbackRows
-        : await fetchRecentLpEventsForPlayer(dataClient, puuid, 1000)
+        : await fetchRecentLpEventsForPlayer(dataClient, puuid, queueType, 1000)
 
       points = includeFullHistory ? baseRows : sampleLpRows(baseRows, GRAPH_SAMPLE_TARGET_POINTS)
     }
@@ -1,6 +1,8 @@
 import { NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
 import { getLatestGamesFresh } from '@/lib/leaderboard/latestGames'
+import { getLiveGamesForLeaderboard } from '@/lib/leaderboard/liveGames'
+import { getRecentLpPenaltiesForLeaderboard } from '@/lib/leaderboard/lpPenalties'
 
 const DEFAULT_DDRAGON_VERSION = '15.24.1'
 
@@ -37,8 +39,12 @@ export async function GET(req: Request, { params }: { params: Promise<{ id: stri
     const requestedVersion = searchParams.get('ddVersion')?.trim()
     const ddVersion = requestedVersion || process.env.NEXT_PUBLIC_DDRAGON_VERSION || DEFAULT_DDRAGON_VERSION
 
-    const games = await getLatestGamesFresh(id, ddVersion)
-    const response = NextResponse.json({ games })
+    const [games, liveGames, penalties] = await Promise.all([
+      getLatestGamesFresh(id, ddVersion),
+      getLiveGamesForLeaderboard(id),
+      getRecentLpPenaltiesForLeaderboard(id),
+    ])
+    const response = NextResponse.json({ games, liveGames, penalties })
     response.headers.set('Cache-Control', 'no-store')
     return response
   } catch (error) {
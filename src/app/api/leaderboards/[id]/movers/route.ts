@@ -1,10 +1,11 @@
 import { NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
 import { getMoversDataFresh } from '@/lib/leaderboard/movers'
+import { parseLeaderboardQueue } from '@/lib/leaderboard/queues'
 
 type Visibility = 'PUBLIC' | 'UNLISTED' | 'PRIVATE'
 
-export async function GET(_: Request, { params }: { params: Promise<{ id: string }> }) {
+export async function GET(req: Request, { params }: { params: Promise<{ id: string }> }) {
   try {
     const { id } = await params
     if (!id) {
@@ -14,7 +15,7 @@ export async function GET(_: Request, { params }: { params: Promise<{ id: string
     const supabase = await createClient()
     const { data: leaderboard } = await supabase
       .from('leaderboards')
-      .select('id, user_id, visibility')
+      .select('id, user_id, visibility, track_flex')
       .eq('id', id)
       .maybeSingle()
 
@@ -31,7 +32,8 @@ export async function GET(_: Request, { params }: { params: Promise<{ id: string
       }
     }
 
-    const movers = await getMoversDataFresh(id)
+    const queue = parseLeaderboardQueue(new URL(req.url).searchParams.get('queue'), Boolean(leaderboard.track_flex))
+    const movers = await getMoversDataFresh(id, queue)
     const response = NextResponse.json({ movers })
     response.headers.set('Cache-Control', 'no-store')
     return response
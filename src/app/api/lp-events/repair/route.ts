@@ -1,6 +1,7 @@
 import { NextResponse } from 'next/server'
 import { createClient } from '@supabase/supabase-js'
 import { revalidateLeaderboardCachesForPuuids } from '@/lib/leaderboard/cacheTags'
+import { riotFetch } from '@/lib/riot/riotClient'
 
 const SUPABASE_URL = process.env.NEXT_PUBLIC_SUPABASE_URL!
 const SUPABASE_SERVICE_ROLE_KEY = process.env.SUPABASE_SERVICE_ROLE_KEY!
@@ -8,24 +9,8 @@ const RIOT_API_KEY = process.env.RIOT_API_KEY!
 
 const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY)
 
-const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms))
-
-async function riotGetJson(url: string, attempts = 4) {
-  let lastErr: any
-  for (let i = 1; i <= attempts; i++) {
-    try {
-      const res = await fetch(url, { headers: { 'X-Riot-Token': RIOT_API_KEY } })
-      if (!res.ok) {
-        const txt = await res.text().catch(() => '')
-        throw new Error(`Riot ${res.status}: ${txt}`)
-      }
-      return await res.json()
-    } catch (e) {
-      lastErr = e
-      await sleep(300 * 2 ** (i - 1))
-    }
-  }
-  throw lastErr
+function riotGetJson<T = any>(url: string): Promise<T> {
+  return riotFetch<T>(url, { maxRetries: 4, retryDelayMs: 300 })
 }
 
 function queueIdFromQueueType(queueType?: string | null) {
@@ -1,32 +1,14 @@
 import { NextResponse } from 'next/server'
-import { getRiotApiKey } from '@/lib/riot/getRiotApiKey'
-import { riotFetchWithRetry } from '@/lib/riot/riotFetchWithRetry'
+import { riotFetch } from '@/lib/riot/riotClient'
+import { platformFromMatchId, regionalRouteForPlatform } from '@/lib/riot/platforms'
 import { createServiceClient } from '@/lib/supabase/service'
 import { revalidateLeaderboardCachesForPuuids } from '@/lib/leaderboard/cacheTags'
-
-const ROUTING_BY_PLATFORM: Record<string, string> = {
-  NA1: 'americas',
-  BR1: 'americas',
-  LA1: 'americas',
-  LA2: 'americas',
-  OC1: 'sea',
-  KR: 'asia',
-  JP1: 'asia',
-  EUN1: 'europe',
-  EUW1: 'europe',
-  TR1: 'europe',
-  RU: 'europe',
-  PH2: 'sea',
-  SG2: 'sea',
-  TH2: 'sea',
-  TW2: 'sea',
-  VN2: 'sea',
-}
+import { participantRow } from '@/lib/riot/matchParticipants'
 
 function getRoutingFromMatchId(matchId: string) {
-  const platform = matchId.split('_')[0]?.toUpperCase()
+  const platform = platformFromMatchId(matchId)
   if (!platform) return null
-  return ROUTING_BY_PLATFORM[platform] ?? null
+  return regionalRouteForPlatform(platform)
 }
 
 const MATCH_CACHE = new Map<string, { value: any; expiresAt: number }>()
@@ -110,16 +92,7 @@ async function upsertMatchParticipants(matchId: string, match: any) {
   const upserts = participants.map((part) => {
     const existing = lpByPuuid.get(part.puuid)
     return {
-      match_id: meta.matchId,
-      puuid: part.puuid,
-      champion_id: Number(part.championId ?? 0),
-      kills: Number(part.kills ?? 0),
-      deaths: Number(part.deaths ?? 0),
-      assists: Number(part.assists ?? 0),
-      cs: Number((part.totalMinionsKilled ?? 0) + (part.neutralMinionsKilled ?? 0)),
-      win: Boolean(part.win),
-      vision_score: Number(part.visionScore ?? 0),
-      end_type: endType,
+      ...participantRow(meta.matchId, part.puuid, part, endType),
       lp_change: existing?.lp_change ?? null,
       lp_note: existing?.lp_note ?? null,
       rank_tier: existing?.rank_tier ?? null,
@@ -224,12 +197,10 @@ export async function GET(request: Request, { params }: { params: Promise<{ matc
     if (forceRefresh) {
       const routing = getRoutingFromMatchId(matchId)
       if (!routing) return NextResponse.json({ error: 'Unsupported match id' }, { status: 400 })
-      const apiKey = getRiotApiKey()
-      const match = await riotFetchWithRetry(
-        `https://${routing}.api.riotgames.com/lol/match/v5/matches/${matchId}`,
-        apiKey,
-        { maxRetries: 3, retryDelay: 2000 }
-      )
+      const match = await riotFetch(`https://${routing}.api.riotgames.com/lol/match/v5/matches/${matchId}`, {
+        maxRetries: 3,
+        retryDelayMs: 2000,
+      })
       setCachedMatch(matchId, match)
       await Promise.all([
         upsertDbMatch(matchId, match),
@@ -263,13 +234,12 @@ export async function GET(request: Request, { params }: { params: Promise<{ matc
 
     const routing = getRoutingFromMatchId(matchId)
     if (!routing) return NextResponse.json({ error: 'Unsupported match id' }, { status: 400 })
-    const apiKey = getRiotApiKey()
     const fetchPromise = (async () => {
-      const match = await riotFetchWithRetry(
-        `https://${routing}.api.riotgames.com/lol/match/v5/matches/${matchId}`,
-        apiKey,
-        { maxRetries: 3, retryDelay: 2000 }
-      )
+      const match = await riotFetch(`https://${routing}.api.riotgames.com/lol/match/v5/matches/${matchId}`, {
+        maxRetries: 3,
+        retryDelayMs: 2000,
+        init: { next: { revalidate: 30 } },
+      })
       setCachedMatch(matchId, match)
       await Promise.all([
         upsertDbMatch(matchId, match),
@@ -1,6 +1,46 @@
 import { NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
-import { getSeasonStartIso } from '@/lib/riot/season'
+import { getSeasonStartIso, parseArchivedSeason } from '@/lib/riot/season'
+import { onSameTeam } from '@/lib/leaderboard/duos'
+
+type Rival = { puuid: string; championId: number }
+
+// Opponents in each match who are on the leaderboard being viewed (?lb=).
+async function getRivalsByMatch(
+  supabase: Awaited<ReturnType<typeof createClient>>,
+  puuid: string,
+  lbId: string | null,
+  rows: Array<{ match_id: string; team_id?: number | null; win: boolean }>
+): Promise<Map<string, Rival[]>> {
+  const rivals = new Map<string, Rival[]>()
+  if (rows.length === 0 || !lbId) return rivals
+
+  const { data: peers } = await supabase.from('leaderboard_players').select('puuid').eq('leaderboard_id', lbId)
+  const peerPuuids = Array.from(new Set((peers ?? []).map((row) => row.puuid))).filter((p) => p && p !== puuid)
+  if (peerPuuids.length === 0) return rivals
+
+  const ownByMatch = new Map(rows.map((row) => [row.match_id, row]))
+  const matchIds = Array.from(ownByMatch.keys())
+  for (let i = 0; i < matchIds.length; i += 200) {
+    const { data, error } = await supabase
+      .from('match_participants')
+      .select('match_id, puuid, champion_id, team_id, win')
+      .in('match_id', matchIds.slice(i, i + 200))
+      .in('puuid', peerPuuids)
+    if (error) {
+      console.error('[player matches] rivals lookup error', error.message)
+      return rivals
+    }
+    for (const other of data ?? []) {
+      const own = ownByMatch.get(other.match_id)
+      if (!own || onSameTeam({ ...own, puuid }, other)) continue
+      const list = rivals.get(other.match_id) ?? []
+      list.push({ puuid: other.puuid, championId: other.champion_id })
+      rivals.set(other.match_id, list)
+    }
+  }
+  return rivals
+}
 
 export async function GET(request: Request, { params }: { params: Promise<{ puuid: string }> }) {
   try {
@@ -14,8 +54,19 @@ export async function GET(request: Request, { params }: { params: Promise<{ puui
 
     const supabase = await createClient()
 
-    const seasonStartIso = getSeasonStartIso()
+    // ?season=YYYY reads a finished season's window; otherwise the live season.
+    // Season boundaries differ by region, so use the player's platform.
+    const { data: platformRow } = await supabase
+      .from('leaderboard_players')
+      .select('platform')
+      .eq('puuid', puuid)
+      .limit(1)
+      .maybeSingle()
+    const region = platformRow?.platform ?? null
+    const archivedSeason = parseArchivedSeason(searchParams.get('season'), { region })
+    const seasonStartIso = archivedSeason?.startIso ?? getSeasonStartIso({ region })
     const seasonStartMs = new Date(seasonStartIso).getTime()
+    const seasonEndMs = archivedSeason?.endIso ? new Date(archivedSeason.endIso).getTime() : null
 
     const matches: any[] = []
     const pageSize = 1000
@@ -24,7 +75,7 @@ export async function GET(request: Request, { params }: { params: Promise<{ puui
     let done = false
 
     while (!done) {
-      const query = supabase
+      let query = supabase
         .from('match_participants')
         .select(`
           match_id, 
@@ -41,6 +92,7 @@ export async function GET(request: Request, { params }: { params: Promise<{ puui
           rank_tier,
           rank_division,
           end_type,
+          team_id,
           matches!inner(game_end_ts, game_duration_s, queue_id)
         `)
         .eq('puuid', puuid)
@@ -48,7 +100,9 @@ export async function GET(request: Request, { params }: { params: Promise<{ puui
         .or('end_type.is.null,end_type.neq.REMAKE')
         .eq('matches.queue_id', 420)
         .gte('matches.game_end_ts', seasonStartMs)
-        .order('game_end_ts', { ascending: false, referencedTable: 'matches' })
+
+      if (seasonEndMs !== null) query = query.lt('matches.game_end_ts', seasonEndMs)
+      query = query.order('game_end_ts', { ascending: false, referencedTable: 'matches' })
 
       const { data: rows, error } = fetchAll
         ? await query.range(from, to)
@@ -96,6 +150,9 @@ export async function GET(request: Request, { params }: { params: Promise<{ puui
       uniqueRows.set(matchId, row)
     }
 
+    const lbId = searchParams.get('lb')?.trim() || null
+    const vsByMatch = await getRivalsByMatch(supabase, puuid, lbId, Array.from(uniqueRows.values()))
+
     const payload = Array.from(uniqueRows.values()).map((row: any) => ({
       matchId: row.match_id,
       puuid: row.puuid,
@@ -115,6 +172,8 @@ export async function GET(request: Request, { params }: { params: Promise<{ puui
       rank_tier: row.rank_tier ?? null,
       rank_division: row.rank_division ?? null,
       end_type: row.end_type ?? null,
+      // Players sharing a leaderboard with this one who were on the enemy team.
+      vs: vsByMatch.get(row.match_id) ?? [],
     }))
 
     return NextResponse.json({ matches: payload })
@@ -1,6 +1,7 @@
 import { NextResponse } from 'next/server'
 import { createServiceClient } from '@/lib/supabase/service'
 import { resolvePuuid } from '@/lib/riot/resolvePuuid'
+import { migratePuuid } from '@/lib/riot/migratePuuid'
 import { revalidateLeaderboardCachesForPuuids } from '@/lib/leaderboard/cacheTags'
 
 type RepairBody = {
@@ -9,61 +10,6 @@ type RepairBody = {
   candidatePuuid?: string
 }
 
-async function migrateMatchParticipantsPuuid(oldPuuid: string, newPuuid: string) {
-  const service = createServiceClient()
-
-  const { error: firstUpdateError } = await service
-    .from('match_participants')
-    .update({ puuid: newPuuid })
-    .eq('puuid', oldPuuid)
-
-  if (!firstUpdateError) return
-
-  const msg = firstUpdateError.message?.toLowerCase() ?? ''
-  const isConflict = msg.includes('duplicate key') || msg.includes('unique constraint')
-  if (!isConflict) {
-    throw new Error(`[PUUID Repair] match_participants: ${firstUpdateError.message}`)
-  }
-
-  const [oldRowsRes, newRowsRes] = await Promise.all([
-    service.from('match_participants').select('match_id').eq('puuid', oldPuuid),
-    service.from('match_participants').select('match_id').eq('puuid', newPuuid),
-  ])
-
-  if (oldRowsRes.error) {
-    throw new Error(`[PUUID Repair] match_participants old select: ${oldRowsRes.error.message}`)
-  }
-  if (newRowsRes.error) {
-    throw new Error(`[PUUID Repair] match_participants new select: ${newRowsRes.error.message}`)
-  }
-
-  const newMatchIds = new Set((newRowsRes.data ?? []).map((r: any) => String(r.match_id)))
-  const overlappingMatchIds = (oldRowsRes.data ?? [])
-    .map((r: any) => String(r.match_id))
-    .filter((id: string) => newMatchIds.has(id))
-
-  if (overlappingMatchIds.length > 0) {
-    const { error: deleteError } = await service
-      .from('match_participants')
-      .delete()
-      .eq('puuid', oldPuuid)
-      .in('match_id', overlappingMatchIds)
-
-    if (deleteError) {
-      throw new Error(`[PUUID Repair] match_participants overlap delete: ${deleteError.message}`)
-    }
-  }
-
-  const { error: retryUpdateError } = await service
-    .from('match_participants')
-    .update({ puuid: newPuuid })
-    .eq('puuid', oldPuuid)
-
-  if (retryUpdateError) {
-    throw new Error(`[PUUID Repair] match_participants retry: ${retryUpdateError.message}`)
-  }
-}
-
 async function resolveRiotIdFromDb(oldPuuid: string) {
   const service = createServiceClient()
 
@@ -97,44 +43,6 @@ async function resolveRiotIdFromDb(oldPuuid: string) {
   return null
 }
 
-async function migratePuuid(oldPuuid: string, newPuuid: string) {
-  const service = createServiceClient()
-
-  await migrateMatchParticipantsPuuid(oldPuuid, newPuuid)
-
-  const updates: Array<{ table: string; column: string }> = [
-    { table: 'players', column: 'puuid' },
-    { table: 'club_members', column: 'player_puuid' },
-    { table: 'leaderboard_players', column: 'puuid' },
-    { table: 'player_lp_events', column: 'puuid' },
-    { table: 'player_lp_history', column: 'puuid' },
-    { table: 'player_rank_history', column: 'puuid' },
-    { table: 'player_rank_snapshot', column: 'puuid' },
-    { table: 'player_riot_state', column: 'puuid' },
-    { table: 'player_top_champions', column: 'puuid' },
-    { table: 'player_top_champions_snapshot', column: 'puuid' },
-  ]
-
-  for (const target of updates) {
-    const { error } = await service
-      .from(target.table)
-      .update({ [target.column]: newPuuid })
-      .eq(target.column, oldPuuid)
-
-    if (error) {
-      throw new Error(`[PUUID Repair] ${target.table}: ${error.message}`)
-    }
-  }
-
-  const { error: mappingError } = await service
-    .from('puuid_migration_map')
-    .upsert({ old_puuid: oldPuuid, new_puuid: newPuuid }, { onConflict: 'old_puuid' })
-
-  if (mappingError) {
-    console.warn('[PUUID Repair] mapping upsert failed:', mappingError.message)
-  }
-}
-
 export async function POST(req: Request, { params }: { params: Promise<{ puuid: string }> }) {
   try {
     const { puuid: oldPuuid } = await params
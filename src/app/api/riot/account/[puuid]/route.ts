@@ -1,6 +1,5 @@
 import { NextResponse } from 'next/server'
-import { getRiotApiKey } from '@/lib/riot/getRiotApiKey'
-import { riotFetchWithRetry } from '@/lib/riot/riotFetchWithRetry'
+import { riotFetch, RiotApiError } from '@/lib/riot/riotClient'
 
 const CACHE_CONTROL = 'public, s-maxage=300, stale-while-revalidate=900'
 
@@ -13,17 +12,14 @@ function buildCacheHeaders() {
 export async function GET(_: Request, { params }: { params: Promise<{ puuid: string }> }) {
   try {
     const { puuid } = await params
-    const apiKey = getRiotApiKey()
     try {
-      const account = await riotFetchWithRetry(
+      const account = await riotFetch(
         `https://americas.api.riotgames.com/riot/account/v1/accounts/by-puuid/${encodeURIComponent(puuid)}`,
-        apiKey,
-        { maxRetries: 3, retryDelay: 2000 }
+        { maxRetries: 3, retryDelayMs: 2000, init: { next: { revalidate: 30 } } }
       )
       return NextResponse.json({ account }, { headers: buildCacheHeaders() })
     } catch (error) {
-      const message = error instanceof Error ? error.message : ''
-      if (message.includes('Riot fetch failed 400')) {
+      if (error instanceof RiotApiError && error.status === 400) {
         return NextResponse.json({ account: null, error: 'BAD_PUUID' }, { headers: buildCacheHeaders() })
       }
       throw error
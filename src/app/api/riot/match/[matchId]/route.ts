@@ -1,25 +1,6 @@
 import { NextResponse } from 'next/server'
-import { getRiotApiKey } from '@/lib/riot/getRiotApiKey'
-import { riotFetchWithRetry } from '@/lib/riot/riotFetchWithRetry'
-
-const ROUTING_BY_PLATFORM: Record<string, string> = {
-  NA1: 'americas',
-  BR1: 'americas',
-  LA1: 'americas',
-  LA2: 'americas',
-  OC1: 'sea',
-  KR: 'asia',
-  JP1: 'asia',
-  EUN1: 'europe',
-  EUW1: 'europe',
-  TR1: 'europe',
-  RU: 'europe',
-  PH2: 'sea',
-  SG2: 'sea',
-  TH2: 'sea',
-  TW2: 'sea',
-  VN2: 'sea',
-}
+import { riotFetch } from '@/lib/riot/riotClient'
+import { platformFromMatchId, regionalRouteForPlatform } from '@/lib/riot/platforms'
 
 const CACHE_CONTROL = 'public, s-maxage=120, stale-while-revalidate=300'
 
@@ -30,9 +11,9 @@ function buildCacheHeaders() {
 }
 
 function getRoutingFromMatchId(matchId: string) {
-  const platform = matchId.split('_')[0]?.toUpperCase()
+  const platform = platformFromMatchId(matchId)
   if (!platform) return null
-  return ROUTING_BY_PLATFORM[platform] ?? null
+  return regionalRouteForPlatform(platform)
 }
 
 export async function GET(_: Request, { params }: { params: Promise<{ matchId: string }> }) {
@@ -40,12 +21,11 @@ export async function GET(_: Request, { params }: { params: Promise<{ matchId: s
     const { matchId } = await params
     const routing = getRoutingFromMatchId(matchId)
     if (!routing) return NextResponse.json({ error: 'Unsupported match id' }, { status: 400 })
-    const apiKey = getRiotApiKey()
-    const match = await riotFetchWithRetry(
-      `https://${routing}.api.riotgames.com/lol/match/v5/matches/${matchId}`,
-      apiKey,
-      { maxRetries: 3, retryDelay: 2000 }
-    )
+    const match = await riotFetch(`https://${routing}.api.riotgames.com/lol/match/v5/matches/${matchId}`, {
+      maxRetries: 3,
+      retryDelayMs: 2000,
+      init: { next: { revalidate: 30 } },
+    })
     return NextResponse.json({ match }, { headers: buildCacheHeaders() })
   } catch (error) {
     console.error('[Riot Match API]', error)
@@ -1,27 +1,8 @@
 import { NextResponse } from 'next/server'
-import { getRiotApiKey } from '@/lib/riot/getRiotApiKey'
-import { riotFetchWithRetry } from '@/lib/riot/riotFetchWithRetry'
+import { riotFetch } from '@/lib/riot/riotClient'
+import { platformFromMatchId, regionalRouteForPlatform } from '@/lib/riot/platforms'
 import { createServiceClient } from '@/lib/supabase/service'
 
-const ROUTING_BY_PLATFORM: Record<string, string> = {
-  NA1: 'americas',
-  BR1: 'americas',
-  LA1: 'americas',
-  LA2: 'americas',
-  OC1: 'sea',
-  KR: 'asia',
-  JP1: 'asia',
-  EUN1: 'europe',
-  EUW1: 'europe',
-  TR1: 'europe',
-  RU: 'europe',
-  PH2: 'sea',
-  SG2: 'sea',
-  TH2: 'sea',
-  TW2: 'sea',
-  VN2: 'sea',
-}
-
 const CACHE_CONTROL = 'public, s-maxage=300, stale-while-revalidate=600'
 const TIMELINE_CACHE = new Map<string, { value: any; expiresAt: number }>()
 const TIMELINE_CACHE_TTL_MS = 2 * 60 * 1000
@@ -101,9 +82,9 @@ async function upsertDbTimeline(matchId: string, timeline: any) {
 }
 
 function getRoutingFromMatchId(matchId: string) {
-  const platform = matchId.split('_')[0]?.toUpperCase()
+  const platform = platformFromMatchId(matchId)
   if (!platform) return null
-  return ROUTING_BY_PLATFORM[platform] ?? null
+  return regionalRouteForPlatform(platform)
 }
 
 export async function GET(_: Request, { params }: { params: Promise<{ matchId: string }> }) {
@@ -127,12 +108,10 @@ export async function GET(_: Request, { params }: { params: Promise<{ matchId: s
 
     const routing = getRoutingFromMatchId(matchId)
     if (!routing) return NextResponse.json({ error: 'Unsupported match id' }, { status: 400 })
-    const apiKey = getRiotApiKey()
     const fetchPromise = (async () => {
-      const timeline = await riotFetchWithRetry(
+      const timeline = await riotFetch(
         `https://${routing}.api.riotgames.com/lol/match/v5/matches/${matchId}/timeline`,
-        apiKey,
-        { maxRetries: 3, retryDelay: 2000 }
+        { maxRetries: 3, retryDelayMs: 2000, init: { next: { revalidate: 30 } } }
       )
       setCachedTimeline(matchId, timeline)
       await upsertDbTimeline(matchId, timeline)
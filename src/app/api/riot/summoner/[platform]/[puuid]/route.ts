@@ -1,5 +1,5 @@
 import { NextResponse } from 'next/server'
-import { getRiotApiKey } from '@/lib/riot/getRiotApiKey'
+import { riotFetch, RiotApiError } from '@/lib/riot/riotClient'
 
 // 1. Define response types for type safety
 interface SummonerResponse {
@@ -7,36 +7,28 @@ interface SummonerResponse {
   puuid: string
 }
 
-async function riotFetch<T>(url: string, apiKey: string): Promise<T | null> {
-  const res = await fetch(url, {
-    headers: { 'X-Riot-Token': apiKey },
-    cache: 'no-store', // Disable cache to prevent "poisoned" 403 errors
-  })
-
-  if (!res.ok) {
-    if (res.status === 404) return null
-    if (res.status === 403) {
+async function riotFetchOrNull<T>(url: string): Promise<T | null> {
+  try {
+    // Disable cache to prevent "poisoned" 403 errors
+    return await riotFetch<T>(url, { init: { cache: 'no-store' } })
+  } catch (error) {
+    if (error instanceof RiotApiError && error.status === 404) return null
+    if (error instanceof RiotApiError && error.status === 403) {
       console.warn(`[Riot API] 403 Forbidden (Key Expired?): ${url}`)
       return null
     }
-    const body = await res.text()
-    console.error(`[Riot API] Error ${res.status}: ${body.slice(0, 100)}`)
-    throw new Error(`Riot fetch failed ${res.status}`)
+    throw error
   }
-
-  return res.json() as Promise<T>
 }
 
 export async function GET(_: Request, { params }: { params: Promise<{ platform: string; puuid: string }> }) {
   try {
     const { platform, puuid } = await params
-    const apiKey = getRiotApiKey()
     const platformHost = `${platform.toLowerCase()}.api.riotgames.com`
 
     // 2. Fetch Summoner
-    const summoner = await riotFetch<SummonerResponse>(
-      `https://${platformHost}/lol/summoner/v4/summoners/by-puuid/${puuid}`,
-      apiKey,
+    const summoner = await riotFetchOrNull<SummonerResponse>(
+      `https://${platformHost}/lol/summoner/v4/summoners/by-puuid/${puuid}`
     )
 
     // 3. CRITICAL CHECK: If this is missing, the next fetch WILL fail
@@ -46,9 +38,8 @@ export async function GET(_: Request, { params }: { params: Promise<{ platform:
     }
 
     // 4. Fetch League (Only runs if summoner.id exists)
-    const league = await riotFetch(
-      `https://${platformHost}/lol/league/v4/entries/by-summoner/${summoner.id}`,
-      apiKey,
+    const league = await riotFetchOrNull(
+      `https://${platformHost}/lol/league/v4/entries/by-summoner/${summoner.id}`
     )
 
     return NextResponse.json({ summoner: { ...summoner, league: league ?? [] } })
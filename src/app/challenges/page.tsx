@@ -1,14 +1,302 @@
-export default function ChallengesPage() {
+import Link from 'next/link'
+import { createClient } from '@/lib/supabase/server'
+import { createServiceClient } from '@/lib/supabase/service'
+import {
+  CHALLENGE_PERIOD_MS,
+  challengePeriodStartMs,
+  challengeUnit,
+  CLUB_CHALLENGE_COLUMNS,
+  type ClubChallenge,
+} from '@/lib/clubChallenges'
+
+type ProgressRow = {
+  challenge_id: string
+  club_id: string
+  period_start: string
+  progress: number
+  completed_at: string | null
+  points_awarded: number
+}
+
+type ClubRow = {
+  id: string
+  name: string
+  slug: string
+  visibility: string | null
+}
+
+const LEADERBOARD_LIMIT = 20
+const TOP_MEMBERS_LIMIT = 10
+const RECENT_COMPLETIONS_LIMIT = 12
+
+function formatDate(value: string | number) {
+  const d = new Date(value)
+  if (Number.isNaN(d.getTime())) return null
+  return d.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })
+}
+
+function formatTimeLeft(ms: number) {
+  const hours = Math.max(Math.floor(ms / (60 * 60 * 1000)), 0)
+  if (hours >= 48) return `${Math.floor(hours / 24)}d left`
+  if (hours >= 1) return `${hours}h left`
+  return 'Ends soon'
+}
+
+function currentWeek() {
+  const nowMs = Date.now()
+  const startMs = challengePeriodStartMs(nowMs)
+  return { nowMs, startMs, endMs: startMs + CHALLENGE_PERIOD_MS }
+}
+
+export default async function ChallengesPage() {
+  const supabase = await createClient()
+  const { data: auth } = await supabase.auth.getUser()
+  const user = auth.user
+
+  const { nowMs, startMs: periodStartMs, endMs: periodEndMs } = currentWeek()
+  const periodStartIso = new Date(periodStartMs).toISOString()
+
+  // Challenge tables have no public policies; reads go through the service client.
+  const service = createServiceClient()
+  const [challengesRes, currentRes, completedRes, xpRes, membershipsRes] = await Promise.all([
+    service.from('club_challenges').select(CLUB_CHALLENGE_COLUMNS).eq('active', true).order('created_at', { ascending: true }),
+    service
+      .from('club_challenge_progress')
+      .select('challenge_id, club_id, period_start, progress, completed_at, points_awarded')
+      .eq('period_start', periodStartIso),
+    service
+      .from('club_challenge_progress')
+      .select('challenge_id, club_id, period_start, progress, completed_at, points_awarded')
+      .not('completed_at', 'is', null)
+      .order('completed_at', { ascending: false }),
+    service.from('club_member_xp').select('player_puuid, xp'),
+    user
+      ? supabase.from('club_members').select('club_id').eq('user_id', user.id)
+      : Promise.resolve({ data: [] as Array<{ club_id: string }> }),
+  ])
+
+  const challenges = (challengesRes.data ?? []) as ClubChallenge[]
+  const challengeById = new Map(challenges.map((challenge) => [challenge.id, challenge]))
+  const currentRows = (currentRes.data ?? []) as ProgressRow[]
+  const completedRows = (completedRes.data ?? []) as ProgressRow[]
+
+  const pointsByClub = new Map<string, { points: number; completed: number }>()
+  for (const row of completedRows) {
+    const entry = pointsByClub.get(row.club_id) ?? { points: 0, completed: 0 }
+    entry.points += row.points_awarded ?? 0
+    entry.completed += 1
+    pointsByClub.set(row.club_id, entry)
+  }
+
+  const xpByPuuid = new Map<string, number>()
+  for (const row of (xpRes.data ?? []) as Array<{ player_puuid: string; xp: number }>) {
+    xpByPuuid.set(row.player_puuid, (xpByPuuid.get(row.player_puuid) ?? 0) + row.xp)
+  }
+  const topMemberEntries = Array.from(xpByPuuid.entries())
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, TOP_MEMBERS_LIMIT)
+
+  const myClubIds = new Set(((membershipsRes.data ?? []) as Array<{ club_id: string }>).map((row) => row.club_id))
+  if (user) {
+    const { data: owned } = await supabase.from('clubs').select('id').eq('owner_user_id', user.id)
+    for (const club of owned ?? []) myClubIds.add(club.id)
+  }
+
+  const clubIds = new Set<string>([...pointsByClub.keys(), ...myClubIds])
+  const [clubsRes, playersRes] = await Promise.all([
+    clubIds.size > 0
+      ? supabase.from('clubs').select('id, name, slug, visibility').in('id', Array.from(clubIds))
+      : Promise.resolve({ data: [] as ClubRow[] }),
+    topMemberEntries.length > 0
+      ? supabase
+          .from('players')
+          .select('puuid, game_name, tag_line')
+          .in(
+            'puuid',
+            topMemberEntries.map(([puuid]) => puuid)
+          )
+      : Promise.resolve({ data: [] as Array<{ puuid: string; game_name: string | null; tag_line: string | null }> }),
+  ])
+  const clubsById = new Map(((clubsRes.data ?? []) as ClubRow[]).map((club) => [club.id, club]))
+  const playerNames = new Map(
+    ((playersRes.data ?? []) as Array<{ puuid: string; game_name: string | null; tag_line: string | null }>).map((player) => [
+      player.puuid,
+      player.game_name ? `${player.game_name}${player.tag_line ? `#${player.tag_line}` : ''}` : null,
+    ])
+  )
+
+  // Private clubs still earn points but stay off the public table.
+  const isListed = (clubId: string) => {
+    const club = clubsById.get(clubId)
+    return Boolean(club) && (club?.visibility ?? 'PUBLIC') === 'PUBLIC'
+  }
+  const leaderboard = Array.from(pointsByClub.entries())
+    .filter(([clubId]) => isListed(clubId))
+    .sort((a, b) => b[1].points - a[1].points || b[1].completed - a[1].completed)
+    .slice(0, LEADERBOARD_LIMIT)
+  const recentCompletions = completedRows.filter((row) => isListed(row.club_id) || myClubIds.has(row.club_id)).slice(0, RECENT_COMPLETIONS_LIMIT)
+
+  const myClubs = Array.from(myClubIds)
+    .map((id) => clubsById.get(id))
+    .filter((club): club is ClubRow => Boolean(club))
+    .sort((a, b) => a.name.localeCompare(b.name))
+  const currentByKey = new Map(currentRows.map((row) => [`${row.challenge_id}:${row.club_id}`, row]))
+
   return (
-    <div className="mx-auto max-w-4xl py-16">
-      <div className="rounded-3xl border border-slate-200 bg-white p-10 text-center shadow-sm dark:border-slate-800 dark:bg-slate-900">
-        <p className="text-xs font-semibold uppercase tracking-[0.35em] text-slate-500 dark:text-slate-400">
-          In progress
-        </p>
-        <h1 className="mt-4 text-3xl font-black text-slate-900 dark:text-slate-100">Challenges</h1>
-        <p className="mt-3 text-sm text-slate-600 dark:text-slate-300">
-          Club challenges for XP and points are in the works.
-        </p>
+    <div className="py-10 lg:py-14">
+      <div className="mx-auto max-w-6xl space-y-8">
+        <div className="rounded-3xl border border-slate-200 bg-white p-8 shadow-sm dark:border-slate-800 dark:bg-slate-900">
+          <p className="text-xs font-semibold uppercase tracking-[0.35em] text-slate-500 dark:text-slate-400">Weekly</p>
+          <h1 className="mt-3 text-3xl font-black text-slate-900 dark:text-slate-100">Challenges</h1>
+          <p className="mt-2 text-sm text-slate-600 dark:text-slate-300">
+            Clubs earn points by completing challenges together, and every member who pitches in earns XP. Challenges reset
+            every Monday at 00:00 UTC.
+          </p>
+        </div>
+
+        <section className="space-y-4">
+          <div className="flex flex-wrap items-baseline justify-between gap-2">
+            <h2 className="text-lg font-bold text-slate-900 dark:text-slate-100">This week</h2>
+            <span className="text-xs font-semibold text-slate-500 dark:text-slate-400">
+              {formatDate(periodStartMs)} – {formatDate(periodEndMs - 1)} · {formatTimeLeft(periodEndMs - nowMs)}
+            </span>
+          </div>
+          {challenges.length === 0 ? (
+            <div className="rounded-2xl border-2 border-dashed border-slate-200 bg-white py-12 text-center dark:border-slate-700 dark:bg-slate-900">
+              <p className="text-sm font-semibold text-slate-600 dark:text-slate-200">No active challenges</p>
+            </div>
+          ) : (
+            <div className="grid gap-4 md:grid-cols-3">
+              {challenges.map((challenge) => {
+                const completions = currentRows.filter((row) => row.challenge_id === challenge.id && row.completed_at).length
+                return (
+                  <div
+                    key={challenge.id}
+                    className="flex flex-col rounded-2xl border-2 border-slate-200 bg-white p-5 shadow-sm dark:border-slate-800 dark:bg-slate-900"
+                  >
+                    <h3 className="text-base font-bold text-slate-900 dark:text-slate-100">{challenge.title}</h3>
+                    <p className="mt-1 flex-1 text-sm text-slate-600 dark:text-slate-300">{challenge.description}</p>
+                    <div className="mt-4 flex flex-wrap items-center gap-2 text-[11px] font-semibold">
+                      <span className="rounded-full border border-violet-200 bg-violet-50 px-2 py-0.5 text-violet-700 dark:border-violet-500/30 dark:bg-violet-500/10 dark:text-violet-300">
+                        +{challenge.xp_reward} XP
+                      </span>
+                      <span className="rounded-full border border-amber-200 bg-amber-50 px-2 py-0.5 text-amber-700 dark:border-amber-500/30 dark:bg-amber-500/10 dark:text-amber-300">
+                        +{challenge.points_reward} club pts
+                      </span>
+                      <span className="text-slate-500 dark:text-slate-400">
+                        {completions} {completions === 1 ? 'club' : 'clubs'} done
+                      </span>
+                    </div>
+
+                    {myClubs.length > 0 && (
+                      <div className="mt-4 space-y-2 border-t border-slate-100 pt-3 dark:border-slate-800">
+                        {myClubs.map((club) => {
+                          const row = currentByKey.get(`${challenge.id}:${club.id}`)
+                          const progress = row?.progress ?? 0
+                          const pct = Math.min(Math.round((progress / Math.max(challenge.target, 1)) * 100), 100)
+                          return (
+                            <div key={club.id}>
+                              <div className="flex items-center justify-between gap-2 text-xs">
+                                <span className="truncate font-semibold text-slate-700 dark:text-slate-200">{club.name}</span>
+                                <span className="shrink-0 tabular-nums text-slate-500 dark:text-slate-400">
+                                  {row?.completed_at ? 'Completed' : `${progress}/${challenge.target} ${challengeUnit(challenge.kind)}`}
+                                </span>
+                              </div>
+                              <div className="mt-1 h-1.5 overflow-hidden rounded-full bg-slate-100 dark:bg-slate-800">
+                                <div
+                                  className={`h-full rounded-full ${row?.completed_at ? 'bg-emerald-500' : 'bg-violet-500'}`}
+                                  style={{ width: `${pct}%` }}
+                                />
+                              </div>
+                            </div>
+                          )
+                        })}
+                      </div>
+                    )}
+                  </div>
+                )
+              })}
+            </div>
+          )}
+        </section>
+
+        <div className="grid gap-8 lg:grid-cols-[3fr_2fr]">
+          <section className="rounded-2xl border-2 border-slate-200 bg-white p-6 shadow-sm dark:border-slate-800 dark:bg-slate-900">
+            <h2 className="text-lg font-bold text-slate-900 dark:text-slate-100">Club points</h2>
+            <p className="mt-1 text-sm text-slate-600 dark:text-slate-300">All-time points from completed challenges.</p>
+            <div className="mt-4 divide-y divide-slate-100 dark:divide-slate-800">
+              {leaderboard.length === 0 ? (
+                <p className="py-6 text-center text-sm text-slate-500 dark:text-slate-400">No club has completed a challenge yet.</p>
+              ) : (
+                leaderboard.map(([clubId, entry], idx) => {
+                  const club = clubsById.get(clubId)
+                  return (
+                    <div key={clubId} className="flex items-center justify-between gap-3 py-2.5">
+                      <div className="flex min-w-0 items-center gap-3">
+                        <span className="w-6 shrink-0 text-xs font-black tabular-nums text-slate-400 dark:text-slate-500">#{idx + 1}</span>
+                        {club ? (
+                          <Link
+                            href={`/clubs/${club.slug}`}
+                            className="truncate text-sm font-semibold text-slate-900 hover:underline dark:text-slate-100"
+                          >
+                            {club.name}
+                          </Link>
+                        ) : null}
+                      </div>
+                      <div className="shrink-0 text-right">
+                        <span className="text-sm font-black tabular-nums text-slate-900 dark:text-slate-100">{entry.points} pts</span>
+                        <span className="ml-2 text-[11px] text-slate-500 dark:text-slate-400">{entry.completed} done</span>
+                      </div>
+                    </div>
+                  )
+                })
+              )}
+            </div>
+          </section>
+
+          <div className="space-y-8">
+            <section className="rounded-2xl border-2 border-slate-200 bg-white p-6 shadow-sm dark:border-slate-800 dark:bg-slate-900">
+              <h2 className="text-lg font-bold text-slate-900 dark:text-slate-100">Top members</h2>
+              <div className="mt-4 divide-y divide-slate-100 dark:divide-slate-800">
+                {topMemberEntries.length === 0 ? (
+                  <p className="py-6 text-center text-sm text-slate-500 dark:text-slate-400">No XP earned yet.</p>
+                ) : (
+                  topMemberEntries.map(([puuid, xp], idx) => (
+                    <div key={puuid} className="flex items-center justify-between gap-3 py-2 text-sm">
+                      <span className="flex min-w-0 items-center gap-3">
+                        <span className="w-6 shrink-0 text-xs font-black tabular-nums text-slate-400 dark:text-slate-500">#{idx + 1}</span>
+                        <span className="truncate font-semibold text-slate-900 dark:text-slate-100">{playerNames.get(puuid) ?? 'Unknown player'}</span>
+                      </span>
+                      <span className="shrink-0 font-black tabular-nums text-violet-600 dark:text-violet-300">{xp} XP</span>
+                    </div>
+                  ))
+                )}
+              </div>
+            </section>
+
+            <section className="rounded-2xl border-2 border-slate-200 bg-white p-6 shadow-sm dark:border-slate-800 dark:bg-slate-900">
+              <h2 className="text-lg font-bold text-slate-900 dark:text-slate-100">Recently completed</h2>
+              <div className="mt-4 divide-y divide-slate-100 dark:divide-slate-800">
+                {recentCompletions.length === 0 ? (
+                  <p className="py-6 text-center text-sm text-slate-500 dark:text-slate-400">Nothing completed yet.</p>
+                ) : (
+                  recentCompletions.map((row) => (
+                    <div key={`${row.challenge_id}:${row.club_id}:${row.period_start}`} className="py-2 text-sm">
+                      <p className="truncate text-slate-900 dark:text-slate-100">
+                        <span className="font-semibold">{clubsById.get(row.club_id)?.name ?? 'A club'}</span>{' '}
+                        <span className="text-slate-500 dark:text-slate-400">completed</span>{' '}
+                        {challengeById.get(row.challenge_id)?.title ?? 'a challenge'}
+                      </p>
+                      <p className="text-[11px] text-slate-500 dark:text-slate-400">
+                        Week of {formatDate(row.period_start)} · +{row.points_awarded} pts
+                      </p>
+                    </div>
+                  ))
+                )}
+              </div>
+            </section>
+          </div>
+        </div>
       </div>
     </div>
   )
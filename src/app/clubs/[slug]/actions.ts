@@ -2,18 +2,45 @@
 
 import { revalidatePath } from 'next/cache'
 import { redirect } from 'next/navigation'
+import {
+  generateInviteCode,
+  INVITE_LINK_EXPIRY_DAYS,
+  INVITE_LINK_MAX_USES,
+  inviteExpiresIso,
+  joinClubAsUser,
+} from '@/lib/clubInvites'
+import {
+  assignableRoles,
+  CLUB_ROLE_LABELS,
+  getClubRole,
+  normalizeClubRole,
+  roleHasPermission,
+  type ClubPermission,
+} from '@/lib/clubPermissions'
+import { resolvePlatform } from '@/lib/riot/resolvePlatform'
 import { resolvePuuid } from '@/lib/riot/resolvePuuid'
 import { createClient } from '@/lib/supabase/server'
-import type { SupabaseClient } from './types'
+import { createServiceClient } from '@/lib/supabase/service'
+import type { ClubTab } from './types'
 import { clubUrl, errorMessage, parseRiotId } from './utils'
 
-async function getOwnedClub(client: SupabaseClient, slug: string, userId: string) {
-  return client
-    .from('clubs')
-    .select('id, slug')
-    .eq('slug', slug)
-    .eq('owner_user_id', userId)
-    .maybeSingle()
+// Every club action goes through here. Writes use the service client because
+// delegated roles aren't club owners as far as row-level security is concerned.
+async function requireClubPermission(slug: string, permission: ClubPermission | null, tab: ClubTab, deniedMessage: string) {
+  const supabase = await createClient()
+  const { data: auth } = await supabase.auth.getUser()
+  const user = auth.user
+  if (!user) redirect('/sign-in')
+
+  const service = createServiceClient()
+  const { data: club } = await service.from('clubs').select('id, slug').eq('slug', slug).maybeSingle()
+  if (!club?.id) redirect('/clubs')
+
+  const role = await getClubRole(club.id, user.id)
+  const allowed = permission ? roleHasPermission(role, permission) : role !== null
+  if (!allowed) redirect(clubUrl(slug, { tab, err: deniedMessage }))
+
+  return { supabase, service, user, club, role }
 }
 
 export async function addMember(formData: FormData) {
@@ -23,15 +50,14 @@ export async function addMember(formData: FormData) {
   if (!slug) redirect('/clubs')
   if (!riotIdRaw) redirect(clubUrl(slug, { tab: 'members', err: 'Enter a Riot ID like gameName#tagLine' }))
 
-  const supabase = await createClient()
-  const { data: auth } = await supabase.auth.getUser()
-  const user = auth.user
-  if (!user) redirect('/sign-in')
-
-  const { data: ownedClub } = await getOwnedClub(supabase, slug, user.id)
-  if (!ownedClub?.id) redirect(clubUrl(slug, { tab: 'members', err: 'Only the club owner can manage members' }))
+  const { service, user, club } = await requireClubPermission(
+    slug,
+    'MANAGE_MEMBERS',
+    'members',
+    'Only club owners and admins can manage members'
+  )
 
-  const { count: membershipCount } = await supabase
+  const { count: membershipCount } = await service
     .from('club_members')
     .select('id', { count: 'exact', head: true })
     .eq('user_id', user.id)
@@ -57,10 +83,10 @@ export async function addMember(formData: FormData) {
     redirect(clubUrl(slug, { tab: 'members', err: errorMessage(err, 'Riot lookup failed') }))
   }
 
-  const { data: existing } = await supabase
+  const { data: existing } = await service
     .from('club_members')
     .select('id')
-    .eq('club_id', ownedClub.id)
+    .eq('club_id', club.id)
     .eq('player_puuid', puuid)
     .maybeSingle()
 
@@ -68,12 +94,13 @@ export async function addMember(formData: FormData) {
     redirect(clubUrl(slug, { tab: 'members', err: 'That Riot ID is already a member' }))
   }
 
-  const { error } = await supabase.from('club_members').insert({
-    club_id: ownedClub.id,
+  const { error } = await service.from('club_members').insert({
+    club_id: club.id,
     role: 'MEMBER',
     player_puuid: puuid,
     game_name: gameName,
     tag_line: tagLine,
+    platform: await resolvePlatform(puuid),
     user_id: null,
   })
 
@@ -91,27 +118,30 @@ export async function removeMember(formData: FormData) {
   if (!slug) redirect('/clubs')
   if (!memberId) redirect(clubUrl(slug, { tab: 'members', err: 'Missing member to remove' }))
 
-  const supabase = await createClient()
-  const { data: auth } = await supabase.auth.getUser()
-  const user = auth.user
-  if (!user) redirect('/sign-in')
+  const { service, club, role } = await requireClubPermission(
+    slug,
+    'MANAGE_MEMBERS',
+    'members',
+    'Only club owners and admins can manage members'
+  )
 
-  const { data: ownedClub } = await getOwnedClub(supabase, slug, user.id)
-  if (!ownedClub?.id) redirect(clubUrl(slug, { tab: 'members', err: 'Only the club owner can manage members' }))
-
-  const { data: member } = await supabase
+  const { data: member } = await service
     .from('club_members')
     .select('id, role')
     .eq('id', memberId)
-    .eq('club_id', ownedClub.id)
+    .eq('club_id', club.id)
     .maybeSingle()
 
   if (!member?.id) redirect(clubUrl(slug, { tab: 'members', err: 'Member not found' }))
-  if (member.role?.toUpperCase() === 'OWNER') {
+  const memberRole = normalizeClubRole(member.role) ?? 'MEMBER'
+  if (memberRole === 'OWNER') {
     redirect(clubUrl(slug, { tab: 'members', err: 'Owner memberships cannot be removed' }))
   }
+  if (memberRole === 'ADMIN' && role !== 'OWNER') {
+    redirect(clubUrl(slug, { tab: 'members', err: 'Only the club owner can remove admins' }))
+  }
 
-  const { error } = await supabase.from('club_members').delete().eq('id', memberId).eq('club_id', ownedClub.id)
+  const { error } = await service.from('club_members').delete().eq('id', memberId).eq('club_id', club.id)
   if (error) redirect(clubUrl(slug, { tab: 'members', err: error.message }))
 
   revalidatePath('/clubs')
@@ -126,13 +156,12 @@ export async function attachLeaderboard(formData: FormData) {
   if (!slug) redirect('/clubs')
   if (!leaderboardId) redirect(clubUrl(slug, { tab: 'leaderboards', err: 'Select a leaderboard' }))
 
-  const supabase = await createClient()
-  const { data: auth } = await supabase.auth.getUser()
-  const user = auth.user
-  if (!user) redirect('/sign-in')
-
-  const { data: ownedClub } = await getOwnedClub(supabase, slug, user.id)
-  if (!ownedClub?.id) redirect(clubUrl(slug, { tab: 'leaderboards', err: 'Only the club owner can attach leaderboards' }))
+  const { supabase, service, user, club } = await requireClubPermission(
+    slug,
+    'ATTACH_LEADERBOARDS',
+    'leaderboards',
+    'Only club owners and admins can attach leaderboards'
+  )
 
   const { data: leaderboard, error: leaderboardError } = await supabase
     .from('leaderboards')
@@ -145,17 +174,17 @@ export async function attachLeaderboard(formData: FormData) {
     redirect(clubUrl(slug, { tab: 'leaderboards', err: 'Leaderboard not found in your account' }))
   }
 
-  const { data: existing } = await supabase
+  const { data: existing } = await service
     .from('club_leaderboards')
     .select('id')
-    .eq('club_id', ownedClub.id)
+    .eq('club_id', club.id)
     .eq('leaderboard_id', leaderboard.id)
     .maybeSingle()
 
   if (existing?.id) redirect(clubUrl(slug, { tab: 'leaderboards', ok: 'Leaderboard already attached' }))
 
-  const { error } = await supabase.from('club_leaderboards').insert({
-    club_id: ownedClub.id,
+  const { error } = await service.from('club_leaderboards').insert({
+    club_id: club.id,
     leaderboard_id: leaderboard.id,
     added_by_user_id: user.id,
   })
@@ -174,15 +203,14 @@ export async function detachLeaderboard(formData: FormData) {
   if (!slug) redirect('/clubs')
   if (!linkId) redirect(clubUrl(slug, { tab: 'leaderboards', err: 'Missing attached leaderboard' }))
 
-  const supabase = await createClient()
-  const { data: auth } = await supabase.auth.getUser()
-  const user = auth.user
-  if (!user) redirect('/sign-in')
+  const { service, club } = await requireClubPermission(
+    slug,
+    'ATTACH_LEADERBOARDS',
+    'leaderboards',
+    'Only club owners and admins can manage leaderboards'
+  )
 
-  const { data: ownedClub } = await getOwnedClub(supabase, slug, user.id)
-  if (!ownedClub?.id) redirect(clubUrl(slug, { tab: 'leaderboards', err: 'Only the club owner can manage leaderboards' }))
-
-  const { error } = await supabase.from('club_leaderboards').delete().eq('id', linkId).eq('club_id', ownedClub.id)
+  const { error } = await service.from('club_leaderboards').delete().eq('id', linkId).eq('club_id', club.id)
   if (error) redirect(clubUrl(slug, { tab: 'leaderboards', err: error.message }))
 
   revalidatePath('/clubs')
@@ -215,26 +243,9 @@ export async function addHighlight(formData: FormData) {
     redirect(clubUrl(slug, { tab: 'highlights', err: 'Invalid video URL.' }))
   }
 
-  const supabase = await createClient()
-  const { data: auth } = await supabase.auth.getUser()
-  const user = auth.user
-  if (!user) redirect('/sign-in')
-
-  const { data: club } = await supabase.from('clubs').select('id, owner_user_id').eq('slug', slug).maybeSingle()
-  if (!club?.id) redirect('/clubs')
-
-  if (club.owner_user_id !== user.id) {
-    const { data: member } = await supabase
-      .from('club_members')
-      .select('id')
-      .eq('club_id', club.id)
-      .eq('user_id', user.id)
-      .maybeSingle()
+  const { service, user, club } = await requireClubPermission(slug, null, 'highlights', 'Only club members can post highlights.')
 
-    if (!member?.id) redirect(clubUrl(slug, { tab: 'highlights', err: 'Only club members can post highlights.' }))
-  }
-
-  const { error } = await supabase.from('club_highlights').insert({
+  const { error } = await service.from('club_highlights').insert({
     club_id: club.id,
     user_id: user.id,
     url: finalUrl,
@@ -259,10 +270,11 @@ export async function deleteHighlight(formData: FormData) {
   const user = auth.user
   if (!user) redirect('/sign-in')
 
-  const { data: club } = await supabase.from('clubs').select('id').eq('slug', slug).maybeSingle()
+  const service = createServiceClient()
+  const { data: club } = await service.from('clubs').select('id').eq('slug', slug).maybeSingle()
   if (!club?.id) redirect('/clubs')
 
-  const { data: highlight, error: highlightError } = await supabase
+  const { data: highlight, error: highlightError } = await service
     .from('club_highlights')
     .select('id, club_id, user_id')
     .eq('id', highlightId)
@@ -273,19 +285,237 @@ export async function deleteHighlight(formData: FormData) {
     redirect(clubUrl(slug, { tab: 'highlights', err: highlightError?.message ?? 'Highlight not found.' }))
   }
 
-  if (highlight.user_id !== user.id) {
+  // Anyone can take down their own highlight; moderators can take down any.
+  if (highlight.user_id !== user.id && !roleHasPermission(await getClubRole(club.id, user.id), 'MODERATE_HIGHLIGHTS')) {
     redirect(clubUrl(slug, { tab: 'highlights', err: 'You can only delete your own highlights.' }))
   }
 
-  const { error } = await supabase
-    .from('club_highlights')
-    .delete()
-    .eq('id', highlight.id)
-    .eq('club_id', club.id)
-    .eq('user_id', user.id)
+  const { error } = await service.from('club_highlights').delete().eq('id', highlight.id).eq('club_id', club.id)
 
   if (error) redirect(clubUrl(slug, { tab: 'highlights', err: error.message }))
 
   revalidatePath(`/clubs/${slug}`)
   redirect(clubUrl(slug, { tab: 'highlights', ok: 'Highlight deleted.' }))
 }
+
+export async function setMemberRole(formData: FormData) {
+  const slug = String(formData.get('slug') ?? '').trim()
+  const memberId = String(formData.get('member_id') ?? '').trim()
+  const nextRole = normalizeClubRole(String(formData.get('role') ?? '').trim())
+
+  if (!slug) redirect('/clubs')
+  if (!memberId || !nextRole) redirect(clubUrl(slug, { tab: 'members', err: 'Pick a role' }))
+
+  const { service, club, role } = await requireClubPermission(
+    slug,
+    'MANAGE_ROLES',
+    'members',
+    'Only club owners and admins can change roles'
+  )
+
+  const { data: member } = await service
+    .from('club_members')
+    .select('id, user_id, role')
+    .eq('id', memberId)
+    .eq('club_id', club.id)
+    .maybeSingle()
+
+  if (!member?.id) redirect(clubUrl(slug, { tab: 'members', err: 'Member not found' }))
+  if (!member.user_id) redirect(clubUrl(slug, { tab: 'members', err: 'Only members with an account can hold a role' }))
+
+  const currentRole = normalizeClubRole(member.role) ?? 'MEMBER'
+  if (currentRole === nextRole) redirect(clubUrl(slug, { tab: 'members', ok: 'Role unchanged' }))
+  if (!assignableRoles(role, currentRole).includes(nextRole)) {
+    redirect(clubUrl(slug, { tab: 'members', err: 'You can only change roles below your own' }))
+  }
+
+  const { error } = await service.from('club_members').update({ role: nextRole }).eq('id', member.id).eq('club_id', club.id)
+  if (error) redirect(clubUrl(slug, { tab: 'members', err: error.message }))
+
+  revalidatePath(`/clubs/${slug}`)
+  redirect(clubUrl(slug, { tab: 'members', ok: `Role changed to ${CLUB_ROLE_LABELS[nextRole]}` }))
+}
+
+export async function inviteUser(formData: FormData) {
+  const slug = String(formData.get('slug') ?? '').trim()
+  const username = String(formData.get('username') ?? '').trim()
+
+  if (!slug) redirect('/clubs')
+  if (!username) redirect(clubUrl(slug, { tab: 'members', err: 'Enter a username to invite' }))
+
+  const { service, user, club } = await requireClubPermission(
+    slug,
+    'MANAGE_MEMBERS',
+    'members',
+    'Only club owners and admins can invite members'
+  )
+
+  // Case-insensitive exact match; escape the pattern characters ilike would expand.
+  const { data: profile } = await service
+    .from('profiles')
+    .select('user_id, username')
+    .ilike('username', username.replace(/[%_\\]/g, '\\$&'))
+    .maybeSingle()
+  if (!profile?.user_id) redirect(clubUrl(slug, { tab: 'members', err: `No user named ${username}` }))
+  if (profile.user_id === user.id) redirect(clubUrl(slug, { tab: 'members', err: 'You are already in this club' }))
+
+  const [{ data: member }, { data: pending }] = await Promise.all([
+    service.from('club_members').select('id').eq('club_id', club.id).eq('user_id', profile.user_id).maybeSingle(),
+    service
+      .from('club_invites')
+      .select('id')
+      .eq('club_id', club.id)
+      .eq('invitee_user_id', profile.user_id)
+      .eq('status', 'PENDING')
+      .gt('expires_at', new Date().toISOString())
+      .limit(1),
+  ])
+  if (member?.id) redirect(clubUrl(slug, { tab: 'members', err: `${profile.username} is already a member` }))
+  if (pending?.length) redirect(clubUrl(slug, { tab: 'members', err: `${profile.username} already has a pending invite` }))
+
+  const { error } = await service.from('club_invites').insert({
+    club_id: club.id,
+    inviter_user_id: user.id,
+    invitee_user_id: profile.user_id,
+    status: 'PENDING',
+    expires_at: inviteExpiresIso(),
+  })
+  if (error) redirect(clubUrl(slug, { tab: 'members', err: error.message }))
+
+  revalidatePath(`/clubs/${slug}`)
+  redirect(clubUrl(slug, { tab: 'members', ok: `Invited ${profile.username}` }))
+}
+
+export async function cancelInvite(formData: FormData) {
+  const slug = String(formData.get('slug') ?? '').trim()
+  const inviteId = String(formData.get('invite_id') ?? '').trim()
+
+  if (!slug) redirect('/clubs')
+  if (!inviteId) redirect(clubUrl(slug, { tab: 'members', err: 'Missing invite' }))
+
+  const { service, club } = await requireClubPermission(
+    slug,
+    'MANAGE_MEMBERS',
+    'members',
+    'Only club owners and admins can manage invites'
+  )
+
+  const { error } = await service
+    .from('club_invites')
+    .update({ status: 'CANCELLED', responded_at: new Date().toISOString() })
+    .eq('id', inviteId)
+    .eq('club_id', club.id)
+    .eq('status', 'PENDING')
+  if (error) redirect(clubUrl(slug, { tab: 'members', err: error.message }))
+
+  revalidatePath(`/clubs/${slug}`)
+  redirect(clubUrl(slug, { tab: 'members', ok: 'Invite cancelled' }))
+}
+
+export async function createInviteLink(formData: FormData) {
+  const slug = String(formData.get('slug') ?? '').trim()
+  const expiryDays = Number(formData.get('expires_days'))
+  const maxUsesRaw = String(formData.get('max_uses') ?? '').trim()
+  const maxUses = maxUsesRaw ? Number(maxUsesRaw) : null
+
+  if (!slug) redirect('/clubs')
+  if (!(INVITE_LINK_EXPIRY_DAYS as readonly number[]).includes(expiryDays)) {
+    redirect(clubUrl(slug, { tab: 'members', err: 'Pick how long the link lasts' }))
+  }
+  if (!(INVITE_LINK_MAX_USES as readonly (number | null)[]).includes(maxUses)) {
+    redirect(clubUrl(slug, { tab: 'members', err: 'Pick how many times the link can be used' }))
+  }
+
+  const { service, user, club } = await requireClubPermission(
+    slug,
+    'MANAGE_MEMBERS',
+    'members',
+    'Only club owners and admins can create invite links'
+  )
+
+  const { error } = await service.from('club_invite_links').insert({
+    club_id: club.id,
+    code: generateInviteCode(),
+    created_by_user_id: user.id,
+    max_uses: maxUses,
+    expires_at: inviteExpiresIso(expiryDays),
+  })
+  if (error) redirect(clubUrl(slug, { tab: 'members', err: error.message }))
+
+  revalidatePath(`/clubs/${slug}`)
+  redirect(clubUrl(slug, { tab: 'members', ok: 'Invite link created' }))
+}
+
+export async function revokeInviteLink(formData: FormData) {
+  const slug = String(formData.get('slug') ?? '').trim()
+  const linkId = String(formData.get('link_id') ?? '').trim()
+
+  if (!slug) redirect('/clubs')
+  if (!linkId) redirect(clubUrl(slug, { tab: 'members', err: 'Missing invite link' }))
+
+  const { service, club } = await requireClubPermission(
+    slug,
+    'MANAGE_MEMBERS',
+    'members',
+    'Only club owners and admins can manage invite links'
+  )
+
+  const { error } = await service
+    .from('club_invite_links')
+    .update({ revoked_at: new Date().toISOString() })
+    .eq('id', linkId)
+    .eq('club_id', club.id)
+    .is('revoked_at', null)
+  if (error) redirect(clubUrl(slug, { tab: 'members', err: error.message }))
+
+  revalidatePath(`/clubs/${slug}`)
+  redirect(clubUrl(slug, { tab: 'members', ok: 'Invite link revoked' }))
+}
+
+export async function reviewJoinRequest(formData: FormData) {
+  const slug = String(formData.get('slug') ?? '').trim()
+  const requestId = String(formData.get('request_id') ?? '').trim()
+  const decision = String(formData.get('decision') ?? '').trim()
+
+  if (!slug) redirect('/clubs')
+  if (!requestId) redirect(clubUrl(slug, { tab: 'members', err: 'Missing request' }))
+  if (decision !== 'approve' && decision !== 'reject') redirect(clubUrl(slug, { tab: 'members', err: 'Invalid decision' }))
+
+  const { service, user, club } = await requireClubPermission(
+    slug,
+    'MANAGE_MEMBERS',
+    'members',
+    'Only club owners and admins can review join requests'
+  )
+
+  const { data: request } = await service
+    .from('club_join_requests')
+    .select('id, user_id, player_puuid, game_name, tag_line')
+    .eq('id', requestId)
+    .eq('club_id', club.id)
+    .eq('status', 'PENDING')
+    .maybeSingle()
+  if (!request?.id) redirect(clubUrl(slug, { tab: 'members', err: 'That request is no longer open' }))
+
+  if (decision === 'approve') {
+    const joinError = await joinClubAsUser(club.id, request.user_id, {
+      puuid: request.player_puuid,
+      gameName: request.game_name,
+      tagLine: request.tag_line,
+    })
+    if (joinError) redirect(clubUrl(slug, { tab: 'members', err: joinError }))
+  }
+
+  const { error } = await service
+    .from('club_join_requests')
+    .update({
+      status: decision === 'approve' ? 'APPROVED' : 'REJECTED',
+      reviewed_by_user_id: user.id,
+      reviewed_at: new Date().toISOString(),
+    })
+    .eq('id', request.id)
+  if (error) redirect(clubUrl(slug, { tab: 'members', err: error.message }))
+
+  revalidatePath(`/clubs/${slug}`)
+  redirect(clubUrl(slug, { tab: 'members', ok: decision === 'approve' ? 'Request approved' : 'Request rejected' }))
+}
@@ -1,15 +1,17 @@
 import Link from 'next/link'
+import { CLUB_JOIN_POLICY_LABELS, type ClubJoinPolicy } from '@/lib/clubJoinPolicy'
 import type { ClubRow, ClubTab } from '../types'
 import { TABS } from '../types'
 import { clubUrl } from '../utils'
 
 type Props = {
   club: ClubRow
+  joinPolicy: ClubJoinPolicy
   activeTab: ClubTab
   canManage: boolean
 }
 
-export default function ClubHeader({ club, activeTab, canManage }: Props) {
+export default function ClubHeader({ club, joinPolicy, activeTab, canManage }: Props) {
   return (
     <div className="mx-auto w-full max-w-[1460px]">
       <div className="relative overflow-hidden rounded-3xl border border-slate-200 bg-white shadow-lg dark:border-slate-800 dark:bg-slate-900">
@@ -34,6 +36,9 @@ export default function ClubHeader({ club, activeTab, canManage }: Props) {
                 <span className="inline-flex items-center rounded-full bg-gradient-to-r from-slate-100 to-slate-50 px-3.5 py-1.5 text-xs font-semibold text-slate-700 ring-1 ring-inset ring-slate-300/50 uppercase tracking-wider shadow-sm dark:from-slate-800 dark:to-slate-900 dark:text-slate-200 dark:ring-slate-700/70">
                   {club.visibility ?? 'PUBLIC'}
                 </span>
+                <span className="inline-flex items-center rounded-full bg-white/90 px-3 py-1.5 text-xs font-semibold text-slate-600 ring-1 ring-inset ring-slate-200 shadow-sm dark:bg-slate-900/85 dark:text-slate-300 dark:ring-slate-700">
+                  {CLUB_JOIN_POLICY_LABELS[joinPolicy]}
+                </span>
                 <div className="inline-flex items-center gap-1 rounded-full border border-slate-200 bg-white/90 p-1 text-sm font-semibold text-slate-600 shadow-sm backdrop-blur dark:border-slate-700 dark:bg-slate-900/85 dark:text-slate-200">
                   {TABS.map((tab) => {
                     const isActive = tab === activeTab
@@ -0,0 +1,126 @@
+import { INVITE_LINK_EXPIRY_DAYS, INVITE_LINK_MAX_USES, inviteLinkProblem, inviteUrl, type ClubInviteLinkRow } from '@/lib/clubInvites'
+import type { PendingInviteRow } from '../types'
+import { formatDate } from '../utils'
+
+type Props = {
+  slug: string
+  pendingInvites: PendingInviteRow[]
+  inviteLinks: ClubInviteLinkRow[]
+  profilesByUserId: Map<string, string>
+  inviteUserAction: (formData: FormData) => Promise<void>
+  cancelInviteAction: (formData: FormData) => Promise<void>
+  createInviteLinkAction: (formData: FormData) => Promise<void>
+  revokeInviteLinkAction: (formData: FormData) => Promise<void>
+}
+
+const INPUT_CLASS =
+  'rounded-lg border border-slate-200 bg-white px-3 py-2 text-sm text-slate-900 outline-none focus:border-blue-400 focus:ring-2 focus:ring-blue-400/10 dark:border-slate-700 dark:bg-slate-950 dark:text-slate-100'
+const PRIMARY_BUTTON_CLASS =
+  'inline-flex items-center justify-center rounded-lg bg-slate-900 px-4 py-2 text-sm font-semibold text-white shadow-sm transition hover:bg-slate-800 dark:bg-white dark:text-slate-900 dark:hover:bg-slate-200'
+const DANGER_LINK_CLASS = 'text-xs font-semibold text-rose-600 hover:text-rose-700 dark:text-rose-300 dark:hover:text-rose-200'
+
+export default function InvitesPanel({
+  slug,
+  pendingInvites,
+  inviteLinks,
+  profilesByUserId,
+  inviteUserAction,
+  cancelInviteAction,
+  createInviteLinkAction,
+  revokeInviteLinkAction,
+}: Props) {
+  return (
+    <div className="grid gap-4 lg:grid-cols-2">
+      <div className="rounded-2xl border border-slate-200 bg-white p-3 shadow-sm dark:border-slate-800 dark:bg-slate-900">
+        <h2 className="text-sm font-bold text-slate-900 dark:text-slate-100">Invite a user</h2>
+        <form action={inviteUserAction} className="mt-2 grid gap-2 sm:grid-cols-[1fr_auto]">
+          <input type="hidden" name="slug" value={slug} />
+          <input name="username" placeholder="Username" required className={INPUT_CLASS} />
+          <button type="submit" className={PRIMARY_BUTTON_CLASS}>
+            Send invite
+          </button>
+        </form>
+        {pendingInvites.length > 0 && (
+          <ul className="mt-3 divide-y divide-slate-100 text-sm dark:divide-slate-800">
+            {pendingInvites.map((invite) => (
+              <li key={invite.id} className="flex items-center justify-between gap-2 py-2">
+                <span className="min-w-0 truncate font-semibold text-slate-800 dark:text-slate-100">
+                  {profilesByUserId.get(invite.invitee_user_id) ?? 'User'}
+                  <span className="ml-2 text-xs font-normal text-slate-500 dark:text-slate-400">
+                    Expires {formatDate(invite.expires_at) ?? 'soon'}
+                  </span>
+                </span>
+                <form action={cancelInviteAction}>
+                  <input type="hidden" name="slug" value={slug} />
+                  <input type="hidden" name="invite_id" value={invite.id} />
+                  <button type="submit" className={DANGER_LINK_CLASS}>
+                    Cancel
+                  </button>
+                </form>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      <div className="rounded-2xl border border-slate-200 bg-white p-3 shadow-sm dark:border-slate-800 dark:bg-slate-900">
+        <h2 className="text-sm font-bold text-slate-900 dark:text-slate-100">Invite links</h2>
+        <form action={createInviteLinkAction} className="mt-2 grid gap-2 sm:grid-cols-[1fr_1fr_auto]">
+          <input type="hidden" name="slug" value={slug} />
+          <select name="expires_days" defaultValue="7" aria-label="Link expiry" className={INPUT_CLASS}>
+            {INVITE_LINK_EXPIRY_DAYS.map((days) => (
+              <option key={days} value={days}>
+                {days === 1 ? '1 day' : `${days} days`}
+              </option>
+            ))}
+          </select>
+          <select name="max_uses" defaultValue="5" aria-label="Maximum uses" className={INPUT_CLASS}>
+            {INVITE_LINK_MAX_USES.map((uses) => (
+              <option key={uses ?? 'unlimited'} value={uses ?? ''}>
+                {uses === null ? 'Unlimited uses' : uses === 1 ? '1 use' : `${uses} uses`}
+              </option>
+            ))}
+          </select>
+          <button type="submit" className={PRIMARY_BUTTON_CLASS}>
+            Create link
+          </button>
+        </form>
+        {inviteLinks.length > 0 && (
+          <ul className="mt-3 divide-y divide-slate-100 text-sm dark:divide-slate-800">
+            {inviteLinks.map((link) => {
+              const problem = inviteLinkProblem(link)
+              return (
+                <li key={link.id} className="py-2">
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="font-mono font-bold tracking-widest text-slate-900 dark:text-slate-100">{link.code}</span>
+                    {problem ? (
+                      <span className="text-xs text-slate-400 dark:text-slate-500">{problem.replace('This invite link has ', '')}</span>
+                    ) : (
+                      <form action={revokeInviteLinkAction}>
+                        <input type="hidden" name="slug" value={slug} />
+                        <input type="hidden" name="link_id" value={link.id} />
+                        <button type="submit" className={DANGER_LINK_CLASS}>
+                          Revoke
+                        </button>
+                      </form>
+                    )}
+                  </div>
+                  <input
+                    readOnly
+                    value={inviteUrl(link.code)}
+                    aria-label="Invite link"
+                    className="mt-1 w-full truncate rounded-md bg-slate-50 px-2 py-1 text-xs text-slate-600 dark:bg-slate-950 dark:text-slate-300"
+                  />
+                  <p className="mt-1 text-[11px] text-slate-500 dark:text-slate-400">
+                    {link.use_count}
+                    {link.max_uses !== null ? `/${link.max_uses}` : ''} used · expires {formatDate(link.expires_at) ?? 'soon'}
+                  </p>
+                </li>
+              )
+            })}
+          </ul>
+        )}
+      </div>
+    </div>
+  )
+}
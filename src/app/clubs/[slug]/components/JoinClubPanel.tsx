@@ -0,0 +1,94 @@
+import Link from 'next/link'
+import { JOIN_REQUEST_MESSAGE_MAX, type ClubJoinPolicy } from '@/lib/clubJoinPolicy'
+import type { JoinRequestRow } from '../types'
+import { formatDate } from '../utils'
+
+type Props = {
+  slug: string
+  policy: ClubJoinPolicy
+  signedIn: boolean
+  pendingRequest: JoinRequestRow | null
+  joinClubAction: (formData: FormData) => Promise<void>
+  requestToJoinAction: (formData: FormData) => Promise<void>
+  cancelJoinRequestAction: (formData: FormData) => Promise<void>
+}
+
+const PRIMARY_BUTTON_CLASS =
+  'inline-flex shrink-0 items-center justify-center rounded-xl bg-slate-900 px-5 py-2.5 text-sm font-semibold text-white transition hover:bg-slate-800 dark:bg-white dark:text-slate-900 dark:hover:bg-slate-200'
+
+// Shown to visitors who aren't in the club yet.
+export default function JoinClubPanel({
+  slug,
+  policy,
+  signedIn,
+  pendingRequest,
+  joinClubAction,
+  requestToJoinAction,
+  cancelJoinRequestAction,
+}: Props) {
+  let body: React.ReactNode
+  if (policy === 'INVITE_ONLY') {
+    body = <p className="text-sm text-slate-600 dark:text-slate-300">This club is invite only. Ask an owner or admin for an invite code.</p>
+  } else if (!signedIn) {
+    body = (
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <p className="text-sm text-slate-600 dark:text-slate-300">
+          {policy === 'OPEN' ? 'Anyone can join this club.' : 'This club reviews requests to join.'}
+        </p>
+        <Link href={`/sign-in?next=${encodeURIComponent(`/clubs/${slug}`)}`} className={PRIMARY_BUTTON_CLASS}>
+          Sign in to join
+        </Link>
+      </div>
+    )
+  } else if (pendingRequest) {
+    body = (
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <p className="text-sm text-slate-600 dark:text-slate-300">
+          Your request to join is waiting for review
+          {formatDate(pendingRequest.created_at) ? ` (sent ${formatDate(pendingRequest.created_at)})` : ''}.
+        </p>
+        <form action={cancelJoinRequestAction}>
+          <input type="hidden" name="slug" value={slug} />
+          <input type="hidden" name="request_id" value={pendingRequest.id} />
+          <button type="submit" className="text-sm font-semibold text-rose-600 hover:text-rose-700 dark:text-rose-300 dark:hover:text-rose-200">
+            Withdraw request
+          </button>
+        </form>
+      </div>
+    )
+  } else if (policy === 'OPEN') {
+    body = (
+      <form action={joinClubAction} className="flex flex-wrap items-center justify-between gap-3">
+        <input type="hidden" name="slug" value={slug} />
+        <p className="text-sm text-slate-600 dark:text-slate-300">
+          Anyone can join this club. You&apos;ll be added with the Riot account linked to your profile.
+        </p>
+        <button type="submit" className={PRIMARY_BUTTON_CLASS}>
+          Join club
+        </button>
+      </form>
+    )
+  } else {
+    body = (
+      <form action={requestToJoinAction} className="grid gap-3 sm:grid-cols-[1fr_auto] sm:items-start">
+        <input type="hidden" name="slug" value={slug} />
+        <textarea
+          name="message"
+          rows={2}
+          maxLength={JOIN_REQUEST_MESSAGE_MAX}
+          placeholder="Add a message for the club (optional)"
+          className="w-full rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm text-slate-900 placeholder:text-slate-400 outline-none focus:border-blue-400 focus:ring-2 focus:ring-blue-400/10 dark:border-slate-700 dark:bg-slate-950 dark:text-slate-100 dark:placeholder:text-slate-500"
+        />
+        <button type="submit" className={PRIMARY_BUTTON_CLASS}>
+          Request to join
+        </button>
+      </form>
+    )
+  }
+
+  return (
+    <div className="mx-auto w-full max-w-[1460px] rounded-2xl border border-slate-200 bg-white p-4 shadow-sm dark:border-slate-800 dark:bg-slate-900">
+      {body}
+    </div>
+  )
+}
@@ -0,0 +1,59 @@
+import type { JoinRequestRow } from '../types'
+import { formatDate } from '../utils'
+
+type Props = {
+  slug: string
+  joinRequests: JoinRequestRow[]
+  profilesByUserId: Map<string, string>
+  reviewJoinRequestAction: (formData: FormData) => Promise<void>
+}
+
+export default function JoinRequestsPanel({ slug, joinRequests, profilesByUserId, reviewJoinRequestAction }: Props) {
+  if (joinRequests.length === 0) return null
+
+  return (
+    <div className="rounded-2xl border border-slate-200 bg-white p-3 shadow-sm dark:border-slate-800 dark:bg-slate-900">
+      <h2 className="text-sm font-bold text-slate-900 dark:text-slate-100">
+        Join requests <span className="font-semibold text-slate-400 dark:text-slate-500">({joinRequests.length})</span>
+      </h2>
+      <ul className="mt-2 divide-y divide-slate-100 text-sm dark:divide-slate-800">
+        {joinRequests.map((request) => {
+          const riotId = request.game_name && request.tag_line ? `${request.game_name}#${request.tag_line}` : null
+          return (
+            <li key={request.id} className="flex flex-col gap-2 py-2 sm:flex-row sm:items-center sm:justify-between">
+              <div className="min-w-0">
+                <p className="truncate font-semibold text-slate-800 dark:text-slate-100">
+                  {profilesByUserId.get(request.user_id) ?? 'User'}
+                  <span className="ml-2 text-xs font-normal text-slate-500 dark:text-slate-400">
+                    {riotId ?? 'No Riot account linked'} · {formatDate(request.created_at) ?? 'recently'}
+                  </span>
+                </p>
+                {request.message && <p className="mt-0.5 break-words text-xs text-slate-600 dark:text-slate-300">{request.message}</p>}
+              </div>
+              <form action={reviewJoinRequestAction} className="flex shrink-0 items-center gap-2">
+                <input type="hidden" name="slug" value={slug} />
+                <input type="hidden" name="request_id" value={request.id} />
+                <button
+                  type="submit"
+                  name="decision"
+                  value="approve"
+                  className="inline-flex items-center justify-center rounded-lg border border-emerald-200 px-3 py-1.5 text-xs font-semibold text-emerald-700 transition hover:border-emerald-300 hover:text-emerald-800 dark:border-emerald-500/40 dark:text-emerald-300 dark:hover:border-emerald-400"
+                >
+                  Approve
+                </button>
+                <button
+                  type="submit"
+                  name="decision"
+                  value="reject"
+                  className="inline-flex items-center justify-center rounded-lg border border-rose-200 px-3 py-1.5 text-xs font-semibold text-rose-600 transition hover:border-rose-300 hover:text-rose-700 dark:border-rose-500/40 dark:text-rose-300 dark:hover:border-rose-400"
+                >
+                  Reject
+                </button>
+              </form>
+            </li>
+          )
+        })}
+      </ul>
+    </div>
+  )
+}
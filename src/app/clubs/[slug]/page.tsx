@@ -1,20 +1,34 @@
 import Link from 'next/link'
 import { notFound } from 'next/navigation'
+import { CLUB_INVITE_LINK_COLUMNS, type ClubInviteLinkRow } from '@/lib/clubInvites'
+import { effectiveJoinPolicy } from '@/lib/clubJoinPolicy'
+import { getClubStandings } from '@/lib/clubStandings'
+import { getClubRole, roleHasPermission } from '@/lib/clubPermissions'
 import { createClient } from '@/lib/supabase/server'
+import { createServiceClient } from '@/lib/supabase/service'
 import {
   addHighlight,
   addMember,
   attachLeaderboard,
+  cancelInvite,
+  createInviteLink,
   deleteHighlight,
   detachLeaderboard,
+  inviteUser,
   removeMember,
+  reviewJoinRequest,
+  revokeInviteLink,
+  setMemberRole,
 } from './actions'
+import { cancelJoinRequest, joinClub, requestToJoin } from '../actions'
 import AlertBanner from './components/AlertBanner'
 import ClubHeader from './components/ClubHeader'
+import JoinClubPanel from './components/JoinClubPanel'
 import HighlightsTab from './tabs/HighlightsTab'
 import HomeTab from './tabs/HomeTab'
 import LeaderboardsTab from './tabs/LeaderboardsTab'
 import MembersTab from './tabs/MembersTab'
+import StandingsTab from './tabs/StandingsTab'
 import type {
   AttachedLeaderboard,
   ClubLeaderboardRow,
@@ -22,8 +36,10 @@ import type {
   ClubRow,
   ClubShowdownRow,
   HighlightRow,
+  JoinRequestRow,
   LeaderboardRow,
   MemberRow,
+  PendingInviteRow,
 } from './types'
 import { resolveTab } from './utils'
 
@@ -45,7 +61,7 @@ export default async function ClubDetailPage({
     supabase.auth.getUser(),
     supabase
       .from('clubs')
-      .select('id, name, slug, description, visibility, created_at, updated_at, owner_user_id, banner_url')
+      .select('id, name, slug, description, visibility, join_policy, created_at, updated_at, owner_user_id, banner_url')
       .eq('slug', slug)
       .maybeSingle(),
     supabase.from('profiles').select('user_id, username'),
@@ -71,10 +87,32 @@ export default async function ClubDetailPage({
   if (!club) notFound()
 
   const user = auth.user
-  const ownerId = user?.id ?? null
-  const canManage = !!ownerId && club.owner_user_id === ownerId
+  const userId = user?.id ?? null
+  const isOwner = !!userId && club.owner_user_id === userId
+  const viewerRole = await getClubRole(club.id, userId)
+  const canManageMembers = roleHasPermission(viewerRole, 'MANAGE_MEMBERS')
+  const canAttachLeaderboards = roleHasPermission(viewerRole, 'ATTACH_LEADERBOARDS')
+  const canModerateHighlights = roleHasPermission(viewerRole, 'MODERATE_HIGHLIGHTS')
+  const joinPolicy = effectiveJoinPolicy(club)
 
-  const [membersRes, linksRes, userLeaderboardsRes, highlightsRes, showdownsRes] = await Promise.all([
+  // Invites and join requests are only visible to people who can manage members;
+  // a visitor only sees their own open request, in place of the join form.
+  const loadsMemberAdmin = canManageMembers && activeTab === 'members'
+  const loadsViewerRequest = !!userId && viewerRole === null && joinPolicy !== 'INVITE_ONLY'
+  const service = loadsMemberAdmin || loadsViewerRequest ? createServiceClient() : null
+
+  const [
+    membersRes,
+    linksRes,
+    userLeaderboardsRes,
+    highlightsRes,
+    showdownsRes,
+    invitesRes,
+    inviteLinksRes,
+    joinRequestsRes,
+    viewerRequestRes,
+    standings,
+  ] = await Promise.all([
     supabase
       .from('club_members')
       .select('id, user_id, role, joined_at, player_puuid, game_name, tag_line')
@@ -85,11 +123,11 @@ export default async function ClubDetailPage({
       .select('id, leaderboard_id, created_at, added_by_user_id')
       .eq('club_id', club.id)
       .order('created_at', { ascending: false }),
-    canManage
+    canAttachLeaderboards
       ? supabase
           .from('leaderboards')
           .select('id, name, slug, leaderboard_code, description, updated_at, banner_url, visibility')
-          .eq('user_id', ownerId!)
+          .eq('user_id', userId!)
           .order('name', { ascending: true })
       : Promise.resolve({ data: [] as LeaderboardRow[], error: null }),
     supabase
@@ -103,6 +141,41 @@ export default async function ClubDetailPage({
       .or(`requester_club_id.eq.${club.id},target_club_id.eq.${club.id}`)
       .order('created_at', { ascending: false })
       .limit(6),
+    service && loadsMemberAdmin
+      ? service
+          .from('club_invites')
+          .select('id, invitee_user_id, expires_at, created_at')
+          .eq('club_id', club.id)
+          .eq('status', 'PENDING')
+          .gt('expires_at', new Date().toISOString())
+          .order('created_at', { ascending: false })
+      : Promise.resolve({ data: [] as PendingInviteRow[], error: null }),
+    service && loadsMemberAdmin
+      ? service
+          .from('club_invite_links')
+          .select(CLUB_INVITE_LINK_COLUMNS)
+          .eq('club_id', club.id)
+          .order('created_at', { ascending: false })
+          .limit(10)
+      : Promise.resolve({ data: [] as ClubInviteLinkRow[], error: null }),
+    service && loadsMemberAdmin
+      ? service
+          .from('club_join_requests')
+          .select('id, user_id, message, game_name, tag_line, created_at')
+          .eq('club_id', club.id)
+          .eq('status', 'PENDING')
+          .order('created_at', { ascending: true })
+      : Promise.resolve({ data: [] as JoinRequestRow[], error: null }),
+    service && loadsViewerRequest && userId
+      ? service
+          .from('club_join_requests')
+          .select('id, user_id, message, game_name, tag_line, created_at')
+          .eq('club_id', club.id)
+          .eq('user_id', userId)
+          .eq('status', 'PENDING')
+          .maybeSingle()
+      : Promise.resolve({ data: null, error: null }),
+    activeTab === 'standings' ? getClubStandings(club.id) : null,
   ])
 
   const members = (membersRes.data ?? []) as MemberRow[]
@@ -160,7 +233,7 @@ export default async function ClubDetailPage({
     })
     .slice(0, 8)
 
-  const canPostHighlight = !!user && (club.owner_user_id === user.id || members.some((member) => member.user_id === user.id))
+  const canPostHighlight = viewerRole !== null
 
   const hasMemberError = !!memberError
   const hasLeaderboardError = !!linksError || !!leaderboardsRes.error
@@ -171,7 +244,19 @@ export default async function ClubDetailPage({
   return (
     <main className="lb-less-rounded min-h-screen bg-gradient-to-br from-slate-50 via-white to-slate-50 dark:from-slate-950 dark:via-slate-950 dark:to-slate-900">
       <div className="mx-auto w-full space-y-8 px-6 py-8 lg:px-10 lg:py-12">
-        <ClubHeader club={club} activeTab={activeTab} canManage={canManage} />
+        <ClubHeader club={club} joinPolicy={joinPolicy} activeTab={activeTab} canManage={isOwner} />
+
+        {viewerRole === null && (
+          <JoinClubPanel
+            slug={slug}
+            policy={joinPolicy}
+            signedIn={!!userId}
+            pendingRequest={(viewerRequestRes.data ?? null) as JoinRequestRow | null}
+            joinClubAction={joinClub}
+            requestToJoinAction={requestToJoin}
+            cancelJoinRequestAction={cancelJoinRequest}
+          />
+        )}
 
         {(clubOk || clubErr || hasMemberError || hasLeaderboardError || hasAttachError || hasHighlightsError || hasShowdownError) && (
           <div className="mt-6 space-y-3">
@@ -203,19 +288,33 @@ export default async function ClubDetailPage({
         {activeTab === 'members' && (
           <MembersTab
             slug={slug}
-            canManage={canManage}
+            canManage={canManageMembers}
+            viewerRole={viewerRole}
             members={members}
             riotStateByPuuid={riotStateByPuuid}
             profilesByUserId={profilesByUserId}
             addMemberAction={addMember}
             removeMemberAction={removeMember}
+            setMemberRoleAction={setMemberRole}
+            pendingInvites={(invitesRes.data ?? []) as PendingInviteRow[]}
+            inviteLinks={(inviteLinksRes.data ?? []) as ClubInviteLinkRow[]}
+            inviteUserAction={inviteUser}
+            cancelInviteAction={cancelInvite}
+            createInviteLinkAction={createInviteLink}
+            revokeInviteLinkAction={revokeInviteLink}
+            joinRequests={(joinRequestsRes.data ?? []) as JoinRequestRow[]}
+            reviewJoinRequestAction={reviewJoinRequest}
           />
         )}
 
+        {activeTab === 'standings' && standings && (
+          <StandingsTab standings={standings} riotStateByPuuid={riotStateByPuuid} profilesByUserId={profilesByUserId} />
+        )}
+
         {activeTab === 'leaderboards' && (
           <LeaderboardsTab
             slug={slug}
-            canManage={canManage}
+            canManage={canAttachLeaderboards}
             attachableLeaderboards={attachableLeaderboards}
             attachedLeaderboards={attachedLeaderboards}
             attachLeaderboardAction={attachLeaderboard}
@@ -228,6 +327,7 @@ export default async function ClubDetailPage({
             slug={slug}
             userId={user?.id ?? null}
             canPostHighlight={canPostHighlight}
+            canModerate={canModerateHighlights}
             highlights={highlights}
             members={members}
             profilesByUserId={profilesByUserId}
@@ -7,6 +7,7 @@ type Props = {
   slug: string
   userId: string | null
   canPostHighlight: boolean
+  canModerate: boolean
   highlights: HighlightRow[]
   members: MemberRow[]
   profilesByUserId: Map<string, string>
@@ -19,6 +20,7 @@ export default function HighlightsTab({
   slug,
   userId,
   canPostHighlight,
+  canModerate,
   highlights,
   members,
   profilesByUserId,
@@ -92,7 +94,7 @@ export default function HighlightsTab({
                           >
                             View
                           </a>
-                          {userId && highlight.user_id === userId && (
+                          {userId && (highlight.user_id === userId || canModerate) && (
                             <form action={deleteHighlightAction}>
                               <input type="hidden" name="slug" value={slug} />
                               <input type="hidden" name="highlight_id" value={highlight.id} />
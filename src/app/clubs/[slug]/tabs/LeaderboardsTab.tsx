@@ -25,7 +25,7 @@ export default function LeaderboardsTab({
         <div className="flex flex-col gap-4 lg:flex-row lg:items-center lg:justify-between">
           <div>
             <h2 className="text-lg font-bold text-slate-900 dark:text-slate-100">Attached leaderboards</h2>
-            <p className="mt-1 text-sm text-slate-600 dark:text-slate-300">Attach competitions from the owner account to represent the club.</p>
+            <p className="mt-1 text-sm text-slate-600 dark:text-slate-300">Attach competitions from your account to represent the club.</p>
           </div>
           {canManage && (
             <form action={attachLeaderboardAction} className="flex w-full flex-col gap-2 sm:flex-row lg:max-w-xl">
@@ -56,7 +56,7 @@ export default function LeaderboardsTab({
         </div>
         {!canManage && (
           <p className="mt-4 rounded-xl border border-dashed border-slate-200 bg-slate-50 px-4 py-3 text-xs text-slate-600 dark:border-slate-700 dark:bg-slate-950/60 dark:text-slate-300">
-            The club owner decides which leaderboards are attached here.
+            The club owner and admins decide which leaderboards are attached here.
           </p>
         )}
       </div>
@@ -1,25 +1,49 @@
+import { assignableRoles, CLUB_ROLE_LABELS, normalizeClubRole, type ClubRole } from '@/lib/clubPermissions'
+import type { ClubInviteLinkRow } from '@/lib/clubInvites'
+import InvitesPanel from '../components/InvitesPanel'
+import JoinRequestsPanel from '../components/JoinRequestsPanel'
 import MemberBadge from '../components/MemberBadge'
-import type { MemberRow } from '../types'
+import type { JoinRequestRow, MemberRow, PendingInviteRow } from '../types'
 import { formatDate, profileIconUrl } from '../utils'
 
 type Props = {
   slug: string
   canManage: boolean
+  viewerRole: ClubRole | null
   members: MemberRow[]
   riotStateByPuuid: Map<string, number | null>
   profilesByUserId: Map<string, string>
   addMemberAction: (formData: FormData) => Promise<void>
   removeMemberAction: (formData: FormData) => Promise<void>
+  setMemberRoleAction: (formData: FormData) => Promise<void>
+  pendingInvites: PendingInviteRow[]
+  inviteLinks: ClubInviteLinkRow[]
+  inviteUserAction: (formData: FormData) => Promise<void>
+  cancelInviteAction: (formData: FormData) => Promise<void>
+  createInviteLinkAction: (formData: FormData) => Promise<void>
+  revokeInviteLinkAction: (formData: FormData) => Promise<void>
+  joinRequests: JoinRequestRow[]
+  reviewJoinRequestAction: (formData: FormData) => Promise<void>
 }
 
 export default function MembersTab({
   slug,
   canManage,
+  viewerRole,
   members,
   riotStateByPuuid,
   profilesByUserId,
   addMemberAction,
   removeMemberAction,
+  setMemberRoleAction,
+  pendingInvites,
+  inviteLinks,
+  inviteUserAction,
+  cancelInviteAction,
+  createInviteLinkAction,
+  revokeInviteLinkAction,
+  joinRequests,
+  reviewJoinRequestAction,
 }: Props) {
   return (
     <section className="mt-8 space-y-4">
@@ -28,7 +52,7 @@ export default function MembersTab({
           <input type="hidden" name="slug" value={slug} />
           <div className="flex flex-col gap-0.5 sm:flex-row sm:items-center sm:justify-between">
             <h2 className="text-sm font-bold text-slate-900 dark:text-slate-100">Add a Riot ID</h2>
-            <span className="text-xs font-semibold uppercase tracking-wide text-slate-500 dark:text-slate-400">Owner-managed roster</span>
+            <span className="text-xs font-semibold uppercase tracking-wide text-slate-500 dark:text-slate-400">Managed by owner and admins</span>
           </div>
           <div className="mt-2 grid gap-2 sm:grid-cols-[1fr_auto]">
             <input
@@ -47,6 +71,28 @@ export default function MembersTab({
         </form>
       )}
 
+      {canManage && (
+        <JoinRequestsPanel
+          slug={slug}
+          joinRequests={joinRequests}
+          profilesByUserId={profilesByUserId}
+          reviewJoinRequestAction={reviewJoinRequestAction}
+        />
+      )}
+
+      {canManage && (
+        <InvitesPanel
+          slug={slug}
+          pendingInvites={pendingInvites}
+          inviteLinks={inviteLinks}
+          profilesByUserId={profilesByUserId}
+          inviteUserAction={inviteUserAction}
+          cancelInviteAction={cancelInviteAction}
+          createInviteLinkAction={createInviteLinkAction}
+          revokeInviteLinkAction={revokeInviteLinkAction}
+        />
+      )}
+
       {members.length === 0 ? (
         <div className="rounded-2xl border-2 border-dashed border-slate-200 bg-white py-16 text-center dark:border-slate-700 dark:bg-slate-900">
           <p className="text-base font-bold text-slate-600 dark:text-slate-200">No members yet</p>
@@ -60,7 +106,10 @@ export default function MembersTab({
           const joinedLabel = formatDate(member.joined_at)
           const profileName = member.user_id ? profilesByUserId.get(member.user_id) : null
           const displayName = riotId ?? profileName ?? (member.user_id ? 'Owner' : 'Member')
-          const isOwnerMember = member.role?.toUpperCase() === 'OWNER'
+          const memberRole = normalizeClubRole(member.role) ?? 'MEMBER'
+          // Roster entries without an account can't hold a role.
+          const roleOptions = member.user_id ? assignableRoles(viewerRole, memberRole) : []
+          const canRemove = canManage && memberRole !== 'OWNER' && (memberRole !== 'ADMIN' || viewerRole === 'OWNER')
 
           return (
             <div
@@ -87,17 +136,45 @@ export default function MembersTab({
                 </div>
               </div>
 
-              {canManage && !isOwnerMember && (
-                <form action={removeMemberAction}>
-                  <input type="hidden" name="slug" value={slug} />
-                  <input type="hidden" name="member_id" value={member.id} />
-                  <button
-                    type="submit"
-                    className="inline-flex items-center justify-center rounded-xl border border-rose-200 px-4 py-2 text-sm font-semibold text-rose-600 transition hover:border-rose-300 hover:text-rose-700 dark:border-rose-500/40 dark:text-rose-300 dark:hover:border-rose-400"
-                  >
-                    Remove
-                  </button>
-                </form>
+              {(roleOptions.length > 0 || canRemove) && (
+                <div className="flex flex-wrap items-center gap-2">
+                  {roleOptions.length > 0 && (
+                    <form action={setMemberRoleAction} className="flex items-center gap-2">
+                      <input type="hidden" name="slug" value={slug} />
+                      <input type="hidden" name="member_id" value={member.id} />
+                      <select
+                        name="role"
+                        defaultValue={memberRole}
+                        aria-label="Member role"
+                        className="rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm font-semibold text-slate-700 outline-none focus:border-blue-400 dark:border-slate-700 dark:bg-slate-950 dark:text-slate-200"
+                      >
+                        {roleOptions.map((role) => (
+                          <option key={role} value={role}>
+                            {CLUB_ROLE_LABELS[role]}
+                          </option>
+                        ))}
+                      </select>
+                      <button
+                        type="submit"
+                        className="inline-flex items-center justify-center rounded-xl border border-slate-200 px-4 py-2 text-sm font-semibold text-slate-700 transition hover:border-slate-300 hover:text-slate-900 dark:border-slate-700 dark:text-slate-200 dark:hover:border-slate-500"
+                      >
+                        Set role
+                      </button>
+                    </form>
+                  )}
+                  {canRemove && (
+                    <form action={removeMemberAction}>
+                      <input type="hidden" name="slug" value={slug} />
+                      <input type="hidden" name="member_id" value={member.id} />
+                      <button
+                        type="submit"
+                        className="inline-flex items-center justify-center rounded-xl border border-rose-200 px-4 py-2 text-sm font-semibold text-rose-600 transition hover:border-rose-300 hover:text-rose-700 dark:border-rose-500/40 dark:text-rose-300 dark:hover:border-rose-400"
+                      >
+                        Remove
+                      </button>
+                    </form>
+                  )}
+                </div>
               )}
             </div>
           )
@@ -0,0 +1,101 @@
+import type { ClubStandingsData } from '@/lib/clubStandings'
+import { formatRank } from '@/lib/rankFormat'
+import { formatDate, profileIconUrl } from '../utils'
+
+type Props = {
+  standings: ClubStandingsData
+  riotStateByPuuid: Map<string, number | null>
+  profilesByUserId: Map<string, string>
+}
+
+function signedLp(value: number) {
+  return `${value > 0 ? '+' : ''}${value} LP`
+}
+
+export default function StandingsTab({ standings, riotStateByPuuid, profilesByUserId }: Props) {
+  const rows = standings.standings
+
+  return (
+    <section className="mt-8 space-y-6">
+      <div className="rounded-2xl border-2 border-slate-200 bg-white p-6 shadow-sm dark:border-slate-800 dark:bg-slate-900">
+        <h2 className="text-lg font-bold text-slate-900 dark:text-slate-100">Club standings</h2>
+        <p className="mt-1 text-sm text-slate-600 dark:text-slate-300">
+          Members with a linked Riot account, ranked by solo queue rank. LP this week counts from{' '}
+          {formatDate(new Date(standings.weekStartMs).toISOString()) ?? 'Monday'} (Monday 00:00 UTC).
+        </p>
+      </div>
+
+      {rows.length === 0 ? (
+        <div className="rounded-2xl border-2 border-dashed border-slate-200 bg-white py-16 text-center dark:border-slate-700 dark:bg-slate-900">
+          <p className="text-base font-bold text-slate-600 dark:text-slate-200">No ranked members yet</p>
+          <p className="mt-1 text-sm text-slate-500 dark:text-slate-400">Members show up here once they have a Riot ID on the roster.</p>
+        </div>
+      ) : (
+        <div className="overflow-x-auto rounded-2xl border-2 border-slate-200 bg-white shadow-sm dark:border-slate-800 dark:bg-slate-900">
+          <table className="w-full min-w-[560px] text-sm">
+            <thead>
+              <tr className="border-b border-slate-200 text-left text-[11px] font-semibold uppercase tracking-wide text-slate-500 dark:border-slate-800 dark:text-slate-400">
+                <th className="px-4 py-3">#</th>
+                <th className="px-4 py-3">Player</th>
+                <th className="px-4 py-3">Rank</th>
+                <th className="px-4 py-3 text-right">Record</th>
+                <th className="px-4 py-3 text-right">LP this week</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100 dark:divide-slate-800">
+              {rows.map((row, idx) => {
+                const iconUrl = profileIconUrl(riotStateByPuuid.get(row.puuid) ?? null)
+                const riotId = row.gameName ? (row.tagLine ? `${row.gameName}#${row.tagLine}` : row.gameName) : null
+                const profileName = row.userId ? profilesByUserId.get(row.userId) : null
+                const games = (row.wins ?? 0) + (row.losses ?? 0)
+                const winRate = games > 0 ? Math.round(((row.wins ?? 0) / games) * 100) : null
+
+                return (
+                  <tr key={row.memberId}>
+                    <td className="px-4 py-3 font-semibold text-slate-500 dark:text-slate-400">{idx + 1}</td>
+                    <td className="px-4 py-3">
+                      <div className="flex min-w-0 items-center gap-3">
+                        {iconUrl ? (
+                          // eslint-disable-next-line @next/next/no-img-element
+                          <img src={iconUrl} alt="" className="h-8 w-8 rounded-lg border border-slate-200 bg-slate-100 object-cover dark:border-slate-700 dark:bg-slate-800" />
+                        ) : (
+                          <div className="h-8 w-8 rounded-lg border border-dashed border-slate-200 bg-slate-50 dark:border-slate-700 dark:bg-slate-800" />
+                        )}
+                        <div className="min-w-0">
+                          <p className="truncate font-bold text-slate-900 dark:text-slate-100">{riotId ?? profileName ?? 'Member'}</p>
+                          {riotId && profileName && <p className="truncate text-xs text-slate-500 dark:text-slate-400">{profileName}</p>}
+                        </div>
+                      </div>
+                    </td>
+                    <td className="whitespace-nowrap px-4 py-3 font-semibold text-slate-700 dark:text-slate-200">
+                      {formatRank(row.tier, row.rank, row.leaguePoints)}
+                    </td>
+                    <td className="whitespace-nowrap px-4 py-3 text-right text-slate-600 dark:text-slate-300">
+                      {games > 0 ? `${row.wins ?? 0}W ${row.losses ?? 0}L · ${winRate}%` : '—'}
+                    </td>
+                    <td
+                      className={`whitespace-nowrap px-4 py-3 text-right font-semibold ${
+                        row.lpThisWeek > 0
+                          ? 'text-emerald-600 dark:text-emerald-400'
+                          : row.lpThisWeek < 0
+                            ? 'text-rose-600 dark:text-rose-400'
+                            : 'text-slate-500 dark:text-slate-400'
+                      }`}
+                    >
+                      {row.gamesThisWeek > 0 || row.lpThisWeek !== 0 ? signedLp(row.lpThisWeek) : '—'}
+                      {row.gamesThisWeek > 0 && (
+                        <span className="ml-1 text-xs font-normal text-slate-400 dark:text-slate-500">
+                          ({row.gamesThisWeek} {row.gamesThisWeek === 1 ? 'game' : 'games'})
+                        </span>
+                      )}
+                    </td>
+                  </tr>
+                )
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </section>
+  )
+}
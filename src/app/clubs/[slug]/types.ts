@@ -1,6 +1,4 @@
-import { createClient } from '@/lib/supabase/server'
-
-export const TABS = ['home', 'members', 'leaderboards', 'highlights'] as const
+export const TABS = ['home', 'members', 'standings', 'leaderboards', 'highlights'] as const
 export type ClubTab = (typeof TABS)[number]
 
 export type ClubRow = {
@@ -9,6 +7,7 @@ export type ClubRow = {
   slug: string
   description: string | null
   visibility: string | null
+  join_policy: string | null
   created_at: string | null
   updated_at: string | null
   owner_user_id: string | null
@@ -25,6 +24,22 @@ export type MemberRow = {
   tag_line: string | null
 }
 
+export type PendingInviteRow = {
+  id: string
+  invitee_user_id: string
+  expires_at: string | null
+  created_at: string | null
+}
+
+export type JoinRequestRow = {
+  id: string
+  user_id: string
+  message: string | null
+  game_name: string | null
+  tag_line: string | null
+  created_at: string | null
+}
+
 export type ClubLeaderboardRow = {
   id: string
   leaderboard_id: string
@@ -70,5 +85,3 @@ export type AttachedLeaderboard = {
   addedAt: string | null
   leaderboard: LeaderboardRow | null
 }
-
-export type SupabaseClient = Awaited<ReturnType<typeof createClient>>
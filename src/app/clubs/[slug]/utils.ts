@@ -1,8 +1,8 @@
-import type { ClubTab } from './types'
+import { TABS, type ClubTab } from './types'
 
 export function resolveTab(value?: string | null): ClubTab {
   if (!value) return 'home'
-  return value === 'home' || value === 'members' || value === 'leaderboards' || value === 'highlights' ? value : 'home'
+  return (TABS as readonly string[]).includes(value) ? (value as ClubTab) : 'home'
 }
 
 export function clubUrl(slug: string, opts: { tab?: ClubTab; ok?: string; err?: string } = {}) {
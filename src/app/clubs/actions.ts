@@ -0,0 +1,238 @@
+'use server'
+
+import { revalidatePath } from 'next/cache'
+import { redirect } from 'next/navigation'
+import {
+  CLUB_INVITE_LINK_COLUMNS,
+  effectiveInviteStatus,
+  inviteLinkProblem,
+  joinClubAsUser,
+  linkedRiotAccount,
+  normalizeInviteCode,
+  type ClubInviteLinkRow,
+} from '@/lib/clubInvites'
+import { effectiveJoinPolicy, JOIN_REQUEST_MESSAGE_MAX } from '@/lib/clubJoinPolicy'
+import { createClient } from '@/lib/supabase/server'
+import { createServiceClient } from '@/lib/supabase/service'
+import { clubUrl } from './[slug]/utils'
+
+async function requireUser(next: string) {
+  const supabase = await createClient()
+  const { data: auth } = await supabase.auth.getUser()
+  if (!auth.user) redirect(`/sign-in?next=${encodeURIComponent(next)}`)
+  return auth.user
+}
+
+function revalidateClub(slug: string) {
+  revalidatePath('/', 'layout')
+  revalidatePath('/clubs')
+  revalidatePath(`/clubs/${slug}`)
+}
+
+// Joining by any route settles the user's open request to the same club.
+async function closeJoinRequests(clubId: string, userId: string) {
+  const { error } = await createServiceClient()
+    .from('club_join_requests')
+    .update({ status: 'CANCELLED', reviewed_at: new Date().toISOString() })
+    .eq('club_id', clubId)
+    .eq('user_id', userId)
+    .eq('status', 'PENDING')
+  if (error) console.error('[clubs] join request cleanup failed', { clubId, userId, error })
+}
+
+// Loads one of the signed-in user's invites that can still be answered.
+async function requireOpenInvite(inviteId: string) {
+  if (!inviteId) redirect('/clubs')
+  const user = await requireUser('/clubs')
+
+  const service = createServiceClient()
+  const { data: invite } = await service
+    .from('club_invites')
+    .select('id, club_id, status, expires_at, club:clubs(slug)')
+    .eq('id', inviteId)
+    .eq('invitee_user_id', user.id)
+    .maybeSingle<{ id: string; club_id: string; status: string | null; expires_at: string | null; club: { slug: string } | null }>()
+  if (!invite?.club?.slug) redirect('/clubs')
+
+  const slug = invite.club.slug
+  const status = effectiveInviteStatus(invite)
+  if (status !== 'PENDING') {
+    redirect(clubUrl(slug, { err: status === 'EXPIRED' ? 'This invite has expired' : 'This invite is no longer open' }))
+  }
+
+  return { service, user, invite, slug }
+}
+
+export async function acceptInvite(formData: FormData) {
+  const { service, user, invite, slug } = await requireOpenInvite(String(formData.get('invite_id') ?? '').trim())
+
+  // Claim the invite before joining, so a decline or the worker's expiry can't
+  // race the accept. A failed join reopens it.
+  const { data: claimed, error } = await service
+    .from('club_invites')
+    .update({ status: 'ACCEPTED', responded_at: new Date().toISOString() })
+    .eq('id', invite.id)
+    .eq('status', 'PENDING')
+    .select('id')
+  if (error) redirect(clubUrl(slug, { err: error.message }))
+  if (!claimed?.length) redirect(clubUrl(slug, { err: 'This invite is no longer open' }))
+
+  const joinError = await joinClubAsUser(invite.club_id, user.id, linkedRiotAccount(user))
+  if (joinError) {
+    const { error: reopenError } = await service
+      .from('club_invites')
+      .update({ status: 'PENDING', responded_at: null })
+      .eq('id', invite.id)
+      .eq('status', 'ACCEPTED')
+    if (reopenError) console.error('[clubs] invite reopen failed', { inviteId: invite.id, error: reopenError })
+    redirect(clubUrl(slug, { err: joinError }))
+  }
+  await closeJoinRequests(invite.club_id, user.id)
+
+  revalidateClub(slug)
+  redirect(clubUrl(slug, { tab: 'members', ok: 'Welcome to the club' }))
+}
+
+export async function declineInvite(formData: FormData) {
+  const { service, invite, slug } = await requireOpenInvite(String(formData.get('invite_id') ?? '').trim())
+
+  const { data: declined, error } = await service
+    .from('club_invites')
+    .update({ status: 'DECLINED', responded_at: new Date().toISOString() })
+    .eq('id', invite.id)
+    .eq('status', 'PENDING')
+    .select('id')
+  if (error) redirect(clubUrl(slug, { err: error.message }))
+  if (!declined?.length) redirect(clubUrl(slug, { err: 'This invite is no longer open' }))
+
+  revalidateClub(slug)
+  redirect('/clubs')
+}
+
+export async function redeemInviteCode(formData: FormData) {
+  const code = normalizeInviteCode(String(formData.get('code') ?? ''))
+  if (!code) redirect('/clubs/join')
+  const joinPath = `/clubs/join/${code}`
+  const user = await requireUser(joinPath)
+
+  const service = createServiceClient()
+  const { data } = await service
+    .from('club_invite_links')
+    .select(`${CLUB_INVITE_LINK_COLUMNS}, club:clubs(slug)`)
+    .eq('code', code)
+    .maybeSingle()
+  const link = data as (ClubInviteLinkRow & { club: { slug: string } | null }) | null
+  if (!link?.club?.slug) redirect(`${joinPath}?err=${encodeURIComponent('Invite code not found')}`)
+
+  const problem = inviteLinkProblem(link)
+  if (problem) redirect(`${joinPath}?err=${encodeURIComponent(problem)}`)
+
+  // Claim a use before joining so two redemptions can't both take the last one.
+  const { data: claimed } = await service
+    .from('club_invite_links')
+    .update({ use_count: link.use_count + 1 })
+    .eq('id', link.id)
+    .eq('use_count', link.use_count)
+    .select('id')
+  if (!claimed?.length) redirect(`${joinPath}?err=${encodeURIComponent('The invite was just used, try again')}`)
+
+  const joinError = await joinClubAsUser(link.club_id, user.id, linkedRiotAccount(user))
+  if (joinError) {
+    await service.from('club_invite_links').update({ use_count: link.use_count }).eq('id', link.id).eq('use_count', link.use_count + 1)
+    redirect(`${joinPath}?err=${encodeURIComponent(joinError)}`)
+  }
+  await closeJoinRequests(link.club_id, user.id)
+
+  revalidateClub(link.club.slug)
+  redirect(clubUrl(link.club.slug, { tab: 'members', ok: 'Welcome to the club' }))
+}
+
+// Loads a club the signed-in user isn't in yet, for the join actions.
+async function requireJoinableClub(slug: string) {
+  if (!slug) redirect('/clubs')
+  const user = await requireUser(`/clubs/${slug}`)
+
+  const service = createServiceClient()
+  const { data: club } = await service
+    .from('clubs')
+    .select('id, slug, visibility, join_policy')
+    .eq('slug', slug)
+    .maybeSingle<{ id: string; slug: string; visibility: string | null; join_policy: string | null }>()
+  if (!club?.id) redirect('/clubs')
+
+  const { data: membership } = await service
+    .from('club_members')
+    .select('id')
+    .eq('club_id', club.id)
+    .eq('user_id', user.id)
+    .maybeSingle()
+  if (membership?.id) redirect(clubUrl(slug, { err: 'You are already a member of this club' }))
+
+  return { service, user, club, policy: effectiveJoinPolicy(club) }
+}
+
+export async function joinClub(formData: FormData) {
+  const slug = String(formData.get('slug') ?? '').trim()
+  const { user, club, policy } = await requireJoinableClub(slug)
+  if (policy !== 'OPEN') redirect(clubUrl(slug, { err: 'This club reviews new members; send a request instead' }))
+
+  const joinError = await joinClubAsUser(club.id, user.id, linkedRiotAccount(user))
+  if (joinError) redirect(clubUrl(slug, { err: joinError }))
+  await closeJoinRequests(club.id, user.id)
+
+  revalidateClub(slug)
+  redirect(clubUrl(slug, { tab: 'members', ok: 'Welcome to the club' }))
+}
+
+export async function requestToJoin(formData: FormData) {
+  const slug = String(formData.get('slug') ?? '').trim()
+  const message = String(formData.get('message') ?? '').trim()
+  if (message.length > JOIN_REQUEST_MESSAGE_MAX) {
+    redirect(clubUrl(slug, { err: `Messages are limited to ${JOIN_REQUEST_MESSAGE_MAX} characters` }))
+  }
+
+  const { service, user, club, policy } = await requireJoinableClub(slug)
+  if (policy === 'INVITE_ONLY') redirect(clubUrl(slug, { err: 'This club is invite only' }))
+
+  const { data: pending } = await service
+    .from('club_join_requests')
+    .select('id')
+    .eq('club_id', club.id)
+    .eq('user_id', user.id)
+    .eq('status', 'PENDING')
+    .limit(1)
+  if (pending?.length) redirect(clubUrl(slug, { err: 'You already have a pending request' }))
+
+  const riot = linkedRiotAccount(user)
+  const { error } = await service.from('club_join_requests').insert({
+    club_id: club.id,
+    user_id: user.id,
+    message: message || null,
+    player_puuid: riot.puuid,
+    game_name: riot.gameName,
+    tag_line: riot.tagLine,
+    status: 'PENDING',
+  })
+  if (error) redirect(clubUrl(slug, { err: error.message }))
+
+  revalidateClub(slug)
+  redirect(clubUrl(slug, { ok: 'Request sent — the club will review it' }))
+}
+
+export async function cancelJoinRequest(formData: FormData) {
+  const slug = String(formData.get('slug') ?? '').trim()
+  const requestId = String(formData.get('request_id') ?? '').trim()
+  if (!slug) redirect('/clubs')
+  const user = await requireUser(`/clubs/${slug}`)
+
+  const { error } = await createServiceClient()
+    .from('club_join_requests')
+    .update({ status: 'CANCELLED', reviewed_at: new Date().toISOString() })
+    .eq('id', requestId)
+    .eq('user_id', user.id)
+    .eq('status', 'PENDING')
+  if (error) redirect(clubUrl(slug, { err: error.message }))
+
+  revalidateClub(slug)
+  redirect(clubUrl(slug, { ok: 'Request withdrawn' }))
+}
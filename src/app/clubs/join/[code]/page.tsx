@@ -0,0 +1,104 @@
+import Link from 'next/link'
+import { CLUB_INVITE_LINK_COLUMNS, inviteLinkProblem, normalizeInviteCode, type ClubInviteLinkRow } from '@/lib/clubInvites'
+import { createClient } from '@/lib/supabase/server'
+import { createServiceClient } from '@/lib/supabase/service'
+import { redeemInviteCode } from '../../actions'
+import { formatDate } from '../../[slug]/utils'
+
+type InviteClub = {
+  id: string
+  name: string
+  slug: string
+  description: string | null
+  banner_url: string | null
+}
+
+export default async function JoinClubWithCodePage({
+  params,
+  searchParams,
+}: {
+  params: Promise<{ code: string }>
+  searchParams?: Promise<{ err?: string }>
+}) {
+  const { code: rawCode } = await params
+  const sp = (await searchParams) ?? {}
+  const code = normalizeInviteCode(rawCode)
+
+  const supabase = await createClient()
+  const { data: auth } = await supabase.auth.getUser()
+  const user = auth.user
+
+  // Invite links aren't readable through row-level security; the code is the secret.
+  const service = createServiceClient()
+  const { data } = await service
+    .from('club_invite_links')
+    .select(`${CLUB_INVITE_LINK_COLUMNS}, club:clubs(id, name, slug, description, banner_url)`)
+    .eq('code', code)
+    .maybeSingle()
+  const link = data as (ClubInviteLinkRow & { club: InviteClub | null }) | null
+  const club = link?.club ?? null
+
+  const { data: membership } =
+    user && club
+      ? await service.from('club_members').select('id').eq('club_id', club.id).eq('user_id', user.id).maybeSingle()
+      : { data: null }
+
+  const problem = !link || !club ? 'Invite code not found' : inviteLinkProblem(link)
+  const usesLeft = link && link.max_uses !== null ? Math.max(link.max_uses - link.use_count, 0) : null
+
+  return (
+    <main className="lb-less-rounded min-h-screen bg-gradient-to-br from-slate-50 via-white to-slate-50 dark:from-slate-950 dark:via-slate-950 dark:to-slate-900">
+      <div className="mx-auto max-w-md px-4 py-16">
+        <div className="overflow-hidden rounded-3xl border border-slate-200 bg-white shadow-sm dark:border-slate-800 dark:bg-slate-900">
+          {club?.banner_url ? (
+            // eslint-disable-next-line @next/next/no-img-element
+            <img src={club.banner_url} alt="" className="h-32 w-full object-cover" />
+          ) : (
+            <div className="h-32 w-full bg-gradient-to-br from-slate-700 via-slate-800 to-slate-900" />
+          )}
+          <div className="p-8">
+            <p className="text-xs font-semibold uppercase tracking-[0.35em] text-slate-500 dark:text-slate-400">Club invite</p>
+            <h1 className="mt-2 text-2xl font-black text-slate-900 dark:text-slate-100">{club?.name ?? 'Unknown club'}</h1>
+            {club?.description && <p className="mt-2 text-sm text-slate-600 dark:text-slate-300">{club.description}</p>}
+
+            {sp.err && (
+              <div className="mt-5 rounded-xl border border-rose-200 bg-rose-50 px-4 py-3 text-sm font-medium text-rose-700 dark:border-rose-500/30 dark:bg-rose-500/10 dark:text-rose-300">
+                {sp.err}
+              </div>
+            )}
+
+            {membership?.id && club ? (
+              <Link
+                href={`/clubs/${club.slug}`}
+                className="mt-6 inline-flex w-full items-center justify-center rounded-xl bg-slate-900 px-5 py-3 text-sm font-semibold text-white transition hover:bg-slate-800 dark:bg-white dark:text-slate-900 dark:hover:bg-slate-200"
+              >
+                You&apos;re already a member — open club
+              </Link>
+            ) : problem ? (
+              <p className="mt-6 rounded-xl bg-slate-50 px-4 py-3 text-sm font-semibold text-slate-600 dark:bg-slate-950 dark:text-slate-300">{problem}</p>
+            ) : (
+              <>
+                <p className="mt-4 text-xs text-slate-500 dark:text-slate-400">
+                  Expires {formatDate(link?.expires_at) ?? 'soon'}
+                  {usesLeft !== null ? ` · ${usesLeft} ${usesLeft === 1 ? 'use' : 'uses'} left` : ''}
+                </p>
+                <form action={redeemInviteCode} className="mt-6">
+                  <input type="hidden" name="code" value={code} />
+                  <button
+                    type="submit"
+                    className="inline-flex w-full items-center justify-center rounded-xl bg-slate-900 px-5 py-3 text-sm font-semibold text-white transition hover:bg-slate-800 dark:bg-white dark:text-slate-900 dark:hover:bg-slate-200"
+                  >
+                    {user ? 'Join club' : 'Sign in to join'}
+                  </button>
+                </form>
+                <p className="mt-3 text-xs text-slate-500 dark:text-slate-400">
+                  Your membership is linked to the Riot account on your profile, if you signed in with Riot.
+                </p>
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+    </main>
+  )
+}
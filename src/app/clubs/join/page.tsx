@@ -0,0 +1,38 @@
+import Link from 'next/link'
+import { redirect } from 'next/navigation'
+import { normalizeInviteCode } from '@/lib/clubInvites'
+
+export default async function JoinClubPage({ searchParams }: { searchParams?: Promise<{ code?: string }> }) {
+  const sp = (await searchParams) ?? {}
+  const code = normalizeInviteCode(sp.code ?? '')
+  if (code) redirect(`/clubs/join/${code}`)
+
+  return (
+    <main className="lb-less-rounded min-h-screen bg-gradient-to-br from-slate-50 via-white to-slate-50 dark:from-slate-950 dark:via-slate-950 dark:to-slate-900">
+      <div className="mx-auto max-w-md px-4 py-16">
+        <div className="rounded-3xl border border-slate-200 bg-white p-8 shadow-sm dark:border-slate-800 dark:bg-slate-900">
+          <h1 className="text-2xl font-black text-slate-900 dark:text-slate-100">Join a club</h1>
+          <p className="mt-2 text-sm text-slate-600 dark:text-slate-300">Enter the invite code a club owner or admin shared with you.</p>
+          <form action="/clubs/join" method="get" className="mt-6 grid gap-3">
+            <input
+              name="code"
+              required
+              autoComplete="off"
+              placeholder="ABCD2345"
+              className="rounded-xl border-2 border-slate-200 bg-white px-4 py-3 font-mono text-lg uppercase tracking-widest text-slate-900 outline-none focus:border-blue-400 focus:ring-4 focus:ring-blue-400/10 dark:border-slate-700 dark:bg-slate-950 dark:text-slate-100"
+            />
+            <button
+              type="submit"
+              className="inline-flex items-center justify-center rounded-xl bg-slate-900 px-5 py-3 text-sm font-semibold text-white transition hover:bg-slate-800 dark:bg-white dark:text-slate-900 dark:hover:bg-slate-200"
+            >
+              Continue
+            </button>
+          </form>
+          <Link href="/clubs" className="mt-6 inline-flex text-sm font-medium text-blue-600 hover:text-blue-700 dark:text-blue-400 dark:hover:text-blue-300">
+            Browse clubs
+          </Link>
+        </div>
+      </div>
+    </main>
+  )
+}
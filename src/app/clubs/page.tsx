@@ -1,4 +1,5 @@
 import Link from 'next/link'
+import { CLUB_JOIN_POLICY_LABELS, effectiveJoinPolicy } from '@/lib/clubJoinPolicy'
 import { createClient } from '@/lib/supabase/server'
 
 function formatDate(value?: string | null) {
@@ -18,6 +19,7 @@ type ClubRow = {
   slug: string
   description: string | null
   visibility: string | null
+  join_policy: string | null
   updated_at: string | null
   created_at: string | null
   banner_url: string | null
@@ -39,7 +41,7 @@ export default async function ClubsPage({
 
   let clubQuery = supabase
     .from('clubs')
-    .select('id, name, slug, description, visibility, updated_at, created_at, banner_url')
+    .select('id, name, slug, description, visibility, join_policy, updated_at, created_at, banner_url')
     .eq('visibility', 'PUBLIC')
     .order('updated_at', { ascending: false })
 
@@ -73,6 +75,12 @@ export default async function ClubsPage({
             <p className="mt-3 text-base font-medium text-slate-600 dark:text-slate-300">
               Discover squads, rosters, and the leaderboards they rally around.
             </p>
+            <Link
+              href="/clubs/join"
+              className="mt-3 inline-flex text-sm font-medium text-blue-600 transition-colors hover:text-blue-700 dark:text-blue-400 dark:hover:text-blue-300"
+            >
+              Have an invite code?
+            </Link>
           </div>
         </div>
 
@@ -144,6 +152,9 @@ export default async function ClubsPage({
                       <span className="rounded-full bg-white/15 px-2 py-0.5 text-[10px] font-semibold uppercase tracking-wide text-white/85">
                         {club.visibility ?? 'PUBLIC'}
                       </span>
+                      <span className="shrink-0 rounded-full bg-white/15 px-2 py-0.5 text-[10px] font-semibold uppercase tracking-wide text-white/85">
+                        {CLUB_JOIN_POLICY_LABELS[effectiveJoinPolicy(club)]}
+                      </span>
                     </div>
 
                     {club.description ? (
@@ -2,7 +2,7 @@
 
 import { useMemo, useState } from 'react'
 
-type GoalMode = 'LIVE' | 'RACE' | 'LP_GOAL' | 'RANK_GOAL'
+type GoalMode = 'LIVE' | 'RACE' | 'LP_GOAL' | 'RANK_GOAL' | 'LP_RACE' | 'GAMES_RACE' | 'WINRATE_CHALLENGE'
 
 type Props = {
   defaultMode: GoalMode
@@ -10,8 +10,12 @@ type Props = {
   defaultRaceStart?: string | null
   defaultRaceEnd?: string | null
   defaultRankGoal?: string | null
+  defaultMinGames?: number | null
 }
 
+const WINDOWED_MODES = new Set<GoalMode>(['RACE', 'LP_RACE', 'GAMES_RACE', 'WINRATE_CHALLENGE'])
+const DEFAULT_MIN_GAMES = 20
+
 const RANK_TIERS = [
   'IRON',
   'BRONZE',
@@ -38,6 +42,7 @@ export default function GoalModeFields({
   defaultRaceStart,
   defaultRaceEnd,
   defaultRankGoal,
+  defaultMinGames,
 }: Props) {
   const [mode, setMode] = useState<GoalMode>(defaultMode)
 
@@ -45,6 +50,9 @@ export default function GoalModeFields({
     if (mode === 'LIVE') return 'No end condition. Tracking remains open and updates continuously.'
     if (mode === 'RACE') return 'Tracks only within the chosen time window. Updates stop after the end time.'
     if (mode === 'LP_GOAL') return 'Ends when a player reaches the target LP, regardless of tier.'
+    if (mode === 'LP_RACE') return 'Most LP gained between start and end wins, counted across tiers so every rank competes fairly.'
+    if (mode === 'GAMES_RACE') return 'Most ranked games played between start and end wins. Ties go to more LP gained.'
+    if (mode === 'WINRATE_CHALLENGE') return 'Best win rate between start and end wins, among players with at least the minimum games.'
     return 'Ends when a player reaches the target tier. Same-day ties go to higher LP.'
   }, [mode])
 
@@ -63,6 +71,9 @@ export default function GoalModeFields({
             <option value="RACE">Race Mode (time window)</option>
             <option value="LP_GOAL">LP Goal Mode</option>
             <option value="RANK_GOAL">Rank Goal Mode</option>
+            <option value="LP_RACE">LP Gained Race</option>
+            <option value="GAMES_RACE">Games Played Race</option>
+            <option value="WINRATE_CHALLENGE">Win Rate Challenge</option>
           </select>
         </div>
 
@@ -79,9 +90,23 @@ export default function GoalModeFields({
             />
           </div>
         )}
+
+        {mode === 'WINRATE_CHALLENGE' && (
+          <div className="space-y-2">
+            <label className="block text-sm font-semibold text-slate-700 dark:text-slate-200">Minimum games</label>
+            <input
+              type="number"
+              name="goal_min_games"
+              defaultValue={defaultMinGames ?? DEFAULT_MIN_GAMES}
+              min={1}
+              placeholder={`e.g., ${DEFAULT_MIN_GAMES}`}
+              className="w-full rounded-none border-2 border-slate-200 bg-white px-4 py-3 text-slate-900 outline-none focus:border-blue-400 focus:ring-4 focus:ring-blue-400/10 transition-all duration-200 shadow-sm dark:border-slate-700 dark:bg-slate-950 dark:text-slate-100"
+            />
+          </div>
+        )}
       </div>
 
-      {mode === 'RACE' && (
+      {WINDOWED_MODES.has(mode) && (
         <div className="mt-4 grid gap-4 lg:grid-cols-2">
           <div className="space-y-2">
             <label className="block text-sm font-semibold text-slate-700 dark:text-slate-200">Race start</label>
@@ -7,10 +7,29 @@ import { revalidatePath } from 'next/cache'
 import { redirect } from 'next/navigation'
 import { cookies } from 'next/headers'
 import { createClient } from '@/lib/supabase/server'
+import { createServiceClient } from '@/lib/supabase/service'
 import { resolvePuuid } from '@/lib/riot/resolvePuuid'
+import { migratePuuid } from '@/lib/riot/migratePuuid'
+import { confirmSameAccount } from '@/lib/riot/confirmSameAccount'
+import { getSyncHealth, SYNC_ERROR_HINTS, SYNC_ERROR_LABELS, type SyncHealth } from '@/lib/riot/syncHealth'
+import { revalidateLeaderboardCachesById, revalidateLeaderboardCachesForPuuids } from '@/lib/leaderboard/cacheTags'
+import { timeAgo } from '@/lib/timeAgo'
+import { DEFAULT_PLATFORM, isPlatform, PLATFORM_LABELS, PLATFORMS } from '@/lib/riot/platforms'
 import { buildClubSlug, CLUB_SLUG_PART_MAX, normalizeSlugPart, parseClubSlug, validateSlugPart } from '@/lib/clubSlug'
+import { CLUB_JOIN_POLICIES, CLUB_JOIN_POLICY_LABELS, normalizeJoinPolicy } from '@/lib/clubJoinPolicy'
+import {
+  isValidWebhookUrl,
+  postDiscordWebhook,
+  testEmbed,
+  WEBHOOK_TOGGLE_LABELS,
+  type WebhookSettings,
+  type WebhookToggle,
+} from '@/lib/discord/webhooks'
 import { AddPlayerButton } from './AddPlayerButton'
 import GoalModeFields from './GoalModeFields'
+import { normalizeGoalMode, normalizeTeamScoring } from '@/lib/leaderboardGoals'
+import { MAX_TEAMS_PER_LEADERBOARD, TEAM_NAME_MAX_LENGTH, TEAM_SCORING_LABELS, teamColor } from '@/lib/leaderboard/teams'
+import { TOURNAMENT_FORMAT_LABELS, type TournamentFormat, type TournamentStatus } from '@/lib/tournaments/bracket'
 import BannerUploadField from './BannerUploadField'
 import { DeleteLeaderboardButton } from './DeleteLeaderboardButton'
 import { DeleteClubButton } from './DeleteClubButton'
@@ -31,6 +50,7 @@ type ClubRow = {
   slug: string
   description: string | null
   visibility: string | null
+  join_policy: string | null
   banner_url: string | null
   updated_at: string | null
   owner_user_id: string
@@ -136,7 +156,7 @@ function flashFromOpts(opts: {
 }
 
 function sectionRedirect(opts: {
-  section: 'settings' | 'banner' | 'players' | 'club' | 'profile' | 'billing' | 'tournaments' | 'showdowns' | 'top'
+  section: 'settings' | 'banner' | 'players' | 'teams' | 'notifications' | 'club' | 'profile' | 'billing' | 'tournaments' | 'showdowns' | 'top'
   ok?: string
   err?: string
   clubOk?: string
@@ -150,7 +170,7 @@ function sectionRedirect(opts: {
   const params = new URLSearchParams()
   if (opts.deleteConfirm) params.set('delete_confirm', '1')
   if (opts.clubDeleteConfirm) params.set('club_delete_confirm', '1')
-  if (opts.section === 'banner' || opts.section === 'players') {
+  if (opts.section === 'banner' || opts.section === 'players' || opts.section === 'teams' || opts.section === 'notifications') {
     params.set('section', opts.section)
   }
   
@@ -158,7 +178,12 @@ function sectionRedirect(opts: {
     params.set('lb', opts.leaderboardId)
   }
   
-  const isLeaderboardSection = opts.section === 'settings' || opts.section === 'banner' || opts.section === 'players'
+  const isLeaderboardSection =
+    opts.section === 'settings' ||
+    opts.section === 'banner' ||
+    opts.section === 'players' ||
+    opts.section === 'teams' ||
+    opts.section === 'notifications'
   let basePath = '/dashboard/profile'
   if (opts.section === 'club') basePath = '/dashboard/club'
   if (opts.section === 'billing') basePath = '/dashboard/billing'
@@ -171,7 +196,7 @@ function sectionRedirect(opts: {
 }
 
 async function redirectToDashboard(opts: {
-  section: 'settings' | 'banner' | 'players' | 'club' | 'profile' | 'billing' | 'tournaments' | 'showdowns' | 'top'
+  section: 'settings' | 'banner' | 'players' | 'teams' | 'notifications' | 'club' | 'profile' | 'billing' | 'tournaments' | 'showdowns' | 'top'
   ok?: string
   err?: string
   clubOk?: string
@@ -255,10 +280,13 @@ export default async function DashboardPage({
   const section = (sp.section ?? 'top').toString()
   const billingErr = null
   const billingOk = null
-  const sectionValues = ['profile', 'settings', 'banner', 'players', 'club', 'billing', 'tournaments', 'showdowns'] as const
+  const sectionValues = ['profile', 'settings', 'banner', 'players', 'teams', 'notifications', 'club', 'billing', 'tournaments', 'showdowns'] as const
   type DashboardSection = (typeof sectionValues)[number]
   const activeSection: DashboardSection = (sectionValues as readonly string[]).includes(section) ? (section as DashboardSection) : 'profile'
-  const effectiveSection: DashboardSection = activeSection === 'banner' || activeSection === 'players' ? 'settings' : activeSection
+  const effectiveSection: DashboardSection =
+    activeSection === 'banner' || activeSection === 'players' || activeSection === 'teams' || activeSection === 'notifications'
+      ? 'settings'
+      : activeSection
   let activeLeaderboardId = sp.lb ? decodeURIComponent(sp.lb) : null
   if (!activeLeaderboardId) {
     try {
@@ -273,7 +301,7 @@ export default async function DashboardPage({
   // Fetch Leaderboards
   const { data: leaderboardsRaw } = await supabase
     .from('leaderboards')
-    .select('id, name, slug, leaderboard_code, visibility, description, banner_url, goal_mode, race_start_at, race_end_at, lp_goal, rank_goal_tier, updated_at')
+    .select('id, name, slug, leaderboard_code, visibility, description, banner_url, goal_mode, race_start_at, race_end_at, lp_goal, rank_goal_tier, goal_min_games, team_scoring, track_flex, updated_at')
     .eq('user_id', user.id)
     .order('updated_at', { ascending: false })
 
@@ -290,6 +318,9 @@ export default async function DashboardPage({
     race_end_at: string | null
     lp_goal: number | null
     rank_goal_tier: string | null
+    goal_min_games: number | null
+    team_scoring: string | null
+    track_flex: boolean | null
     updated_at: string | null
   }>
   const lb = leaderboards.find((item) => item.id === activeLeaderboardId) ?? leaderboards[0] ?? null
@@ -298,11 +329,76 @@ export default async function DashboardPage({
   const { data: players } = lb
     ? await supabase
         .from('leaderboard_players')
-        .select('id, role, game_name, tag_line, puuid, twitch_url, twitter_url, created_at')
+        .select('id, role, game_name, tag_line, puuid, platform, twitch_url, twitter_url, team_id, created_at')
         .eq('leaderboard_id', lb.id)
         .order('created_at', { ascending: true })
     : { data: null }
 
+  // Webhook URLs are secrets, so the table has no public policies; the owner
+  // check is the leaderboards query above.
+  const { data: webhookRaw } = lb
+    ? await createServiceClient()
+        .from('leaderboard_webhooks')
+        .select('leaderboard_id, url, enabled, notify_rank_changes, notify_peak_lp, notify_goals, notify_races, notify_daily_movers')
+        .eq('leaderboard_id', lb.id)
+        .maybeSingle()
+    : { data: null }
+  const webhook = (webhookRaw ?? null) as WebhookSettings | null
+
+  const { data: teamsRaw } = lb
+    ? await createServiceClient()
+        .from('leaderboard_teams')
+        .select('id, name')
+        .eq('leaderboard_id', lb.id)
+        .order('created_at', { ascending: true })
+    : { data: null }
+  const teams = ((teamsRaw ?? []) as Array<{ id: string; name: string }>).map((team, idx) => ({
+    ...team,
+    color: teamColor(idx),
+  }))
+
+  // Tournament tables have no public policies either; this is scoped to the
+  // signed-in organizer.
+  const { data: organizedRaw } =
+    effectiveSection === 'tournaments'
+      ? await createServiceClient()
+          .from('tournaments')
+          .select('id, name, format, status, starts_at')
+          .eq('organizer_user_id', user.id)
+          .order('created_at', { ascending: false })
+      : { data: null }
+  const organizedTournaments = (organizedRaw ?? []) as Array<{
+    id: string
+    name: string
+    format: TournamentFormat
+    status: TournamentStatus
+    starts_at: string | null
+  }>
+
+  const playerPuuids = (players ?? []).map((p) => p.puuid).filter(Boolean) as string[]
+  const { data: playerStateRaw } = playerPuuids.length > 0
+    ? await supabase
+        .from('player_riot_state')
+        .select('puuid, backfill_pending, backfill_failed, last_poll_at, last_error')
+        .in('puuid', playerPuuids)
+    : { data: null }
+  const playerStateRows = (playerStateRaw ?? []) as Array<{
+    puuid: string
+    backfill_pending: number | null
+    backfill_failed: number | null
+    last_poll_at: string | null
+    last_error: string | null
+  }>
+  const backfillByPuuid = new Map(
+    playerStateRows.map((row) => [row.puuid, { pending: row.backfill_pending ?? 0, failed: row.backfill_failed ?? 0 }])
+  )
+  const syncNowMs = Date.now()
+  const stateByPuuid = new Map(playerStateRows.map((row) => [row.puuid, row]))
+  const syncByPuuid = new Map<string, SyncHealth>(
+    playerPuuids.map((puuid) => [puuid, getSyncHealth(stateByPuuid.get(puuid), syncNowMs)])
+  )
+  const playersNeedingAttention = Array.from(syncByPuuid.values()).filter((health) => health.status === 'error').length
+
   const { count: totalPlayerCount } = await supabase
     .from('leaderboard_players')
     .select('id', { count: 'exact', head: true })
@@ -314,7 +410,7 @@ export default async function DashboardPage({
   const [{ data: clubRaw }, { data: profileRaw }, { data: clubMembershipsRaw }] = await Promise.all([
     supabase
       .from('clubs')
-      .select('id, name, slug, description, visibility, banner_url, updated_at, owner_user_id')
+      .select('id, name, slug, description, visibility, join_policy, banner_url, updated_at, owner_user_id')
       .eq('owner_user_id', user.id)
       .maybeSingle(),
     supabase
@@ -492,12 +588,14 @@ export default async function DashboardPage({
     const raceEndRaw = String(formData.get('race_end_at') ?? '').trim()
     const lpGoalRaw = String(formData.get('lp_goal') ?? '').trim()
     const rankGoalRaw = String(formData.get('rank_goal_tier') ?? '').trim().toUpperCase()
+    const minGamesRaw = String(formData.get('goal_min_games') ?? '').trim()
+    const trackFlex = String(formData.get('track_flex') ?? '') === '1'
 
     const safeVisibility: Visibility = VISIBILITY.includes(visibilityRaw as Visibility)
       ? (visibilityRaw as Visibility)
       : 'PUBLIC'
 
-    const validGoalModes = ['LIVE', 'RACE', 'LP_GOAL', 'RANK_GOAL'] as const
+    const validGoalModes = ['LIVE', 'RACE', 'LP_GOAL', 'RANK_GOAL', 'LP_RACE', 'GAMES_RACE', 'WINRATE_CHALLENGE'] as const
     const safeGoalMode = (validGoalModes.includes(goalModeRaw as (typeof validGoalModes)[number])
       ? goalModeRaw
       : 'LIVE') as (typeof validGoalModes)[number]
@@ -510,6 +608,10 @@ export default async function DashboardPage({
     const lpGoalVal = lpGoalRaw ? Number(lpGoalRaw) : null
     const safeLpGoal = Number.isFinite(lpGoalVal) && (lpGoalVal as number) > 0 ? Math.floor(lpGoalVal as number) : null
 
+    const minGamesVal = minGamesRaw ? Number(minGamesRaw) : null
+    const safeMinGames = Number.isFinite(minGamesVal) && (minGamesVal as number) > 0 ? Math.floor(minGamesVal as number) : null
+    const isWindowedMode = ['RACE', 'LP_RACE', 'GAMES_RACE', 'WINRATE_CHALLENGE'].includes(safeGoalMode)
+
     const safeRankGoal = ['IRON', 'BRONZE', 'SILVER', 'GOLD', 'PLATINUM', 'EMERALD', 'DIAMOND', 'MASTER', 'GRANDMASTER', 'CHALLENGER'].includes(rankGoalRaw)
       ? rankGoalRaw
       : null
@@ -540,10 +642,12 @@ export default async function DashboardPage({
         description: descriptionRaw.length ? descriptionRaw : null,
         visibility: safeVisibility,
         goal_mode: safeGoalMode,
-        race_start_at: safeGoalMode === 'RACE' ? raceStartIso : null,
-        race_end_at: safeGoalMode === 'RACE' ? raceEndIso : null,
+        race_start_at: isWindowedMode ? raceStartIso : null,
+        race_end_at: isWindowedMode ? raceEndIso : null,
         lp_goal: safeGoalMode === 'LP_GOAL' ? safeLpGoal : null,
         rank_goal_tier: safeGoalMode === 'RANK_GOAL' ? safeRankGoal : null,
+        goal_min_games: safeGoalMode === 'WINRATE_CHALLENGE' ? safeMinGames : null,
+        track_flex: trackFlex,
         updated_at: new Date().toISOString(),
       })
       .eq('id', lb.id)
@@ -552,6 +656,265 @@ export default async function DashboardPage({
     await redirectToDashboard({ section: 'settings', ok: 'Settings updated', leaderboardId })
   }
 
+  async function updateWebhook(formData: FormData) {
+    'use server'
+
+    const leaderboardId = String(formData.get('leaderboard_id') ?? '').trim()
+    const url = String(formData.get('webhook_url') ?? '').trim()
+
+    const supabase = await createClient()
+    const { data: auth } = await supabase.auth.getUser()
+    const user = auth.user
+    if (!user) redirect('/sign-in')
+
+    const { data: lb } = await supabase
+      .from('leaderboards')
+      .select('id')
+      .eq('user_id', user.id)
+      .eq('id', leaderboardId)
+      .maybeSingle()
+
+    if (!lb) {
+      await redirectToDashboard({ section: 'profile' })
+      return
+    }
+
+    const service = createServiceClient()
+
+    if (!url) {
+      await service.from('leaderboard_webhooks').delete().eq('leaderboard_id', lb.id)
+      await redirectToDashboard({ section: 'notifications', ok: 'Discord webhook disconnected', leaderboardId })
+      return
+    }
+
+    if (!isValidWebhookUrl(url)) {
+      await redirectToDashboard({
+        section: 'notifications',
+        err: 'Enter a Discord webhook URL (https://discord.com/api/webhooks/...)',
+        leaderboardId,
+      })
+      return
+    }
+
+    const toggles = Object.fromEntries(
+      (Object.keys(WEBHOOK_TOGGLE_LABELS) as WebhookToggle[]).map((key) => [key, String(formData.get(key) ?? '') === '1'])
+    ) as Record<WebhookToggle, boolean>
+
+    const { error } = await service.from('leaderboard_webhooks').upsert(
+      {
+        leaderboard_id: lb.id,
+        url,
+        enabled: String(formData.get('enabled') ?? '') === '1',
+        ...toggles,
+        updated_at: new Date().toISOString(),
+      },
+      { onConflict: 'leaderboard_id' }
+    )
+
+    if (error) {
+      await redirectToDashboard({ section: 'notifications', err: errorMessage(error, 'Failed to save webhook'), leaderboardId })
+      return
+    }
+
+    await redirectToDashboard({ section: 'notifications', ok: 'Notification settings updated', leaderboardId })
+  }
+
+  async function sendTestWebhook(formData: FormData) {
+    'use server'
+
+    const leaderboardId = String(formData.get('leaderboard_id') ?? '').trim()
+
+    const supabase = await createClient()
+    const { data: auth } = await supabase.auth.getUser()
+    const user = auth.user
+    if (!user) redirect('/sign-in')
+
+    const { data: lb } = await supabase
+      .from('leaderboards')
+      .select('id, name, slug')
+      .eq('user_id', user.id)
+      .eq('id', leaderboardId)
+      .maybeSingle()
+
+    if (!lb) {
+      await redirectToDashboard({ section: 'profile' })
+      return
+    }
+
+    const { data: hook } = await createServiceClient()
+      .from('leaderboard_webhooks')
+      .select('url')
+      .eq('leaderboard_id', lb.id)
+      .maybeSingle()
+
+    if (!hook?.url) {
+      await redirectToDashboard({ section: 'notifications', err: 'Save a webhook URL first', leaderboardId })
+      return
+    }
+
+    const appUrl = process.env.NEXT_PUBLIC_APP_URL?.trim().replace(/\/$/, '')
+    const result = await postDiscordWebhook(
+      hook.url,
+      testEmbed({ name: lb.name, url: appUrl ? `${appUrl}/lb/${lb.slug}` : null })
+    )
+
+    if (!result.ok) {
+      await redirectToDashboard({ section: 'notifications', err: `Test post failed (${result.error})`, leaderboardId })
+      return
+    }
+
+    await redirectToDashboard({ section: 'notifications', ok: 'Test message sent', leaderboardId })
+  }
+
+  async function createTeam(formData: FormData) {
+    'use server'
+
+    const leaderboardId = String(formData.get('leaderboard_id') ?? '').trim()
+    const name = String(formData.get('team_name') ?? '').trim()
+
+    const supabase = await createClient()
+    const { data: auth } = await supabase.auth.getUser()
+    const user = auth.user
+    if (!user) redirect('/sign-in')
+
+    const { data: lb } = await supabase
+      .from('leaderboards')
+      .select('id')
+      .eq('user_id', user.id)
+      .eq('id', leaderboardId)
+      .maybeSingle()
+
+    if (!lb) {
+      await redirectToDashboard({ section: 'profile' })
+      return
+    }
+
+    if (!name || name.length > TEAM_NAME_MAX_LENGTH) {
+      await redirectToDashboard({ section: 'teams', err: `Team names need 1-${TEAM_NAME_MAX_LENGTH} characters`, leaderboardId })
+      return
+    }
+
+    // Teams have no public policies; the owner check is the leaderboards query above.
+    const service = createServiceClient()
+    const { count } = await service
+      .from('leaderboard_teams')
+      .select('id', { count: 'exact', head: true })
+      .eq('leaderboard_id', lb.id)
+
+    if ((count ?? 0) >= MAX_TEAMS_PER_LEADERBOARD) {
+      await redirectToDashboard({ section: 'teams', err: `Up to ${MAX_TEAMS_PER_LEADERBOARD} teams per leaderboard`, leaderboardId })
+      return
+    }
+
+    const { error } = await service.from('leaderboard_teams').insert({ leaderboard_id: lb.id, name })
+
+    if (error) {
+      await redirectToDashboard({
+        section: 'teams',
+        err: error.code === '23505' ? 'A team with that name already exists' : error.message,
+        leaderboardId,
+      })
+      return
+    }
+
+    revalidateLeaderboardCachesById([lb.id])
+    await redirectToDashboard({ section: 'teams', ok: 'Team created', leaderboardId })
+  }
+
+  async function deleteTeam(formData: FormData) {
+    'use server'
+
+    const leaderboardId = String(formData.get('leaderboard_id') ?? '').trim()
+    const teamId = String(formData.get('team_id') ?? '').trim()
+
+    const supabase = await createClient()
+    const { data: auth } = await supabase.auth.getUser()
+    const user = auth.user
+    if (!user) redirect('/sign-in')
+
+    const { data: lb } = await supabase
+      .from('leaderboards')
+      .select('id')
+      .eq('user_id', user.id)
+      .eq('id', leaderboardId)
+      .maybeSingle()
+
+    if (!lb) {
+      await redirectToDashboard({ section: 'profile' })
+      return
+    }
+
+    // Members fall back to no team via the team_id foreign key.
+    const { error } = await createServiceClient().from('leaderboard_teams').delete().eq('id', teamId).eq('leaderboard_id', lb.id)
+
+    if (error) {
+      await redirectToDashboard({ section: 'teams', err: error.message, leaderboardId })
+      return
+    }
+
+    revalidateLeaderboardCachesById([lb.id])
+    await redirectToDashboard({ section: 'teams', ok: 'Team deleted', leaderboardId })
+  }
+
+  async function updateTeamAssignments(formData: FormData) {
+    'use server'
+
+    const leaderboardId = String(formData.get('leaderboard_id') ?? '').trim()
+    const teamScoring = normalizeTeamScoring(String(formData.get('team_scoring') ?? ''))
+
+    const supabase = await createClient()
+    const { data: auth } = await supabase.auth.getUser()
+    const user = auth.user
+    if (!user) redirect('/sign-in')
+
+    const { data: lb } = await supabase
+      .from('leaderboards')
+      .select('id')
+      .eq('user_id', user.id)
+      .eq('id', leaderboardId)
+      .maybeSingle()
+
+    if (!lb) {
+      await redirectToDashboard({ section: 'profile' })
+      return
+    }
+
+    const { data: teamRows } = await createServiceClient().from('leaderboard_teams').select('id').eq('leaderboard_id', lb.id)
+    const validTeamIds = new Set((teamRows ?? []).map((row) => row.id as string))
+
+    // Form fields are team_for:<player id> -> team id ('' for no team).
+    const playerIdsByTeam = new Map<string | null, string[]>()
+    for (const [key, value] of formData.entries()) {
+      if (!key.startsWith('team_for:')) continue
+      const playerId = key.slice('team_for:'.length)
+      const teamId = String(value)
+      const target = validTeamIds.has(teamId) ? teamId : null
+      playerIdsByTeam.set(target, [...(playerIdsByTeam.get(target) ?? []), playerId])
+    }
+
+    for (const [teamId, playerIds] of playerIdsByTeam) {
+      const { error } = await supabase
+        .from('leaderboard_players')
+        .update({ team_id: teamId })
+        .in('id', playerIds)
+        .eq('leaderboard_id', lb.id)
+
+      if (error) {
+        await redirectToDashboard({ section: 'teams', err: error.message, leaderboardId })
+        return
+      }
+    }
+
+    await supabase
+      .from('leaderboards')
+      .update({ team_scoring: teamScoring, updated_at: new Date().toISOString() })
+      .eq('id', lb.id)
+      .eq('user_id', user.id)
+
+    revalidateLeaderboardCachesById([lb.id])
+    await redirectToDashboard({ section: 'teams', ok: 'Teams updated', leaderboardId })
+  }
+
   async function updateProfile(formData: FormData) {
     'use server'
 
@@ -646,6 +1009,7 @@ export default async function DashboardPage({
 
     const leaderboardId = String(formData.get('leaderboard_id') ?? '').trim()
     const riotIdRaw = String(formData.get('riot_id') ?? '').trim()
+    const platformRaw = String(formData.get('platform') ?? '').trim().toUpperCase()
     const role = String(formData.get('role') ?? '').trim() || null
     const twitchUrl = String(formData.get('twitch_url') ?? '').trim() || null
     const twitterUrl = String(formData.get('twitter_url') ?? '').trim() || null
@@ -670,6 +1034,11 @@ export default async function DashboardPage({
       return { success: false, message: 'Enter a Riot ID like gameName#tagLine' }
     }
 
+    if (platformRaw && !isPlatform(platformRaw)) {
+      return { success: false, message: 'Pick a valid region' }
+    }
+    const platform = platformRaw || DEFAULT_PLATFORM
+
     let gameName = ''
     let tagLine = ''
     try {
@@ -713,6 +1082,7 @@ export default async function DashboardPage({
       game_name: gameName,
       tag_line: tagLine,
       puuid,
+      platform,
       twitch_url: twitchUrl,
       twitter_url: twitterUrl,
     })
@@ -730,6 +1100,7 @@ export default async function DashboardPage({
 
     const playerId = String(formData.get('player_id') ?? '').trim()
     const leaderboardId = String(formData.get('leaderboard_id') ?? '').trim()
+    const platformRaw = String(formData.get('platform') ?? '').trim().toUpperCase()
     const role = String(formData.get('role') ?? '').trim() || null
     const twitchUrl = String(formData.get('twitch_url') ?? '').trim() || null
     const twitterUrl = String(formData.get('twitter_url') ?? '').trim() || null
@@ -738,6 +1109,10 @@ export default async function DashboardPage({
       return { success: false, message: 'Player not found' }
     }
 
+    if (platformRaw && !isPlatform(platformRaw)) {
+      return { success: false, message: 'Pick a valid region' }
+    }
+
     const supabase = await createClient()
     const { data: auth } = await supabase.auth.getUser()
     const user = auth.user
@@ -756,7 +1131,12 @@ export default async function DashboardPage({
 
     const { error } = await supabase
       .from('leaderboard_players')
-      .update({ role, twitch_url: twitchUrl, twitter_url: twitterUrl })
+      .update({
+        role,
+        twitch_url: twitchUrl,
+        twitter_url: twitterUrl,
+        ...(platformRaw ? { platform: platformRaw } : {}),
+      })
       .eq('id', playerId)
       .eq('leaderboard_id', lb.id)
 
@@ -803,6 +1183,147 @@ export default async function DashboardPage({
     return { success: true, message: 'Player removed' }
   }
 
+  async function repairPlayerIdentity(formData: FormData) {
+    'use server'
+
+    const playerId = String(formData.get('player_id') ?? '').trim()
+    const leaderboardId = String(formData.get('leaderboard_id') ?? '').trim()
+    const riotIdRaw = String(formData.get('riot_id') ?? '').trim()
+    if (!playerId) {
+      return { success: false, message: 'Player not found' }
+    }
+
+    const supabase = await createClient()
+    const { data: auth } = await supabase.auth.getUser()
+    const user = auth.user
+    if (!user) return { success: false, message: 'Not authenticated' }
+
+    const { data: lb } = await supabase
+      .from('leaderboards')
+      .select('id')
+      .eq('user_id', user.id)
+      .eq('id', leaderboardId)
+      .maybeSingle()
+
+    if (!lb) {
+      return { success: false, message: 'Leaderboard not found' }
+    }
+
+    const { data: player } = await supabase
+      .from('leaderboard_players')
+      .select('id, puuid, platform')
+      .eq('id', playerId)
+      .eq('leaderboard_id', lb.id)
+      .maybeSingle()
+
+    if (!player?.puuid) {
+      return { success: false, message: 'Player not found' }
+    }
+
+    let gameName = ''
+    let tagLine = ''
+    try {
+      const parsed = parseRiotId(riotIdRaw)
+      gameName = parsed.gameName
+      tagLine = parsed.tagLine
+    } catch (e) {
+      return { success: false, message: errorMessage(e, 'Invalid Riot ID') }
+    }
+
+    const service = createServiceClient()
+    const { data: state } = await service
+      .from('player_riot_state')
+      .select('last_error')
+      .eq('puuid', player.puuid)
+      .maybeSingle()
+
+    // Only players the worker can no longer sync can be re-linked.
+    const health = getSyncHealth(state)
+    if (health.status !== 'error') {
+      return { success: false, message: 'This player is syncing normally' }
+    }
+
+    let newPuuid = ''
+    try {
+      newPuuid = await resolvePuuid(gameName, tagLine)
+    } catch (e) {
+      return { success: false, message: errorMessage(e, 'Riot lookup failed') }
+    }
+
+    const now = new Date().toISOString()
+    let migrated = false
+
+    if (newPuuid !== player.puuid) {
+      const { data: dup } = await supabase
+        .from('leaderboard_players')
+        .select('id')
+        .eq('leaderboard_id', lb.id)
+        .eq('puuid', newPuuid)
+        .maybeSingle()
+
+      if (dup) {
+        return { success: false, message: 'That Riot ID is already on your leaderboard' }
+      }
+
+      // The old PUUID's history is shared by every leaderboard and club that
+      // tracks it, so it only moves when Riot confirms this is the same account.
+      // Otherwise just this leaderboard's entry points at the new account.
+      let sameAccount = false
+      try {
+        sameAccount = await confirmSameAccount({
+          oldPuuid: player.puuid,
+          newPuuid,
+          category: health.category,
+          riotId: { gameName, tagLine },
+          platform: player.platform,
+        })
+      } catch (e) {
+        console.warn('[repairPlayerIdentity] account check failed', errorMessage(e, 'unknown error'))
+      }
+
+      if (sameAccount) {
+        try {
+          await migratePuuid(player.puuid, newPuuid)
+          migrated = true
+        } catch (e) {
+          return { success: false, message: errorMessage(e, 'Failed to re-link player') }
+        }
+      }
+    }
+
+    const [lbPlayerRes, playerRes, stateRes] = await Promise.all([
+      service
+        .from('leaderboard_players')
+        .update({ puuid: newPuuid, game_name: gameName, tag_line: tagLine, updated_at: now })
+        .eq('id', player.id)
+        .eq('leaderboard_id', lb.id),
+      service
+        .from('players')
+        .upsert({ puuid: newPuuid, game_name: gameName, tag_line: tagLine, updated_at: now }, { onConflict: 'puuid' }),
+      // Clearing last_account_sync_at makes the next refresh run re-sync the
+      // account instead of waiting for the usual staleness window.
+      service
+        .from('player_riot_state')
+        .upsert({ puuid: newPuuid, last_error: null, last_account_sync_at: null, updated_at: now }, { onConflict: 'puuid' }),
+    ])
+
+    if (lbPlayerRes.error) return { success: false, message: lbPlayerRes.error.message }
+    if (playerRes.error) return { success: false, message: playerRes.error.message }
+    if (stateRes.error) return { success: false, message: stateRes.error.message }
+
+    await revalidateLeaderboardCachesForPuuids([player.puuid, newPuuid])
+    revalidatePath('/dashboard')
+    return {
+      success: true,
+      message:
+        newPuuid === player.puuid
+          ? `Retrying sync for ${gameName}#${tagLine}`
+          : migrated
+            ? `Re-linked ${gameName}#${tagLine} and moved their history`
+            : `Re-linked ${gameName}#${tagLine} on this leaderboard`,
+    }
+  }
+
   async function deleteLeaderboard(formData: FormData) {
     'use server'
 
@@ -979,6 +1500,7 @@ export default async function DashboardPage({
     const name = String(formData.get('club_name') ?? '').trim()
     const description = String(formData.get('club_description') ?? '').trim().slice(0, 250) || null
     const visibilityRaw = String(formData.get('club_visibility') ?? '').trim()
+    const joinPolicy = normalizeJoinPolicy(String(formData.get('club_join_policy') ?? '').trim())
     const prefixRaw = String(formData.get('club_slug_prefix') ?? '').trim()
     const tagRaw = String(formData.get('club_slug_tag') ?? '').trim()
 
@@ -1041,6 +1563,7 @@ export default async function DashboardPage({
         slug,
         description,
         visibility: safeVisibility,
+        join_policy: joinPolicy,
         updated_at: new Date().toISOString(),
       })
       .eq('id', club.id)
@@ -1272,6 +1795,9 @@ export default async function DashboardPage({
           RACE: 'Race window',
           LP_GOAL: 'LP goal',
           RANK_GOAL: 'Rank goal',
+          LP_RACE: 'LP gained race',
+          GAMES_RACE: 'Games played race',
+          WINRATE_CHALLENGE: 'Win rate challenge',
         } as Record<string, string>
       )[lb.goal_mode ?? 'LIVE'] ?? 'Live ladder'
     : null
@@ -1667,13 +2193,30 @@ export default async function DashboardPage({
                           </div>
 
                           <GoalModeFields
-                            defaultMode={(lb.goal_mode ?? 'LIVE') as 'LIVE' | 'RACE' | 'LP_GOAL' | 'RANK_GOAL'}
+                            defaultMode={normalizeGoalMode(lb.goal_mode)}
                             defaultLpGoal={lb.lp_goal ?? null}
                             defaultRaceStart={lb.race_start_at ?? null}
                             defaultRaceEnd={lb.race_end_at ?? null}
                             defaultRankGoal={lb.rank_goal_tier ?? null}
+                            defaultMinGames={lb.goal_min_games ?? null}
                           />
 
+                          <label className="flex items-start gap-3 rounded-none border-2 border-slate-200 bg-white px-4 py-3 shadow-sm dark:border-slate-700 dark:bg-slate-950">
+                            <input
+                              type="checkbox"
+                              name="track_flex"
+                              value="1"
+                              defaultChecked={Boolean(lb.track_flex)}
+                              className="mt-0.5 h-4 w-4 rounded-none border-slate-300 text-blue-600 focus:ring-blue-400/30 dark:border-slate-600"
+                            />
+                            <span>
+                              <span className="block text-sm font-semibold text-slate-700 dark:text-slate-200">Track Flex queue</span>
+                              <span className="mt-0.5 block text-xs text-slate-500 dark:text-slate-400">
+                                Record per-game Flex LP and games alongside Solo/Duo, with a Flex option on movers and the graph.
+                              </span>
+                            </span>
+                          </label>
+
                           <button
                             type="submit"
                             className="w-full rounded-none bg-slate-900 px-6 py-3 text-sm font-semibold text-white shadow-sm transition-all duration-200 hover:bg-slate-800 hover:shadow-lg hover:-translate-y-0.5 dark:bg-white dark:text-slate-900 dark:hover:bg-slate-200"
@@ -1721,6 +2264,90 @@ export default async function DashboardPage({
                         </div>
                       </details>
 
+                      <details
+                        id="notifications"
+                        open={activeSection === 'notifications'}
+                        className="scroll-mt-24 overflow-hidden rounded-none border border-slate-200/80 bg-white shadow-sm dark:border-slate-800/80 dark:bg-slate-900"
+                      >
+                        <summary className="cursor-pointer list-none border-b border-slate-100 p-6 dark:border-slate-800 [&::-webkit-details-marker]:hidden">
+                          <div className="flex flex-wrap items-center justify-between gap-3">
+                            <div>
+                              <h2 className="text-lg font-bold text-slate-900 dark:text-slate-100">Discord notifications</h2>
+                              <p className="mt-1 text-sm text-slate-600 dark:text-slate-300">Post leaderboard events to a Discord channel</p>
+                            </div>
+                            <div className="text-xs font-semibold text-slate-500 dark:text-slate-400">
+                              {webhook ? (webhook.enabled ? 'Connected' : 'Paused') : 'Not connected'}
+                            </div>
+                          </div>
+                        </summary>
+                        <div className="p-6 space-y-4">
+                          <form key={`webhook-${lb.id}`} action={updateWebhook} className="space-y-4">
+                            <input type="hidden" name="leaderboard_id" value={lb.id} />
+                            <div>
+                              <label className="mb-2 block text-sm font-semibold text-slate-700 dark:text-slate-200">Webhook URL</label>
+                              <input
+                                name="webhook_url"
+                                type="url"
+                                defaultValue={webhook?.url ?? ''}
+                                placeholder="https://discord.com/api/webhooks/..."
+                                className="h-11 w-full rounded-none border-2 border-slate-200 bg-white px-4 py-3 text-slate-900 placeholder:text-slate-400 outline-none focus:border-blue-400 focus:ring-4 focus:ring-blue-400/10 transition-all duration-200 shadow-sm dark:border-slate-700 dark:bg-slate-950 dark:text-slate-100 dark:placeholder:text-slate-500"
+                              />
+                              <div className="mt-1 text-xs text-slate-500 dark:text-slate-400">
+                                Channel settings → Integrations → Webhooks. Leave empty and save to disconnect.
+                              </div>
+                            </div>
+
+                            <label className="flex items-center gap-3 text-sm font-semibold text-slate-700 dark:text-slate-200">
+                              <input
+                                type="checkbox"
+                                name="enabled"
+                                value="1"
+                                defaultChecked={webhook ? webhook.enabled : true}
+                                className="h-4 w-4 rounded-none border-slate-300 text-blue-600 focus:ring-blue-400/30 dark:border-slate-600"
+                              />
+                              Send notifications
+                            </label>
+
+                            <div className="grid gap-2 sm:grid-cols-2">
+                              {(Object.entries(WEBHOOK_TOGGLE_LABELS) as Array<[WebhookToggle, string]>).map(([key, label]) => (
+                                <label
+                                  key={key}
+                                  className="flex items-center gap-3 rounded-none border-2 border-slate-200 bg-white px-4 py-2.5 text-sm text-slate-700 shadow-sm dark:border-slate-700 dark:bg-slate-950 dark:text-slate-200"
+                                >
+                                  <input
+                                    type="checkbox"
+                                    name={key}
+                                    value="1"
+                                    defaultChecked={webhook ? webhook[key] : true}
+                                    className="h-4 w-4 rounded-none border-slate-300 text-blue-600 focus:ring-blue-400/30 dark:border-slate-600"
+                                  />
+                                  {label}
+                                </label>
+                              ))}
+                            </div>
+
+                            <button
+                              type="submit"
+                              className="w-full rounded-none bg-slate-900 px-6 py-3 text-sm font-semibold text-white shadow-sm transition-all duration-200 hover:bg-slate-800 hover:shadow-lg hover:-translate-y-0.5 dark:bg-white dark:text-slate-900 dark:hover:bg-slate-200"
+                            >
+                              Save Notifications
+                            </button>
+                          </form>
+
+                          {webhook && (
+                            <form action={sendTestWebhook}>
+                              <input type="hidden" name="leaderboard_id" value={lb.id} />
+                              <button
+                                type="submit"
+                                className="rounded-none bg-white px-5 py-2.5 text-sm font-semibold text-slate-900 shadow-sm ring-1 ring-inset ring-slate-300 transition-all duration-200 hover:bg-slate-50 dark:bg-slate-900 dark:text-slate-100 dark:ring-slate-700 dark:hover:bg-slate-800"
+                              >
+                                Send test message
+                              </button>
+                            </form>
+                          )}
+                        </div>
+                      </details>
+
                       <details
                         id="players"
                         open={activeSection === 'players'}
@@ -1748,7 +2375,7 @@ export default async function DashboardPage({
                             </div>
 
                             <div className="mt-4 space-y-3">
-                              <div className="grid gap-3 sm:grid-cols-2">
+                              <div className="grid gap-3 sm:grid-cols-[2fr_1fr_1fr]">
                                 <input
                                   name="riot_id"
                                   placeholder="Riot ID (gameName#tagLine)"
@@ -1756,6 +2383,18 @@ export default async function DashboardPage({
                                   autoFocus={section === 'players'}
                                   className="w-full rounded-none border border-slate-200 bg-white px-3 py-2 text-sm text-slate-900 placeholder:text-slate-400 outline-none focus:border-blue-400 focus:ring-4 focus:ring-blue-400/10 transition-all dark:border-slate-700 dark:bg-slate-950 dark:text-slate-100 dark:placeholder:text-slate-500"
                                 />
+                                <select
+                                  name="platform"
+                                  defaultValue={DEFAULT_PLATFORM}
+                                  aria-label="Region"
+                                  className="w-full rounded-none border border-slate-200 bg-white px-3 py-2 text-sm text-slate-900 outline-none focus:border-blue-400 focus:ring-4 focus:ring-blue-400/10 transition-all dark:border-slate-700 dark:bg-slate-950 dark:text-slate-100"
+                                >
+                                  {PLATFORMS.map((platform) => (
+                                    <option key={platform} value={platform}>
+                                      {PLATFORM_LABELS[platform]}
+                                    </option>
+                                  ))}
+                                </select>
                                 <select
                                   name="role"
                                   className="w-full rounded-none border border-slate-200 bg-white px-3 py-2 text-sm text-slate-900 outline-none focus:border-blue-400 focus:ring-4 focus:ring-blue-400/10 transition-all dark:border-slate-700 dark:bg-slate-950 dark:text-slate-100"
@@ -1786,6 +2425,13 @@ export default async function DashboardPage({
                             </div>
                           </PlayerFormWrapper>
 
+                          {playersNeedingAttention > 0 ? (
+                            <div className="rounded-none border border-rose-200 bg-rose-50 px-4 py-3 text-sm font-semibold text-rose-800 dark:border-rose-500/30 dark:bg-rose-500/10 dark:text-rose-200">
+                              {playersNeedingAttention === 1 ? '1 player has' : `${playersNeedingAttention} players have`} stopped syncing. Open
+                              the player below to see why and re-link them.
+                            </div>
+                          ) : null}
+
                           <div className="rounded-none border border-slate-200 bg-white dark:border-slate-800 dark:bg-slate-950">
                             {playerCount === 0 ? (
                               <div className="p-10 text-center">
@@ -1803,11 +2449,49 @@ export default async function DashboardPage({
                                 </div>
                                 {players!.map((p, index) => {
                                   const editId = `player-edit-${p.id}`
+                                  const backfill = p.puuid ? backfillByPuuid.get(p.puuid) : undefined
+                                  const sync = p.puuid ? syncByPuuid.get(p.puuid) : undefined
                                   return (
                                     <details key={p.id} className="group">
                                       <summary className="grid cursor-pointer grid-cols-[56px_2.4fr_90px_120px_90px] items-center gap-3 px-6 py-5 text-base text-slate-900 list-none dark:text-slate-100">
                                         <span className="text-slate-500 dark:text-slate-400">{index + 1}</span>
-                                        <span className="truncate font-semibold text-slate-900 dark:text-slate-50">{p.game_name}#{p.tag_line}</span>
+                                        <span className="flex min-w-0 items-center gap-2">
+                                          <span className="truncate font-semibold text-slate-900 dark:text-slate-50">{p.game_name}#{p.tag_line}</span>
+                                          <span className="shrink-0 rounded-none bg-slate-100 px-1.5 py-0.5 text-[10px] font-bold uppercase tracking-wide text-slate-500 dark:bg-slate-800 dark:text-slate-400">
+                                            {isPlatform(p.platform) ? PLATFORM_LABELS[p.platform] : PLATFORM_LABELS[DEFAULT_PLATFORM]}
+                                          </span>
+                                          {backfill && backfill.pending > 0 ? (
+                                            <span
+                                              title="Match history is still being imported from Riot"
+                                              className="shrink-0 rounded-none bg-amber-100 px-1.5 py-0.5 text-[10px] font-bold uppercase tracking-wide text-amber-700 dark:bg-amber-500/15 dark:text-amber-300"
+                                            >
+                                              Syncing {backfill.pending} games
+                                            </span>
+                                          ) : null}
+                                          {backfill && backfill.failed > 0 ? (
+                                            <span
+                                              title="These games could not be fetched from Riot after several attempts"
+                                              className="shrink-0 rounded-none bg-rose-100 px-1.5 py-0.5 text-[10px] font-bold uppercase tracking-wide text-rose-700 dark:bg-rose-500/15 dark:text-rose-300"
+                                            >
+                                              {backfill.failed} failed
+                                            </span>
+                                          ) : null}
+                                          {sync?.status === 'error' && sync.category ? (
+                                            <span
+                                              title={sync.lastError ?? undefined}
+                                              className="shrink-0 rounded-none bg-rose-100 px-1.5 py-0.5 text-[10px] font-bold uppercase tracking-wide text-rose-700 dark:bg-rose-500/15 dark:text-rose-300"
+                                            >
+                                              {SYNC_ERROR_LABELS[sync.category]}
+                                            </span>
+                                          ) : sync?.status === 'stale' ? (
+                                            <span
+                                              title="The refresh worker hasn't polled this player recently"
+                                              className="shrink-0 rounded-none bg-amber-100 px-1.5 py-0.5 text-[10px] font-bold uppercase tracking-wide text-amber-700 dark:bg-amber-500/15 dark:text-amber-300"
+                                            >
+                                              Stale
+                                            </span>
+                                          ) : null}
+                                        </span>
                                         <span className="text-sm font-semibold text-slate-700 dark:text-slate-200">
                                           {p.role ?? '—'}
                                         </span>
@@ -1842,10 +2526,65 @@ export default async function DashboardPage({
                                         <span className="text-right text-sm font-semibold text-slate-700 dark:text-slate-200">Edit</span>
                                       </summary>
                                       <div className="border-t border-slate-100 bg-slate-50 px-6 py-5 dark:border-slate-800 dark:bg-slate-900/60">
+                                        <div className="mb-5 space-y-2 text-sm">
+                                          <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-xs font-semibold text-slate-600 dark:text-slate-300">
+                                            <span className="uppercase tracking-wide text-slate-500 dark:text-slate-400">Sync health</span>
+                                            <span>
+                                              Last poll:{' '}
+                                              {sync?.lastPollAt ? timeAgo(new Date(sync.lastPollAt).getTime(), syncNowMs) : 'never'}
+                                            </span>
+                                            {sync?.category ? (
+                                              <span className="text-rose-600 dark:text-rose-300">{SYNC_ERROR_LABELS[sync.category]}</span>
+                                            ) : null}
+                                          </div>
+                                          {sync?.status === 'error' && sync.category ? (
+                                            <div className="rounded-none border border-rose-200 bg-rose-50 p-4 dark:border-rose-500/30 dark:bg-rose-500/10">
+                                              <p className="text-sm text-rose-800 dark:text-rose-200">{SYNC_ERROR_HINTS[sync.category]}</p>
+                                              {sync.lastError ? (
+                                                <p className="mt-2 break-words font-mono text-xs text-rose-700/80 dark:text-rose-300/80">{sync.lastError}</p>
+                                              ) : null}
+                                              <PlayerFormWrapper action={repairPlayerIdentity}>
+                                                <input type="hidden" name="leaderboard_id" value={lb.id} />
+                                                <input type="hidden" name="player_id" value={p.id} />
+                                                <div className="mt-3 flex flex-col gap-3 sm:flex-row sm:items-end">
+                                                  <div className="flex-1">
+                                                    <label className="mb-1 block text-xs font-semibold text-slate-600 dark:text-slate-300">Current Riot ID</label>
+                                                    <input
+                                                      name="riot_id"
+                                                      defaultValue={p.game_name && p.tag_line ? `${p.game_name}#${p.tag_line}` : ''}
+                                                      placeholder="gameName#tagLine"
+                                                      className="h-10 w-full rounded-none border border-slate-200 bg-white px-3 text-sm text-slate-900 placeholder:text-slate-400 outline-none focus:border-blue-400 focus:ring-4 focus:ring-blue-400/10 transition-all dark:border-slate-700 dark:bg-slate-950 dark:text-slate-100 dark:placeholder:text-slate-500"
+                                                    />
+                                                  </div>
+                                                  <button
+                                                    type="submit"
+                                                    className="rounded-none bg-rose-600 px-5 py-2.5 text-sm font-semibold text-white transition hover:bg-rose-700"
+                                                  >
+                                                    Re-resolve Riot ID
+                                                  </button>
+                                                </div>
+                                              </PlayerFormWrapper>
+                                            </div>
+                                          ) : null}
+                                        </div>
                                         <PlayerFormWrapper action={updatePlayer}>
                                           <input type="hidden" name="leaderboard_id" value={lb.id} />
                                           <input type="hidden" name="player_id" value={p.id} />
-                                          <div className="grid gap-3 sm:grid-cols-[1fr_1fr_1fr] sm:items-end">
+                                          <div className="grid gap-3 sm:grid-cols-[1fr_1fr_1fr_1fr] sm:items-end">
+                                            <div>
+                                              <label className="mb-1 block text-xs font-semibold text-slate-600 dark:text-slate-300">Region</label>
+                                              <select
+                                                name="platform"
+                                                defaultValue={isPlatform(p.platform) ? p.platform : DEFAULT_PLATFORM}
+                                                className="h-10 w-full rounded-none border border-slate-200 bg-white px-3 text-sm text-slate-900 outline-none focus:border-blue-400 focus:ring-4 focus:ring-blue-400/10 transition-all dark:border-slate-700 dark:bg-slate-950 dark:text-slate-100"
+                                              >
+                                                {PLATFORMS.map((platform) => (
+                                                  <option key={platform} value={platform}>
+                                                    {PLATFORM_LABELS[platform]}
+                                                  </option>
+                                                ))}
+                                              </select>
+                                            </div>
                                             <div>
                                               <label className="mb-1 block text-xs font-semibold text-slate-600 dark:text-slate-300">Role</label>
                                               <select
@@ -1908,6 +2647,128 @@ export default async function DashboardPage({
                           </div>
                         </div>
                       </details>
+
+                      <details
+                        id="teams"
+                        open={activeSection === 'teams'}
+                        className="scroll-mt-24 overflow-hidden rounded-none border border-slate-200/80 bg-white shadow-sm dark:border-slate-800/80 dark:bg-slate-900"
+                      >
+                        <summary className="cursor-pointer list-none border-b border-slate-100 p-6 dark:border-slate-800 [&::-webkit-details-marker]:hidden">
+                          <div className="flex flex-wrap items-center justify-between gap-3">
+                            <div>
+                              <h2 className="text-lg font-bold text-slate-900 dark:text-slate-100">Teams</h2>
+                              <p className="mt-1 text-sm text-slate-600 dark:text-slate-300">Split players into teams ranked by LP gained since the race start</p>
+                            </div>
+                            <div className="rounded-none bg-slate-100 px-3 py-1.5 text-sm font-semibold text-slate-700 dark:bg-slate-800 dark:text-slate-200">
+                              {teams.length}/{MAX_TEAMS_PER_LEADERBOARD}
+                            </div>
+                          </div>
+                        </summary>
+                        <div className="p-6 space-y-6">
+                          <form action={createTeam} className="flex flex-col gap-3 sm:flex-row">
+                            <input type="hidden" name="leaderboard_id" value={lb.id} />
+                            <input
+                              name="team_name"
+                              required
+                              maxLength={TEAM_NAME_MAX_LENGTH}
+                              placeholder="Team name"
+                              className="h-11 w-full rounded-none border-2 border-slate-200 bg-white px-4 py-3 text-slate-900 placeholder:text-slate-400 outline-none focus:border-blue-400 focus:ring-4 focus:ring-blue-400/10 transition-all duration-200 shadow-sm dark:border-slate-700 dark:bg-slate-950 dark:text-slate-100 dark:placeholder:text-slate-500"
+                            />
+                            <button
+                              type="submit"
+                              disabled={teams.length >= MAX_TEAMS_PER_LEADERBOARD}
+                              className="shrink-0 rounded-none bg-slate-900 px-6 py-2.5 text-sm font-semibold text-white shadow-sm transition hover:bg-slate-800 disabled:cursor-not-allowed disabled:opacity-50 dark:bg-white dark:text-slate-900 dark:hover:bg-slate-200"
+                            >
+                              Add team
+                            </button>
+                          </form>
+
+                          {teams.length === 0 ? (
+                            <p className="text-sm text-slate-500 dark:text-slate-400">
+                              No teams yet. Once you add one, team standings appear on the leaderboard and graph pages.
+                            </p>
+                          ) : (
+                            <>
+                              <div className="flex flex-wrap gap-2">
+                                {teams.map((team) => (
+                                  <form
+                                    key={team.id}
+                                    action={deleteTeam}
+                                    className="inline-flex items-center gap-2 rounded-none border-2 border-slate-200 bg-white py-1.5 pl-3 pr-1.5 text-sm font-semibold text-slate-800 dark:border-slate-700 dark:bg-slate-950 dark:text-slate-100"
+                                  >
+                                    <input type="hidden" name="leaderboard_id" value={lb.id} />
+                                    <input type="hidden" name="team_id" value={team.id} />
+                                    <span className="h-2.5 w-2.5 rounded-full" style={{ backgroundColor: team.color }} />
+                                    {team.name}
+                                    <button
+                                      type="submit"
+                                      aria-label={`Delete ${team.name}`}
+                                      className="px-1.5 text-xs font-semibold text-red-600 hover:text-red-700"
+                                    >
+                                      Remove
+                                    </button>
+                                  </form>
+                                ))}
+                              </div>
+
+                              <form key={`teams-${lb.id}`} action={updateTeamAssignments} className="space-y-4">
+                                <input type="hidden" name="leaderboard_id" value={lb.id} />
+                                <div>
+                                  <label className="mb-2 block text-sm font-semibold text-slate-700 dark:text-slate-200">Team score</label>
+                                  <select
+                                    name="team_scoring"
+                                    defaultValue={normalizeTeamScoring(lb.team_scoring)}
+                                    className="h-11 w-full rounded-none border-2 border-slate-200 bg-white px-4 text-slate-900 outline-none focus:border-blue-400 focus:ring-4 focus:ring-blue-400/10 transition-all duration-200 shadow-sm dark:border-slate-700 dark:bg-slate-950 dark:text-slate-100"
+                                  >
+                                    {(Object.entries(TEAM_SCORING_LABELS) as Array<[string, string]>).map(([value, label]) => (
+                                      <option key={value} value={value}>
+                                        {label} across members
+                                      </option>
+                                    ))}
+                                  </select>
+                                  <div className="mt-1 text-xs text-slate-500 dark:text-slate-400">
+                                    Averaging keeps smaller teams competitive. Outside a race window, LP counts from the season start.
+                                  </div>
+                                </div>
+
+                                {playerCount === 0 ? (
+                                  <p className="text-sm text-slate-500 dark:text-slate-400">Add players to assign them to teams.</p>
+                                ) : (
+                                  <div className="divide-y divide-slate-200/80 border border-slate-200 dark:divide-slate-800 dark:border-slate-800">
+                                    {players!.map((p) => (
+                                      <div key={p.id} className="grid grid-cols-[1fr_200px] items-center gap-3 px-4 py-2.5">
+                                        <span className="truncate text-sm font-semibold text-slate-900 dark:text-slate-100">
+                                          {p.game_name}#{p.tag_line}
+                                        </span>
+                                        <select
+                                          name={`team_for:${p.id}`}
+                                          defaultValue={p.team_id ?? ''}
+                                          aria-label={`Team for ${p.game_name}`}
+                                          className="h-9 w-full rounded-none border border-slate-200 bg-white px-3 text-sm text-slate-900 outline-none focus:border-blue-400 focus:ring-4 focus:ring-blue-400/10 transition-all dark:border-slate-700 dark:bg-slate-950 dark:text-slate-100"
+                                        >
+                                          <option value="">No team</option>
+                                          {teams.map((team) => (
+                                            <option key={team.id} value={team.id}>
+                                              {team.name}
+                                            </option>
+                                          ))}
+                                        </select>
+                                      </div>
+                                    ))}
+                                  </div>
+                                )}
+
+                                <button
+                                  type="submit"
+                                  className="w-full rounded-none bg-slate-900 px-6 py-3 text-sm font-semibold text-white shadow-sm transition-all duration-200 hover:bg-slate-800 hover:shadow-lg hover:-translate-y-0.5 dark:bg-white dark:text-slate-900 dark:hover:bg-slate-200"
+                                >
+                                  Save Teams
+                                </button>
+                              </form>
+                            </>
+                          )}
+                        </div>
+                      </details>
                     </div>
                   </>
                 ) : (
@@ -1946,7 +2807,7 @@ export default async function DashboardPage({
                         <div className="flex flex-wrap items-center justify-between gap-3">
                           <div>
                             <h2 className="text-lg font-bold text-slate-900 dark:text-slate-100">Club settings</h2>
-                            <p className="mt-1 text-sm text-slate-600 dark:text-slate-300">Name, description, visibility, and tag</p>
+                            <p className="mt-1 text-sm text-slate-600 dark:text-slate-300">Name, description, visibility, joining, and tag</p>
                           </div>
                         </div>
                       </summary>
@@ -1975,6 +2836,22 @@ export default async function DashboardPage({
                                 <option value="PRIVATE">Private - Owner only</option>
                               </select>
                             </div>
+
+                            <div>
+                              <label className="mb-2 block text-sm font-semibold text-slate-700 dark:text-slate-200">Who can join</label>
+                              <select
+                                name="club_join_policy"
+                                defaultValue={normalizeJoinPolicy(club.join_policy)}
+                                className="h-12 w-full rounded-none border-2 border-slate-200 bg-white px-4 text-slate-900 outline-none focus:border-blue-400 focus:ring-4 focus:ring-blue-400/10 transition-all duration-200 shadow-sm dark:border-slate-700 dark:bg-slate-950 dark:text-slate-100"
+                              >
+                                {CLUB_JOIN_POLICIES.map((policy) => (
+                                  <option key={policy} value={policy}>
+                                    {CLUB_JOIN_POLICY_LABELS[policy]}
+                                  </option>
+                                ))}
+                              </select>
+                              <p className="mt-1 text-xs text-slate-500 dark:text-slate-400">Private clubs are always invite only.</p>
+                            </div>
                           </div>
 
                           <div>
@@ -2167,13 +3044,43 @@ export default async function DashboardPage({
               <section id="tournaments" className="scroll-mt-24">
                 <div className="mx-auto max-w-3xl overflow-hidden rounded-none border border-slate-200/80 bg-white shadow-sm dark:border-slate-800/80 dark:bg-slate-900">
                   <div className="border-b border-slate-100 p-6 dark:border-slate-800">
-                    <h2 className="text-lg font-bold text-slate-900 dark:text-slate-100">Tournament settings</h2>
-                    <p className="mt-1 text-sm text-slate-600 dark:text-slate-300">Outline and configure upcoming tournament features.</p>
+                    <div className="flex items-center justify-between gap-3">
+                      <h2 className="text-lg font-bold text-slate-900 dark:text-slate-100">Your tournaments</h2>
+                      <Link
+                        href="/tournaments"
+                        className="text-sm font-semibold text-slate-700 underline-offset-4 hover:underline dark:text-slate-200"
+                      >
+                        New tournament
+                      </Link>
+                    </div>
+                    <p className="mt-1 text-sm text-slate-600 dark:text-slate-300">Tournaments you organize. Open one to register entrants and record results.</p>
                   </div>
                   <div className="p-6">
-                    <div className="rounded-none border border-dashed border-slate-200 bg-slate-50 px-4 py-3 text-sm text-slate-600 dark:border-slate-700 dark:bg-slate-900/60 dark:text-slate-300">
-                      Tournament management panel coming next.
-                    </div>
+                    {organizedTournaments.length === 0 ? (
+                      <div className="rounded-none border border-dashed border-slate-200 bg-slate-50 px-4 py-3 text-sm text-slate-600 dark:border-slate-700 dark:bg-slate-900/60 dark:text-slate-300">
+                        You haven&apos;t organized a tournament yet.
+                      </div>
+                    ) : (
+                      <div className="divide-y divide-slate-100 dark:divide-slate-800">
+                        {organizedTournaments.map((tournament) => (
+                          <Link
+                            key={tournament.id}
+                            href={`/tournaments/${tournament.id}`}
+                            className="flex items-center justify-between gap-3 py-3 text-sm hover:text-slate-900 dark:hover:text-white"
+                          >
+                            <span className="min-w-0">
+                              <span className="block truncate font-semibold text-slate-900 dark:text-slate-100">{tournament.name}</span>
+                              <span className="text-xs text-slate-500 dark:text-slate-400">
+                                {TOURNAMENT_FORMAT_LABELS[tournament.format] ?? tournament.format}
+                              </span>
+                            </span>
+                            <span className="shrink-0 text-xs font-semibold uppercase tracking-wide text-slate-500 dark:text-slate-400">
+                              {tournament.status.replace('_', ' ').toLowerCase()}
+                            </span>
+                          </Link>
+                        ))}
+                      </div>
+                    )}
                   </div>
                 </div>
               </section>
@@ -1,9 +1,11 @@
 import './globals.css'
 import Link from 'next/link'
 import Script from 'next/script'
-import { revalidatePath } from 'next/cache'
-import { redirect } from 'next/navigation'
 import { createClient } from '@/lib/supabase/server'
+import { effectiveInviteStatus, type ClubInviteStatus } from '@/lib/clubInvites'
+import { describeShowdownTerms, showdownTermsFromRow } from '@/lib/showdowns'
+import { acceptShowdown, cancelShowdown } from '@/app/showdown/actions'
+import { acceptInvite, declineInvite } from '@/app/clubs/actions'
 import { AuthButtons } from '@/app/_components/AuthButtons'
 import { ThemeToggle } from '@/app/_components/ThemeToggle'
 import { MailboxPopoverClient } from '@/app/_components/MailboxPopoverClient'
@@ -21,6 +23,17 @@ type ClubInviteRow = {
   club_id: string
   inviter_user_id: string | null
   created_at: string | null
+  status: string | null
+  expires_at: string | null
+}
+
+type MailboxInvite = {
+  id: string
+  clubName: string
+  inviterName?: string | null
+  createdAt?: string | null
+  expiresAt?: string | null
+  status: ClubInviteStatus
 }
 
 type ClubShowdownRow = {
@@ -29,6 +42,20 @@ type ClubShowdownRow = {
   target_club_id: string
   created_at: string | null
   status: string | null
+  awaiting_club_id: string | null
+  expires_at: string | null
+  format: string | null
+  duration_days: number | null
+  proposed_start_at: string | null
+  roster_size: number | null
+}
+
+type MailboxShowdown = {
+  id: string
+  opponentName: string
+  createdAt?: string | null
+  expiresAt?: string | null
+  terms: string
 }
 
 type ClubMemberRow = {
@@ -36,27 +63,18 @@ type ClubMemberRow = {
   user_id: string
 }
 
+function nowIso() {
+  return new Date().toISOString()
+}
+
 export default async function RootLayout({ children }: { children: React.ReactNode }) {
   const supabase = await createClient()
   const { data } = await supabase.auth.getUser()
   const user = data.user
   let username: string | null = null
-  let mailboxInvites: Array<{ id: string; clubName: string; inviterName?: string | null; createdAt?: string | null }> = []
-  let mailboxInboxShowdowns: Array<{
-    id: string
-    opponentName: string
-    createdAt?: string | null
-    requesterClubId: string
-    targetClubId: string
-    status?: string | null
-  }> = []
-  let mailboxOutgoingShowdowns: Array<{
-    id: string
-    opponentName: string
-    createdAt?: string | null
-    targetClubId: string
-    status?: string | null
-  }> = []
+  let mailboxInvites: MailboxInvite[] = []
+  let mailboxInboxShowdowns: MailboxShowdown[] = []
+  let mailboxOutgoingShowdowns: MailboxShowdown[] = []
   if (user) {
     const { data: profile } = await supabase
       .from('profiles')
@@ -72,17 +90,22 @@ export default async function RootLayout({ children }: { children: React.ReactNo
     const [invitesRes, clubsRes, membersRes, showdownsRes, profilesRes] = await Promise.all([
       supabase
         .from('club_invites')
-        .select('id, club_id, inviter_user_id, created_at')
+        .select('id, club_id, inviter_user_id, created_at, status, expires_at')
         .eq('invitee_user_id', user.id)
-        .eq('status', 'PENDING')
+        // Answered and expired invites stay listed with their status; cancelled ones drop out.
+        .neq('status', 'CANCELLED')
         .order('created_at', { ascending: false })
         .limit(10),
       supabase.from('clubs').select('id, name'),
       supabase.from('club_members').select('club_id, user_id').eq('user_id', user.id),
       supabase
         .from('club_showdown_requests')
-        .select('id, requester_club_id, target_club_id, created_at, status')
+        .select(
+          'id, requester_club_id, target_club_id, created_at, status, awaiting_club_id, expires_at, format, duration_days, proposed_start_at, roster_size'
+        )
         .eq('status', 'PENDING')
+        // Lapsed requests drop out here before the worker gets to mark them expired.
+        .gt('expires_at', nowIso())
         .order('created_at', { ascending: false })
         .limit(50),
       supabase.from('profiles').select('user_id, username'),
@@ -97,6 +120,8 @@ export default async function RootLayout({ children }: { children: React.ReactNo
       clubName: clubNames.get(invite.club_id) ?? 'Club invite',
       inviterName: invite.inviter_user_id ? profileNames.get(invite.inviter_user_id) : null,
       createdAt: invite.created_at,
+      expiresAt: invite.expires_at,
+      status: effectiveInviteStatus(invite),
     }))
 
     const memberClubIds = new Set(((membersRes.data ?? []) as ClubMemberRow[]).map((row) => row.club_id))
@@ -104,114 +129,26 @@ export default async function RootLayout({ children }: { children: React.ReactNo
     const myClubIds = new Set([...memberClubIds, ...ownedClubIds])
 
     const showdownRows = (showdownsRes.data ?? []) as ClubShowdownRow[]
+    const toMailbox = (request: ClubShowdownRow, opponentClubId: string): MailboxShowdown => ({
+      id: request.id,
+      opponentName: clubNames.get(opponentClubId) ?? 'Club challenge',
+      createdAt: request.created_at,
+      expiresAt: request.expires_at,
+      terms: describeShowdownTerms(showdownTermsFromRow(request)),
+    })
+    const awaitingClub = (request: ClubShowdownRow) => request.awaiting_club_id ?? request.target_club_id
+    const otherClub = (request: ClubShowdownRow, clubId: string) =>
+      clubId === request.target_club_id ? request.requester_club_id : request.target_club_id
+
     mailboxInboxShowdowns = showdownRows
-      .filter((request) => myClubIds.has(request.target_club_id))
+      .filter((request) => myClubIds.has(awaitingClub(request)))
       .slice(0, 10)
-      .map((request) => ({
-        id: request.id,
-        opponentName: clubNames.get(request.requester_club_id) ?? 'Club challenge',
-        requesterClubId: request.requester_club_id,
-        targetClubId: request.target_club_id,
-        createdAt: request.created_at,
-        status: request.status ?? 'PENDING',
-      }))
+      .map((request) => toMailbox(request, otherClub(request, awaitingClub(request))))
 
     mailboxOutgoingShowdowns = showdownRows
-      .filter((request) => myClubIds.has(request.requester_club_id))
+      .filter((request) => myClubIds.has(otherClub(request, awaitingClub(request))))
       .slice(0, 10)
-      .map((request) => ({
-        id: request.id,
-        opponentName: clubNames.get(request.target_club_id) ?? 'Club challenge',
-        targetClubId: request.target_club_id,
-        createdAt: request.created_at,
-        status: request.status ?? 'PENDING',
-      }))
-  }
-
-  async function acceptShowdown(formData: FormData) {
-    'use server'
-
-    const requestId = String(formData.get('request_id') ?? '').trim()
-    const targetClubId = String(formData.get('target_club_id') ?? '').trim()
-    if (!requestId || !targetClubId) redirect('/showdown?err=Missing request')
-
-    const supabase = await createClient()
-    const { data: auth } = await supabase.auth.getUser()
-    const user = auth.user
-    if (!user) redirect('/sign-in')
-    const userId = user.id
-
-    const { data: member } = await supabase
-      .from('club_members')
-      .select('id')
-      .eq('club_id', targetClubId)
-      .eq('user_id', userId)
-      .maybeSingle()
-
-    if (!member?.id) {
-      const { data: ownedClub } = await supabase
-        .from('clubs')
-        .select('id')
-        .eq('id', targetClubId)
-        .eq('owner_user_id', userId)
-        .maybeSingle()
-      if (!ownedClub?.id) redirect('/showdown?err=Only target club members can accept')
-    }
-
-    const { error } = await supabase
-      .from('club_showdown_requests')
-      .update({ status: 'ACCEPTED' })
-      .eq('id', requestId)
-      .eq('target_club_id', targetClubId)
-      .eq('status', 'PENDING')
-
-    if (error) redirect(`/showdown?err=${encodeURIComponent(error.message)}`)
-
-    revalidatePath('/showdown')
-    revalidatePath(`/showdown/${requestId}`)
-    redirect(`/showdown/${requestId}`)
-  }
-
-  async function cancelShowdown(formData: FormData) {
-    'use server'
-
-    const requestId = String(formData.get('request_id') ?? '').trim()
-    const requesterClubId = String(formData.get('requester_club_id') ?? '').trim()
-    if (!requestId || !requesterClubId) redirect('/showdown?err=Missing request')
-
-    const supabase = await createClient()
-    const { data: auth } = await supabase.auth.getUser()
-    const user = auth.user
-    if (!user) redirect('/sign-in')
-    const userId = user.id
-
-    const { data: member } = await supabase
-      .from('club_members')
-      .select('id')
-      .eq('club_id', requesterClubId)
-      .eq('user_id', userId)
-      .maybeSingle()
-
-    if (!member?.id) {
-      const { data: ownedClub } = await supabase
-        .from('clubs')
-        .select('id')
-        .eq('id', requesterClubId)
-        .eq('owner_user_id', userId)
-        .maybeSingle()
-      if (!ownedClub?.id) redirect('/showdown?err=Only requesting club members can cancel')
-    }
-
-    const { error } = await supabase
-      .from('club_showdown_requests')
-      .delete()
-      .eq('id', requestId)
-      .eq('requester_club_id', requesterClubId)
-
-    if (error) redirect(`/showdown?err=${encodeURIComponent(error.message)}`)
-
-    revalidatePath('/showdown')
-    redirect('/showdown?ok=Request cancelled')
+      .map((request) => toMailbox(request, awaitingClub(request)))
   }
 
   return (
@@ -294,6 +231,8 @@ export default async function RootLayout({ children }: { children: React.ReactNo
                 outgoingShowdowns={mailboxOutgoingShowdowns}
                 onAcceptShowdown={acceptShowdown}
                 onCancelShowdown={cancelShowdown}
+                onAcceptInvite={acceptInvite}
+                onDeclineInvite={declineInvite}
               />
               <AuthButtons signedIn={!!user} username={username} />
             </div>
@@ -1,5 +1,7 @@
 import LatestGamesFeedClient from './LatestGamesFeedClient'
 import { getLatestActivityDataCached } from '@/lib/leaderboard/latestGames'
+import { getLiveGamesForLeaderboard } from '@/lib/leaderboard/liveGames'
+import { getRecentLpPenaltiesForLeaderboard } from '@/lib/leaderboard/lpPenalties'
 
 export default async function LatestActivityServer({
   lbId,
@@ -8,7 +10,11 @@ export default async function LatestActivityServer({
   lbId: string
   ddVersion: string
 }) {
-  const data = await getLatestActivityDataCached(lbId, ddVersion)
+  const [data, liveGames, penalties] = await Promise.all([
+    getLatestActivityDataCached(lbId, ddVersion),
+    getLiveGamesForLeaderboard(lbId),
+    getRecentLpPenaltiesForLeaderboard(lbId),
+  ])
 
   return (
     <aside className="lg:sticky lg:top-6 order-2 lg:order-1">
@@ -21,6 +27,8 @@ export default async function LatestActivityServer({
         ddVersion={ddVersion}
         initialNow={Date.now()}
         initialGames={data.latestGames}
+        initialLiveGames={liveGames}
+        initialPenalties={penalties}
         playersByPuuid={data.playersByPuuidRecord}
         champMap={data.champMap}
         rankByPuuid={data.rankByPuuidRecord}
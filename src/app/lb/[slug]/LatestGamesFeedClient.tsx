@@ -6,6 +6,9 @@ import { championIconUrl } from '@/lib/champions'
 import { formatMatchDuration, getKdaColor } from '@/lib/formatters'
 import { timeAgo } from '@/lib/timeAgo'
 import { useMatchPrefetch } from './useMatchPrefetch'
+import LiveGameBadge from './LiveGameBadge'
+import type { LiveGame } from '@/lib/leaderboard/liveGames'
+import type { LpPenalty } from '@/lib/leaderboard/lpPenalties'
 
 const MatchDetailsModal = dynamic(() => import('./MatchDetailsModal'), {
   ssr: false,
@@ -13,6 +16,8 @@ const MatchDetailsModal = dynamic(() => import('./MatchDetailsModal'), {
 
 const LIVE_TIME_INTERVAL_MS = 60_000
 const FEED_REFRESH_INTERVAL_MS = 30_000
+// Matches the `lim` the latest-games RPC is called with.
+const FEED_GAME_LIMIT = 10
 const liveTimeListeners = new Set<(now: number) => void>()
 let liveTimeIntervalId: number | null = null
 
@@ -73,6 +78,7 @@ interface Game {
   rankTier?: string | null
   rankDivision?: string | null
   endType?: 'REMAKE' | 'EARLY_SURRENDER' | 'SURRENDER' | 'NORMAL'
+  duoPuuids?: string[]
 }
 
 interface MatchParticipant {
@@ -162,6 +168,7 @@ function formatLpNote(lpNote: string | null, isRemake: boolean) {
 const GameItem = memo(({ 
   game, 
   player, 
+  duoNames,
   champSrc, 
   rankData, 
   profileIconSrc,
@@ -172,6 +179,7 @@ const GameItem = memo(({
 }: {
   game: Game
   player: Player | null
+  duoNames: string[]
   champSrc: string | null
   rankData: RankData | null
   profileIconSrc: string | null
@@ -334,6 +342,14 @@ const GameItem = memo(({
               <span className="min-w-0 flex-1 truncate text-xs font-bold text-slate-900 hover:text-blue-600 dark:text-slate-100 dark:hover:text-blue-400" title="View match history">
                 <span className="truncate">{name}</span>
               </span>
+              {duoNames.length > 0 && (
+                <span
+                  title={`${duoNames.length > 1 ? 'Premade' : 'Duo'} with ${duoNames.join(', ')}`}
+                  className="shrink-0 rounded-full bg-indigo-50 px-1.5 py-0.5 text-[9px] font-black uppercase tracking-wide text-indigo-600 dark:bg-indigo-500/15 dark:text-indigo-300"
+                >
+                  {duoNames.length > 1 ? 'Premade' : 'Duo'}
+                </span>
+              )}
               <div className="shrink-0 flex flex-col items-end gap-1">
                 <span className="text-[10px] text-slate-400 font-medium dark:text-slate-500">{when}</span>
                 {lpBadge}
@@ -395,6 +411,7 @@ const GameItem = memo(({
     prev.game.endTs === next.game.endTs &&
     prev.game.lpChange === next.game.lpChange &&
     prev.game.lpNote === next.game.lpNote &&
+    prev.duoNames.join(',') === next.duoNames.join(',') &&
     prev.hasMatchDetails === next.hasMatchDetails &&
     prev.onSelect === next.onSelect &&
     prev.onHover === next.onHover &&
@@ -406,11 +423,121 @@ const GameItem = memo(({
 
 GameItem.displayName = 'GameItem'
 
+function LiveGameItem({
+  liveGame,
+  player,
+  champSrc,
+  onSelect,
+}: {
+  liveGame: LiveGame
+  player: Player | null
+  champSrc: string | null
+  onSelect: (matchId: string, puuid: string) => void
+}) {
+  const name = player ? displayRiotId(player) : 'Unknown'
+  const finished = Boolean(liveGame.endedAt)
+
+  const content = (
+    <div className="flex items-center gap-3">
+      <div className="relative h-9 w-9 shrink-0">
+        {champSrc && (
+          // eslint-disable-next-line @next/next/no-img-element
+          <img
+            src={champSrc}
+            alt=""
+            width={36}
+            height={36}
+            loading="lazy"
+            className="h-full w-full rounded-lg bg-slate-100 object-cover border-2 border-slate-200 shadow-sm dark:border-slate-700 dark:bg-slate-800"
+          />
+        )}
+      </div>
+      <span className="min-w-0 flex-1 truncate text-xs font-bold text-slate-900 dark:text-slate-100">{name}</span>
+      {finished ? (
+        <span className="shrink-0 text-[10px] font-semibold text-blue-600 dark:text-blue-400">Finished · View match</span>
+      ) : (
+        <LiveGameBadge gameStartTs={liveGame.gameStartTs} queueId={liveGame.queueId} className="shrink-0" />
+      )}
+    </div>
+  )
+
+  if (!finished) {
+    return (
+      <div className="rounded-xl border border-l-4 border-slate-200 border-l-rose-400 bg-white p-3 shadow-sm dark:border-slate-800 dark:border-l-rose-500/70 dark:bg-slate-900">
+        {content}
+      </div>
+    )
+  }
+
+  return (
+    <button
+      type="button"
+      onClick={() => onSelect(liveGame.matchId, liveGame.puuid)}
+      className="w-full rounded-xl border border-l-4 border-slate-200 border-l-slate-300 bg-white p-3 text-left shadow-sm transition-all duration-200 hover:shadow-lg focus:outline-none focus:ring-2 focus:ring-blue-500/50 dark:border-slate-800 dark:border-l-slate-600 dark:bg-slate-900"
+    >
+      {content}
+    </button>
+  )
+}
+
+function PenaltyItem({
+  penalty,
+  player,
+  profileIconSrc,
+  initialNow,
+}: {
+  penalty: LpPenalty
+  player: Player | null
+  profileIconSrc: string | null
+  initialNow: number
+}) {
+  const now = useLiveTime(initialNow)
+  const name = player ? displayRiotId(player) : 'Unknown'
+  const isDodge = penalty.note === 'DODGE'
+
+  return (
+    <div
+      title={isDodge ? 'LP lost to a queue dodge' : 'LP lost to inactivity decay'}
+      className="rounded-xl border border-l-4 border-slate-200 border-l-amber-400 bg-white p-3 shadow-sm dark:border-slate-800 dark:border-l-amber-500/70 dark:bg-slate-900"
+    >
+      <div className="flex items-center gap-3">
+        <div className="relative h-9 w-9 shrink-0">
+          {profileIconSrc && (
+            // eslint-disable-next-line @next/next/no-img-element
+            <img
+              src={profileIconSrc}
+              alt=""
+              width={36}
+              height={36}
+              loading="lazy"
+              className="h-full w-full rounded-full border-2 border-slate-200 bg-slate-100 object-cover shadow-sm dark:border-slate-700 dark:bg-slate-800"
+            />
+          )}
+        </div>
+        <div className="min-w-0 flex-1">
+          <div className="truncate text-xs font-bold text-slate-900 dark:text-slate-100">{name}</div>
+          <div className="text-[10px] font-semibold text-slate-500 dark:text-slate-400">
+            {isDodge ? 'Dodged a queue' : 'Decayed from inactivity'}
+          </div>
+        </div>
+        <div className="shrink-0 flex flex-col items-end gap-1">
+          <span className="text-[10px] text-slate-400 font-medium dark:text-slate-500">{timeAgo(penalty.ts, now)}</span>
+          <span className="inline-flex items-center rounded-full bg-amber-50 px-2 py-0.5 text-[10px] font-semibold uppercase tracking-wide tabular-nums text-amber-700 dark:bg-amber-500/20 dark:text-amber-200">
+            {isDodge ? 'Dodge' : 'Decay'} {penalty.lpDelta} LP
+          </span>
+        </div>
+      </div>
+    </div>
+  )
+}
+
 export default function LatestGamesFeedClient({
   lbId,
   ddVersion,
   initialNow,
   initialGames,
+  initialLiveGames = [],
+  initialPenalties = [],
   playersByPuuid,
   champMap,
   rankByPuuid,
@@ -422,6 +549,8 @@ export default function LatestGamesFeedClient({
   ddVersion: string
   initialNow: number
   initialGames: Game[]
+  initialLiveGames?: LiveGame[]
+  initialPenalties?: LpPenalty[]
   playersByPuuid: Record<string, Player>
   champMap: Record<number, Champion>
   rankByPuuid: Record<string, RankData | null>
@@ -430,7 +559,9 @@ export default function LatestGamesFeedClient({
   preloadedMatchData?: Record<string, PreloadedMatchData>
 }) {
   const [games, setGames] = useState<Game[]>(initialGames)
-  const [selectedGame, setSelectedGame] = useState<Game | null>(null)
+  const [liveGames, setLiveGames] = useState<LiveGame[]>(initialLiveGames)
+  const [penalties, setPenalties] = useState<LpPenalty[]>(initialPenalties)
+  const [selectedMatch, setSelectedMatch] = useState<{ matchId: string; puuid: string } | null>(null)
   const [isInitializing, setIsInitializing] = useState(initialGames.length === 0)
   const { prefetchMatch, getPrefetchedData } = useMatchPrefetch()
   const prefetchedMatches = useRef<Set<string>>(new Set())
@@ -441,6 +572,14 @@ export default function LatestGamesFeedClient({
     setGames(initialGames)
   }, [initialGames])
 
+  useEffect(() => {
+    setLiveGames(initialLiveGames)
+  }, [initialLiveGames])
+
+  useEffect(() => {
+    setPenalties(initialPenalties)
+  }, [initialPenalties])
+
   useEffect(() => {
     participantsByMatchRef.current = participantsByMatch
   }, [participantsByMatch])
@@ -481,7 +620,13 @@ export default function LatestGamesFeedClient({
           { cache: 'no-store' }
         )
         if (!res.ok) return
-        const payload = (await res.json()) as { games?: Game[] }
+        const payload = (await res.json()) as { games?: Game[]; liveGames?: LiveGame[]; penalties?: LpPenalty[] }
+        if (!cancelled && Array.isArray(payload.liveGames)) {
+          setLiveGames(payload.liveGames)
+        }
+        if (!cancelled && Array.isArray(payload.penalties)) {
+          setPenalties(payload.penalties)
+        }
         if (!cancelled && Array.isArray(payload.games)) {
           setGames((prevGames) => {
             const previousByKey = new Map(prevGames.map((g) => [`${g.matchId}:${g.puuid}`, g]))
@@ -534,13 +679,17 @@ export default function LatestGamesFeedClient({
   }, [prefetchMatch, ddVersion])
 
   const gameIds = useMemo(
-    () => games.map((g) => `${g.matchId}${g.puuid}`).join(','),
+    () => games.map((g) => `${g.matchId}${g.puuid}${(g.duoPuuids ?? []).join('|')}`).join(','),
     [games]
   )
 
   const gameItemsData = useMemo(() => {
     return games.map((g) => {
       const player = playersByPuuid?.[g.puuid] ?? null
+      const duoNames = (g.duoPuuids ?? []).map((puuid) => {
+        const partner = playersByPuuid?.[puuid]
+        return partner ? displayRiotId(partner) : 'a teammate'
+      })
       const champ = champMap[g.championId]
       const champSrc = champ ? championIconUrl(ddVersion, champ.id) : null
       const rankData = rankByPuuid?.[g.puuid] ?? null
@@ -555,6 +704,7 @@ export default function LatestGamesFeedClient({
       return {
         game: g,
         player,
+        duoNames,
         champSrc,
         rankData,
         profileIconSrc,
@@ -565,18 +715,47 @@ export default function LatestGamesFeedClient({
   }, [gameIds, ddVersion])
 
   const handleSelectGame = useCallback((game: Game) => {
-    setSelectedGame(game)
+    setSelectedMatch({ matchId: game.matchId, puuid: game.puuid })
+  }, [])
+
+  const handleSelectMatch = useCallback((matchId: string, puuid: string) => {
+    setSelectedMatch({ matchId, puuid })
   }, [])
 
   const handleCloseModal = useCallback(() => {
-    setSelectedGame(null)
+    setSelectedMatch(null)
   }, [])
 
   const selectedParticipants = useMemo(() => {
-    return selectedGame ? participantsByMatch[selectedGame.matchId] ?? [] : []
-  }, [selectedGame, participantsByMatch])
+    return selectedMatch ? participantsByMatch[selectedMatch.matchId] ?? [] : []
+  }, [selectedMatch, participantsByMatch])
+
+  // In-progress games first; finished ones only until the ingested match shows up in the feed.
+  const liveItems = useMemo(() => {
+    const ingested = new Set(games.map((g) => `${g.matchId}:${g.puuid}`))
+    return liveGames
+      .filter((lg) => playersByPuuid?.[lg.puuid])
+      .filter((lg) => !lg.endedAt || !ingested.has(`${lg.matchId}:${lg.puuid}`))
+      .sort((a, b) => Number(Boolean(a.endedAt)) - Number(Boolean(b.endedAt)))
+  }, [liveGames, games, playersByPuuid])
+
+  // Dodges and decay slot in between games by time, but never reach past the
+  // oldest game shown so a quiet week isn't padded out with old penalties.
+  const feedItems = useMemo(() => {
+    const gameEnds = gameItemsData.map((item) => normalizeEndTs(item.game.endTs ?? null) ?? 0)
+    const oldestGameTs = gameEnds.length >= FEED_GAME_LIMIT ? Math.min(...gameEnds) : 0
+    const entries: Array<
+      | { kind: 'game'; ts: number; item: (typeof gameItemsData)[number] }
+      | { kind: 'penalty'; ts: number; penalty: LpPenalty }
+    > = gameItemsData.map((item, index) => ({ kind: 'game' as const, ts: gameEnds[index], item }))
+    for (const penalty of penalties) {
+      if (!playersByPuuid?.[penalty.puuid] || penalty.ts < oldestGameTs) continue
+      entries.push({ kind: 'penalty', ts: penalty.ts, penalty })
+    }
+    return entries.sort((a, b) => b.ts - a.ts)
+  }, [gameItemsData, penalties, playersByPuuid])
 
-  if (games.length === 0 && isInitializing) {
+  if (feedItems.length === 0 && liveItems.length === 0 && isInitializing) {
     return (
       <div className="rounded-2xl border border-slate-200 bg-white p-4 shadow-sm dark:border-slate-800 dark:bg-slate-900">
         <div className="space-y-2 animate-pulse">
@@ -589,7 +768,7 @@ export default function LatestGamesFeedClient({
     )
   }
 
-  if (games.length === 0) {
+  if (feedItems.length === 0 && liveItems.length === 0) {
     return (
       <div className="rounded-2xl border-2 border-dashed border-slate-200 bg-gradient-to-br from-slate-50 to-white p-10 text-center dark:border-slate-700 dark:from-slate-900 dark:to-slate-950">
         <div className="mx-auto mb-4 h-16 w-16 rounded-full bg-slate-100 dark:bg-slate-800 flex items-center justify-center">
@@ -606,33 +785,65 @@ export default function LatestGamesFeedClient({
   return (
     <>
       <div className="space-y-2.5">
-        {gameItemsData.map((item) => (
-          <GameItem
-            key={`${item.game.matchId}-${item.game.puuid}`}
-            game={item.game}
-            player={item.player}
-            champSrc={item.champSrc}
-            rankData={item.rankData}
-            profileIconSrc={item.profileIconSrc}
-            initialNow={initialNow}
-            hasMatchDetails={item.hasMatchDetails}
-            onSelect={handleSelectGame}
-            onHover={handleGameHover}
-          />
-        ))}
+        {liveItems.map((lg) => {
+          const champ = lg.championId ? champMap[lg.championId] : null
+          return (
+            <LiveGameItem
+              key={`live-${lg.matchId}-${lg.puuid}`}
+              liveGame={lg}
+              player={playersByPuuid?.[lg.puuid] ?? null}
+              champSrc={champ ? championIconUrl(ddVersion, champ.id) : null}
+              onSelect={handleSelectMatch}
+            />
+          )
+        })}
+        {feedItems.map((entry) => {
+          if (entry.kind === 'penalty') {
+            const profileIconId = playerIconsByPuuid?.[entry.penalty.puuid] ?? null
+            return (
+              <PenaltyItem
+                key={`penalty-${entry.penalty.puuid}-${entry.penalty.recordedAt}`}
+                penalty={entry.penalty}
+                player={playersByPuuid?.[entry.penalty.puuid] ?? null}
+                profileIconSrc={
+                  profileIconId
+                    ? `https://ddragon.leagueoflegends.com/cdn/${ddVersion}/img/profileicon/${profileIconId}.png`
+                    : null
+                }
+                initialNow={initialNow}
+              />
+            )
+          }
+          const { item } = entry
+          return (
+            <GameItem
+              key={`${item.game.matchId}-${item.game.puuid}`}
+              game={item.game}
+              player={item.player}
+              duoNames={item.duoNames}
+              champSrc={item.champSrc}
+              rankData={item.rankData}
+              profileIconSrc={item.profileIconSrc}
+              initialNow={initialNow}
+              hasMatchDetails={item.hasMatchDetails}
+              onSelect={handleSelectGame}
+              onHover={handleGameHover}
+            />
+          )
+        })}
       </div>
       
       <MatchDetailsModal
-        open={Boolean(selectedGame)}
-        matchId={selectedGame?.matchId ?? null}
-        focusedPuuid={selectedGame?.puuid ?? null}
+        open={Boolean(selectedMatch)}
+        matchId={selectedMatch?.matchId ?? null}
+        focusedPuuid={selectedMatch?.puuid ?? null}
         champMap={champMap}
         ddVersion={ddVersion}
         participants={selectedParticipants}
         onClose={handleCloseModal}
-        preloadedData={selectedGame && preloadedMatchData[selectedGame.matchId] 
-          ? preloadedMatchData[selectedGame.matchId]
-          : selectedGame ? getPrefetchedData(selectedGame.matchId) : undefined}
+        preloadedData={selectedMatch && preloadedMatchData[selectedMatch.matchId] 
+          ? preloadedMatchData[selectedMatch.matchId]
+          : selectedMatch ? getPrefetchedData(selectedMatch.matchId) : undefined}
       />
     </>
   )
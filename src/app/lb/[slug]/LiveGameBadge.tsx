@@ -0,0 +1,61 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+
+export const LIVE_QUEUE_LABELS: Record<number, string> = {
+  400: 'Normal Draft',
+  420: 'Ranked Solo/Duo',
+  430: 'Normal Blind',
+  440: 'Ranked Flex',
+  450: 'ARAM',
+  490: 'Quickplay',
+  1700: 'Arena',
+}
+
+function formatElapsed(ms: number) {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000))
+  const hours = Math.floor(totalSeconds / 3600)
+  const minutes = Math.floor((totalSeconds % 3600) / 60)
+  const seconds = totalSeconds % 60
+  const mmss = `${String(minutes).padStart(2, '0')}:${String(seconds).padStart(2, '0')}`
+  return hours > 0 ? `${hours}:${mmss}` : mmss
+}
+
+export default function LiveGameBadge({
+  gameStartTs,
+  queueId,
+  className = '',
+}: {
+  gameStartTs: number | null
+  queueId?: number | null
+  className?: string
+}) {
+  // Only tick on the client so the server render never disagrees with hydration.
+  const [now, setNow] = useState<number | null>(null)
+
+  useEffect(() => {
+    const tick = () => setNow(Date.now())
+    const first = window.setTimeout(tick, 0)
+    const interval = window.setInterval(tick, 1000)
+    return () => {
+      window.clearTimeout(first)
+      window.clearInterval(interval)
+    }
+  }, [])
+
+  const elapsed = gameStartTs && now ? formatElapsed(now - gameStartTs) : null
+  const queueLabel = queueId ? LIVE_QUEUE_LABELS[queueId] ?? null : null
+
+  return (
+    <span
+      title={queueLabel ? `In game now · ${queueLabel}` : 'In game now'}
+      className={`inline-flex items-center gap-1 rounded-full bg-rose-50 px-2 py-0.5 text-[10px] font-black uppercase tracking-wide text-rose-600 tabular-nums dark:bg-rose-500/15 dark:text-rose-300 ${className}`}
+    >
+      <span className="relative flex h-1.5 w-1.5">
+        <span className="absolute inline-flex h-full w-full animate-ping rounded-full bg-rose-500 opacity-75" />
+        <span className="relative inline-flex h-1.5 w-1.5 rounded-full bg-rose-500" />
+      </span>
+      Live{elapsed ? ` ${elapsed}` : ''}
+    </span>
+  )
+}
@@ -2,6 +2,7 @@
 
 import { useEffect, useMemo, useState } from 'react'
 import type { MoversData } from '@/lib/leaderboard/movers'
+import { LEADERBOARD_QUEUE_LABELS, type LeaderboardQueue } from '@/lib/leaderboard/queues'
 
 const MOVERS_REFRESH_INTERVAL_MS = 30_000
 
@@ -103,13 +104,16 @@ export default function MoversClient({
   ddVersion,
   cutoffs,
   initialMovers,
+  flexEnabled = false,
 }: {
   lbId: string
   ddVersion: string
   cutoffs: Array<{ label: string; lp: number; icon: string }>
   initialMovers: MoversData
+  flexEnabled?: boolean
 }) {
   const [movers, setMovers] = useState<MoversData>(initialMovers)
+  const [queue, setQueue] = useState<LeaderboardQueue>('solo')
 
   useEffect(() => {
     setMovers(initialMovers)
@@ -120,7 +124,10 @@ export default function MoversClient({
 
     const refreshMovers = async () => {
       try {
-        const res = await fetch(`/api/leaderboards/${encodeURIComponent(lbId)}/movers`, { cache: 'no-store' })
+        const res = await fetch(
+          `/api/leaderboards/${encodeURIComponent(lbId)}/movers?queue=${queue}`,
+          { cache: 'no-store' }
+        )
         if (!res.ok) return
         const payload = (await res.json()) as { movers?: MoversData }
         if (!cancelled && payload.movers) {
@@ -131,6 +138,9 @@ export default function MoversClient({
       }
     }
 
+    // Initial movers are solo; switching queues fetches right away instead of waiting for the poll.
+    if (queue !== 'solo') void refreshMovers()
+
     const interval = window.setInterval(() => {
       if (document.visibilityState === 'visible') {
         void refreshMovers()
@@ -141,7 +151,13 @@ export default function MoversClient({
       cancelled = true
       window.clearInterval(interval)
     }
-  }, [lbId])
+  }, [lbId, queue])
+
+  const selectQueue = (next: LeaderboardQueue) => {
+    if (next === queue) return
+    if (next === 'solo') setMovers(initialMovers)
+    setQueue(next)
+  }
 
   const orderedCutoffs = useMemo(() => {
     const byLabel = new Map(cutoffs.map((c) => [c.label.toLowerCase(), c]))
@@ -193,6 +209,26 @@ export default function MoversClient({
           </div>
         )}
 
+        {flexEnabled ? (
+          <div className="flex gap-1 rounded-xl border border-slate-200 bg-white p-1 shadow-sm dark:border-slate-800 dark:bg-slate-900">
+            {(['solo', 'flex'] as const).map((option) => (
+              <button
+                key={option}
+                type="button"
+                onClick={() => selectQueue(option)}
+                aria-pressed={queue === option}
+                className={`flex-1 rounded-lg px-2 py-1 text-[10px] font-black uppercase tracking-widest transition-colors ${
+                  queue === option
+                    ? 'bg-slate-900 text-white dark:bg-white dark:text-slate-900'
+                    : 'text-slate-500 hover:bg-slate-100 dark:text-slate-400 dark:hover:bg-slate-800'
+                }`}
+              >
+                {LEADERBOARD_QUEUE_LABELS[option]}
+              </button>
+            ))}
+          </div>
+        ) : null}
+
         <div>
           <div className="text-[10px] font-black uppercase tracking-widest text-slate-400 dark:text-slate-500">Daily Movers</div>
           <div className="mt-2 h-px w-full bg-slate-200 dark:bg-slate-800" />
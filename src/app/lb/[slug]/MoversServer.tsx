@@ -5,12 +5,22 @@ export default async function MoversServer({
   lbId,
   ddVersion,
   cutoffs,
+  flexEnabled = false,
 }: {
   lbId: string
   ddVersion: string
   cutoffs: Array<{ label: string; lp: number; icon: string }>
+  flexEnabled?: boolean
 }) {
   const data = await getMoversDataCached(lbId)
-  return <MoversClient lbId={lbId} ddVersion={ddVersion} cutoffs={cutoffs} initialMovers={data} />
+  return (
+    <MoversClient
+      lbId={lbId}
+      ddVersion={ddVersion}
+      cutoffs={cutoffs}
+      initialMovers={data}
+      flexEnabled={flexEnabled}
+    />
+  )
 }
 
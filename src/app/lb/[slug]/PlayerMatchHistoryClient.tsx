@@ -3,10 +3,13 @@
 import { useCallback, useEffect, useMemo, useRef, useState, memo } from 'react'
 import { createPortal } from 'react-dom'
 import FitText from './FitText'
+import LiveGameBadge from './LiveGameBadge'
 import MatchDetailsModal, { preloadStaticData } from './MatchDetailsModal'
 import { championIconUrl } from '@/lib/champions'
 import { formatMatchDuration, getKdaColor, getWinrateColor } from '@/lib/formatters'
 import { timeAgo } from '@/lib/timeAgo'
+import type { LiveGame } from '@/lib/leaderboard/liveGames'
+import { DECAY_WARNING_DAYS, type DecayStatus } from '@/lib/riot/decay'
 
 // --- Types ---
 interface Player {
@@ -35,6 +38,8 @@ interface PlayerCard {
   rankData: RankData | null
   stateData: { profile_icon_id?: number | null } | null
   topChamps: Array<{ champion_id: number }>
+  liveGame?: LiveGame | null
+  decay?: DecayStatus | null
 }
 
 interface MatchSummary {
@@ -56,6 +61,8 @@ interface MatchSummary {
   rankTier?: string | null
   rankDivision?: string | null
   endType?: 'REMAKE' | 'EARLY_SURRENDER' | 'SURRENDER' | 'NORMAL'
+  // Leaderboard players on the enemy team.
+  vs?: Array<{ puuid: string; championId: number }>
 }
 
 interface MatchDetailResponse {
@@ -323,6 +330,31 @@ const StatGridSkeleton = memo(() => (
 ))
 StatGridSkeleton.displayName = 'StatGridSkeleton'
 
+function DecayChip({ decay, className = '' }: { decay?: DecayStatus | null; className?: string }) {
+  if (!decay || (!decay.decaying && decay.bankedDays > DECAY_WARNING_DAYS)) return null
+  const label = decay.decaying
+    ? 'Decaying'
+    : decay.bankedDays === 0
+      ? 'Decays today'
+      : `Decay in ${decay.bankedDays}d`
+  return (
+    <span
+      title={
+        decay.decaying
+          ? `No banked days left: losing ${decay.lpPerDay} LP per day until a ranked game is played`
+          : `${decay.bankedDays} banked ${decay.bankedDays === 1 ? 'day' : 'days'} before losing ${decay.lpPerDay} LP per day`
+      }
+      className={`inline-flex items-center rounded-full px-2 py-0.5 text-[10px] font-black uppercase tracking-wide ${
+        decay.decaying
+          ? 'bg-rose-50 text-rose-600 dark:bg-rose-500/15 dark:text-rose-300'
+          : 'bg-amber-50 text-amber-700 dark:bg-amber-500/15 dark:text-amber-300'
+      } ${className}`}
+    >
+      {label}
+    </span>
+  )
+}
+
 const PodiumCard = memo(({ card, rank, ddVersion, onOpen, champMap }: { card: PlayerCard, rank: number, ddVersion: string, onOpen: (c: PlayerCard) => void, champMap: any }) => {
   const rankData = card.rankData
   const winrate = useMemo(() => formatWinrate(rankData?.wins, rankData?.losses), [rankData?.wins, rankData?.losses])
@@ -378,6 +410,10 @@ const PodiumCard = memo(({ card, rank, ddVersion, onOpen, champMap }: { card: Pl
             <FitText text={displayId} className="block max-w-full whitespace-nowrap font-bold" minScale={0.65} />
           </button>
           {card.player.role && <div className="text-xs font-semibold uppercase tracking-wide text-slate-500 mt-1 dark:text-slate-400">{card.player.role}</div>}
+          {card.liveGame && !card.liveGame.endedAt && (
+            <LiveGameBadge gameStartTs={card.liveGame.gameStartTs} queueId={card.liveGame.queueId} className="mt-2" />
+          )}
+          <DecayChip decay={card.decay} className="mt-2" />
         </div>
         <div className="mt-5 flex flex-col items-center gap-3 w-full">
           <div className="flex items-center gap-3 bg-slate-50 px-5 py-3 rounded-xl border border-slate-200 w-full justify-center group-hover:bg-slate-100 transition-colors duration-200 dark:border-slate-700 dark:bg-slate-900 dark:group-hover:bg-slate-800">
@@ -453,6 +489,10 @@ const RunnerupRow = memo(({ card, ddVersion, onOpen, champMap }: { card: PlayerC
             <FitText text={displayId} className="block max-w-full whitespace-nowrap font-bold" minScale={0.65} />
           </button>
           {card.player.role && <div className="text-[10px] font-bold text-slate-400 uppercase tracking-wide mt-0.5 dark:text-slate-500">{card.player.role}</div>}
+          {card.liveGame && !card.liveGame.endedAt && (
+            <LiveGameBadge gameStartTs={card.liveGame.gameStartTs} queueId={card.liveGame.queueId} className="mt-1" />
+          )}
+          <DecayChip decay={card.decay} className="mt-1" />
         </div>
       </div>
       <div className="hidden md:flex items-center gap-2 lg:gap-3 shrink-0">
@@ -492,7 +532,7 @@ const RunnerupRow = memo(({ card, ddVersion, onOpen, champMap }: { card: PlayerC
 })
 RunnerupRow.displayName = 'RunnerupRow'
 
-const MatchRow = memo(({ match, champMap, ddVersion, detail, onOpen, onHover, spellMap, runeMap, currentRankData, focusedPuuid }: { match: MatchSummary, champMap: any, ddVersion: string, detail: MatchDetailResponse | null, onOpen: (match: MatchSummary) => void, onHover: (match: MatchSummary) => void, spellMap: Map<number, any>, runeMap: Map<number, any>, currentRankData?: any, focusedPuuid?: string | null }) => {
+const MatchRow = memo(({ match, champMap, ddVersion, detail, onOpen, onHover, spellMap, runeMap, currentRankData, focusedPuuid, playerNames }: { match: MatchSummary, champMap: any, ddVersion: string, detail: MatchDetailResponse | null, onOpen: (match: MatchSummary) => void, onHover: (match: MatchSummary) => void, spellMap: Map<number, any>, runeMap: Map<number, any>, currentRankData?: any, focusedPuuid?: string | null, playerNames?: Map<string, string> }) => {
     // 5. Defensive Checks: Guard against undefined maps
     const champion = champMap?.[match.championId]
     const champSrc = champion ? championIconUrl(ddVersion, champion.id) : null
@@ -513,6 +553,10 @@ const MatchRow = memo(({ match, champMap, ddVersion, detail, onOpen, onHover, sp
         : '[--game-item-color-100:theme(colors.rose.50)] [--game-item-color-200:theme(colors.rose.100)] [--game-item-color-300:theme(colors.rose.200)] [--game-item-color-500:theme(colors.rose.500)] [--game-item-color-600:theme(colors.rose.700)]'
 
     const when = match.endTs ? timeAgo(match.endTs) : '—'
+    const rivalNames = (match.vs ?? []).flatMap((rival) => {
+      const name = playerNames?.get(rival.puuid)
+      return name ? [name] : []
+    })
     const queueLabel = match.queueId ? QUEUE_LABELS[match.queueId] ?? 'Custom' : 'Custom'
     const queueLabelDisplay = queueLabel === 'Ranked Solo/Duo' ? 'Ranked Solo' : queueLabel
     const csPerMin = formatCsPerMin(match.cs, match.durationS)
@@ -649,6 +693,14 @@ const MatchRow = memo(({ match, champMap, ddVersion, detail, onOpen, onHover, sp
                   <strong className={`${lpDisplayClass} inline-flex items-center gap-0.5 rounded-md px-1.5 py-0.5 text-xs ${lpBadgeTone}`}>{lpDisplay}</strong>
                 </div>
                 <span className="text-[10px] text-slate-500">{durationLabel}</span>
+                {rivalNames.length > 0 && (
+                  <span
+                    title={`Against ${rivalNames.join(', ')}`}
+                    className="max-w-[100px] truncate rounded-md bg-amber-500/15 px-1.5 py-0.5 text-[10px] font-bold text-amber-700 dark:text-amber-300"
+                  >
+                    vs {rivalNames.join(', ')}
+                  </span>
+                )}
               </div>
             </div>
 
@@ -851,7 +903,7 @@ const MatchRow = memo(({ match, champMap, ddVersion, detail, onOpen, onHover, sp
   MatchRow.displayName = 'MatchRow'
 
 // --- Main Component ---
-export default function PlayerMatchHistoryClient({ playerCards, champMap, ddVersion }: { playerCards: PlayerCard[], champMap: any, ddVersion: string }) {
+export default function PlayerMatchHistoryClient({ lbId, playerCards, champMap, ddVersion, season = null }: { lbId: string, playerCards: PlayerCard[], champMap: any, ddVersion: string, season?: number | null }) {
   const [selectedPlayer, setSelectedPlayer] = useState<PlayerCard | null>(null)
   const [open, setOpen] = useState(false)
   const [summary, setSummary] = useState<any>(null)
@@ -864,6 +916,10 @@ export default function PlayerMatchHistoryClient({ playerCards, champMap, ddVers
   const [visibleMatchesCount, setVisibleMatchesCount] = useState(10)
   const [renderedMatchesCount, setRenderedMatchesCount] = useState(10)
   const [loadingMoreMatches, setLoadingMoreMatches] = useState(false)
+  const playerNames = useMemo(
+    () => new Map(playerCards.map((card) => [card.player.puuid, displayRiotId(card.player)])),
+    [playerCards]
+  )
   const [imagesReady, setImagesReady] = useState(true)
   const initialImagesReady = useRef(false)
   const preloadIdRef = useRef(0)
@@ -1173,12 +1229,14 @@ export default function PlayerMatchHistoryClient({ playerCards, champMap, ddVers
     }
 
     // 3. Inefficient Sorting Fix: Use cached if available, otherwise fetch -> sort -> cache
-    const cachedMatches = getCacheValue(matchesCache, puuid)
+    // Rivals depend on the leaderboard, so its id is part of the key.
+    const matchesKey = season ? `${lbId}:${puuid}:${season}` : `${lbId}:${puuid}`
+    const cachedMatches = getCacheValue(matchesCache, matchesKey)
     if (cachedMatches) {
       setMatches(cachedMatches)
     } else {
       setLoadingMatches(true)
-      fetch(`/api/player/${puuid}/matches?limit=all`)
+      fetch(`/api/player/${puuid}/matches?limit=all&lb=${encodeURIComponent(lbId)}${season ? `&season=${season}` : ''}`)
         .then(res => res.ok ? res.json() : Promise.reject())
         .then(data => {
           const rawList: any[] = data.matches ?? []
@@ -1202,6 +1260,7 @@ export default function PlayerMatchHistoryClient({ playerCards, champMap, ddVers
             rankTier: m.rankTier ?? m.rank_tier ?? null,
             rankDivision: m.rankDivision ?? m.rank_division ?? null,
             endType: m.endType ?? m.end_type,
+            vs: Array.isArray(m.vs) ? m.vs : [],
           }))
 
           // Sort ONCE here
@@ -1215,13 +1274,13 @@ export default function PlayerMatchHistoryClient({ playerCards, champMap, ddVers
             const bKey = b.endTs ?? matchIdToSortKey(b.matchId)
             return bKey - aKey
           })
-          setCacheValue(matchesCache, puuid, list, CACHE_TTL_MS.matches)
+          setCacheValue(matchesCache, matchesKey, list, CACHE_TTL_MS.matches)
           setMatches(list)
         })
         .catch(() => setMatches([]))
         .finally(() => setLoadingMatches(false))
     }
-  }, [open, selectedPlayer])
+  }, [open, selectedPlayer, season, lbId])
 
   const ensureMatchDetail = useCallback(async (matchId: string) => {
     const cachedDetail = getCacheValue(matchDetailCache, matchId)
@@ -1607,6 +1666,7 @@ export default function PlayerMatchHistoryClient({ playerCards, champMap, ddVers
                               runeMap={runeMap}
                               currentRankData={summary?.rank}
                               focusedPuuid={selectedPlayer?.player.puuid ?? null}
+                              playerNames={playerNames}
                             />
                           ))}
                         {(renderedMatchesCount < matches.length || loadingMoreMatches) && (
@@ -0,0 +1,57 @@
+import { formatGoalDate, formatGoalResult } from '@/lib/leaderboardGoals'
+import { getTeamRaceDataCached, TEAM_SCORING_LABELS } from '@/lib/leaderboard/teams'
+
+const METRIC_LABELS: Record<string, string> = {
+  LP_RACE: 'LP gained',
+  GAMES_RACE: 'games played',
+  WINRATE_CHALLENGE: 'win rate',
+}
+
+export default async function TeamStandingsServer({ lbId }: { lbId: string }) {
+  const data = await getTeamRaceDataCached(lbId)
+  if (!data) return null
+
+  const since = formatGoalDate(data.startIso)
+  const metric = METRIC_LABELS[data.mode] ?? 'LP gained'
+  // Win rate is pooled across the team, so sum/average doesn't apply.
+  const subtitle = data.mode === 'WINRATE_CHALLENGE' ? `Team ${metric}` : `${TEAM_SCORING_LABELS[data.scoring]} ${metric}`
+
+  return (
+    <section className="max-w-[820px] mx-auto space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <div className="h-1 w-8 bg-gradient-to-r from-violet-400 via-violet-500 to-violet-600 rounded-full shadow-sm" />
+          <h3 className="text-xs font-black uppercase tracking-widest text-slate-600 dark:text-slate-300">Team Standings</h3>
+        </div>
+        <span className="text-[11px] font-semibold text-slate-500 dark:text-slate-400">
+          {subtitle}
+          {since ? ` since ${since}` : ''}
+        </span>
+      </div>
+
+      <div className="grid gap-2 sm:grid-cols-2">
+        {data.standings.map((team, idx) => {
+          const result = formatGoalResult(data.mode, team.value)
+          return (
+            <div
+              key={team.id}
+              className="rounded-xl border-l-4 border-y border-r border-slate-200 bg-white p-3 shadow-sm dark:border-slate-800 dark:bg-slate-900"
+              style={{ borderLeftColor: team.color }}
+            >
+              <div className="flex items-center justify-between gap-3">
+                <div className="flex min-w-0 items-center gap-2">
+                  <span className="text-xs font-black tabular-nums text-slate-400 dark:text-slate-500">#{idx + 1}</span>
+                  <span className="truncate text-sm font-bold text-slate-900 dark:text-slate-100">{team.name}</span>
+                </div>
+                <span className="shrink-0 text-sm font-black tabular-nums text-slate-900 dark:text-slate-100">{result ?? '—'}</span>
+              </div>
+              <div className="mt-1 truncate text-[11px] text-slate-500 dark:text-slate-400">
+                {team.members.length > 0 ? team.members.map((member) => member.name).join(', ') : 'No players yet'}
+              </div>
+            </div>
+          )
+        })}
+      </div>
+    </section>
+  )
+}
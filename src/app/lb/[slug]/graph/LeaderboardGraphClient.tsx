@@ -2,6 +2,7 @@
 
 import { useCallback, useEffect, useId, useMemo, useRef, useState } from "react"
 import { formatRank } from "@/lib/rankFormat"
+import type { LeaderboardQueue } from "@/lib/leaderboard/queues"
 
 // --- Types ---
 type PlayerSummary = {
@@ -260,6 +261,13 @@ function normalizeHistoryPoints(
   })
 }
 
+function gamelessNoteLabel(note: string | null | undefined) {
+  const normalized = (note ?? "").toUpperCase()
+  if (normalized === "DODGE") return "Queue dodge"
+  if (normalized === "DECAY") return "Inactivity decay"
+  return null
+}
+
 function compressChangedPoints(points: NormalizedPoint[]) {
   const sorted = [...points].sort((a, b) => a.ts - b.ts)
   const processed: NormalizedPoint[] = []
@@ -288,11 +296,13 @@ function compressChangedPoints(points: NormalizedPoint[]) {
 function takeRecentPoints(points: NormalizedPoint[]) {
   const withLp = points.filter((p) => p.lp !== null && p.lp !== undefined)
   const selected: NormalizedPoint[] = []
-  const seenGames = new Set<number>()
+  const seenGames = new Set<string>()
   for (let i = withLp.length - 1; i >= 0; i -= 1) {
     const p = withLp[i]
-    if (seenGames.has(p.totalGames)) continue
-    seenGames.add(p.totalGames)
+    // Dodges and decay don't add a game, so keep them alongside the game before.
+    const key = gamelessNoteLabel(p.lp_note) ? `${p.totalGames}:${p.ts}` : String(p.totalGames)
+    if (seenGames.has(key)) continue
+    seenGames.add(key)
     selected.push(p)
     if (seenGames.size >= RECENT_HISTORY_LIMIT) break
   }
@@ -505,10 +515,14 @@ export default function LeaderboardGraphClient({
   players,
   slug,
   cutoffs,
+  queue = "solo",
+  season = null,
 }: {
   players: PlayerSummary[]
   slug: string
   cutoffs: RankCutoffs
+  queue?: LeaderboardQueue
+  season?: number | null
 }) {
   const [selectedPuuid, setSelectedPuuid] = useState(players[0]?.puuid ?? "")
   const [recentPoints, setRecentPoints] = useState<LpPoint[]>([])
@@ -553,10 +567,11 @@ export default function LeaderboardGraphClient({
 
       if (force) prefetchCacheRef.current.delete(key)
 
+      const baseQuery = `?puuid=${encodeURIComponent(puuid)}&queue=${queue}${season ? `&season=${season}` : ""}`
       const query =
         mode === "recent"
-          ? `?puuid=${encodeURIComponent(puuid)}&limit=${RECENT_HISTORY_LIMIT}&v=${encodeURIComponent(RECENT_QUERY_VERSION)}`
-          : `?puuid=${encodeURIComponent(puuid)}&full=1`
+          ? `${baseQuery}&limit=${RECENT_HISTORY_LIMIT}&v=${encodeURIComponent(RECENT_QUERY_VERSION)}`
+          : `${baseQuery}&full=1`
 
       const request = fetch(`/api/lb/${encodeURIComponent(slug)}/graph${query}`, {
         credentials: "same-origin",
@@ -576,7 +591,7 @@ export default function LeaderboardGraphClient({
       inflightRef.current.set(key, request)
       return request
     },
-    [slug]
+    [slug, queue, season]
   )
 
   useEffect(() => {
@@ -1180,7 +1195,7 @@ export default function LeaderboardGraphClient({
         style={tooltipStyle}
       >
         <div className="font-semibold text-slate-100">
-          {cur.totalGames === 0 ? "Placement" : `Game #${cur.totalGames}`}
+          {gamelessNoteLabel(cur.lp_note) ?? (cur.totalGames === 0 ? "Placement" : `Game #${cur.totalGames}`)}
         </div>
         <div className="mt-1 text-slate-400">
           {formatRank(normalizedTierForPoint(cur), cur.rank, cur.lp)}
@@ -0,0 +1,81 @@
+import { formatGoalResult } from '@/lib/leaderboardGoals'
+import type { TeamRaceData } from '@/lib/leaderboard/teams'
+
+const WIDTH = 960
+const HEIGHT = 260
+const PADDING = { top: 20, right: 16, bottom: 28, left: 16 }
+const INNER_WIDTH = WIDTH - PADDING.left - PADDING.right
+const INNER_HEIGHT = HEIGHT - PADDING.top - PADDING.bottom
+
+function formatAxisDate(ms: number) {
+  return new Date(ms).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })
+}
+
+// One line per team, tracking the team score across the race window.
+export default function TeamLinesChart({ data }: { data: TeamRaceData }) {
+  const series = data.series.filter((team) => team.points.length > 0)
+  if (series.length === 0) return null
+
+  const allPoints = series.flatMap((team) => team.points)
+  const minTs = Math.min(...allPoints.map((p) => p.ts))
+  const maxTs = Math.max(...allPoints.map((p) => p.ts))
+  const values = allPoints.map((p) => p.value)
+  // Keep zero in view so gains and losses read against the starting line.
+  const minValue = Math.min(0, ...values)
+  const maxValue = Math.max(0, ...values)
+  const valueRange = Math.max(maxValue - minValue, 1)
+  const tsRange = Math.max(maxTs - minTs, 1)
+
+  const x = (ts: number) => PADDING.left + ((ts - minTs) / tsRange) * INNER_WIDTH
+  const y = (value: number) => PADDING.top + INNER_HEIGHT - ((value - minValue) / valueRange) * INNER_HEIGHT
+  const standingsById = new Map(data.standings.map((team) => [team.id, team]))
+
+  return (
+    <section className="rounded-2xl border border-slate-200 bg-white p-5 shadow-sm dark:border-slate-800 dark:bg-slate-900">
+      <div className="mb-4 flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-center gap-2">
+          <div className="h-1 w-8 bg-gradient-to-r from-violet-400 via-violet-500 to-violet-600 rounded-full shadow-sm" />
+          <h2 className="text-xs font-black uppercase tracking-widest text-slate-600 dark:text-slate-300">Teams</h2>
+        </div>
+        <div className="flex flex-wrap items-center gap-3">
+          {series.map((team) => (
+            <span key={team.id} className="inline-flex items-center gap-1.5 text-xs font-semibold text-slate-700 dark:text-slate-200">
+              <span className="h-2.5 w-2.5 rounded-full" style={{ backgroundColor: team.color }} />
+              {team.name}
+              <span className="tabular-nums text-slate-500 dark:text-slate-400">
+                {formatGoalResult(data.mode, standingsById.get(team.id)?.value ?? null) ?? '—'}
+              </span>
+            </span>
+          ))}
+        </div>
+      </div>
+
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="h-auto w-full" role="img" aria-label="Team scores over time">
+        <line
+          x1={PADDING.left}
+          x2={WIDTH - PADDING.right}
+          y1={y(0)}
+          y2={y(0)}
+          stroke="rgba(148, 163, 184, 0.45)"
+          strokeDasharray="4 4"
+        />
+        {series.map((team) => (
+          <polyline
+            key={team.id}
+            points={team.points.map((p) => `${x(p.ts).toFixed(1)},${y(p.value).toFixed(1)}`).join(' ')}
+            fill="none"
+            stroke={team.color}
+            strokeWidth={2.5}
+            strokeLinejoin="round"
+          />
+        ))}
+        <text x={PADDING.left} y={HEIGHT - 8} className="fill-slate-400 text-[11px]">
+          {formatAxisDate(minTs)}
+        </text>
+        <text x={WIDTH - PADDING.right} y={HEIGHT - 8} textAnchor="end" className="fill-slate-400 text-[11px]">
+          {formatAxisDate(maxTs)}
+        </text>
+      </svg>
+    </section>
+  )
+}
@@ -3,8 +3,13 @@ import { createClient } from '@/lib/supabase/server'
 import { createServiceClient } from '@/lib/supabase/service'
 import { getLatestDdragonVersion } from '@/lib/riot/getLatestDdragonVersion'
 import LeaderboardGraphClient from './LeaderboardGraphClient'
+import TeamLinesChart from './TeamLinesChart'
 import LeaderboardTabs from '@/components/LeaderboardTabs'
 import { compareRanks } from '@/lib/rankSort'
+import { parseArchivedSeason } from '@/lib/riot/season'
+import { LEADERBOARD_QUEUE_LABELS, LEADERBOARD_QUEUE_TYPES, parseLeaderboardQueue } from '@/lib/leaderboard/queues'
+import { getTeamRaceDataCached } from '@/lib/leaderboard/teams'
+import Link from 'next/link'
 
 
 export const revalidate = 600
@@ -69,6 +74,7 @@ function TeamHeaderCard({
   cutoffs,
   bannerUrl,
   lastUpdated = null,
+  season = null,
 }: {
   name: string
   description?: string | null
@@ -78,6 +84,7 @@ function TeamHeaderCard({
   cutoffs: Array<{ label: string; lp: number; icon: string }>
   bannerUrl: string | null
   lastUpdated?: string | null
+  season?: number | null
 }) {
   const formattedLastUpdated = lastUpdated
     ? new Date(lastUpdated).toLocaleString('en-US', {
@@ -108,7 +115,7 @@ function TeamHeaderCard({
       <div className="relative flex flex-col lg:flex-row">
         <div className="flex-1 p-8 lg:p-10">
           <div className="mb-4 lg:mb-6">
-            <LeaderboardTabs leaderboardCode={leaderboardCode} activeTab={activeTab} visibility={visibility} />
+            <LeaderboardTabs leaderboardCode={leaderboardCode} activeTab={activeTab} visibility={visibility} season={season} />
           </div>
           <h1 className="text-4xl lg:text-5xl font-black tracking-tight text-transparent bg-clip-text bg-gradient-to-br from-slate-900 via-slate-800 to-slate-600 mb-4 pb-2 pt-2 dark:from-white dark:via-slate-200 dark:to-slate-400">
             {name}
@@ -159,12 +166,16 @@ function TeamHeaderCard({
 
 export default async function LeaderboardGraphPage({
   params,
+  searchParams,
   fromCodeRoute = false,
 }: {
   params: Promise<{ slug: string }>
+  searchParams?: Promise<{ queue?: string; season?: string }>
   fromCodeRoute?: boolean
 }) {
   const { slug } = await params
+  const { queue: queueParam, season: seasonParam } = (await searchParams) ?? {}
+  const archivedSeason = parseArchivedSeason(seasonParam)
   const supabase = await createClient()
   const latestPatch = await getLatestDdragonVersion().catch(() => null)
   const ddVersion = latestPatch || process.env.NEXT_PUBLIC_DDRAGON_VERSION || DEFAULT_DDRAGON_VERSION
@@ -172,7 +183,7 @@ export default async function LeaderboardGraphPage({
 
   const { data: lb } = await supabase
     .from('leaderboards')
-    .select('id, user_id, name, slug, leaderboard_code, visibility, banner_url, description, updated_at')
+    .select('id, user_id, name, slug, leaderboard_code, visibility, banner_url, description, updated_at, track_flex')
     .eq('slug', slug)
     .maybeSingle()
 
@@ -190,8 +201,19 @@ export default async function LeaderboardGraphPage({
   }
 
 
+  const flexEnabled = Boolean(lb.track_flex)
+  const queue = parseLeaderboardQueue(queueParam, flexEnabled)
+
+  const graphHref = (option: typeof queue) => {
+    const query = new URLSearchParams()
+    if (option === 'flex') query.set('queue', 'flex')
+    if (archivedSeason) query.set('season', String(archivedSeason.season))
+    const qs = query.toString()
+    return `/leaderboards/${lb.leaderboard_code}/graph${qs ? `?${qs}` : ''}`
+  }
+
   if (!fromCodeRoute) {
-    redirect(`/leaderboards/${lb.leaderboard_code}/graph`)
+    redirect(graphHref(queue))
   }
 
 
@@ -264,6 +286,7 @@ export default async function LeaderboardGraphPage({
             activeTab="graph"
             cutoffs={[]}
             bannerUrl={lb.banner_url}
+            season={archivedSeason?.season ?? null}
           />
           <div className="rounded-2xl border border-dashed border-slate-200 bg-white p-6 text-center text-sm text-slate-600 dark:border-slate-700 dark:bg-slate-900 dark:text-slate-300">
             No players found for this leaderboard yet.
@@ -290,11 +313,18 @@ export default async function LeaderboardGraphPage({
 
 
   const rankSnapshotRaw = await safeDb(
-    dataClient
-      .from('player_rank_snapshot')
-      .select('puuid, queue_type, tier, rank, league_points, wins, losses, fetched_at')
-      .in('puuid', puuids)
-      .eq('queue_type', 'RANKED_SOLO_5x5'),
+    archivedSeason
+      ? dataClient
+          .from('player_season_ranks')
+          .select('puuid, queue_type, tier, rank, league_points, wins, losses, fetched_at')
+          .eq('season', archivedSeason.season)
+          .in('puuid', puuids)
+          .eq('queue_type', LEADERBOARD_QUEUE_TYPES[queue])
+      : dataClient
+          .from('player_rank_snapshot')
+          .select('puuid, queue_type, tier, rank, league_points, wins, losses, fetched_at')
+          .in('puuid', puuids)
+          .eq('queue_type', LEADERBOARD_QUEUE_TYPES[queue]),
     [] as Array<{
       puuid: string
       queue_type: string
@@ -334,6 +364,9 @@ export default async function LeaderboardGraphPage({
   })
 
 
+  // Team races are scored on Solo/Duo for the live season only.
+  const teamRace = queue === 'solo' && !archivedSeason ? await getTeamRaceDataCached(lb.id) : null
+
   const cutoffs = {
     grandmaster: cutoffsByTier.get(`${SOLO_QUEUE}::GRANDMASTER`) ?? DEFAULT_GRANDMASTER_CUTOFF,
     challenger: cutoffsByTier.get(`${SOLO_QUEUE}::CHALLENGER`) ?? DEFAULT_CHALLENGER_CUTOFF,
@@ -356,13 +389,48 @@ export default async function LeaderboardGraphPage({
             activeTab="graph"
             cutoffs={[]}
             bannerUrl={lb.banner_url}
+            season={archivedSeason?.season ?? null}
           />
         </div>
 
 
+        {flexEnabled ? (
+          <div className="mx-auto flex w-full max-w-[1460px] justify-end">
+            <div className="inline-flex gap-1 rounded-xl border border-slate-200 bg-white p-1 shadow-sm dark:border-slate-800 dark:bg-slate-900">
+              {(['solo', 'flex'] as const).map((option) => (
+                <Link
+                  key={option}
+                  href={graphHref(option)}
+                  aria-current={queue === option ? 'page' : undefined}
+                  className={`rounded-lg px-3 py-1.5 text-xs font-black uppercase tracking-widest transition-colors ${
+                    queue === option
+                      ? 'bg-slate-900 text-white dark:bg-white dark:text-slate-900'
+                      : 'text-slate-500 hover:bg-slate-100 dark:text-slate-400 dark:hover:bg-slate-800'
+                  }`}
+                >
+                  {LEADERBOARD_QUEUE_LABELS[option]}
+                </Link>
+              ))}
+            </div>
+          </div>
+        ) : null}
+
         <div className="mx-auto w-full max-w-[1460px]">
-          <LeaderboardGraphClient players={playerSummaries} slug={slug} cutoffs={cutoffs} />
+          <LeaderboardGraphClient
+            key={`${queue}:${archivedSeason?.season ?? 'current'}`}
+            players={playerSummaries}
+            slug={slug}
+            cutoffs={cutoffs}
+            queue={queue}
+            season={archivedSeason?.season ?? null}
+          />
         </div>
+
+        {teamRace ? (
+          <div className="mx-auto w-full max-w-[1460px]">
+            <TeamLinesChart data={teamRace} />
+          </div>
+        ) : null}
       </div>
     </main>
   )
@@ -4,13 +4,16 @@ import { cache, Suspense } from 'react'
 import { unstable_cache } from 'next/cache'
 import { getChampionMap } from '@/lib/champions'
 import { getLatestDdragonVersion } from '@/lib/riot/getLatestDdragonVersion'
-import { getSeasonStartIso } from '@/lib/riot/season'
+import { getSeasonStartIso, parseArchivedSeason, type SeasonInfo } from '@/lib/riot/season'
 import { compareRanks } from '@/lib/rankSort'
+import { getLiveGamesForPuuids } from '@/lib/leaderboard/liveGames'
+import { computeDecayStatus, decayRuleForTier, DECAY_LOOKBACK_DAYS, type DecayStatus } from '@/lib/riot/decay'
 import { createServiceClient } from '@/lib/supabase/service'
 import PlayerMatchHistoryClient from './PlayerMatchHistoryClient'
 import LeaderboardTabs from '@/components/LeaderboardTabs'
 import LatestActivityServer from '@/app/lb/[slug]/LatestActivityServer'
 import MoversServer from '@/app/lb/[slug]/MoversServer'
+import TeamStandingsServer from '@/app/lb/[slug]/TeamStandingsServer'
 
 export const revalidate = 30
 const PAGE_CACHE_TTL_SECONDS = revalidate
@@ -37,6 +40,7 @@ interface PlayerRiotState {
   profile_icon_id: number | null
   summoner_level: number | null
   last_rank_sync_at: string | null
+  last_game_at?: string | null
 }
 
 interface PlayerRankSnapshot {
@@ -63,6 +67,11 @@ interface TopChampionRaw {
   games: number | null
 }
 
+interface RecentGameRaw {
+  puuid: string
+  matches: Array<{ game_end_ts: number | null }>
+}
+
 interface LeaderboardRaw {
   id: string
   user_id: string
@@ -72,6 +81,7 @@ interface LeaderboardRaw {
   visibility: Visibility
   banner_url: string | null
   updated_at: string | null
+  track_flex: boolean | null
 }
 
 interface LeaderboardPageData {
@@ -82,6 +92,7 @@ interface LeaderboardPageData {
     rankData: PlayerRankSnapshot | null
     stateData: PlayerRiotState | null
     topChamps: Array<{ champion_id: number; games: number }>
+    decay?: DecayStatus | null
   }>
   cutoffs: Array<{ label: string; lp: number; icon: string }>
   lastUpdatedIso: string | null
@@ -96,6 +107,7 @@ interface TeamHeaderCardProps {
   bannerUrl: string | null
   cutoffs?: Array<{ label: string; lp: number; icon: string }>
   lastUpdated?: string | null
+  season?: number | null
 }
 
 // --- Helpers ---
@@ -158,7 +170,7 @@ const getLeaderboardBySlug = cache(async (slug: string): Promise<LeaderboardRaw
   const supabase = await createClient()
   const { data } = await supabase
     .from('leaderboards')
-    .select('id, user_id, name, leaderboard_code, description, visibility, banner_url, updated_at')
+    .select('id, user_id, name, leaderboard_code, description, visibility, banner_url, updated_at, track_flex')
     .eq('slug', slug)
     .maybeSingle()
 
@@ -285,12 +297,49 @@ const getLeaderboardPageDataCached = (lbId: string, ddVersion: string) =>
       { key: 'RANKED_SOLO_5x5::GRANDMASTER', label: 'Grandmaster', icon: '/images/GRANDMASTER_SMALL.jpg' },
     ].map((i) => ({ label: i.label, lp: cutoffsMap.get(i.key) as number, icon: i.icon })).filter((x) => x.lp !== undefined)
 
+    // Decay only applies to Solo/Duo at Diamond and above.
+    const decayPuuids = top50Puuids.filter((pid) => decayRuleForTier(queuesByPuuid.get(pid)?.solo?.tier))
+    const nowMs = Date.now()
+    const recentGamesRaw = decayPuuids.length > 0
+      ? await safeDb(
+          supabase
+            .from('match_participants')
+            .select('puuid, matches!inner(game_end_ts)')
+            .in('puuid', decayPuuids)
+            .eq('matches.queue_id', 420)
+            .gte('matches.game_end_ts', nowMs - DECAY_LOOKBACK_DAYS * 24 * 60 * 60 * 1000),
+          [] as RecentGameRaw[],
+          'decay_recent_games'
+        )
+      : ([] as RecentGameRaw[])
+
+    const gameEndsBy = new Map<string, number[]>()
+    for (const row of recentGamesRaw) {
+      const match = Array.isArray(row.matches) ? row.matches[0] : row.matches
+      const endTs = Number(match?.game_end_ts ?? NaN)
+      if (!Number.isFinite(endTs)) continue
+      const list = gameEndsBy.get(row.puuid) ?? []
+      list.push(endTs)
+      gameEndsBy.set(row.puuid, list)
+    }
+
+    const decayBy = new Map<string, DecayStatus | null>()
+    for (const pid of decayPuuids) {
+      const gameEnds = gameEndsBy.get(pid) ?? []
+      // last_game_at covers a game whose match hasn't been ingested yet.
+      const lastGameAt = stateBy.get(pid)?.last_game_at
+      const lastGameMs = lastGameAt ? new Date(lastGameAt).getTime() : NaN
+      if (Number.isFinite(lastGameMs) && gameEnds.every((ts) => ts < lastGameMs)) gameEnds.push(lastGameMs)
+      decayBy.set(pid, computeDecayStatus(queuesByPuuid.get(pid)?.solo?.tier, gameEnds, nowMs))
+    }
+
     const playerCards = playersSorted.map((player, idx) => ({
       player,
       index: idx + 1,
       rankData: rankBy.get(player.puuid) ?? null,
       stateData: stateBy.get(player.puuid) ?? null,
       topChamps: champsBy.get(player.puuid) ?? [],
+      decay: decayBy.get(player.puuid) ?? null,
     }))
 
     return {
@@ -300,13 +349,139 @@ const getLeaderboardPageDataCached = (lbId: string, ddVersion: string) =>
       lastUpdatedIso,
     }
   },
-  ['lb-page-data-v6', lbId, ddVersion],
+  ['lb-page-data-v7', lbId, ddVersion],
+  { revalidate: PAGE_CACHE_TTL_SECONDS }
+)()
+
+interface SeasonParticipantRaw {
+  puuid: string
+  champion_id: number | null
+  matches: Array<{ game_end_ts: number | null; queue_id: number | null }>
+}
+
+// Past seasons never change once archived, so the final standings come from
+// player_season_ranks and top champions are recounted from the season's games.
+const getArchivedSeasonPageDataCached = (lbId: string, ddVersion: string, season: SeasonInfo) =>
+  unstable_cache(
+  async (): Promise<LeaderboardPageData> => {
+    const supabase = createServiceClient()
+
+    const [champMap, playersRaw] = await Promise.all([
+      getChampionMap(ddVersion).catch(() => ({})),
+      safeDb(
+        supabase
+          .from('leaderboard_players')
+          .select('id, puuid, game_name, tag_line, role, twitch_url, twitter_url, sort_order')
+          .eq('leaderboard_id', lbId)
+          .order('sort_order', { ascending: true })
+          .limit(50),
+        [] as Player[],
+        'leaderboard_players'
+      ),
+    ])
+
+    const players: Player[] = playersRaw
+    const puuids = players.map((p) => p.puuid).filter(Boolean)
+
+    const startMs = new Date(season.startIso).getTime()
+    const endMs = season.endIso ? new Date(season.endIso).getTime() : Date.now()
+
+    const fetchSeasonParticipants = async () => {
+      const pageSize = 1000
+      const rows: SeasonParticipantRaw[] = []
+      for (let from = 0; ; from += pageSize) {
+        const page = await safeDb(
+          supabase
+            .from('match_participants')
+            .select('puuid, champion_id, matches!inner(game_end_ts, queue_id)')
+            .in('puuid', puuids)
+            .or('end_type.is.null,end_type.neq.REMAKE')
+            .eq('matches.queue_id', 420)
+            .gte('matches.game_end_ts', startMs)
+            .lt('matches.game_end_ts', endMs)
+            .order('match_id', { ascending: true })
+            .range(from, from + pageSize - 1),
+          [] as SeasonParticipantRaw[],
+          'match_participants'
+        )
+        rows.push(...page)
+        if (page.length < pageSize) break
+      }
+      return rows
+    }
+
+    const [statesRaw, ranksRaw, participantsRaw] = puuids.length > 0
+      ? await Promise.all([
+          safeDb(supabase.from('player_riot_state').select('*').in('puuid', puuids), [] as PlayerRiotState[], 'player_riot_state'),
+          safeDb(
+            supabase
+              .from('player_season_ranks')
+              .select('puuid, queue_type, tier, rank, league_points, wins, losses, fetched_at')
+              .eq('season', season.season)
+              .in('puuid', puuids)
+              .in('queue_type', ['RANKED_SOLO_5x5', 'RANKED_FLEX_SR']),
+            [] as PlayerRankSnapshot[],
+            'player_season_ranks'
+          ),
+          fetchSeasonParticipants(),
+        ])
+      : [[] as PlayerRiotState[], [] as PlayerRankSnapshot[], [] as SeasonParticipantRaw[]]
+
+    const stateBy = new Map(statesRaw.map((s) => [s.puuid, s]))
+
+    const queuesByPuuid = new Map<string, { solo: PlayerRankSnapshot | null; flex: PlayerRankSnapshot | null }>()
+    for (const r of ranksRaw) {
+      const entry = queuesByPuuid.get(r.puuid) ?? { solo: null, flex: null }
+      if (r.queue_type === 'RANKED_SOLO_5x5') entry.solo = r
+      else if (r.queue_type === 'RANKED_FLEX_SR') entry.flex = r
+      queuesByPuuid.set(r.puuid, entry)
+    }
+
+    const rankBy = new Map<string, PlayerRankSnapshot | null>()
+    for (const pid of puuids) {
+      const entry = queuesByPuuid.get(pid)
+      rankBy.set(pid, entry ? (entry.solo ?? entry.flex ?? null) : null)
+    }
+
+    const gamesBy = new Map<string, Map<number, number>>()
+    for (const row of participantsRaw) {
+      if (!row.puuid || !row.champion_id) continue
+      const byChamp = gamesBy.get(row.puuid) ?? new Map<number, number>()
+      byChamp.set(row.champion_id, (byChamp.get(row.champion_id) ?? 0) + 1)
+      gamesBy.set(row.puuid, byChamp)
+    }
+
+    const playersSorted = [...players].sort((a, b) => {
+      const rankA = rankBy.get(a.puuid)
+      const rankB = rankBy.get(b.puuid)
+      return compareRanks(rankA ?? undefined, rankB ?? undefined)
+    })
+
+    const playerCards = playersSorted.map((player, idx) => ({
+      player,
+      index: idx + 1,
+      rankData: rankBy.get(player.puuid) ?? null,
+      stateData: stateBy.get(player.puuid) ?? null,
+      topChamps: Array.from(gamesBy.get(player.puuid)?.entries() ?? [])
+        .map(([champion_id, games]) => ({ champion_id, games }))
+        .sort((a, b) => b.games - a.games)
+        .slice(0, 5),
+    }))
+
+    return {
+      champMap,
+      playerCards,
+      cutoffs: [],
+      lastUpdatedIso: null,
+    }
+  },
+  ['lb-season-data-v1', lbId, ddVersion, String(season.season)],
   { revalidate: PAGE_CACHE_TTL_SECONDS }
 )()
 
 // --- Components ---
 
-  function TeamHeaderCard({ name, description, leaderboardCode, visibility, activeTab, bannerUrl, cutoffs = [], lastUpdated = null }: TeamHeaderCardProps) {
+  function TeamHeaderCard({ name, description, leaderboardCode, visibility, activeTab, bannerUrl, cutoffs = [], lastUpdated = null, season = null }: TeamHeaderCardProps) {
     const formattedLastUpdated = lastUpdated
       ? new Date(lastUpdated).toLocaleString('en-US', {
           month: 'short',
@@ -334,7 +509,7 @@ const getLeaderboardPageDataCached = (lbId: string, ddVersion: string) =>
       <div className="relative flex flex-col lg:flex-row">
         <div className="flex-1 p-8 lg:p-10">
           <div className="mb-4 lg:mb-6">
-            <LeaderboardTabs leaderboardCode={leaderboardCode} activeTab={activeTab} visibility={visibility} />
+            <LeaderboardTabs leaderboardCode={leaderboardCode} activeTab={activeTab} visibility={visibility} season={season} />
           </div>
           <h1 className="text-4xl lg:text-5xl font-black tracking-tight text-transparent bg-clip-text bg-gradient-to-br from-slate-900 via-slate-800 to-slate-600 mb-4 pb-2 pt-2 dark:from-white dark:via-slate-200 dark:to-slate-400">{name}</h1>
           {description && <p className="text-base lg:text-lg text-slate-600 leading-relaxed max-w-2xl font-medium dark:text-slate-300">{description}</p>}
@@ -390,7 +565,19 @@ export async function generateMetadata({ params }: { params: Promise<{ slug: str
   }
 }
 
-async function LeaderboardBody({ lbId, slug, ddVersion }: { lbId: string; slug: string; ddVersion: string }) {
+async function LeaderboardBody({
+  lbId,
+  slug,
+  ddVersion,
+  flexEnabled,
+  archivedSeason,
+}: {
+  lbId: string
+  slug: string
+  ddVersion: string
+  flexEnabled: boolean
+  archivedSeason: SeasonInfo | null
+}) {
   const supabase = await createClient()
 
   const viewResult = await supabase.rpc('increment_leaderboard_view', { slug_input: slug })
@@ -398,14 +585,37 @@ async function LeaderboardBody({ lbId, slug, ddVersion }: { lbId: string; slug:
     console.error('Failed to increment leaderboard view:', viewResult.error)
   }
 
+  if (archivedSeason) {
+    const { champMap, playerCards } = await getArchivedSeasonPageDataCached(lbId, ddVersion, archivedSeason)
+
+    return (
+      <div className="max-w-[820px] mx-auto space-y-4">
+        <div className="flex items-center gap-2">
+          <div className="h-1 w-8 bg-gradient-to-r from-amber-400 to-amber-600 rounded-full" />
+          <h2 className="text-xs font-black uppercase tracking-widest text-slate-600 dark:text-slate-300">
+            Season {archivedSeason.season} final standings
+          </h2>
+        </div>
+        <PlayerMatchHistoryClient lbId={lbId} playerCards={playerCards} champMap={champMap} ddVersion={ddVersion} season={archivedSeason.season} />
+      </div>
+    )
+  }
+
   const data = await getLeaderboardPageDataCached(lbId, ddVersion)
 
   const {
     champMap,
-    playerCards,
     cutoffs,
   } = data
 
+  // Live state changes every refresh run, so it's read outside the page data cache.
+  const liveGames = await getLiveGamesForPuuids(data.playerCards.map((card) => card.player.puuid))
+  const liveByPuuid = new Map(liveGames.map((game) => [game.puuid, game]))
+  const playerCards = data.playerCards.map((card) => ({
+    ...card,
+    liveGame: liveByPuuid.get(card.player.puuid) ?? null,
+  }))
+
   return (
     <div className="grid grid-cols-1 lg:grid-cols-[280px_minmax(0,820px)_280px] gap-8 lg:gap-10 items-start justify-center">
       <Suspense fallback={<LatestActivitySkeleton />}>
@@ -413,13 +623,16 @@ async function LeaderboardBody({ lbId, slug, ddVersion }: { lbId: string; slug:
       </Suspense>
 
       <div className="order-1 lg:order-2 space-y-8 lg:space-y-10">
+        <Suspense fallback={null}>
+          <TeamStandingsServer lbId={lbId} />
+        </Suspense>
         <div className="max-w-[820px] mx-auto">
-          <PlayerMatchHistoryClient playerCards={playerCards} champMap={champMap} ddVersion={ddVersion} />
+          <PlayerMatchHistoryClient lbId={lbId} playerCards={playerCards} champMap={champMap} ddVersion={ddVersion} />
         </div>
       </div>
 
       <Suspense fallback={<MoversSkeleton />}>
-        <MoversServer lbId={lbId} ddVersion={ddVersion} cutoffs={cutoffs} />
+        <MoversServer lbId={lbId} ddVersion={ddVersion} cutoffs={cutoffs} flexEnabled={flexEnabled} />
       </Suspense>
     </div>
   )
@@ -447,12 +660,16 @@ function MoversSkeleton() {
 
 export default async function LeaderboardDetail({
   params,
+  searchParams,
   fromCodeRoute = false,
 }: {
   params: Promise<{ slug: string }>
+  searchParams?: Promise<{ season?: string }>
   fromCodeRoute?: boolean
 }) {
   const { slug } = await params
+  const { season: seasonParam } = (await searchParams) ?? {}
+  const archivedSeason = parseArchivedSeason(seasonParam)
   const latestPatch = await getLatestDdragonVersion().catch(() => null)
   const ddVersion = latestPatch || process.env.NEXT_PUBLIC_DDRAGON_VERSION || DEFAULT_DDRAGON_VERSION
   const supabase = await createClient()
@@ -467,7 +684,7 @@ export default async function LeaderboardDetail({
   }
 
   if (!fromCodeRoute) {
-    redirect(`/leaderboards/${lb.leaderboard_code}`)
+    redirect(archivedSeason ? `/leaderboards/${lb.leaderboard_code}?season=${archivedSeason.season}` : `/leaderboards/${lb.leaderboard_code}`)
   }
 
   return (
@@ -481,6 +698,7 @@ export default async function LeaderboardDetail({
             visibility={lb.visibility}
             activeTab="overview"
             bannerUrl={lb.banner_url}
+            season={archivedSeason?.season ?? null}
           />
         </div>
         <Suspense
@@ -492,7 +710,13 @@ export default async function LeaderboardDetail({
             </div>
           }
         >
-          <LeaderboardBody lbId={lb.id} slug={slug} ddVersion={ddVersion} />
+          <LeaderboardBody
+            lbId={lb.id}
+            slug={slug}
+            ddVersion={ddVersion}
+            flexEnabled={Boolean(lb.track_flex)}
+            archivedSeason={archivedSeason}
+          />
         </Suspense>
       </div>
     </main>
@@ -2,8 +2,10 @@ import { notFound, redirect } from 'next/navigation'
 import { createClient } from '@/lib/supabase/server'
 import { getChampionMap, championIconUrl } from '@/lib/champions'
 import { getLatestDdragonVersion } from '@/lib/riot/getLatestDdragonVersion'
-import { getSeasonStartIso } from '@/lib/riot/season'
+import { getSeasonStartIso, parseArchivedSeason } from '@/lib/riot/season'
 import { formatMatchDuration, getKdaColor } from '@/lib/formatters'
+import { computeDuoStats } from '@/lib/leaderboard/duos'
+import { computeRivalries } from '@/lib/leaderboard/rivalries'
 import ChampionTable from './ChampionTable'
 import StatsHighlightsClient, { type ListBlock, type PodiumBlock } from '@/app/lb/[slug]/stats/StatsHighlightsClient'
 import LeaderboardTabs from '@/components/LeaderboardTabs'
@@ -27,6 +29,8 @@ type MatchParticipant = {
   win: boolean
   vision_score?: number | null
   end_type?: string | null
+  team_id?: number | null
+  lp_change?: number | null
 }
 
 type MatchParticipantRow = MatchParticipant & {
@@ -144,6 +148,7 @@ function TeamHeaderCard({
   cutoffs,
   bannerUrl,
   lastUpdated = null,
+  season = null,
 }: {
   name: string
   description?: string | null
@@ -153,6 +158,7 @@ function TeamHeaderCard({
   cutoffs: Array<{ label: string; lp: number; icon: string }>
   bannerUrl: string | null
   lastUpdated?: string | null
+  season?: number | null
 }) {
   const formattedLastUpdated = lastUpdated
     ? new Date(lastUpdated).toLocaleString('en-US', {
@@ -182,7 +188,7 @@ function TeamHeaderCard({
       <div className="relative flex flex-col lg:flex-row">
         <div className="flex-1 p-8 lg:p-10">
           <div className="mb-4 lg:mb-6">
-            <LeaderboardTabs leaderboardCode={leaderboardCode} activeTab={activeTab} visibility={visibility} />
+            <LeaderboardTabs leaderboardCode={leaderboardCode} activeTab={activeTab} visibility={visibility} season={season} />
           </div>
           <h1 className="text-4xl lg:text-5xl font-black tracking-tight text-transparent bg-clip-text bg-gradient-to-br from-slate-900 via-slate-800 to-slate-600 mb-4 pb-2 pt-2 dark:from-white dark:via-slate-200 dark:to-slate-400">{name}</h1>
           {description && <p className="text-base lg:text-lg text-slate-600 leading-relaxed max-w-2xl font-medium dark:text-slate-300">{description}</p>}
@@ -211,12 +217,16 @@ function TeamHeaderCard({
 
 export default async function LeaderboardStatsPage({
   params,
+  searchParams,
   fromCodeRoute = false,
 }: {
   params: Promise<{ slug: string }>
+  searchParams?: Promise<{ season?: string }>
   fromCodeRoute?: boolean
 }) {
   const { slug } = await params
+  const { season: seasonParam } = (await searchParams) ?? {}
+  const archivedSeason = parseArchivedSeason(seasonParam)
   const supabase = await createClient()
 
   const [latestPatch, leaderboardRes] = await Promise.all([
@@ -244,7 +254,7 @@ export default async function LeaderboardStatsPage({
   }
 
   if (!fromCodeRoute) {
-    redirect(`/leaderboards/${lb.leaderboard_code}/stats`)
+    redirect(archivedSeason ? `/leaderboards/${lb.leaderboard_code}/stats?season=${archivedSeason.season}` : `/leaderboards/${lb.leaderboard_code}/stats`)
   }
 
   const { data: playersRaw } = await supabase
@@ -289,6 +299,7 @@ export default async function LeaderboardStatsPage({
             activeTab="stats"
             cutoffs={[]}
             bannerUrl={lb.banner_url}
+            season={archivedSeason?.season ?? null}
           />
           <div className="rounded-2xl border border-dashed border-slate-200 bg-white p-6 text-center text-sm text-slate-600 dark:border-slate-700 dark:bg-slate-900 dark:text-slate-300">
             No players found for this leaderboard yet.
@@ -298,24 +309,35 @@ export default async function LeaderboardStatsPage({
     )
   }
 
-  const seasonStartMs = new Date(getSeasonStartIso({ ddVersion })).getTime()
+  // Past seasons read the archived final ranks and only the games inside that season's window.
+  const seasonStartMs = new Date(archivedSeason?.startIso ?? getSeasonStartIso({ ddVersion })).getTime()
+  const seasonEndMs = archivedSeason?.endIso ? new Date(archivedSeason.endIso).getTime() : null
+
+  let participantsQuery = supabase
+    .from('match_participants')
+    .select('match_id, puuid, champion_id, kills, deaths, assists, cs, win, vision_score, end_type, team_id, lp_change, matches!inner(game_duration_s, game_end_ts, queue_id)')
+    .in('puuid', puuids)
+    .or('end_type.is.null,end_type.neq.REMAKE')
+    .eq('matches.queue_id', 420)
+    .gte('matches.game_end_ts', seasonStartMs)
+  if (seasonEndMs !== null) participantsQuery = participantsQuery.lt('matches.game_end_ts', seasonEndMs)
 
   const [stateRes, rankRes, participantsRes] = await Promise.all([
     supabase
       .from('player_riot_state')
       .select('puuid, profile_icon_id')
       .in('puuid', puuids),
-    supabase
-      .from('player_rank_snapshot')
-      .select('puuid, queue_type, tier, rank, league_points, wins, losses')
-      .in('puuid', puuids),
-    supabase
-      .from('match_participants')
-      .select('match_id, puuid, champion_id, kills, deaths, assists, cs, win, vision_score, end_type, matches!inner(game_duration_s, game_end_ts, queue_id)')
-      .in('puuid', puuids)
-      .or('end_type.is.null,end_type.neq.REMAKE')
-      .eq('matches.queue_id', 420)
-      .gte('matches.game_end_ts', seasonStartMs),
+    archivedSeason
+      ? supabase
+          .from('player_season_ranks')
+          .select('puuid, queue_type, tier, rank, league_points, wins, losses')
+          .eq('season', archivedSeason.season)
+          .in('puuid', puuids)
+      : supabase
+          .from('player_rank_snapshot')
+          .select('puuid, queue_type, tier, rank, league_points, wins, losses')
+          .in('puuid', puuids),
+    participantsQuery,
   ])
 
   const stateBy = new Map((stateRes.data ?? []).map((row) => [row.puuid, row]))
@@ -366,6 +388,8 @@ export default async function LeaderboardStatsPage({
       win: row.win,
       vision_score: row.vision_score,
       end_type: row.end_type,
+      team_id: row.team_id,
+      lp_change: row.lp_change,
     })
   }
 
@@ -661,6 +685,34 @@ export default async function LeaderboardStatsPage({
 
   const noGames = participants.length === 0
 
+  const duoRows = computeDuoStats(participants, new Set(puuids))
+    .slice(0, 10)
+    .map((duo) => ({
+      ...duo,
+      players: duo.puuids.map((puuid) => {
+        const player = playersByPuuid.get(puuid)
+        return { puuid, name: player ? displayRiotId(player) : puuid, iconUrl: iconUrlByPuuid.get(puuid) ?? null }
+      }),
+    }))
+
+  const champIconById = (championId: number) => {
+    const champ = champMap[championId]
+    return champ ? { name: champ.name, iconUrl: championIconUrl(ddVersion, champ.id) } : null
+  }
+
+  const rivalryRows = computeRivalries(
+    participants.map((row) => ({ ...row, end_ts: matchById.get(row.match_id)?.endTs ?? null })),
+    new Set(puuids)
+  )
+    .slice(0, 6)
+    .map((rivalry) => ({
+      ...rivalry,
+      players: rivalry.puuids.map((puuid) => {
+        const player = playersByPuuid.get(puuid)
+        return { puuid, name: player ? displayRiotId(player) : puuid, iconUrl: iconUrlByPuuid.get(puuid) ?? null }
+      }),
+    }))
+
   const singleGameTopBlocks: PodiumBlock[] = singleGameTopRow.map((block) => ({
     id: block.id,
     title: block.title,
@@ -804,6 +856,7 @@ export default async function LeaderboardStatsPage({
             activeTab="stats"
             cutoffs={[]}
             bannerUrl={lb.banner_url}
+            season={archivedSeason?.season ?? null}
           />
         </div>
 
@@ -843,7 +896,7 @@ export default async function LeaderboardStatsPage({
             <div className="flex items-center gap-2">
               <div className="h-1 w-8 rounded-full bg-gradient-to-r from-emerald-400 to-emerald-600" />
               <h2 className="text-sm font-black uppercase tracking-widest text-slate-500 dark:text-slate-400">
-                Champion Analytics
+                {archivedSeason ? `Season ${archivedSeason.season} Champion Analytics` : 'Champion Analytics'}
               </h2>
             </div>
 
@@ -856,6 +909,175 @@ export default async function LeaderboardStatsPage({
             </div>
           </section>
 
+          <section className="space-y-4">
+            <div className="flex items-center gap-2">
+              <div className="h-1 w-8 rounded-full bg-gradient-to-r from-indigo-400 to-indigo-600" />
+              <h2 className="text-sm font-black uppercase tracking-widest text-slate-500 dark:text-slate-400">Duos</h2>
+            </div>
+
+            <div className="rounded-2xl border border-slate-200 bg-white shadow-sm dark:border-slate-800 dark:bg-slate-900">
+              {duoRows.length === 0 ? (
+                <div className="p-6 text-center text-sm text-slate-500 dark:text-slate-400">
+                  No games with two leaderboard players on the same team yet.
+                </div>
+              ) : (
+                <div className="divide-y divide-slate-100 dark:divide-slate-800">
+                  {duoRows.map((duo) => {
+                    return (
+                      <div key={duo.puuids.join('|')} className="flex items-center gap-4 px-4 py-3 lg:px-6">
+                        <div className="flex -space-x-2 shrink-0">
+                          {duo.players.map((p) =>
+                            p.iconUrl ? (
+                              // eslint-disable-next-line @next/next/no-img-element
+                              <img
+                                key={p.puuid}
+                                src={p.iconUrl}
+                                alt=""
+                                className="h-8 w-8 rounded-full border-2 border-white object-cover dark:border-slate-900"
+                              />
+                            ) : (
+                              <div key={p.puuid} className="h-8 w-8 rounded-full border-2 border-white bg-slate-200 dark:border-slate-900 dark:bg-slate-700" />
+                            )
+                          )}
+                        </div>
+                        <div className="min-w-0 flex-1 truncate text-sm font-bold text-slate-900 dark:text-slate-100">
+                          {duo.players.map((p) => p.name).join(' + ')}
+                        </div>
+                        <div className="flex items-center gap-6 shrink-0 text-right">
+                          <div className="w-16">
+                            <div className="text-sm font-black text-slate-900 tabular-nums dark:text-slate-100">{duo.games}</div>
+                            <div className="text-[10px] font-semibold uppercase tracking-wide text-slate-400 dark:text-slate-500">Games</div>
+                          </div>
+                          <div className="w-20">
+                            <div className="text-sm font-black text-slate-900 tabular-nums dark:text-slate-100">
+                              {formatWinrate(duo.wins, duo.games)}
+                            </div>
+                            <div className="text-[10px] font-semibold uppercase tracking-wide text-slate-400 dark:text-slate-500">
+                              {duo.wins}W - {duo.losses}L
+                            </div>
+                          </div>
+                          <div className="w-20">
+                            <div
+                              className={`text-sm font-black tabular-nums ${
+                                duo.lpGained > 0
+                                  ? 'text-emerald-600 dark:text-emerald-400'
+                                  : duo.lpGained < 0
+                                    ? 'text-rose-600 dark:text-rose-400'
+                                    : 'text-slate-500 dark:text-slate-400'
+                              }`}
+                            >
+                              {duo.lpGained > 0 ? '+' : ''}
+                              {duo.lpGained} LP
+                            </div>
+                            <div className="text-[10px] font-semibold uppercase tracking-wide text-slate-400 dark:text-slate-500">Together</div>
+                          </div>
+                        </div>
+                      </div>
+                    )
+                  })}
+                </div>
+              )}
+            </div>
+          </section>
+
+          <section className="space-y-4">
+            <div className="flex items-center gap-2">
+              <div className="h-1 w-8 rounded-full bg-gradient-to-r from-rose-400 to-rose-600" />
+              <h2 className="text-sm font-black uppercase tracking-widest text-slate-500 dark:text-slate-400">Rivalries</h2>
+            </div>
+
+            {rivalryRows.length === 0 ? (
+              <div className="rounded-2xl border border-slate-200 bg-white p-6 text-center text-sm text-slate-500 shadow-sm dark:border-slate-800 dark:bg-slate-900 dark:text-slate-400">
+                No games with leaderboard players on opposite teams yet.
+              </div>
+            ) : (
+              <div className="grid gap-4 md:grid-cols-2 xl:grid-cols-3">
+                {rivalryRows.map((rivalry) => (
+                  <div
+                    key={rivalry.puuids.join('|')}
+                    className="rounded-2xl border border-slate-200 bg-white p-4 shadow-sm dark:border-slate-800 dark:bg-slate-900"
+                  >
+                    <div className="grid grid-cols-[minmax(0,1fr)_auto_minmax(0,1fr)] items-center gap-3">
+                      {rivalry.players.map((p, side) => (
+                        <div
+                          key={p.puuid}
+                          className={`flex min-w-0 items-center gap-2 ${side === 1 ? 'order-3 flex-row-reverse text-right' : ''}`}
+                        >
+                          {p.iconUrl ? (
+                            // eslint-disable-next-line @next/next/no-img-element
+                            <img src={p.iconUrl} alt="" className="h-9 w-9 shrink-0 rounded-full object-cover" />
+                          ) : (
+                            <div className="h-9 w-9 shrink-0 rounded-full bg-slate-200 dark:bg-slate-700" />
+                          )}
+                          <div className="min-w-0">
+                            <div className="truncate text-sm font-bold text-slate-900 dark:text-slate-100">{p.name}</div>
+                            <div
+                              className={`text-[11px] font-semibold tabular-nums ${
+                                rivalry.lpSwing[side] >= 0 ? 'text-emerald-600 dark:text-emerald-400' : 'text-rose-600 dark:text-rose-400'
+                              }`}
+                            >
+                              {rivalry.lpSwing[side] > 0 ? '+' : ''}
+                              {rivalry.lpSwing[side]} LP
+                            </div>
+                          </div>
+                        </div>
+                      ))}
+                      <div className="order-2 text-center">
+                        <div className="text-2xl font-black tabular-nums text-slate-900 dark:text-slate-100">
+                          {rivalry.wins[0]} - {rivalry.wins[1]}
+                        </div>
+                        <div className="text-[10px] font-semibold uppercase tracking-wide text-slate-400 dark:text-slate-500">
+                          {rivalry.games} {rivalry.games === 1 ? 'game' : 'games'}
+                        </div>
+                      </div>
+                    </div>
+
+                    <div className="mt-4 space-y-1.5 border-t border-slate-100 pt-3 dark:border-slate-800">
+                      <div className="text-[10px] font-semibold uppercase tracking-widest text-slate-400 dark:text-slate-500">Recent encounters</div>
+                      {rivalry.encounters.slice(0, 3).map((encounter) => (
+                        <div key={encounter.matchId} className="flex items-center justify-between gap-2 text-xs">
+                          {encounter.championIds.map((championId, side) => {
+                            const champ = champIconById(championId)
+                            const lp = encounter.lpChanges[side]
+                            const won = encounter.winner === rivalry.puuids[side]
+                            return (
+                              <div
+                                key={side}
+                                className={`flex items-center gap-1.5 ${side === 1 ? 'flex-row-reverse' : ''}`}
+                              >
+                                {champ ? (
+                                  // eslint-disable-next-line @next/next/no-img-element
+                                  <img
+                                    src={champ.iconUrl}
+                                    alt={champ.name}
+                                    title={champ.name}
+                                    className={`h-6 w-6 rounded-md border-2 ${won ? 'border-emerald-400' : 'border-rose-300 opacity-70'}`}
+                                  />
+                                ) : (
+                                  <div className="h-6 w-6 rounded-md bg-slate-200 dark:bg-slate-700" />
+                                )}
+                                <span className="font-semibold tabular-nums text-slate-500 dark:text-slate-400">
+                                  {typeof lp === 'number' ? `${lp > 0 ? '+' : ''}${lp} LP` : '—'}
+                                </span>
+                              </div>
+                            )
+                          })}
+                        </div>
+                      ))}
+                      {rivalry.matchups.length > 1 && (
+                        <div className="pt-1 text-[10px] text-slate-400 dark:text-slate-500">
+                          Most played matchup:{' '}
+                          {rivalry.matchups[0].championIds.map((id) => champIconById(id)?.name ?? 'Unknown').join(' vs ')} (
+                          {rivalry.matchups[0].wins[0]}-{rivalry.matchups[0].wins[1]})
+                        </div>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </section>
+
           <StatsHighlightsClient
             singleGameTopRow={singleGameTopBlocks}
             singleGameBottomRow={singleGameBottomBlocks}
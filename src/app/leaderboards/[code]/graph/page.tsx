@@ -25,11 +25,13 @@ export const revalidate = 600
 
 export default async function LeaderboardGraphPageByCode({
   params,
+  searchParams,
 }: {
   params: Promise<{ code: string }>
+  searchParams: Promise<{ queue?: string; season?: string }>
 }) {
   const { code } = await params
   const slug = await resolveSlugFromCode(code)
-  return LeaderboardGraphPageBySlug({ params: Promise.resolve({ slug }), fromCodeRoute: true })
+  return LeaderboardGraphPageBySlug({ params: Promise.resolve({ slug }), searchParams, fromCodeRoute: true })
 }
 
@@ -31,11 +31,13 @@ export async function generateMetadata({ params }: { params: Promise<{ code: str
 
 export default async function LeaderboardPageByCode({
   params,
+  searchParams,
 }: {
   params: Promise<{ code: string }>
+  searchParams: Promise<{ season?: string }>
 }) {
   const { code } = await params
   const slug = await resolveSlugFromCode(code)
-  return LeaderboardPageBySlug({ params: Promise.resolve({ slug }), fromCodeRoute: true })
+  return LeaderboardPageBySlug({ params: Promise.resolve({ slug }), searchParams, fromCodeRoute: true })
 }
 
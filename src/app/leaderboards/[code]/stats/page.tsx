@@ -23,11 +23,13 @@ async function resolveSlugFromCode(code: string): Promise<string> {
 
 export default async function LeaderboardStatsPageByCode({
   params,
+  searchParams,
 }: {
   params: Promise<{ code: string }>
+  searchParams: Promise<{ season?: string }>
 }) {
   const { code } = await params
   const slug = await resolveSlugFromCode(code)
-  return LeaderboardStatsPageBySlug({ params: Promise.resolve({ slug }), fromCodeRoute: true })
+  return LeaderboardStatsPageBySlug({ params: Promise.resolve({ slug }), searchParams, fromCodeRoute: true })
 }
 
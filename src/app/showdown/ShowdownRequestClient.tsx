@@ -1,6 +1,7 @@
 'use client'
 
 import { useMemo, useState, useTransition } from 'react'
+import ShowdownTermsFields, { type ShowdownFormatOption } from './ShowdownTermsFields'
 
 type ClubOption = {
   id: string
@@ -10,11 +11,24 @@ type ClubOption = {
 type Props = {
   action: (formData: FormData) => void
   clubs: ClubOption[]
+  formats: ShowdownFormatOption[]
+  durations: number[]
+  defaultDuration: number
+  maxRosterSize: number
   canRequest: boolean
   defaultClubId?: string | null
 }
 
-export default function ShowdownRequestClient({ action, clubs, canRequest, defaultClubId }: Props) {
+export default function ShowdownRequestClient({
+  action,
+  clubs,
+  formats,
+  durations,
+  defaultDuration,
+  maxRosterSize,
+  canRequest,
+  defaultClubId,
+}: Props) {
   const [selectedClub, setSelectedClub] = useState(defaultClubId ?? '')
   const [targetClub, setTargetClub] = useState('')
   const [isPending, startTransition] = useTransition()
@@ -72,6 +86,14 @@ export default function ShowdownRequestClient({ action, clubs, canRequest, defau
         </label>
       </div>
 
+      <ShowdownTermsFields
+        formats={formats}
+        durations={durations}
+        maxRosterSize={maxRosterSize}
+        defaultDuration={defaultDuration}
+        disabled={!canRequest || isPending}
+      />
+
       <button
         type="submit"
         disabled={!canRequest || !selectedClub || !targetClub || isPending}
@@ -81,7 +103,7 @@ export default function ShowdownRequestClient({ action, clubs, canRequest, defau
       </button>
 
       {!canRequest && (
-        <p className="text-xs text-slate-500 dark:text-slate-400">Sign in and join a club to request a showdown.</p>
+        <p className="text-xs text-slate-500 dark:text-slate-400">Sign in as a club owner, admin or moderator to request a showdown.</p>
       )}
     </form>
   )
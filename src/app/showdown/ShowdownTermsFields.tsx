@@ -0,0 +1,106 @@
+'use client'
+
+import { useState } from 'react'
+
+export type ShowdownFormatOption = {
+  value: string
+  label: string
+  hint: string
+}
+
+type Props = {
+  formats: ShowdownFormatOption[]
+  durations: number[]
+  maxRosterSize: number
+  defaultFormat?: string
+  defaultDuration: number
+  defaultStartAt?: string | null
+  defaultRosterSize?: number | null
+  disabled?: boolean
+}
+
+const FIELD_CLASS =
+  'rounded-xl border-2 border-slate-200 bg-white px-3 py-2 text-sm font-medium text-slate-800 outline-none transition focus:border-blue-400 focus:ring-4 focus:ring-blue-400/10 disabled:cursor-not-allowed disabled:opacity-70 dark:border-slate-700 dark:bg-slate-950 dark:text-slate-100'
+
+function isoToLocalInput(value?: string | null) {
+  if (!value) return ''
+  const date = new Date(value)
+  if (Number.isNaN(date.getTime())) return ''
+  return date.toISOString().slice(0, 16)
+}
+
+// The negotiable terms of a showdown, shared by the request and counter-proposal forms.
+export default function ShowdownTermsFields({
+  formats,
+  durations,
+  maxRosterSize,
+  defaultFormat,
+  defaultDuration,
+  defaultStartAt,
+  defaultRosterSize,
+  disabled = false,
+}: Props) {
+  const [format, setFormat] = useState(defaultFormat ?? formats[0]?.value ?? '')
+
+  return (
+    <div className="grid gap-3 sm:grid-cols-2">
+      <label className="grid gap-2 text-sm font-semibold text-slate-700 dark:text-slate-200">
+        Scoring
+        <select
+          name="format"
+          value={format}
+          onChange={(event) => setFormat(event.target.value)}
+          disabled={disabled}
+          className={FIELD_CLASS}
+        >
+          {formats.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+        <span className="text-xs font-normal text-slate-500 dark:text-slate-400">
+          {formats.find((option) => option.value === format)?.hint}
+        </span>
+      </label>
+
+      <label className="grid content-start gap-2 text-sm font-semibold text-slate-700 dark:text-slate-200">
+        Duration
+        <select name="duration_days" defaultValue={String(defaultDuration)} disabled={disabled} className={FIELD_CLASS}>
+          {durations.map((days) => (
+            <option key={days} value={days}>
+              {days} days
+            </option>
+          ))}
+        </select>
+      </label>
+
+      <label className="grid content-start gap-2 text-sm font-semibold text-slate-700 dark:text-slate-200">
+        Start
+        <input
+          type="datetime-local"
+          name="proposed_start_at"
+          defaultValue={isoToLocalInput(defaultStartAt)}
+          disabled={disabled}
+          className={FIELD_CLASS}
+        />
+        <span className="text-xs font-normal text-slate-500 dark:text-slate-400">Leave empty to start on acceptance.</span>
+      </label>
+
+      <label className="grid content-start gap-2 text-sm font-semibold text-slate-700 dark:text-slate-200">
+        Roster size
+        <input
+          type="number"
+          name="roster_size"
+          min={1}
+          max={maxRosterSize}
+          defaultValue={defaultRosterSize ?? ''}
+          placeholder="All members"
+          disabled={disabled}
+          className={FIELD_CLASS}
+        />
+        <span className="text-xs font-normal text-slate-500 dark:text-slate-400">Only each club&apos;s best N members count.</span>
+      </label>
+    </div>
+  )
+}
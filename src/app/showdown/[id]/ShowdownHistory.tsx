@@ -0,0 +1,39 @@
+import { describeShowdownTerms, SHOWDOWN_HISTORY_LABELS, type ShowdownHistoryRow } from '@/lib/showdowns'
+
+type Props = {
+  history: ShowdownHistoryRow[]
+  clubNames: Map<string, string>
+}
+
+function formatDateTime(value: string) {
+  return new Date(value).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' })
+}
+
+export default function ShowdownHistory({ history, clubNames }: Props) {
+  if (history.length === 0) return null
+
+  return (
+    <section className="rounded-2xl border-2 border-slate-200 bg-white p-6 shadow-sm dark:border-slate-800 dark:bg-slate-900">
+      <h2 className="text-lg font-bold text-slate-900 dark:text-slate-100">History</h2>
+      <ol className="mt-4 space-y-3 border-l-2 border-slate-200 pl-4 dark:border-slate-800">
+        {history.map((entry) => (
+          <li key={entry.id} className="text-sm">
+            <div className="flex flex-wrap items-baseline justify-between gap-2">
+              <span className="font-semibold text-slate-900 dark:text-slate-100">
+                {SHOWDOWN_HISTORY_LABELS[entry.status] ?? entry.status}
+                {entry.actor_club_id && (
+                  <span className="font-normal text-slate-500 dark:text-slate-400"> by {clubNames.get(entry.actor_club_id) ?? 'a club'}</span>
+                )}
+              </span>
+              <span className="text-[11px] text-slate-500 dark:text-slate-400">{formatDateTime(entry.created_at)}</span>
+            </div>
+            {entry.terms && (entry.status === 'REQUESTED' || entry.status === 'COUNTERED') && (
+              <p className="mt-0.5 text-xs text-slate-500 dark:text-slate-400">{describeShowdownTerms(entry.terms)}</p>
+            )}
+            {entry.note && <p className="mt-0.5 text-xs italic text-slate-600 dark:text-slate-300">“{entry.note}”</p>}
+          </li>
+        ))}
+      </ol>
+    </section>
+  )
+}
@@ -0,0 +1,118 @@
+import { acceptShowdown, cancelShowdown, counterShowdown, declineShowdown } from '../actions'
+import ShowdownTermsFields from '../ShowdownTermsFields'
+import {
+  describeShowdownTerms,
+  SHOWDOWN_DURATION_DAYS,
+  SHOWDOWN_FORMAT_HINTS,
+  SHOWDOWN_FORMAT_LABELS,
+  SHOWDOWN_FORMATS,
+  SHOWDOWN_MAX_ROSTER_SIZE,
+  type ShowdownTerms,
+} from '@/lib/showdowns'
+
+type Props = {
+  showdownId: string
+  terms: ShowdownTerms
+  awaitingName: string
+  proposingName: string
+  expiresLabel: string | null
+  note: string | null
+  // Which side of the negotiation the viewer can act for, if any.
+  viewerSide: 'awaiting' | 'proposing' | null
+}
+
+const BUTTON_CLASS = 'inline-flex items-center justify-center rounded-xl px-4 py-2 text-sm font-semibold transition'
+
+export default function ShowdownNegotiation({
+  showdownId,
+  terms,
+  awaitingName,
+  proposingName,
+  expiresLabel,
+  note,
+  viewerSide,
+}: Props) {
+  return (
+    <section className="rounded-2xl border-2 border-slate-200 bg-white p-6 shadow-sm dark:border-slate-800 dark:bg-slate-900">
+      <h2 className="text-lg font-bold text-slate-900 dark:text-slate-100">Proposed terms</h2>
+      <p className="mt-1 text-sm text-slate-600 dark:text-slate-300">{describeShowdownTerms(terms)}</p>
+      <p className="mt-1 text-xs text-slate-500 dark:text-slate-400">
+        Proposed by {proposingName}, waiting on {awaitingName}
+        {expiresLabel ? ` · expires ${expiresLabel}` : ''}
+      </p>
+      {note && (
+        <p className="mt-3 rounded-xl bg-slate-50 px-3 py-2 text-sm italic text-slate-600 dark:bg-slate-950 dark:text-slate-300">“{note}”</p>
+      )}
+
+      {viewerSide === 'awaiting' && (
+        <div className="mt-6 space-y-6">
+          <div className="flex flex-wrap items-start gap-3">
+            <form action={acceptShowdown}>
+              <input type="hidden" name="request_id" value={showdownId} />
+              <button type="submit" className={`${BUTTON_CLASS} bg-emerald-600 text-white hover:bg-emerald-500`}>
+                Accept terms
+              </button>
+            </form>
+            <form action={declineShowdown} className="flex flex-1 flex-wrap gap-2">
+              <input type="hidden" name="request_id" value={showdownId} />
+              <input
+                name="note"
+                maxLength={280}
+                placeholder="Reason (optional)"
+                className="min-w-0 flex-1 rounded-xl border-2 border-slate-200 bg-white px-3 py-2 text-sm text-slate-800 outline-none focus:border-blue-400 dark:border-slate-700 dark:bg-slate-950 dark:text-slate-100"
+              />
+              <button
+                type="submit"
+                className={`${BUTTON_CLASS} border border-rose-200 text-rose-600 hover:border-rose-300 hover:text-rose-700 dark:border-rose-500/40 dark:text-rose-300`}
+              >
+                Decline
+              </button>
+            </form>
+          </div>
+
+          <form action={counterShowdown} className="grid gap-4 border-t border-slate-200 pt-6 dark:border-slate-800">
+            <input type="hidden" name="request_id" value={showdownId} />
+            <p className="text-sm font-semibold text-slate-800 dark:text-slate-100">Counter-propose</p>
+            <ShowdownTermsFields
+              formats={SHOWDOWN_FORMATS.map((format) => ({
+                value: format,
+                label: SHOWDOWN_FORMAT_LABELS[format],
+                hint: SHOWDOWN_FORMAT_HINTS[format],
+              }))}
+              durations={[...SHOWDOWN_DURATION_DAYS]}
+              maxRosterSize={SHOWDOWN_MAX_ROSTER_SIZE}
+              defaultFormat={terms.format}
+              defaultDuration={terms.durationDays}
+              defaultStartAt={terms.proposedStartAt}
+              defaultRosterSize={terms.rosterSize}
+            />
+            <input
+              name="note"
+              maxLength={280}
+              placeholder="Message (optional)"
+              className="rounded-xl border-2 border-slate-200 bg-white px-3 py-2 text-sm text-slate-800 outline-none focus:border-blue-400 dark:border-slate-700 dark:bg-slate-950 dark:text-slate-100"
+            />
+            <button
+              type="submit"
+              className={`${BUTTON_CLASS} bg-slate-900 text-white hover:bg-slate-800 dark:bg-white dark:text-slate-900 dark:hover:bg-slate-200`}
+            >
+              Send counter-proposal
+            </button>
+          </form>
+        </div>
+      )}
+
+      {viewerSide === 'proposing' && (
+        <form action={cancelShowdown} className="mt-6">
+          <input type="hidden" name="request_id" value={showdownId} />
+          <button
+            type="submit"
+            className={`${BUTTON_CLASS} border border-rose-200 text-rose-600 hover:border-rose-300 hover:text-rose-700 dark:border-rose-500/40 dark:text-rose-300`}
+          >
+            Withdraw request
+          </button>
+        </form>
+      )}
+    </section>
+  )
+}
@@ -0,0 +1,79 @@
+import { formatShowdownScore, type ShowdownFormat, type ShowdownTimelinePoint } from '@/lib/showdowns'
+
+const WIDTH = 960
+const HEIGHT = 240
+const PADDING = { top: 20, right: 16, bottom: 28, left: 16 }
+const INNER_WIDTH = WIDTH - PADDING.left - PADDING.right
+const INNER_HEIGHT = HEIGHT - PADDING.top - PADDING.bottom
+const REQUESTER_COLOR = '#3b82f6'
+const TARGET_COLOR = '#f43f5e'
+
+type Props = {
+  format: ShowdownFormat
+  timeline: ShowdownTimelinePoint[]
+  requesterName: string
+  targetName: string
+}
+
+function formatAxisDate(ms: number) {
+  return new Date(ms).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })
+}
+
+// Both clubs' scores across the window so far.
+export default function ShowdownTimelineChart({ format, timeline, requesterName, targetName }: Props) {
+  if (timeline.length < 2) return null
+
+  const minTs = timeline[0].ts
+  const maxTs = timeline[timeline.length - 1].ts
+  const values = timeline.flatMap((point) => [point.requester, point.target])
+  // Keep zero in view so gains and losses read against the starting line.
+  const minValue = Math.min(0, ...values)
+  const maxValue = Math.max(0, ...values)
+  const valueRange = Math.max(maxValue - minValue, 1)
+  const tsRange = Math.max(maxTs - minTs, 1)
+
+  const x = (ts: number) => PADDING.left + ((ts - minTs) / tsRange) * INNER_WIDTH
+  const y = (value: number) => PADDING.top + INNER_HEIGHT - ((value - minValue) / valueRange) * INNER_HEIGHT
+  const line = (pick: (point: ShowdownTimelinePoint) => number) =>
+    timeline.map((point) => `${x(point.ts).toFixed(1)},${y(pick(point)).toFixed(1)}`).join(' ')
+  const last = timeline[timeline.length - 1]
+
+  return (
+    <section className="rounded-2xl border-2 border-slate-200 bg-white p-6 shadow-sm dark:border-slate-800 dark:bg-slate-900">
+      <div className="mb-4 flex flex-wrap items-center justify-between gap-3">
+        <h2 className="text-lg font-bold text-slate-900 dark:text-slate-100">Score timeline</h2>
+        <div className="flex flex-wrap items-center gap-3">
+          {[
+            { name: requesterName, color: REQUESTER_COLOR, value: last.requester },
+            { name: targetName, color: TARGET_COLOR, value: last.target },
+          ].map((club) => (
+            <span key={club.color} className="inline-flex items-center gap-1.5 text-xs font-semibold text-slate-700 dark:text-slate-200">
+              <span className="h-2.5 w-2.5 rounded-full" style={{ backgroundColor: club.color }} />
+              {club.name}
+              <span className="tabular-nums text-slate-500 dark:text-slate-400">{formatShowdownScore(format, club.value)}</span>
+            </span>
+          ))}
+        </div>
+      </div>
+
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="h-auto w-full" role="img" aria-label="Showdown score over time">
+        <line
+          x1={PADDING.left}
+          x2={WIDTH - PADDING.right}
+          y1={y(0)}
+          y2={y(0)}
+          stroke="rgba(148, 163, 184, 0.45)"
+          strokeDasharray="4 4"
+        />
+        <polyline points={line((point) => point.requester)} fill="none" stroke={REQUESTER_COLOR} strokeWidth={2.5} strokeLinejoin="round" />
+        <polyline points={line((point) => point.target)} fill="none" stroke={TARGET_COLOR} strokeWidth={2.5} strokeLinejoin="round" />
+        <text x={PADDING.left} y={HEIGHT - 8} className="fill-slate-400 text-[11px]">
+          {formatAxisDate(minTs)}
+        </text>
+        <text x={WIDTH - PADDING.right} y={HEIGHT - 8} textAnchor="end" className="fill-slate-400 text-[11px]">
+          {formatAxisDate(maxTs)}
+        </text>
+      </svg>
+    </section>
+  )
+}
@@ -1,6 +1,22 @@
 import Link from 'next/link'
 import { notFound } from 'next/navigation'
+import { normalizeClubRole, roleHasPermission } from '@/lib/clubPermissions'
 import { createClient } from '@/lib/supabase/server'
+import {
+  formatShowdownScore,
+  getShowdownHistory,
+  getShowdownScores,
+  normalizeShowdownFormat,
+  SHOWDOWN_FORMAT_HINTS,
+  SHOWDOWN_FORMAT_LABELS,
+  showdownTermsFromRow,
+  showdownWinner,
+  type ClubShowdownScore,
+  type ShowdownFormat,
+} from '@/lib/showdowns'
+import ShowdownHistory from './ShowdownHistory'
+import ShowdownNegotiation from './ShowdownNegotiation'
+import ShowdownTimelineChart from './ShowdownTimelineChart'
 
 type ShowdownRow = {
   id: string
@@ -8,12 +24,26 @@ type ShowdownRow = {
   target_club_id: string
   status: string | null
   created_at: string | null
+  format: string | null
+  starts_at: string | null
+  ends_at: string | null
+  requester_score: number | null
+  target_score: number | null
+  winner_club_id: string | null
+  completed_at: string | null
+  duration_days: number | null
+  proposed_start_at: string | null
+  roster_size: number | null
+  awaiting_club_id: string | null
+  response_note: string | null
+  expires_at: string | null
 }
 
 type ClubRow = {
   id: string
   name: string
   slug: string
+  owner_user_id: string | null
 }
 
 function formatDate(value?: string | null) {
@@ -23,25 +53,141 @@ function formatDate(value?: string | null) {
   return d.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })
 }
 
-export default async function ShowdownDetailPage({ params }: { params: Promise<{ id: string }> }) {
+const STATUS_LABELS: Record<string, string> = {
+  PENDING: 'Awaiting response',
+  ACCEPTED: 'Accepted',
+  DECLINED: 'Declined',
+  CANCELLED: 'Withdrawn',
+  EXPIRED: 'Expired',
+}
+
+// The worker marks lapsed requests EXPIRED; until then, treat them as expired here.
+function effectiveStatus(status: string | null, expiresAt: string | null) {
+  if ((status ?? 'PENDING') !== 'PENDING') return status ?? 'PENDING'
+  return expiresAt && new Date(expiresAt).getTime() <= Date.now() ? 'EXPIRED' : 'PENDING'
+}
+
+function timeLeftLabel(startIso: string, endIso: string) {
+  if (new Date(startIso).getTime() > Date.now()) return `Starts ${formatDate(startIso)}`
+  const hours = Math.floor((new Date(endIso).getTime() - Date.now()) / (60 * 60 * 1000))
+  if (hours >= 48) return `${Math.floor(hours / 24)} days left`
+  if (hours >= 1) return `${hours}h left`
+  return 'Final scores soon'
+}
+
+function ContributionTable({
+  format,
+  clubName,
+  score,
+  color,
+  rosterSize,
+}: {
+  format: ShowdownFormat
+  clubName: string
+  score: ClubShowdownScore
+  color: string
+  rosterSize: number | null
+}) {
+  return (
+    <section className="rounded-2xl border-2 border-slate-200 bg-white p-6 shadow-sm dark:border-slate-800 dark:bg-slate-900">
+      <div className="flex items-center gap-2">
+        <span className="h-2.5 w-2.5 rounded-full" style={{ backgroundColor: color }} />
+        <h2 className="truncate text-lg font-bold text-slate-900 dark:text-slate-100">{clubName}</h2>
+      </div>
+      {rosterSize && <p className="mt-1 text-xs text-slate-500 dark:text-slate-400">The best {rosterSize} count toward the score.</p>}
+      <div className="mt-4 divide-y divide-slate-100 dark:divide-slate-800">
+        {score.members.length === 0 ? (
+          <p className="py-4 text-center text-sm text-slate-500 dark:text-slate-400">No members with a linked Riot ID.</p>
+        ) : (
+          score.members.map((member) => (
+            <div
+              key={member.puuid}
+              className={`flex items-center justify-between gap-3 py-2 text-sm ${rosterSize && !member.counted ? 'opacity-50' : ''}`}
+            >
+              <span className="min-w-0">
+                <span className="block truncate font-semibold text-slate-900 dark:text-slate-100">{member.name}</span>
+                <span className="text-[11px] text-slate-500 dark:text-slate-400">
+                  {member.games} {member.games === 1 ? 'game' : 'games'} · {member.wins}W
+                </span>
+              </span>
+              <span className="shrink-0 font-black tabular-nums text-slate-900 dark:text-slate-100">
+                {format === 'AVG_RANK_GAIN' && member.games === 0 ? '—' : formatShowdownScore(format === 'AVG_RANK_GAIN' ? 'LP_GAINED' : format, member.contribution)}
+              </span>
+            </div>
+          ))
+        )}
+      </div>
+    </section>
+  )
+}
+
+export default async function ShowdownDetailPage({
+  params,
+  searchParams,
+}: {
+  params: Promise<{ id: string }>
+  searchParams?: Promise<{ ok?: string; err?: string }>
+}) {
   const { id } = await params
+  const sp = (await searchParams) ?? {}
   const supabase = await createClient()
+  const { data: auth } = await supabase.auth.getUser()
+  const user = auth.user
 
   const { data: showdown } = await supabase
     .from('club_showdown_requests')
-    .select('id, requester_club_id, target_club_id, status, created_at')
+    .select(
+      'id, requester_club_id, target_club_id, status, created_at, format, starts_at, ends_at, requester_score, target_score, winner_club_id, completed_at, duration_days, proposed_start_at, roster_size, awaiting_club_id, response_note, expires_at'
+    )
     .eq('id', id)
-    .maybeSingle()
+    .maybeSingle<ShowdownRow>()
 
   if (!showdown) notFound()
 
   const clubIds = [showdown.requester_club_id, showdown.target_club_id]
-  const { data: clubs } = await supabase.from('clubs').select('id, name, slug').in('id', clubIds)
+  const [{ data: clubs }, { data: memberships }, history] = await Promise.all([
+    supabase.from('clubs').select('id, name, slug, owner_user_id').in('id', clubIds),
+    user
+      ? supabase.from('club_members').select('club_id, role').eq('user_id', user.id).in('club_id', clubIds)
+      : Promise.resolve({ data: [] as Array<{ club_id: string; role: string | null }> }),
+    getShowdownHistory(showdown.id),
+  ])
   const clubById = new Map((clubs ?? []).map((club: ClubRow) => [club.id, club]))
+  // Clubs the viewer can negotiate for.
+  const viewerClubIds = new Set([
+    ...(memberships ?? [])
+      .filter((row) => roleHasPermission(normalizeClubRole(row.role) ?? 'MEMBER', 'SEND_SHOWDOWNS'))
+      .map((row) => row.club_id),
+    ...(clubs ?? []).filter((club: ClubRow) => user && club.owner_user_id === user.id).map((club: ClubRow) => club.id),
+  ])
 
   const requester = clubById.get(showdown.requester_club_id)
   const target = clubById.get(showdown.target_club_id)
   const createdLabel = formatDate(showdown.created_at)
+  const format = normalizeShowdownFormat(showdown.format)
+  const isAccepted = showdown.status === 'ACCEPTED'
+  const scores = isAccepted ? await getShowdownScores(showdown) : null
+  const isFinal = Boolean(showdown.completed_at)
+  // Final results are the worker's stored scores; live ones are recomputed per request.
+  const requesterScore = isFinal ? Number(showdown.requester_score ?? 0) : scores?.requester.score ?? 0
+  const targetScore = isFinal ? Number(showdown.target_score ?? 0) : scores?.target.score ?? 0
+  const leaderId = isFinal
+    ? showdown.winner_club_id
+    : scores
+      ? showdownWinner(scores.requester, scores.target)
+      : null
+  const requesterName = requester?.name ?? 'Club'
+  const targetName = target?.name ?? 'Club'
+  const clubNames = new Map([
+    [showdown.requester_club_id, requesterName],
+    [showdown.target_club_id, targetName],
+  ])
+  const status = effectiveStatus(showdown.status, showdown.expires_at)
+  const isPending = status === 'PENDING'
+  const awaitingClubId = showdown.awaiting_club_id ?? showdown.target_club_id
+  const proposingClubId = awaitingClubId === showdown.target_club_id ? showdown.requester_club_id : showdown.target_club_id
+  const viewerSide = viewerClubIds.has(awaitingClubId) ? 'awaiting' : viewerClubIds.has(proposingClubId) ? 'proposing' : null
+  const statusLabel = STATUS_LABELS[status] ?? status
 
   return (
     <div className="py-10 lg:py-14">
@@ -54,7 +200,7 @@ export default async function ShowdownDetailPage({ params }: { params: Promise<{
                 {requester?.name ?? 'Club'} vs {target?.name ?? 'Club'}
               </h1>
               <p className="mt-2 text-sm text-slate-600 dark:text-slate-300">
-                Status: <span className="font-semibold text-slate-900 dark:text-slate-100">{showdown.status ?? 'PENDING'}</span>
+                Status: <span className="font-semibold text-slate-900 dark:text-slate-100">{statusLabel}</span>
               </p>
               {createdLabel && (
                 <p className="mt-1 text-xs text-slate-500 dark:text-slate-400">Requested {createdLabel}</p>
@@ -69,10 +215,94 @@ export default async function ShowdownDetailPage({ params }: { params: Promise<{
           </div>
         </div>
 
-        <div className="rounded-2xl border-2 border-dashed border-slate-200 bg-white p-6 text-sm text-slate-600 shadow-sm dark:border-slate-700 dark:bg-slate-900 dark:text-slate-300">
-          <p className="font-semibold text-slate-800 dark:text-slate-100">Showdown details</p>
-          <p className="mt-2">Match format, scoring, and results will appear here.</p>
-        </div>
+        {(sp.ok || sp.err) && (
+          <div
+            className={`rounded-xl border px-4 py-3 text-sm font-medium ${
+              sp.err
+                ? 'border-rose-200 bg-rose-50 text-rose-700 dark:border-rose-500/30 dark:bg-rose-500/10 dark:text-rose-300'
+                : 'border-emerald-200 bg-emerald-50 text-emerald-700 dark:border-emerald-500/30 dark:bg-emerald-500/10 dark:text-emerald-300'
+            }`}
+          >
+            {sp.err ?? sp.ok}
+          </div>
+        )}
+
+        {!isAccepted || !showdown.starts_at || !showdown.ends_at ? (
+          isPending ? (
+            <ShowdownNegotiation
+              showdownId={showdown.id}
+              terms={showdownTermsFromRow(showdown)}
+              awaitingName={clubNames.get(awaitingClubId) ?? 'Club'}
+              proposingName={clubNames.get(proposingClubId) ?? 'Club'}
+              expiresLabel={formatDate(showdown.expires_at)}
+              note={showdown.response_note}
+              viewerSide={viewerSide}
+            />
+          ) : (
+            <div className="rounded-2xl border-2 border-dashed border-slate-200 bg-white p-6 text-sm text-slate-600 shadow-sm dark:border-slate-700 dark:bg-slate-900 dark:text-slate-300">
+              <p className="font-semibold text-slate-800 dark:text-slate-100">{statusLabel}</p>
+              <p className="mt-2">This showdown never started.</p>
+              {showdown.response_note && <p className="mt-2 italic">“{showdown.response_note}”</p>}
+            </div>
+          )
+        ) : (
+          <>
+            <section className="rounded-2xl border-2 border-slate-200 bg-white p-6 shadow-sm dark:border-slate-800 dark:bg-slate-900">
+              <div className="flex flex-wrap items-center justify-between gap-2 text-xs font-semibold text-slate-500 dark:text-slate-400">
+                <span>
+                  {SHOWDOWN_FORMAT_LABELS[format]} · {formatDate(showdown.starts_at)} – {formatDate(showdown.ends_at)}
+                </span>
+                <span className={isFinal ? 'text-slate-700 dark:text-slate-200' : 'text-emerald-600 dark:text-emerald-300'}>
+                  {isFinal ? 'Final' : timeLeftLabel(showdown.starts_at, showdown.ends_at)}
+                </span>
+              </div>
+              <div className="mt-5 grid grid-cols-[1fr_auto_1fr] items-center gap-4 text-center">
+                {[
+                  { id: showdown.requester_club_id, name: requesterName, score: requesterScore },
+                  null,
+                  { id: showdown.target_club_id, name: targetName, score: targetScore },
+                ].map((club) =>
+                  club ? (
+                    <div key={club.id} className="min-w-0">
+                      <p className="truncate text-sm font-semibold text-slate-600 dark:text-slate-300">{club.name}</p>
+                      <p
+                        className={`mt-1 text-3xl font-black tabular-nums ${
+                          leaderId === club.id ? 'text-slate-900 dark:text-white' : 'text-slate-400 dark:text-slate-500'
+                        }`}
+                      >
+                        {formatShowdownScore(format, club.score)}
+                      </p>
+                      {isFinal && showdown.winner_club_id === club.id && (
+                        <p className="mt-1 text-xs font-bold uppercase tracking-wide text-amber-600 dark:text-amber-300">Winner</p>
+                      )}
+                    </div>
+                  ) : (
+                    <span key="vs" className="text-xs font-black uppercase tracking-widest text-slate-400">
+                      vs
+                    </span>
+                  )
+                )}
+              </div>
+              <p className="mt-5 text-center text-xs text-slate-500 dark:text-slate-400">
+                {isFinal && !showdown.winner_club_id ? 'The showdown ended in a tie. ' : ''}
+                {SHOWDOWN_FORMAT_HINTS[format]}
+              </p>
+            </section>
+
+            {scores && (
+              <ShowdownTimelineChart format={format} timeline={scores.timeline} requesterName={requesterName} targetName={targetName} />
+            )}
+
+            {scores && (
+              <div className="grid gap-6 md:grid-cols-2">
+                <ContributionTable format={format} clubName={requesterName} score={scores.requester} color="#3b82f6" rosterSize={showdown.roster_size} />
+                <ContributionTable format={format} clubName={targetName} score={scores.target} color="#f43f5e" rosterSize={showdown.roster_size} />
+              </div>
+            )}
+          </>
+        )}
+
+        <ShowdownHistory history={history} clubNames={clubNames} />
       </div>
     </div>
   )
@@ -0,0 +1,224 @@
+'use server'
+
+import { revalidatePath } from 'next/cache'
+import { redirect } from 'next/navigation'
+import { hasClubPermission } from '@/lib/clubPermissions'
+import { createClient } from '@/lib/supabase/server'
+import { createServiceClient } from '@/lib/supabase/service'
+import {
+  parseShowdownTerms,
+  recordShowdownHistory,
+  showdownEndIso,
+  showdownRequestExpiresIso,
+  showdownStartIso,
+  showdownTermsFromRow,
+  type ShowdownTerms,
+} from '@/lib/showdowns'
+
+const NOTE_MAX_LENGTH = 280
+
+type PendingShowdownRow = {
+  id: string
+  requester_club_id: string
+  target_club_id: string
+  awaiting_club_id: string | null
+  status: string | null
+  format: string | null
+  duration_days: number | null
+  proposed_start_at: string | null
+  roster_size: number | null
+  expires_at: string | null
+}
+
+function showdownUrl(id: string, flash?: { ok?: string; err?: string }) {
+  const params = new URLSearchParams()
+  if (flash?.ok) params.set('ok', flash.ok)
+  if (flash?.err) params.set('err', flash.err)
+  const query = params.toString()
+  return `/showdown/${id}${query ? `?${query}` : ''}`
+}
+
+function revalidateShowdown(id: string) {
+  revalidatePath('/showdown')
+  revalidatePath(`/showdown/${id}`)
+}
+
+// Loads an open request and checks the user can negotiate for `side`: the club
+// whose turn it is to answer, or the club that made the current proposal.
+async function requireShowdownParty(requestId: string, side: 'awaiting' | 'proposing') {
+  if (!requestId) redirect('/showdown?err=Missing request')
+
+  const supabase = await createClient()
+  const { data: auth } = await supabase.auth.getUser()
+  const user = auth.user
+  if (!user) redirect('/sign-in')
+
+  const service = createServiceClient()
+  const { data } = await service
+    .from('club_showdown_requests')
+    .select(
+      'id, requester_club_id, target_club_id, awaiting_club_id, status, format, duration_days, proposed_start_at, roster_size, expires_at'
+    )
+    .eq('id', requestId)
+    .maybeSingle()
+  const request = data as PendingShowdownRow | null
+  if (!request) redirect('/showdown?err=Showdown not found')
+  if (request.status !== 'PENDING') redirect(showdownUrl(requestId, { err: 'This request is no longer open' }))
+  if (request.expires_at && new Date(request.expires_at).getTime() <= Date.now()) {
+    redirect(showdownUrl(requestId, { err: 'This request has expired' }))
+  }
+
+  const awaitingClubId = request.awaiting_club_id ?? request.target_club_id
+  const proposingClubId = awaitingClubId === request.target_club_id ? request.requester_club_id : request.target_club_id
+  const clubId = side === 'awaiting' ? awaitingClubId : proposingClubId
+
+  if (!(await hasClubPermission(clubId, user.id, 'SEND_SHOWDOWNS'))) {
+    redirect(
+      showdownUrl(requestId, {
+        err:
+          side === 'awaiting'
+            ? 'Only moderators and above of the club being asked can respond'
+            : 'Only moderators and above of the proposing club can withdraw',
+      })
+    )
+  }
+
+  return { service, request, userId: user.id, clubId, awaitingClubId, proposingClubId }
+}
+
+function sameTerms(a: ShowdownTerms, b: ShowdownTerms) {
+  return (
+    a.format === b.format &&
+    a.durationDays === b.durationDays &&
+    a.rosterSize === b.rosterSize &&
+    (a.proposedStartAt ? new Date(a.proposedStartAt).getTime() : null) ===
+      (b.proposedStartAt ? new Date(b.proposedStartAt).getTime() : null)
+  )
+}
+
+export async function acceptShowdown(formData: FormData) {
+  const requestId = String(formData.get('request_id') ?? '').trim()
+  const { service, request, userId, clubId } = await requireShowdownParty(requestId, 'awaiting')
+  const terms = showdownTermsFromRow(request)
+
+  // Accepting opens the scoring window.
+  const startsAt = showdownStartIso(terms.proposedStartAt)
+  const { data: updated, error } = await service
+    .from('club_showdown_requests')
+    .update({
+      status: 'ACCEPTED',
+      starts_at: startsAt,
+      ends_at: showdownEndIso(startsAt, terms.durationDays),
+      responded_at: new Date().toISOString(),
+    })
+    .eq('id', requestId)
+    .eq('status', 'PENDING')
+    .eq('awaiting_club_id', clubId)
+    .select('id')
+
+  if (error) redirect(showdownUrl(requestId, { err: error.message }))
+  // Lost a race with the other club, a withdrawal or the worker's expiry.
+  if (!updated?.length) redirect(showdownUrl(requestId, { err: 'This request is no longer open' }))
+
+  await recordShowdownHistory({ showdown_id: requestId, status: 'ACCEPTED', actor_club_id: clubId, actor_user_id: userId, terms })
+
+  revalidateShowdown(requestId)
+  redirect(`/showdown/${requestId}`)
+}
+
+export async function declineShowdown(formData: FormData) {
+  const requestId = String(formData.get('request_id') ?? '').trim()
+  const note = String(formData.get('note') ?? '').trim()
+  if (note.length > NOTE_MAX_LENGTH) redirect(showdownUrl(requestId, { err: `Reasons are limited to ${NOTE_MAX_LENGTH} characters` }))
+
+  const { service, userId, clubId } = await requireShowdownParty(requestId, 'awaiting')
+
+  const { data: updated, error } = await service
+    .from('club_showdown_requests')
+    .update({ status: 'DECLINED', response_note: note || null, responded_at: new Date().toISOString() })
+    .eq('id', requestId)
+    .eq('status', 'PENDING')
+    .eq('awaiting_club_id', clubId)
+    .select('id')
+
+  if (error) redirect(showdownUrl(requestId, { err: error.message }))
+  if (!updated?.length) redirect(showdownUrl(requestId, { err: 'This request is no longer open' }))
+
+  await recordShowdownHistory({
+    showdown_id: requestId,
+    status: 'DECLINED',
+    actor_club_id: clubId,
+    actor_user_id: userId,
+    note: note || null,
+  })
+
+  revalidateShowdown(requestId)
+  redirect('/showdown?ok=Request declined')
+}
+
+export async function counterShowdown(formData: FormData) {
+  const requestId = String(formData.get('request_id') ?? '').trim()
+  const note = String(formData.get('note') ?? '').trim()
+  if (note.length > NOTE_MAX_LENGTH) redirect(showdownUrl(requestId, { err: `Notes are limited to ${NOTE_MAX_LENGTH} characters` }))
+
+  const parsed = parseShowdownTerms(formData)
+  if ('error' in parsed) redirect(showdownUrl(requestId, { err: parsed.error }))
+  const { terms } = parsed
+
+  const { service, request, userId, clubId, proposingClubId } = await requireShowdownParty(requestId, 'awaiting')
+  if (sameTerms(terms, showdownTermsFromRow(request))) {
+    redirect(showdownUrl(requestId, { err: 'Change at least one term to counter' }))
+  }
+
+  // The turn passes back to the other club, with a fresh deadline.
+  const { data: updated, error } = await service
+    .from('club_showdown_requests')
+    .update({
+      format: terms.format,
+      duration_days: terms.durationDays,
+      proposed_start_at: terms.proposedStartAt,
+      roster_size: terms.rosterSize,
+      awaiting_club_id: proposingClubId,
+      response_note: note || null,
+      expires_at: showdownRequestExpiresIso(),
+    })
+    .eq('id', requestId)
+    .eq('status', 'PENDING')
+    .eq('awaiting_club_id', clubId)
+    .select('id')
+
+  if (error) redirect(showdownUrl(requestId, { err: error.message }))
+  if (!updated?.length) redirect(showdownUrl(requestId, { err: 'This request is no longer open' }))
+
+  await recordShowdownHistory({
+    showdown_id: requestId,
+    status: 'COUNTERED',
+    actor_club_id: clubId,
+    actor_user_id: userId,
+    note: note || null,
+    terms,
+  })
+
+  revalidateShowdown(requestId)
+  redirect(showdownUrl(requestId, { ok: 'Counter-proposal sent' }))
+}
+
+export async function cancelShowdown(formData: FormData) {
+  const requestId = String(formData.get('request_id') ?? '').trim()
+  const { service, userId, clubId } = await requireShowdownParty(requestId, 'proposing')
+
+  const { data: updated, error } = await service
+    .from('club_showdown_requests')
+    .update({ status: 'CANCELLED', responded_at: new Date().toISOString() })
+    .eq('id', requestId)
+    .eq('status', 'PENDING')
+    .select('id')
+
+  if (error) redirect(showdownUrl(requestId, { err: error.message }))
+  if (!updated?.length) redirect(showdownUrl(requestId, { err: 'This request is no longer open' }))
+
+  await recordShowdownHistory({ showdown_id: requestId, status: 'CANCELLED', actor_club_id: clubId, actor_user_id: userId })
+
+  revalidateShowdown(requestId)
+  redirect('/showdown?ok=Request withdrawn')
+}
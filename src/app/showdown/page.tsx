@@ -1,7 +1,20 @@
 import Link from 'next/link'
 import { revalidatePath } from 'next/cache'
 import { redirect } from 'next/navigation'
+import { hasClubPermission, normalizeClubRole, roleHasPermission } from '@/lib/clubPermissions'
 import { createClient } from '@/lib/supabase/server'
+import {
+  DEFAULT_SHOWDOWN_DURATION_DAYS,
+  normalizeShowdownFormat,
+  parseShowdownTerms,
+  recordShowdownHistory,
+  SHOWDOWN_DURATION_DAYS,
+  SHOWDOWN_FORMAT_HINTS,
+  SHOWDOWN_FORMAT_LABELS,
+  SHOWDOWN_FORMATS,
+  SHOWDOWN_MAX_ROSTER_SIZE,
+  showdownRequestExpiresIso,
+} from '@/lib/showdowns'
 import ShowdownRequestClient from './ShowdownRequestClient'
 
 type ClubRow = {
@@ -18,6 +31,10 @@ type ShowdownRow = {
   target_club_id: string
   status: string | null
   created_at: string | null
+  format: string | null
+  ends_at: string | null
+  completed_at: string | null
+  winner_club_id: string | null
 }
 
 function formatDate(value?: string | null) {
@@ -40,11 +57,11 @@ export default async function ShowdownPage({
   const [clubsRes, membersRes, showdownsRes] = await Promise.all([
     supabase.from('clubs').select('id, name, slug, owner_user_id, banner_url').order('name', { ascending: true }),
     user
-      ? supabase.from('club_members').select('club_id, user_id').eq('user_id', user.id)
-      : Promise.resolve({ data: [] as Array<{ club_id: string; user_id: string }>, error: null }),
+      ? supabase.from('club_members').select('club_id, user_id, role').eq('user_id', user.id)
+      : Promise.resolve({ data: [] as Array<{ club_id: string; user_id: string; role: string | null }>, error: null }),
     supabase
       .from('club_showdown_requests')
-      .select('id, requester_club_id, target_club_id, status, created_at')
+      .select('id, requester_club_id, target_club_id, status, created_at, format, ends_at, completed_at, winner_club_id')
       .eq('status', 'ACCEPTED')
       .order('created_at', { ascending: false })
       .limit(6),
@@ -53,11 +70,16 @@ export default async function ShowdownPage({
   const clubs = (clubsRes.data ?? []) as ClubRow[]
   const clubMap = new Map(clubs.map((club) => [club.id, club]))
 
-  const membershipClubIds = new Set((membersRes.data ?? []).map((row) => row.club_id))
+  // Clubs the user can send showdown requests for.
+  const requestableClubIds = new Set(
+    (membersRes.data ?? [])
+      .filter((row) => roleHasPermission(normalizeClubRole(row.role) ?? 'MEMBER', 'SEND_SHOWDOWNS'))
+      .map((row) => row.club_id)
+  )
   const ownedClub = clubs.find((club) => club.owner_user_id === user?.id) ?? null
-  const defaultClubId = ownedClub?.id ?? (membershipClubIds.values().next().value as string | undefined) ?? null
+  const defaultClubId = ownedClub?.id ?? (requestableClubIds.values().next().value as string | undefined) ?? null
 
-  const canRequest = !!user && (Boolean(ownedClub) || membershipClubIds.size > 0)
+  const canRequest = !!user && (Boolean(ownedClub) || requestableClubIds.size > 0)
 
   const showdowns = (showdownsRes.data ?? []) as ShowdownRow[]
 
@@ -71,6 +93,10 @@ export default async function ShowdownPage({
       redirect('/showdown?err=Select both clubs')
     }
 
+    const parsed = parseShowdownTerms(formData)
+    if ('error' in parsed) redirect(`/showdown?err=${encodeURIComponent(parsed.error)}`)
+    const { terms } = parsed
+
     if (requesterClubId === targetClubId) {
       redirect('/showdown?err=Select a different opponent')
     }
@@ -80,21 +106,8 @@ export default async function ShowdownPage({
     const user = auth.user
     if (!user) redirect('/sign-in')
 
-    const { data: member } = await supabase
-      .from('club_members')
-      .select('id')
-      .eq('club_id', requesterClubId)
-      .eq('user_id', user.id)
-      .maybeSingle()
-
-    if (!member?.id) {
-      const { data: ownedClub } = await supabase
-        .from('clubs')
-        .select('id')
-        .eq('id', requesterClubId)
-        .eq('owner_user_id', user.id)
-        .maybeSingle()
-      if (!ownedClub?.id) redirect('/showdown?err=Only club members can request showdowns')
+    if (!(await hasClubPermission(requesterClubId, user.id, 'SEND_SHOWDOWNS'))) {
+      redirect('/showdown?err=Only club moderators and above can request showdowns')
     }
 
     const { data: existing } = await supabase
@@ -103,18 +116,37 @@ export default async function ShowdownPage({
       .eq('requester_club_id', requesterClubId)
       .eq('target_club_id', targetClubId)
       .eq('status', 'PENDING')
+      .gt('expires_at', new Date().toISOString())
       .maybeSingle()
 
     if (existing?.id) redirect('/showdown?err=Showdown already requested')
 
-    const { error } = await supabase.from('club_showdown_requests').insert({
-      requester_club_id: requesterClubId,
-      target_club_id: targetClubId,
-      requester_user_id: user.id,
-    })
+    const { data: created, error } = await supabase
+      .from('club_showdown_requests')
+      .insert({
+        requester_club_id: requesterClubId,
+        target_club_id: targetClubId,
+        requester_user_id: user.id,
+        awaiting_club_id: targetClubId,
+        format: terms.format,
+        duration_days: terms.durationDays,
+        proposed_start_at: terms.proposedStartAt,
+        roster_size: terms.rosterSize,
+        expires_at: showdownRequestExpiresIso(),
+      })
+      .select('id')
+      .single()
 
     if (error) redirect(`/showdown?err=${encodeURIComponent(error.message)}`)
 
+    await recordShowdownHistory({
+      showdown_id: created.id,
+      status: 'REQUESTED',
+      actor_club_id: requesterClubId,
+      actor_user_id: user.id,
+      terms,
+    })
+
     revalidatePath('/showdown')
     redirect('/showdown?ok=Request sent')
   }
@@ -166,6 +198,14 @@ export default async function ShowdownPage({
               <ShowdownRequestClient
                 action={requestShowdown}
                 clubs={clubs.map((club) => ({ id: club.id, name: club.name }))}
+                formats={SHOWDOWN_FORMATS.map((format) => ({
+                  value: format,
+                  label: SHOWDOWN_FORMAT_LABELS[format],
+                  hint: SHOWDOWN_FORMAT_HINTS[format],
+                }))}
+                durations={[...SHOWDOWN_DURATION_DAYS]}
+                defaultDuration={DEFAULT_SHOWDOWN_DURATION_DAYS}
+                maxRosterSize={SHOWDOWN_MAX_ROSTER_SIZE}
                 canRequest={canRequest}
                 defaultClubId={defaultClubId}
               />
@@ -188,6 +228,7 @@ export default async function ShowdownPage({
                 const requester = clubMap.get(request.requester_club_id)
                 const target = clubMap.get(request.target_club_id)
                 const createdLabel = formatDate(request.created_at)
+                const endsLabel = formatDate(request.ends_at)
 
                 return (
                   <div
@@ -225,12 +266,27 @@ export default async function ShowdownPage({
                         <p className="font-semibold text-slate-800 dark:text-slate-100">
                           {requester?.name ?? 'Club'} vs {target?.name ?? 'Club'}
                         </p>
-                        <span className="rounded-full bg-emerald-100 px-2 py-1 text-[10px] font-semibold uppercase tracking-wide text-emerald-700 dark:bg-emerald-500/20 dark:text-emerald-200">
-                          Accepted
-                        </span>
+                        {request.completed_at ? (
+                          <span className="rounded-full bg-slate-100 px-2 py-1 text-[10px] font-semibold uppercase tracking-wide text-slate-600 dark:bg-slate-800 dark:text-slate-300">
+                            Final
+                          </span>
+                        ) : (
+                          <span className="rounded-full bg-emerald-100 px-2 py-1 text-[10px] font-semibold uppercase tracking-wide text-emerald-700 dark:bg-emerald-500/20 dark:text-emerald-200">
+                            Live
+                          </span>
+                        )}
                       </div>
                       <div className="mt-2 flex flex-wrap items-center justify-between gap-2 text-xs text-slate-500 dark:text-slate-400">
-                        <span>Accepted {createdLabel ?? 'Recently'}</span>
+                        <span>
+                          {SHOWDOWN_FORMAT_LABELS[normalizeShowdownFormat(request.format)]} ·{' '}
+                          {request.completed_at
+                            ? request.winner_club_id
+                              ? `${clubMap.get(request.winner_club_id)?.name ?? 'Club'} won`
+                              : 'Tied'
+                            : endsLabel
+                              ? `Ends ${endsLabel}`
+                              : `Accepted ${createdLabel ?? 'recently'}`}
+                        </span>
                         <Link
                           href={`/showdown/${request.id}`}
                           className="inline-flex items-center justify-center rounded-lg border border-slate-200 px-3 py-1.5 text-xs font-semibold text-slate-700 transition hover:border-slate-300 hover:text-slate-900 dark:border-slate-700 dark:text-slate-200 dark:hover:border-slate-500 dark:hover:text-white"
@@ -0,0 +1,49 @@
+import type { BracketSide } from '@/lib/tournaments/bracket'
+import type { EntrantRow, MatchRow } from '../../types'
+import { BRACKET_LABELS, roundLabel } from '../../utils'
+import MatchCard from './MatchCard'
+
+type Props = {
+  bracket: BracketSide
+  matches: MatchRow[]
+  entrants: Map<string, EntrantRow>
+}
+
+// One column per round; walkovers were dropped when the bracket was drawn, so
+// early rounds can hold fewer matches than a full bracket would.
+export default function BracketView({ bracket, matches, entrants }: Props) {
+  if (matches.length === 0) return null
+
+  const rounds = new Map<number, MatchRow[]>()
+  for (const match of matches) {
+    const list = rounds.get(match.round) ?? []
+    list.push(match)
+    rounds.set(match.round, list)
+  }
+  const roundNumbers = Array.from(rounds.keys()).sort((a, b) => a - b)
+  const lastRound = roundNumbers[roundNumbers.length - 1] ?? 0
+
+  return (
+    <div className="space-y-3">
+      {bracket !== 'ROUND_ROBIN' && (
+        <h3 className="text-xs font-black uppercase tracking-widest text-slate-600 dark:text-slate-300">{BRACKET_LABELS[bracket]}</h3>
+      )}
+      <div className="flex gap-6 overflow-x-auto pb-2">
+        {roundNumbers.map((round) => (
+          <div key={round} className="flex shrink-0 flex-col gap-3">
+            <p className="text-[11px] font-semibold uppercase tracking-wide text-slate-500 dark:text-slate-400">
+              {bracket === 'LOSERS' || bracket === 'ROUND_ROBIN' ? `Round ${round}` : roundLabel(bracket, round, lastRound)}
+            </p>
+            <div className="flex flex-1 flex-col justify-around gap-3">
+              {(rounds.get(round) ?? [])
+                .sort((x, y) => x.position - y.position)
+                .map((match) => (
+                  <MatchCard key={match.id} match={match} entrants={entrants} />
+                ))}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,116 @@
+import { MAX_TOURNAMENT_ENTRANTS, MIN_TOURNAMENT_ENTRANTS, type EntrantType } from '@/lib/tournaments/bracket'
+import type { EntrantRow } from '../../types'
+
+type Props = {
+  tournamentId: string
+  entrantType: EntrantType
+  entrants: EntrantRow[]
+  canManage: boolean
+  registrationOpen: boolean
+  clubOptions: Array<{ id: string; name: string }>
+  registerAction: (formData: FormData) => Promise<void>
+  removeAction: (formData: FormData) => Promise<void>
+  startAction: (formData: FormData) => Promise<void>
+}
+
+const INPUT_CLASS =
+  'rounded-lg border border-slate-200 bg-white px-3 py-2 text-sm text-slate-900 placeholder:text-slate-400 outline-none focus:border-blue-400 focus:ring-2 focus:ring-blue-400/10 transition-all duration-200 shadow-sm dark:border-slate-700 dark:bg-slate-950 dark:text-slate-100 dark:placeholder:text-slate-500'
+
+export default function EntrantsPanel({
+  tournamentId,
+  entrantType,
+  entrants,
+  canManage,
+  registrationOpen,
+  clubOptions,
+  registerAction,
+  removeAction,
+  startAction,
+}: Props) {
+  const registeredClubs = new Set(entrants.map((entrant) => entrant.club_id).filter(Boolean))
+  const availableClubs = clubOptions.filter((club) => !registeredClubs.has(club.id))
+  const full = entrants.length >= MAX_TOURNAMENT_ENTRANTS
+  const ordered = registrationOpen
+    ? entrants
+    : [...entrants].sort((a, b) => (a.seed ?? Number.MAX_SAFE_INTEGER) - (b.seed ?? Number.MAX_SAFE_INTEGER))
+
+  return (
+    <section className="rounded-2xl border-2 border-slate-200 bg-white p-6 shadow-sm dark:border-slate-800 dark:bg-slate-900">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <h2 className="text-lg font-bold text-slate-900 dark:text-slate-100">
+          Entrants <span className="text-sm font-semibold text-slate-400">{entrants.length}/{MAX_TOURNAMENT_ENTRANTS}</span>
+        </h2>
+        {canManage && registrationOpen && (
+          <form action={startAction}>
+            <input type="hidden" name="tournament_id" value={tournamentId} />
+            <button
+              type="submit"
+              disabled={entrants.length < MIN_TOURNAMENT_ENTRANTS}
+              className="rounded-lg bg-slate-900 px-4 py-2 text-sm font-semibold text-white transition hover:bg-slate-800 disabled:cursor-not-allowed disabled:opacity-50 dark:bg-white dark:text-slate-900 dark:hover:bg-slate-200"
+            >
+              Seed &amp; draw bracket
+            </button>
+          </form>
+        )}
+      </div>
+      {registrationOpen && (
+        <p className="mt-1 text-sm text-slate-600 dark:text-slate-300">
+          Seeds are assigned by current solo queue rank when the bracket is drawn
+          {entrantType === 'CLUB' ? ", using each club's highest-ranked member" : ''}.
+        </p>
+      )}
+
+      {canManage && registrationOpen && !full && (
+        <form action={registerAction} className="mt-4 grid gap-2 sm:grid-cols-[1fr_auto]">
+          <input type="hidden" name="tournament_id" value={tournamentId} />
+          {entrantType === 'CLUB' ? (
+            <select name="club_id" required defaultValue="" className={INPUT_CLASS}>
+              <option value="" disabled>
+                Select a club
+              </option>
+              {availableClubs.map((club) => (
+                <option key={club.id} value={club.id}>
+                  {club.name}
+                </option>
+              ))}
+            </select>
+          ) : (
+            <input name="riot_id" placeholder="gameName#tagLine" required className={INPUT_CLASS} />
+          )}
+          <button
+            type="submit"
+            className="rounded-lg border border-slate-200 px-4 py-2 text-sm font-semibold text-slate-700 transition hover:border-slate-300 hover:text-slate-900 dark:border-slate-700 dark:text-slate-200 dark:hover:border-slate-500 dark:hover:text-white"
+          >
+            Register
+          </button>
+        </form>
+      )}
+
+      <div className="mt-4 divide-y divide-slate-100 dark:divide-slate-800">
+        {ordered.length === 0 ? (
+          <p className="py-6 text-center text-sm text-slate-500 dark:text-slate-400">No entrants registered yet.</p>
+        ) : (
+          ordered.map((entrant) => (
+            <div key={entrant.id} className="flex items-center justify-between gap-3 py-2">
+              <div className="flex min-w-0 items-center gap-3">
+                <span className="w-6 shrink-0 text-xs font-black tabular-nums text-slate-400 dark:text-slate-500">
+                  {entrant.seed ? `#${entrant.seed}` : '—'}
+                </span>
+                <span className="truncate text-sm font-semibold text-slate-900 dark:text-slate-100">{entrant.display_name}</span>
+              </div>
+              {canManage && registrationOpen && (
+                <form action={removeAction}>
+                  <input type="hidden" name="tournament_id" value={tournamentId} />
+                  <input type="hidden" name="entrant_id" value={entrant.id} />
+                  <button type="submit" className="text-xs font-semibold text-rose-600 hover:text-rose-700 dark:text-rose-400">
+                    Remove
+                  </button>
+                </form>
+              )}
+            </div>
+          ))
+        )}
+      </div>
+    </section>
+  )
+}
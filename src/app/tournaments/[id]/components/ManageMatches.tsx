@@ -0,0 +1,92 @@
+import type { EntrantRow, MatchRow } from '../../types'
+import { BRACKET_LABELS } from '../../utils'
+
+type Props = {
+  tournamentId: string
+  matches: MatchRow[]
+  entrants: Map<string, EntrantRow>
+  recordAction: (formData: FormData) => Promise<void>
+  scheduleAction: (formData: FormData) => Promise<void>
+}
+
+const INPUT_CLASS =
+  'rounded-lg border border-slate-200 bg-white px-2 py-1.5 text-xs text-slate-900 dark:border-slate-700 dark:bg-slate-950 dark:text-slate-100'
+
+function toLocalInput(value: string | null) {
+  if (!value) return ''
+  const date = new Date(value)
+  if (Number.isNaN(date.getTime())) return ''
+  return date.toISOString().slice(0, 16)
+}
+
+// Organizer controls for every match whose two entrants are known but which
+// has no result yet.
+export default function ManageMatches({ tournamentId, matches, entrants, recordAction, scheduleAction }: Props) {
+  const ready = matches.filter((match) => !match.completed_at && match.entrant_a_id && match.entrant_b_id)
+
+  return (
+    <section className="rounded-2xl border-2 border-slate-200 bg-white p-6 shadow-sm dark:border-slate-800 dark:bg-slate-900">
+      <h2 className="text-lg font-bold text-slate-900 dark:text-slate-100">Manage matches</h2>
+      <p className="mt-1 text-sm text-slate-600 dark:text-slate-300">
+        Record a winner to advance the bracket. Scores are optional but must agree with the winner.
+      </p>
+      <div className="mt-4 space-y-3">
+        {ready.length === 0 ? (
+          <p className="py-4 text-center text-sm text-slate-500 dark:text-slate-400">No matches are waiting on a result.</p>
+        ) : (
+          ready.map((match) => {
+            const a = entrants.get(match.entrant_a_id ?? '')?.display_name ?? 'TBD'
+            const b = entrants.get(match.entrant_b_id ?? '')?.display_name ?? 'TBD'
+            return (
+              <div key={match.id} className="rounded-xl border border-slate-200 p-3 dark:border-slate-800">
+                <p className="text-[11px] font-semibold uppercase tracking-wide text-slate-500 dark:text-slate-400">
+                  {BRACKET_LABELS[match.bracket]} · Round {match.round}
+                </p>
+                <p className="mt-1 text-sm font-bold text-slate-900 dark:text-slate-100">
+                  {a} <span className="font-normal text-slate-400">vs</span> {b}
+                </p>
+                <div className="mt-3 flex flex-col gap-3 lg:flex-row lg:items-end lg:justify-between">
+                  <form action={recordAction} className="flex flex-wrap items-end gap-2">
+                    <input type="hidden" name="tournament_id" value={tournamentId} />
+                    <input type="hidden" name="match_id" value={match.id} />
+                    <select name="winner" required defaultValue="" className={INPUT_CLASS}>
+                      <option value="" disabled>
+                        Winner
+                      </option>
+                      <option value="A">{a}</option>
+                      <option value="B">{b}</option>
+                    </select>
+                    <input name="score_a" type="number" min={0} placeholder="A" aria-label={`${a} score`} className={`${INPUT_CLASS} w-14`} />
+                    <input name="score_b" type="number" min={0} placeholder="B" aria-label={`${b} score`} className={`${INPUT_CLASS} w-14`} />
+                    <button
+                      type="submit"
+                      className="rounded-lg bg-slate-900 px-3 py-1.5 text-xs font-semibold text-white transition hover:bg-slate-800 dark:bg-white dark:text-slate-900 dark:hover:bg-slate-200"
+                    >
+                      Record result
+                    </button>
+                  </form>
+                  <form action={scheduleAction} className="flex flex-wrap items-end gap-2">
+                    <input type="hidden" name="tournament_id" value={tournamentId} />
+                    <input type="hidden" name="match_id" value={match.id} />
+                    <input
+                      name="scheduled_at"
+                      type="datetime-local"
+                      defaultValue={toLocalInput(match.scheduled_at)}
+                      className={INPUT_CLASS}
+                    />
+                    <button
+                      type="submit"
+                      className="rounded-lg border border-slate-200 px-3 py-1.5 text-xs font-semibold text-slate-700 transition hover:border-slate-300 dark:border-slate-700 dark:text-slate-200 dark:hover:border-slate-500"
+                    >
+                      Schedule
+                    </button>
+                  </form>
+                </div>
+              </div>
+            )
+          })
+        )}
+      </div>
+    </section>
+  )
+}
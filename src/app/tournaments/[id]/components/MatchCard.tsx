@@ -0,0 +1,57 @@
+import type { EntrantRow, MatchRow } from '../../types'
+import { formatDateTime } from '../../utils'
+
+type Props = {
+  match: MatchRow
+  entrants: Map<string, EntrantRow>
+}
+
+function SlotRow({
+  entrant,
+  score,
+  won,
+  decided,
+}: {
+  entrant: EntrantRow | null
+  score: number | null
+  won: boolean
+  decided: boolean
+}) {
+  return (
+    <div
+      className={`flex items-center justify-between gap-3 px-3 py-1.5 text-xs ${
+        won
+          ? 'font-bold text-slate-900 dark:text-slate-100'
+          : decided
+            ? 'text-slate-400 dark:text-slate-500'
+            : 'text-slate-700 dark:text-slate-200'
+      }`}
+    >
+      <span className="flex min-w-0 items-center gap-2">
+        {entrant?.seed ? <span className="w-4 shrink-0 tabular-nums text-[10px] text-slate-400">{entrant.seed}</span> : null}
+        <span className={`truncate ${entrant ? '' : 'italic text-slate-400 dark:text-slate-500'}`}>{entrant?.display_name ?? 'TBD'}</span>
+      </span>
+      <span className="shrink-0 tabular-nums">{score ?? (won ? 'W' : '')}</span>
+    </div>
+  )
+}
+
+export default function MatchCard({ match, entrants }: Props) {
+  const a = match.entrant_a_id ? entrants.get(match.entrant_a_id) ?? null : null
+  const b = match.entrant_b_id ? entrants.get(match.entrant_b_id) ?? null : null
+  const decided = Boolean(match.winner_entrant_id)
+  const scheduled = !decided ? formatDateTime(match.scheduled_at) : null
+
+  return (
+    <div className="w-52 overflow-hidden rounded-lg border border-slate-200 bg-white shadow-sm dark:border-slate-700 dark:bg-slate-900">
+      <SlotRow entrant={a} score={match.score_a} won={decided && match.winner_entrant_id === match.entrant_a_id} decided={decided} />
+      <div className="border-t border-slate-100 dark:border-slate-800" />
+      <SlotRow entrant={b} score={match.score_b} won={decided && match.winner_entrant_id === match.entrant_b_id} decided={decided} />
+      {scheduled && (
+        <div className="border-t border-slate-100 bg-slate-50 px-3 py-1 text-[10px] font-semibold text-slate-500 dark:border-slate-800 dark:bg-slate-800/50 dark:text-slate-400">
+          {scheduled}
+        </div>
+      )}
+    </div>
+  )
+}
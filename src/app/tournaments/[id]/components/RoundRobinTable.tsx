@@ -0,0 +1,40 @@
+import type { RoundRobinStanding } from '@/lib/tournaments/bracket'
+import type { EntrantRow } from '../../types'
+
+type Props = {
+  standings: RoundRobinStanding[]
+  entrants: Map<string, EntrantRow>
+}
+
+export default function RoundRobinTable({ standings, entrants }: Props) {
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-left text-sm">
+        <thead>
+          <tr className="text-[11px] uppercase tracking-wide text-slate-500 dark:text-slate-400">
+            <th className="py-2 pr-3 font-semibold">#</th>
+            <th className="py-2 pr-3 font-semibold">Entrant</th>
+            <th className="py-2 pr-3 text-right font-semibold">Played</th>
+            <th className="py-2 pr-3 text-right font-semibold">W</th>
+            <th className="py-2 pr-3 text-right font-semibold">L</th>
+            <th className="py-2 text-right font-semibold">Diff</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-slate-100 dark:divide-slate-800">
+          {standings.map((row, idx) => (
+            <tr key={row.entrantId} className="text-slate-700 dark:text-slate-200">
+              <td className="py-2 pr-3 tabular-nums text-slate-400">{idx + 1}</td>
+              <td className="py-2 pr-3 font-semibold text-slate-900 dark:text-slate-100">
+                {entrants.get(row.entrantId)?.display_name ?? 'Unknown'}
+              </td>
+              <td className="py-2 pr-3 text-right tabular-nums">{row.played}</td>
+              <td className="py-2 pr-3 text-right tabular-nums">{row.wins}</td>
+              <td className="py-2 pr-3 text-right tabular-nums">{row.losses}</td>
+              <td className="py-2 text-right tabular-nums">{row.scoreDiff > 0 ? `+${row.scoreDiff}` : row.scoreDiff}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  )
+}
@@ -0,0 +1,227 @@
+import Link from 'next/link'
+import { notFound } from 'next/navigation'
+import { createClient } from '@/lib/supabase/server'
+import { createServiceClient } from '@/lib/supabase/service'
+import { roundRobinStandings, TOURNAMENT_FORMAT_LABELS, type BracketSide } from '@/lib/tournaments/bracket'
+import {
+  deleteTournament,
+  recordResult,
+  registerEntrant,
+  removeEntrant,
+  scheduleMatch,
+  startTournament,
+} from '../actions'
+import { ENTRANT_COLUMNS, MATCH_COLUMNS, TOURNAMENT_COLUMNS, type EntrantRow, type MatchRow, type TournamentRow } from '../types'
+import { BRACKET_LABELS, formatDate, formatDateTime, STATUS_BADGE, STATUS_LABELS } from '../utils'
+import BracketView from './components/BracketView'
+import EntrantsPanel from './components/EntrantsPanel'
+import ManageMatches from './components/ManageMatches'
+import RoundRobinTable from './components/RoundRobinTable'
+
+const BRACKET_ORDER: BracketSide[] = ['WINNERS', 'LOSERS', 'GRAND_FINAL', 'ROUND_ROBIN']
+
+export default async function TournamentPage({
+  params,
+  searchParams,
+}: {
+  params: Promise<{ id: string }>
+  searchParams?: Promise<{ ok?: string; err?: string }> | { ok?: string; err?: string }
+}) {
+  const { id } = await params
+  const sp = await Promise.resolve(searchParams ?? {})
+
+  const supabase = await createClient()
+  const { data: auth } = await supabase.auth.getUser()
+  const user = auth.user
+
+  const service = createServiceClient()
+  const { data: tournamentData } = await service.from('tournaments').select(TOURNAMENT_COLUMNS).eq('id', id).maybeSingle()
+  const tournament = tournamentData as TournamentRow | null
+  if (!tournament) notFound()
+
+  const canManage = user?.id === tournament.organizer_user_id
+  const registrationOpen = tournament.status === 'REGISTRATION'
+
+  const [entrantsRes, matchesRes, clubsRes] = await Promise.all([
+    service.from('tournament_entrants').select(ENTRANT_COLUMNS).eq('tournament_id', id).order('created_at', { ascending: true }),
+    service
+      .from('tournament_matches')
+      .select(MATCH_COLUMNS)
+      .eq('tournament_id', id)
+      .order('round', { ascending: true })
+      .order('position', { ascending: true }),
+    canManage && registrationOpen && tournament.entrant_type === 'CLUB'
+      ? supabase.from('clubs').select('id, name').order('name', { ascending: true })
+      : Promise.resolve({ data: [] as Array<{ id: string; name: string }> }),
+  ])
+
+  const entrants = (entrantsRes.data ?? []) as EntrantRow[]
+  const matches = (matchesRes.data ?? []) as MatchRow[]
+  const entrantsById = new Map(entrants.map((entrant) => [entrant.id, entrant]))
+  const champion = tournament.champion_entrant_id ? entrantsById.get(tournament.champion_entrant_id) ?? null : null
+
+  const matchesByBracket = new Map<BracketSide, MatchRow[]>()
+  for (const match of matches) {
+    const list = matchesByBracket.get(match.bracket) ?? []
+    list.push(match)
+    matchesByBracket.set(match.bracket, list)
+  }
+
+  const seededIds = [...entrants]
+    .sort((a, b) => (a.seed ?? Number.MAX_SAFE_INTEGER) - (b.seed ?? Number.MAX_SAFE_INTEGER))
+    .map((entrant) => entrant.id)
+  const standings = tournament.format === 'ROUND_ROBIN' && matches.length > 0 ? roundRobinStandings(seededIds, matches) : []
+
+  const upcoming = matches
+    .filter((match) => !match.completed_at && match.scheduled_at)
+    .sort((a, b) => (a.scheduled_at ?? '').localeCompare(b.scheduled_at ?? ''))
+  const results = matches
+    .filter((match) => match.completed_at)
+    .sort((a, b) => (b.completed_at ?? '').localeCompare(a.completed_at ?? ''))
+
+  const nameOf = (entrantId: string | null) => (entrantId ? entrantsById.get(entrantId)?.display_name ?? 'Unknown' : 'TBD')
+  const startsLabel = formatDate(tournament.starts_at)
+
+  return (
+    <div className="py-10 lg:py-14">
+      <div className="mx-auto max-w-6xl space-y-8">
+        <div className="rounded-3xl border border-slate-200 bg-white p-8 shadow-sm dark:border-slate-800 dark:bg-slate-900">
+          <Link href="/tournaments" className="text-xs font-semibold text-slate-500 hover:text-slate-700 dark:text-slate-400 dark:hover:text-slate-200">
+            ← All tournaments
+          </Link>
+          <div className="mt-3 flex flex-col gap-4 lg:flex-row lg:items-start lg:justify-between">
+            <div className="min-w-0">
+              <h1 className="text-3xl font-black text-slate-900 dark:text-slate-100">{tournament.name}</h1>
+              <p className="mt-2 text-sm text-slate-600 dark:text-slate-300">
+                {TOURNAMENT_FORMAT_LABELS[tournament.format]} · {tournament.entrant_type === 'CLUB' ? 'Clubs' : 'Players'}
+                {startsLabel ? ` · Starts ${startsLabel}` : ''}
+              </p>
+              {tournament.description && (
+                <p className="mt-3 max-w-2xl whitespace-pre-line text-sm text-slate-600 dark:text-slate-300">{tournament.description}</p>
+              )}
+            </div>
+            <span
+              className={`inline-flex shrink-0 items-center self-start rounded-full border px-3 py-1 text-xs font-semibold ${STATUS_BADGE[tournament.status]}`}
+            >
+              {STATUS_LABELS[tournament.status]}
+            </span>
+          </div>
+          {champion && (
+            <div className="mt-5 rounded-xl border border-amber-200 bg-amber-50 px-4 py-3 text-sm font-bold text-amber-800 dark:border-amber-500/30 dark:bg-amber-500/10 dark:text-amber-200">
+              🏆 Champion: {champion.display_name}
+            </div>
+          )}
+        </div>
+
+        {(sp.ok || sp.err) && (
+          <div className="space-y-3">
+            {sp.ok && (
+              <div className="rounded-xl border border-emerald-200 bg-emerald-50 px-4 py-3 text-sm font-medium text-emerald-700 dark:border-emerald-500/30 dark:bg-emerald-500/10 dark:text-emerald-300">
+                {sp.ok}
+              </div>
+            )}
+            {sp.err && (
+              <div className="rounded-xl border border-rose-200 bg-rose-50 px-4 py-3 text-sm font-medium text-rose-700 dark:border-rose-500/30 dark:bg-rose-500/10 dark:text-rose-300">
+                {sp.err}
+              </div>
+            )}
+          </div>
+        )}
+
+        {matches.length > 0 && (
+          <section className="space-y-6 rounded-2xl border-2 border-slate-200 bg-white p-6 shadow-sm dark:border-slate-800 dark:bg-slate-900">
+            <h2 className="text-lg font-bold text-slate-900 dark:text-slate-100">
+              {tournament.format === 'ROUND_ROBIN' ? 'Standings' : 'Bracket'}
+            </h2>
+            {standings.length > 0 && <RoundRobinTable standings={standings} entrants={entrantsById} />}
+            {BRACKET_ORDER.map((bracket) => (
+              <BracketView key={bracket} bracket={bracket} matches={matchesByBracket.get(bracket) ?? []} entrants={entrantsById} />
+            ))}
+          </section>
+        )}
+
+        {canManage && tournament.status === 'IN_PROGRESS' && (
+          <ManageMatches
+            tournamentId={tournament.id}
+            matches={matches}
+            entrants={entrantsById}
+            recordAction={recordResult}
+            scheduleAction={scheduleMatch}
+          />
+        )}
+
+        <div className="grid gap-8 lg:grid-cols-2">
+          <section className="rounded-2xl border-2 border-slate-200 bg-white p-6 shadow-sm dark:border-slate-800 dark:bg-slate-900">
+            <h2 className="text-lg font-bold text-slate-900 dark:text-slate-100">Schedule</h2>
+            <div className="mt-4 divide-y divide-slate-100 dark:divide-slate-800">
+              {upcoming.length === 0 ? (
+                <p className="py-4 text-center text-sm text-slate-500 dark:text-slate-400">No matches scheduled.</p>
+              ) : (
+                upcoming.map((match) => (
+                  <div key={match.id} className="flex items-center justify-between gap-3 py-2 text-sm">
+                    <span className="min-w-0 truncate text-slate-900 dark:text-slate-100">
+                      {nameOf(match.entrant_a_id)} <span className="text-slate-400">vs</span> {nameOf(match.entrant_b_id)}
+                    </span>
+                    <span className="shrink-0 text-xs font-semibold text-slate-500 dark:text-slate-400">
+                      {formatDateTime(match.scheduled_at)}
+                    </span>
+                  </div>
+                ))
+              )}
+            </div>
+          </section>
+
+          <section className="rounded-2xl border-2 border-slate-200 bg-white p-6 shadow-sm dark:border-slate-800 dark:bg-slate-900">
+            <h2 className="text-lg font-bold text-slate-900 dark:text-slate-100">Results</h2>
+            <div className="mt-4 divide-y divide-slate-100 dark:divide-slate-800">
+              {results.length === 0 ? (
+                <p className="py-4 text-center text-sm text-slate-500 dark:text-slate-400">No results yet.</p>
+              ) : (
+                results.map((match) => {
+                  const aWon = match.winner_entrant_id === match.entrant_a_id
+                  const score = match.score_a !== null && match.score_b !== null ? `${match.score_a}–${match.score_b}` : null
+                  return (
+                    <div key={match.id} className="py-2">
+                      <div className="flex items-center justify-between gap-3 text-sm">
+                        <span className="min-w-0 truncate text-slate-900 dark:text-slate-100">
+                          <span className={aWon ? 'font-bold' : 'text-slate-500 dark:text-slate-400'}>{nameOf(match.entrant_a_id)}</span>{' '}
+                          <span className="text-slate-400">vs</span>{' '}
+                          <span className={!aWon ? 'font-bold' : 'text-slate-500 dark:text-slate-400'}>{nameOf(match.entrant_b_id)}</span>
+                        </span>
+                        {score && <span className="shrink-0 text-sm font-black tabular-nums text-slate-900 dark:text-slate-100">{score}</span>}
+                      </div>
+                      <p className="mt-0.5 text-[11px] text-slate-500 dark:text-slate-400">
+                        {BRACKET_LABELS[match.bracket]} · Round {match.round} · {formatDateTime(match.completed_at)}
+                      </p>
+                    </div>
+                  )
+                })
+              )}
+            </div>
+          </section>
+        </div>
+
+        <EntrantsPanel
+          tournamentId={tournament.id}
+          entrantType={tournament.entrant_type}
+          entrants={entrants}
+          canManage={canManage}
+          registrationOpen={registrationOpen}
+          clubOptions={(clubsRes.data ?? []) as Array<{ id: string; name: string }>}
+          registerAction={registerEntrant}
+          removeAction={removeEntrant}
+          startAction={startTournament}
+        />
+
+        {canManage && (
+          <form action={deleteTournament} className="flex justify-end">
+            <input type="hidden" name="tournament_id" value={tournament.id} />
+            <button type="submit" className="text-xs font-semibold text-rose-600 hover:text-rose-700 dark:text-rose-400">
+              Delete tournament
+            </button>
+          </form>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,397 @@
+'use server'
+
+import { revalidatePath } from 'next/cache'
+import { redirect } from 'next/navigation'
+import { parseRiotId } from '@/lib/riot/parseRiotID'
+import { resolvePuuid } from '@/lib/riot/resolvePuuid'
+import { createClient } from '@/lib/supabase/server'
+import { createServiceClient } from '@/lib/supabase/service'
+import {
+  isEntrantType,
+  isTournamentFormat,
+  MAX_TOURNAMENT_ENTRANTS,
+  MIN_TOURNAMENT_ENTRANTS,
+  planTournament,
+  roundRobinStandings,
+} from '@/lib/tournaments/bracket'
+import { seedEntrants } from '@/lib/tournaments/seeding'
+import { ENTRANT_COLUMNS, MATCH_COLUMNS, TOURNAMENT_COLUMNS, type EntrantRow, type MatchRow, type TournamentRow } from './types'
+import { errorMessage, tournamentUrl } from './utils'
+
+const NAME_MAX_LENGTH = 60
+const DESCRIPTION_MAX_LENGTH = 280
+
+function parseDateInput(raw: string): string | null {
+  if (!raw) return null
+  const date = new Date(raw)
+  return Number.isNaN(date.getTime()) ? null : date.toISOString()
+}
+
+function parseScore(raw: FormDataEntryValue | null): number | null {
+  const value = String(raw ?? '').trim()
+  if (!value) return null
+  const parsed = Number(value)
+  return Number.isInteger(parsed) && parsed >= 0 ? parsed : NaN
+}
+
+// Tournament tables have no RLS policies, so every write goes through the
+// service client once the signed-in user is confirmed as the organizer.
+async function requireOrganizer(tournamentId: string) {
+  const supabase = await createClient()
+  const { data: auth } = await supabase.auth.getUser()
+  const user = auth.user
+  if (!user) redirect('/sign-in')
+
+  const service = createServiceClient()
+  const { data } = await service.from('tournaments').select(TOURNAMENT_COLUMNS).eq('id', tournamentId).maybeSingle()
+  const tournament = data as TournamentRow | null
+  if (!tournament) redirect('/tournaments?err=Tournament not found')
+  if (tournament.organizer_user_id !== user.id) {
+    redirect(tournamentUrl(tournamentId, { err: 'Only the organizer can manage this tournament' }))
+  }
+
+  return { service, tournament }
+}
+
+function revalidateTournament(tournamentId: string) {
+  revalidatePath('/tournaments')
+  revalidatePath(`/tournaments/${tournamentId}`)
+}
+
+export async function createTournament(formData: FormData) {
+  const name = String(formData.get('name') ?? '').trim()
+  const description = String(formData.get('description') ?? '').trim()
+  const format = String(formData.get('format') ?? '').trim()
+  const entrantType = String(formData.get('entrant_type') ?? '').trim()
+  const startsAt = parseDateInput(String(formData.get('starts_at') ?? '').trim())
+
+  if (!name) redirect('/tournaments?err=Give the tournament a name')
+  if (name.length > NAME_MAX_LENGTH) redirect(`/tournaments?err=Names are limited to ${NAME_MAX_LENGTH} characters`)
+  if (description.length > DESCRIPTION_MAX_LENGTH) {
+    redirect(`/tournaments?err=Descriptions are limited to ${DESCRIPTION_MAX_LENGTH} characters`)
+  }
+  if (!isTournamentFormat(format)) redirect('/tournaments?err=Pick a tournament format')
+  if (!isEntrantType(entrantType)) redirect('/tournaments?err=Pick clubs or players as entrants')
+
+  const supabase = await createClient()
+  const { data: auth } = await supabase.auth.getUser()
+  const user = auth.user
+  if (!user) redirect('/sign-in')
+
+  const service = createServiceClient()
+  const { data: created, error } = await service
+    .from('tournaments')
+    .insert({
+      organizer_user_id: user.id,
+      name,
+      description: description || null,
+      format,
+      entrant_type: entrantType,
+      starts_at: startsAt,
+    })
+    .select('id')
+    .single()
+
+  if (error || !created?.id) redirect(`/tournaments?err=${encodeURIComponent(error?.message ?? 'Could not create tournament')}`)
+
+  revalidatePath('/tournaments')
+  redirect(tournamentUrl(created.id, { ok: 'Tournament created. Register entrants, then start it to draw the bracket.' }))
+}
+
+export async function deleteTournament(formData: FormData) {
+  const tournamentId = String(formData.get('tournament_id') ?? '').trim()
+  if (!tournamentId) redirect('/tournaments')
+
+  const { service } = await requireOrganizer(tournamentId)
+  const { error } = await service.from('tournaments').delete().eq('id', tournamentId)
+  if (error) redirect(tournamentUrl(tournamentId, { err: error.message }))
+
+  revalidatePath('/tournaments')
+  redirect('/tournaments?ok=Tournament deleted')
+}
+
+export async function registerEntrant(formData: FormData) {
+  const tournamentId = String(formData.get('tournament_id') ?? '').trim()
+  if (!tournamentId) redirect('/tournaments')
+
+  const { service, tournament } = await requireOrganizer(tournamentId)
+  if (tournament.status !== 'REGISTRATION') {
+    redirect(tournamentUrl(tournamentId, { err: 'Registration is closed once the bracket is drawn' }))
+  }
+
+  const { count } = await service
+    .from('tournament_entrants')
+    .select('id', { count: 'exact', head: true })
+    .eq('tournament_id', tournamentId)
+  if ((count ?? 0) >= MAX_TOURNAMENT_ENTRANTS) {
+    redirect(tournamentUrl(tournamentId, { err: `Tournaments are limited to ${MAX_TOURNAMENT_ENTRANTS} entrants` }))
+  }
+
+  let entrant: { club_id: string | null; player_puuid: string | null; display_name: string }
+  if (tournament.entrant_type === 'CLUB') {
+    const clubId = String(formData.get('club_id') ?? '').trim()
+    if (!clubId) redirect(tournamentUrl(tournamentId, { err: 'Select a club' }))
+
+    const { data: club } = await service.from('clubs').select('id, name').eq('id', clubId).maybeSingle()
+    if (!club?.id) redirect(tournamentUrl(tournamentId, { err: 'Club not found' }))
+
+    const { data: existing } = await service
+      .from('tournament_entrants')
+      .select('id')
+      .eq('tournament_id', tournamentId)
+      .eq('club_id', club.id)
+      .maybeSingle()
+    if (existing?.id) redirect(tournamentUrl(tournamentId, { err: `${club.name} is already registered` }))
+
+    entrant = { club_id: club.id, player_puuid: null, display_name: club.name }
+  } else {
+    const riotIdRaw = String(formData.get('riot_id') ?? '').trim()
+    if (!riotIdRaw) redirect(tournamentUrl(tournamentId, { err: 'Enter a Riot ID like gameName#tagLine' }))
+
+    let gameName = ''
+    let tagLine = ''
+    try {
+      const parsed = parseRiotId(riotIdRaw)
+      gameName = parsed.gameName
+      tagLine = parsed.tagLine
+    } catch (err) {
+      redirect(tournamentUrl(tournamentId, { err: errorMessage(err, 'Invalid Riot ID') }))
+    }
+
+    let puuid = ''
+    try {
+      puuid = await resolvePuuid(gameName, tagLine)
+    } catch (err) {
+      redirect(tournamentUrl(tournamentId, { err: errorMessage(err, 'Riot lookup failed') }))
+    }
+
+    const { data: existing } = await service
+      .from('tournament_entrants')
+      .select('id')
+      .eq('tournament_id', tournamentId)
+      .eq('player_puuid', puuid)
+      .maybeSingle()
+    if (existing?.id) redirect(tournamentUrl(tournamentId, { err: `${gameName}#${tagLine} is already registered` }))
+
+    entrant = { club_id: null, player_puuid: puuid, display_name: `${gameName}#${tagLine}` }
+  }
+
+  const { error } = await service.from('tournament_entrants').insert({ tournament_id: tournamentId, ...entrant })
+  if (error) redirect(tournamentUrl(tournamentId, { err: error.message }))
+
+  revalidateTournament(tournamentId)
+  redirect(tournamentUrl(tournamentId, { ok: `Registered ${entrant.display_name}` }))
+}
+
+export async function removeEntrant(formData: FormData) {
+  const tournamentId = String(formData.get('tournament_id') ?? '').trim()
+  const entrantId = String(formData.get('entrant_id') ?? '').trim()
+  if (!tournamentId) redirect('/tournaments')
+  if (!entrantId) redirect(tournamentUrl(tournamentId, { err: 'Missing entrant to remove' }))
+
+  const { service, tournament } = await requireOrganizer(tournamentId)
+  if (tournament.status !== 'REGISTRATION') {
+    redirect(tournamentUrl(tournamentId, { err: 'Entrants cannot be removed once the bracket is drawn' }))
+  }
+
+  const { error } = await service.from('tournament_entrants').delete().eq('id', entrantId).eq('tournament_id', tournamentId)
+  if (error) redirect(tournamentUrl(tournamentId, { err: error.message }))
+
+  revalidateTournament(tournamentId)
+  redirect(tournamentUrl(tournamentId, { ok: 'Entrant removed' }))
+}
+
+export async function startTournament(formData: FormData) {
+  const tournamentId = String(formData.get('tournament_id') ?? '').trim()
+  if (!tournamentId) redirect('/tournaments')
+
+  const { service, tournament } = await requireOrganizer(tournamentId)
+  if (tournament.status !== 'REGISTRATION') redirect(tournamentUrl(tournamentId, { err: 'The bracket has already been drawn' }))
+
+  const { data: entrantRows } = await service
+    .from('tournament_entrants')
+    .select(ENTRANT_COLUMNS)
+    .eq('tournament_id', tournamentId)
+    .order('created_at', { ascending: true })
+  const entrants = (entrantRows ?? []) as EntrantRow[]
+  if (entrants.length < MIN_TOURNAMENT_ENTRANTS) {
+    redirect(tournamentUrl(tournamentId, { err: `Register at least ${MIN_TOURNAMENT_ENTRANTS} entrants first` }))
+  }
+
+  // Claim the draw before writing anything, so two concurrent starts can't
+  // both insert a bracket. A failed draw hands the tournament back.
+  const { data: claimed, error: claimError } = await service
+    .from('tournaments')
+    .update({
+      status: 'IN_PROGRESS',
+      starts_at: tournament.starts_at ?? new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', tournamentId)
+    .eq('status', 'REGISTRATION')
+    .select('id')
+  if (claimError) redirect(tournamentUrl(tournamentId, { err: claimError.message }))
+  if (!claimed?.length) redirect(tournamentUrl(tournamentId, { err: 'The bracket has already been drawn' }))
+
+  const releaseClaim = () =>
+    service
+      .from('tournaments')
+      .update({ status: 'REGISTRATION', starts_at: tournament.starts_at, updated_at: new Date().toISOString() })
+      .eq('id', tournamentId)
+      .eq('status', 'IN_PROGRESS')
+
+  const seededIds = await seedEntrants(entrants)
+  const seedResults = await Promise.all(
+    seededIds.map((id, idx) => service.from('tournament_entrants').update({ seed: idx + 1 }).eq('id', id))
+  )
+  const seedError = seedResults.find((res) => res.error)?.error
+  if (seedError) {
+    await releaseClaim()
+    redirect(tournamentUrl(tournamentId, { err: seedError.message }))
+  }
+
+  // Ids are assigned up front so the winner/loser pointers can go in with the
+  // same insert.
+  const planned = planTournament(tournament.format, seededIds)
+  const idByKey = new Map(planned.map((match) => [match.key, crypto.randomUUID()]))
+  const rows = planned.map((match) => ({
+    id: idByKey.get(match.key),
+    tournament_id: tournamentId,
+    bracket: match.bracket,
+    round: match.round,
+    position: match.position,
+    entrant_a_id: match.entrantA,
+    entrant_b_id: match.entrantB,
+    winner_to_match_id: match.winnerTo ? idByKey.get(match.winnerTo.key) : null,
+    winner_to_slot: match.winnerTo?.slot ?? null,
+    loser_to_match_id: match.loserTo ? idByKey.get(match.loserTo.key) : null,
+    loser_to_slot: match.loserTo?.slot ?? null,
+  }))
+
+  const { error: matchesError } = await service.from('tournament_matches').insert(rows)
+  if (matchesError) {
+    await releaseClaim()
+    redirect(tournamentUrl(tournamentId, { err: matchesError.message }))
+  }
+
+  revalidateTournament(tournamentId)
+  redirect(tournamentUrl(tournamentId, { ok: `Bracket drawn with ${entrants.length} seeded entrants` }))
+}
+
+export async function recordResult(formData: FormData) {
+  const tournamentId = String(formData.get('tournament_id') ?? '').trim()
+  const matchId = String(formData.get('match_id') ?? '').trim()
+  const winnerSlot = String(formData.get('winner') ?? '').trim()
+  const scoreA = parseScore(formData.get('score_a'))
+  const scoreB = parseScore(formData.get('score_b'))
+
+  if (!tournamentId) redirect('/tournaments')
+  if (!matchId) redirect(tournamentUrl(tournamentId, { err: 'Missing match' }))
+  if (winnerSlot !== 'A' && winnerSlot !== 'B') redirect(tournamentUrl(tournamentId, { err: 'Pick the winner' }))
+  if (Number.isNaN(scoreA) || Number.isNaN(scoreB)) {
+    redirect(tournamentUrl(tournamentId, { err: 'Scores must be whole numbers' }))
+  }
+  if (scoreA !== null && scoreB !== null) {
+    const winnerScore = winnerSlot === 'A' ? scoreA : scoreB
+    const loserScore = winnerSlot === 'A' ? scoreB : scoreA
+    if (winnerScore <= loserScore) redirect(tournamentUrl(tournamentId, { err: "The score doesn't match the winner" }))
+  }
+
+  const { service, tournament } = await requireOrganizer(tournamentId)
+  if (tournament.status !== 'IN_PROGRESS') redirect(tournamentUrl(tournamentId, { err: 'This tournament is not in progress' }))
+
+  const { data: matchData } = await service
+    .from('tournament_matches')
+    .select(MATCH_COLUMNS)
+    .eq('id', matchId)
+    .eq('tournament_id', tournamentId)
+    .maybeSingle()
+  const match = matchData as MatchRow | null
+  if (!match) redirect(tournamentUrl(tournamentId, { err: 'Match not found' }))
+  if (match.completed_at) redirect(tournamentUrl(tournamentId, { err: 'That match already has a result' }))
+  if (!match.entrant_a_id || !match.entrant_b_id) {
+    redirect(tournamentUrl(tournamentId, { err: 'Both entrants must be decided before recording a result' }))
+  }
+
+  const winnerId = winnerSlot === 'A' ? match.entrant_a_id : match.entrant_b_id
+  const loserId = winnerSlot === 'A' ? match.entrant_b_id : match.entrant_a_id
+  const completedAt = new Date().toISOString()
+
+  // Guarded on completed_at so two submissions can't both advance the bracket.
+  const { data: updated, error } = await service
+    .from('tournament_matches')
+    .update({ winner_entrant_id: winnerId, score_a: scoreA, score_b: scoreB, completed_at: completedAt })
+    .eq('id', matchId)
+    .is('completed_at', null)
+    .select('id')
+  if (error) redirect(tournamentUrl(tournamentId, { err: error.message }))
+  if (!updated || updated.length === 0) redirect(tournamentUrl(tournamentId, { err: 'That match already has a result' }))
+
+  const advances = [
+    { matchId: match.winner_to_match_id, slot: match.winner_to_slot, entrantId: winnerId },
+    { matchId: match.loser_to_match_id, slot: match.loser_to_slot, entrantId: loserId },
+  ]
+  for (const advance of advances) {
+    if (!advance.matchId || !advance.slot) continue
+    const column = advance.slot === 'A' ? 'entrant_a_id' : 'entrant_b_id'
+    const { error: advanceError } = await service
+      .from('tournament_matches')
+      .update({ [column]: advance.entrantId })
+      .eq('id', advance.matchId)
+    if (advanceError) redirect(tournamentUrl(tournamentId, { err: advanceError.message }))
+  }
+
+  let championId: string | null = null
+  if (tournament.format === 'ROUND_ROBIN') {
+    const [{ data: allMatches }, { data: entrantRows }] = await Promise.all([
+      service.from('tournament_matches').select(MATCH_COLUMNS).eq('tournament_id', tournamentId),
+      service.from('tournament_entrants').select(ENTRANT_COLUMNS).eq('tournament_id', tournamentId),
+    ])
+    const matches = (allMatches ?? []) as MatchRow[]
+    if (matches.every((row) => row.completed_at)) {
+      const seededIds = ((entrantRows ?? []) as EntrantRow[])
+        .sort((a, b) => (a.seed ?? Number.MAX_SAFE_INTEGER) - (b.seed ?? Number.MAX_SAFE_INTEGER))
+        .map((entrant) => entrant.id)
+      championId = roundRobinStandings(seededIds, matches)[0]?.entrantId ?? null
+    }
+  } else if (!match.winner_to_match_id) {
+    // Only the final (or grand final) has nowhere to send its winner.
+    championId = winnerId
+  }
+
+  if (championId) {
+    const { error: championError } = await service
+      .from('tournaments')
+      .update({ status: 'COMPLETED', champion_entrant_id: championId, updated_at: completedAt })
+      .eq('id', tournamentId)
+    if (championError) redirect(tournamentUrl(tournamentId, { err: championError.message }))
+  }
+
+  revalidateTournament(tournamentId)
+  redirect(tournamentUrl(tournamentId, { ok: championId ? 'Result recorded. We have a champion!' : 'Result recorded' }))
+}
+
+export async function scheduleMatch(formData: FormData) {
+  const tournamentId = String(formData.get('tournament_id') ?? '').trim()
+  const matchId = String(formData.get('match_id') ?? '').trim()
+  const scheduledRaw = String(formData.get('scheduled_at') ?? '').trim()
+
+  if (!tournamentId) redirect('/tournaments')
+  if (!matchId) redirect(tournamentUrl(tournamentId, { err: 'Missing match' }))
+  const scheduledAt = parseDateInput(scheduledRaw)
+  if (scheduledRaw && !scheduledAt) redirect(tournamentUrl(tournamentId, { err: 'Invalid match time' }))
+
+  const { service, tournament } = await requireOrganizer(tournamentId)
+  if (tournament.status === 'COMPLETED') redirect(tournamentUrl(tournamentId, { err: 'This tournament is already over' }))
+
+  const { error } = await service
+    .from('tournament_matches')
+    .update({ scheduled_at: scheduledAt })
+    .eq('id', matchId)
+    .eq('tournament_id', tournamentId)
+    .is('completed_at', null)
+  if (error) redirect(tournamentUrl(tournamentId, { err: error.message }))
+
+  revalidateTournament(tournamentId)
+  redirect(tournamentUrl(tournamentId, { ok: scheduledAt ? 'Match scheduled' : 'Match time cleared' }))
+}
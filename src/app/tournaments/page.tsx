@@ -1,14 +1,190 @@
-export default function TournamentsPage() {
+import Link from 'next/link'
+import { createClient } from '@/lib/supabase/server'
+import { createServiceClient } from '@/lib/supabase/service'
+import { ENTRANT_TYPES, TOURNAMENT_FORMAT_LABELS, TOURNAMENT_FORMATS } from '@/lib/tournaments/bracket'
+import { createTournament } from './actions'
+import { TOURNAMENT_COLUMNS, type TournamentRow } from './types'
+import { formatDate, STATUS_BADGE, STATUS_LABELS } from './utils'
+
+export default async function TournamentsPage({
+  searchParams,
+}: {
+  searchParams?: Promise<{ ok?: string; err?: string }> | { ok?: string; err?: string }
+}) {
+  const sp = await Promise.resolve(searchParams ?? {})
+  const supabase = await createClient()
+  const { data: auth } = await supabase.auth.getUser()
+  const user = auth.user
+
+  const service = createServiceClient()
+  const { data: tournamentRows } = await service
+    .from('tournaments')
+    .select(TOURNAMENT_COLUMNS)
+    .order('created_at', { ascending: false })
+    .limit(50)
+  const tournaments = (tournamentRows ?? []) as TournamentRow[]
+
+  const { data: entrantRows } =
+    tournaments.length > 0
+      ? await service
+          .from('tournament_entrants')
+          .select('tournament_id')
+          .in(
+            'tournament_id',
+            tournaments.map((t) => t.id)
+          )
+      : { data: [] as Array<{ tournament_id: string }> }
+  const entrantCounts = new Map<string, number>()
+  for (const row of entrantRows ?? []) entrantCounts.set(row.tournament_id, (entrantCounts.get(row.tournament_id) ?? 0) + 1)
+
+  const okMessage = sp.ok ?? null
+  const errMessage = sp.err ?? null
+
   return (
-    <div className="mx-auto max-w-4xl py-16">
-      <div className="rounded-3xl border border-slate-200 bg-white p-10 text-center shadow-sm dark:border-slate-800 dark:bg-slate-900">
-        <p className="text-xs font-semibold uppercase tracking-[0.35em] text-slate-500 dark:text-slate-400">
-          In progress
-        </p>
-        <h1 className="mt-4 text-3xl font-black text-slate-900 dark:text-slate-100">Tournaments</h1>
-        <p className="mt-3 text-sm text-slate-600 dark:text-slate-300">
-          Create and join custom tournaments soon.
-        </p>
+    <div className="py-10 lg:py-14">
+      <div className="mx-auto max-w-6xl space-y-8">
+        <div className="rounded-3xl border border-slate-200 bg-white p-8 shadow-sm dark:border-slate-800 dark:bg-slate-900">
+          <p className="text-xs font-semibold uppercase tracking-[0.35em] text-slate-500 dark:text-slate-400">Compete</p>
+          <h1 className="mt-3 text-3xl font-black text-slate-900 dark:text-slate-100">Tournaments</h1>
+          <p className="mt-2 text-sm text-slate-600 dark:text-slate-300">
+            Run brackets between clubs or players. Entrants are seeded by their current rank when the bracket is drawn.
+          </p>
+        </div>
+
+        {(okMessage || errMessage) && (
+          <div className="space-y-3">
+            {okMessage && (
+              <div className="rounded-xl border border-emerald-200 bg-emerald-50 px-4 py-3 text-sm font-medium text-emerald-700 dark:border-emerald-500/30 dark:bg-emerald-500/10 dark:text-emerald-300">
+                {okMessage}
+              </div>
+            )}
+            {errMessage && (
+              <div className="rounded-xl border border-rose-200 bg-rose-50 px-4 py-3 text-sm font-medium text-rose-700 dark:border-rose-500/30 dark:bg-rose-500/10 dark:text-rose-300">
+                {errMessage}
+              </div>
+            )}
+          </div>
+        )}
+
+        {user ? (
+          <section className="rounded-2xl border-2 border-slate-200 bg-white p-6 shadow-sm dark:border-slate-800 dark:bg-slate-900">
+            <h2 className="text-lg font-bold text-slate-900 dark:text-slate-100">Create a tournament</h2>
+            <p className="mt-1 text-sm text-slate-600 dark:text-slate-300">
+              You&apos;ll be the organizer: you register entrants, draw the bracket and record results.
+            </p>
+            <form action={createTournament} className="mt-6 grid gap-4 sm:grid-cols-2">
+              <label className="space-y-1.5 sm:col-span-2">
+                <span className="text-xs font-semibold text-slate-600 dark:text-slate-300">Name</span>
+                <input
+                  name="name"
+                  required
+                  maxLength={60}
+                  placeholder="Summer Split Cup"
+                  className="w-full rounded-lg border border-slate-200 bg-white px-3 py-2 text-sm text-slate-900 dark:border-slate-700 dark:bg-slate-950 dark:text-slate-100"
+                />
+              </label>
+              <label className="space-y-1.5 sm:col-span-2">
+                <span className="text-xs font-semibold text-slate-600 dark:text-slate-300">Description</span>
+                <textarea
+                  name="description"
+                  rows={2}
+                  maxLength={280}
+                  className="w-full rounded-lg border border-slate-200 bg-white px-3 py-2 text-sm text-slate-900 dark:border-slate-700 dark:bg-slate-950 dark:text-slate-100"
+                />
+              </label>
+              <label className="space-y-1.5">
+                <span className="text-xs font-semibold text-slate-600 dark:text-slate-300">Format</span>
+                <select
+                  name="format"
+                  defaultValue="SINGLE_ELIMINATION"
+                  className="w-full rounded-lg border border-slate-200 bg-white px-3 py-2 text-sm text-slate-900 dark:border-slate-700 dark:bg-slate-950 dark:text-slate-100"
+                >
+                  {TOURNAMENT_FORMATS.map((format) => (
+                    <option key={format} value={format}>
+                      {TOURNAMENT_FORMAT_LABELS[format]}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="space-y-1.5">
+                <span className="text-xs font-semibold text-slate-600 dark:text-slate-300">Entrants</span>
+                <select
+                  name="entrant_type"
+                  defaultValue="CLUB"
+                  className="w-full rounded-lg border border-slate-200 bg-white px-3 py-2 text-sm text-slate-900 dark:border-slate-700 dark:bg-slate-950 dark:text-slate-100"
+                >
+                  {ENTRANT_TYPES.map((type) => (
+                    <option key={type} value={type}>
+                      {type === 'CLUB' ? 'Clubs' : 'Players'}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="space-y-1.5">
+                <span className="text-xs font-semibold text-slate-600 dark:text-slate-300">Starts (optional)</span>
+                <input
+                  type="datetime-local"
+                  name="starts_at"
+                  className="w-full rounded-lg border border-slate-200 bg-white px-3 py-2 text-sm text-slate-900 dark:border-slate-700 dark:bg-slate-950 dark:text-slate-100"
+                />
+              </label>
+              <div className="flex items-end">
+                <button
+                  type="submit"
+                  className="w-full rounded-lg bg-slate-900 px-4 py-2 text-sm font-semibold text-white transition hover:bg-slate-800 dark:bg-white dark:text-slate-900 dark:hover:bg-slate-200"
+                >
+                  Create tournament
+                </button>
+              </div>
+            </form>
+          </section>
+        ) : (
+          <div className="rounded-2xl border border-slate-200 bg-white px-6 py-4 text-sm text-slate-600 shadow-sm dark:border-slate-800 dark:bg-slate-900 dark:text-slate-300">
+            <Link href="/sign-in" className="font-semibold text-slate-900 underline dark:text-slate-100">
+              Sign in
+            </Link>{' '}
+            to organize a tournament.
+          </div>
+        )}
+
+        <section className="rounded-2xl border-2 border-slate-200 bg-white p-6 shadow-sm dark:border-slate-800 dark:bg-slate-900">
+          <h2 className="text-lg font-bold text-slate-900 dark:text-slate-100">All tournaments</h2>
+          <div className="mt-5 space-y-3">
+            {tournaments.length === 0 ? (
+              <div className="rounded-2xl border-2 border-dashed border-slate-200 bg-white py-12 text-center dark:border-slate-700 dark:bg-slate-900">
+                <p className="text-sm font-semibold text-slate-600 dark:text-slate-200">No tournaments yet</p>
+                <p className="mt-1 text-xs text-slate-500 dark:text-slate-400">Create one to get the first bracket going.</p>
+              </div>
+            ) : (
+              tournaments.map((tournament) => {
+                const startsLabel = formatDate(tournament.starts_at)
+                const entrants = entrantCounts.get(tournament.id) ?? 0
+                return (
+                  <Link
+                    key={tournament.id}
+                    href={`/tournaments/${tournament.id}`}
+                    className="flex flex-col gap-2 rounded-xl border border-slate-200 px-4 py-3 transition hover:border-slate-300 hover:bg-slate-50 sm:flex-row sm:items-center sm:justify-between dark:border-slate-800 dark:hover:border-slate-600 dark:hover:bg-slate-800/50"
+                  >
+                    <div className="min-w-0">
+                      <p className="truncate text-sm font-bold text-slate-900 dark:text-slate-100">{tournament.name}</p>
+                      <p className="mt-0.5 text-xs text-slate-500 dark:text-slate-400">
+                        {TOURNAMENT_FORMAT_LABELS[tournament.format]} · {entrants}{' '}
+                        {tournament.entrant_type === 'CLUB' ? 'clubs' : 'players'}
+                        {startsLabel ? ` · ${startsLabel}` : ''}
+                        {tournament.organizer_user_id === user?.id ? ' · You organize this' : ''}
+                      </p>
+                    </div>
+                    <span
+                      className={`inline-flex shrink-0 items-center rounded-full border px-2.5 py-0.5 text-[11px] font-semibold ${STATUS_BADGE[tournament.status]}`}
+                    >
+                      {STATUS_LABELS[tournament.status]}
+                    </span>
+                  </Link>
+                )
+              })
+            )}
+          </div>
+        </section>
       </div>
     </div>
   )
@@ -0,0 +1,49 @@
+import type { BracketSide, EntrantType, TournamentFormat, TournamentStatus } from '@/lib/tournaments/bracket'
+
+export type TournamentRow = {
+  id: string
+  organizer_user_id: string
+  name: string
+  description: string | null
+  format: TournamentFormat
+  entrant_type: EntrantType
+  status: TournamentStatus
+  starts_at: string | null
+  champion_entrant_id: string | null
+  created_at: string | null
+}
+
+export type EntrantRow = {
+  id: string
+  tournament_id: string
+  club_id: string | null
+  player_puuid: string | null
+  display_name: string
+  seed: number | null
+  created_at: string | null
+}
+
+export type MatchRow = {
+  id: string
+  tournament_id: string
+  bracket: BracketSide
+  round: number
+  position: number
+  entrant_a_id: string | null
+  entrant_b_id: string | null
+  winner_entrant_id: string | null
+  score_a: number | null
+  score_b: number | null
+  winner_to_match_id: string | null
+  winner_to_slot: 'A' | 'B' | null
+  loser_to_match_id: string | null
+  loser_to_slot: 'A' | 'B' | null
+  scheduled_at: string | null
+  completed_at: string | null
+}
+
+export const TOURNAMENT_COLUMNS =
+  'id, organizer_user_id, name, description, format, entrant_type, status, starts_at, champion_entrant_id, created_at'
+export const ENTRANT_COLUMNS = 'id, tournament_id, club_id, player_puuid, display_name, seed, created_at'
+export const MATCH_COLUMNS =
+  'id, tournament_id, bracket, round, position, entrant_a_id, entrant_b_id, winner_entrant_id, score_a, score_b, winner_to_match_id, winner_to_slot, loser_to_match_id, loser_to_slot, scheduled_at, completed_at'
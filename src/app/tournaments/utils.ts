@@ -0,0 +1,56 @@
+import type { BracketSide, TournamentStatus } from '@/lib/tournaments/bracket'
+
+export const STATUS_LABELS: Record<TournamentStatus, string> = {
+  REGISTRATION: 'Registration open',
+  IN_PROGRESS: 'In progress',
+  COMPLETED: 'Completed',
+}
+
+export const STATUS_BADGE: Record<TournamentStatus, string> = {
+  REGISTRATION: 'border-sky-200 bg-sky-50 text-sky-700 dark:border-sky-500/30 dark:bg-sky-500/10 dark:text-sky-300',
+  IN_PROGRESS: 'border-amber-200 bg-amber-50 text-amber-700 dark:border-amber-500/30 dark:bg-amber-500/10 dark:text-amber-300',
+  COMPLETED: 'border-slate-200 bg-slate-50 text-slate-600 dark:border-slate-700 dark:bg-slate-800 dark:text-slate-300',
+}
+
+export const BRACKET_LABELS: Record<BracketSide, string> = {
+  WINNERS: 'Winners bracket',
+  LOSERS: 'Losers bracket',
+  GRAND_FINAL: 'Grand final',
+  ROUND_ROBIN: 'Round robin',
+}
+
+export function tournamentUrl(id: string, opts: { ok?: string; err?: string } = {}) {
+  const params = new URLSearchParams()
+  if (opts.ok) params.set('ok', opts.ok)
+  if (opts.err) params.set('err', opts.err)
+  const qs = params.toString()
+  return `/tournaments/${id}${qs ? `?${qs}` : ''}`
+}
+
+export function formatDate(value?: string | null) {
+  if (!value) return null
+  const d = new Date(value)
+  if (Number.isNaN(d.getTime())) return null
+  return d.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })
+}
+
+export function formatDateTime(value?: string | null) {
+  if (!value) return null
+  const d = new Date(value)
+  if (Number.isNaN(d.getTime())) return null
+  return d.toLocaleString('en-US', { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' })
+}
+
+export function roundLabel(bracket: BracketSide, round: number, rounds: number) {
+  if (bracket === 'GRAND_FINAL') return 'Grand final'
+  if (bracket === 'WINNERS') {
+    if (round === rounds) return 'Final'
+    if (round === rounds - 1) return 'Semifinals'
+    if (round === rounds - 2) return 'Quarterfinals'
+  }
+  return `Round ${round}`
+}
+
+export function errorMessage(err: unknown, fallback: string) {
+  return err instanceof Error ? err.message : fallback
+}
@@ -1,4 +1,5 @@
 import Link from 'next/link'
+import { getArchivedSeasonsCached } from '@/lib/leaderboard/archivedSeasons'
 
 const tabs = [
   { id: 'overview', label: 'Overview' },
@@ -12,9 +13,17 @@ type LeaderboardTabsProps = {
   leaderboardCode: number
   activeTab: TabId
   visibility: string
+  season?: number | null
 }
 
-export default function LeaderboardTabs({ leaderboardCode, activeTab, visibility }: LeaderboardTabsProps) {
+function tabHref(leaderboardCode: number, tabId: TabId, season: number | null) {
+  const base = tabId === 'overview' ? `/leaderboards/${leaderboardCode}` : `/leaderboards/${leaderboardCode}/${tabId}`
+  return season ? `${base}?season=${season}` : base
+}
+
+export default async function LeaderboardTabs({ leaderboardCode, activeTab, visibility, season = null }: LeaderboardTabsProps) {
+  const archivedSeasons = await getArchivedSeasonsCached()
+
   return (
     <div className="flex flex-wrap items-center gap-2.5">
       <span className="inline-flex items-center rounded-full bg-gradient-to-r from-slate-100 to-slate-50 px-3.5 py-1.5 text-xs font-semibold text-slate-700 ring-1 ring-inset ring-slate-300/50 uppercase tracking-wider shadow-sm dark:from-slate-800 dark:to-slate-900 dark:text-slate-200 dark:ring-slate-700/70">
@@ -22,7 +31,7 @@ export default function LeaderboardTabs({ leaderboardCode, activeTab, visibility
       </span>
       <div className="inline-flex items-center gap-1 rounded-full border border-slate-200 bg-white/90 p-1 text-sm font-semibold text-slate-600 shadow-sm backdrop-blur dark:border-slate-700 dark:bg-slate-900/85 dark:text-slate-200">
         {tabs.map((tab) => {
-          const href = tab.id === 'overview' ? `/leaderboards/${leaderboardCode}` : `/leaderboards/${leaderboardCode}/${tab.id}`
+          const href = tabHref(leaderboardCode, tab.id, season)
 
           if (tab.id === activeTab) {
             return (
@@ -48,6 +57,35 @@ export default function LeaderboardTabs({ leaderboardCode, activeTab, visibility
           )
         })}
       </div>
+      {archivedSeasons.length > 0 ? (
+        <div className="inline-flex items-center gap-1 rounded-full border border-slate-200 bg-white/90 p-1 text-xs font-semibold text-slate-600 shadow-sm backdrop-blur dark:border-slate-700 dark:bg-slate-900/85 dark:text-slate-200">
+          {[null, ...archivedSeasons.map((row) => row.season)].map((option) => {
+            const label = option ? `Season ${option}` : 'Current'
+            if (option === season) {
+              return (
+                <span
+                  key={option ?? 'current'}
+                  aria-current="page"
+                  className="inline-flex items-center rounded-full bg-slate-900 px-3 py-1 text-white shadow-sm cursor-default dark:bg-white dark:text-slate-900"
+                >
+                  {label}
+                </span>
+              )
+            }
+
+            return (
+              <Link
+                key={option ?? 'current'}
+                href={tabHref(leaderboardCode, activeTab, option)}
+                scroll={false}
+                className="inline-flex items-center rounded-full px-3 py-1 transition-colors duration-200 hover:bg-slate-100 hover:text-slate-900 dark:hover:bg-slate-800 dark:hover:text-white"
+              >
+                {label}
+              </Link>
+            )
+          })}
+        </div>
+      ) : null}
     </div>
   )
 }
@@ -0,0 +1,102 @@
+export const CHALLENGE_KINDS = ['NEW_CHAMPION_WINS', 'CLUB_LP_GAIN', 'MEMBERS_PLAY_GAMES'] as const
+export type ChallengeKind = (typeof CHALLENGE_KINDS)[number]
+
+export const CHALLENGE_PERIOD_MS = 7 * 24 * 60 * 60 * 1000
+
+export type ClubChallenge = {
+  id: string
+  key: string
+  title: string
+  description: string
+  kind: ChallengeKind
+  target: number
+  threshold: number | null
+  xp_reward: number
+  points_reward: number
+}
+
+export const CLUB_CHALLENGE_COLUMNS = 'id, key, title, description, kind, target, threshold, xp_reward, points_reward'
+
+// Ranked solo games played by a club member inside the challenge week.
+export type ChallengeGame = {
+  puuid: string
+  championId: number
+  win: boolean
+}
+
+export type ChallengeActivity = {
+  games: ChallengeGame[]
+  // Champions each member played this season before the week began.
+  priorChampions: Map<string, Set<number>>
+  lpDeltas: Array<{ puuid: string; delta: number }>
+}
+
+export type ChallengeResult = {
+  progress: number
+  // Members who moved the challenge forward; they earn XP when it completes.
+  contributors: string[]
+}
+
+export function isChallengeKind(value: string): value is ChallengeKind {
+  return (CHALLENGE_KINDS as readonly string[]).includes(value)
+}
+
+// Challenge weeks run Monday 00:00 UTC to the following Monday.
+export function challengePeriodStartMs(nowMs: number = Date.now()): number {
+  const date = new Date(nowMs)
+  const daysSinceMonday = (date.getUTCDay() + 6) % 7
+  return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() - daysSinceMonday)
+}
+
+export function challengeUnit(kind: ChallengeKind): string {
+  if (kind === 'CLUB_LP_GAIN') return 'LP'
+  if (kind === 'MEMBERS_PLAY_GAMES') return 'members'
+  return 'wins'
+}
+
+export function evaluateChallenge(
+  challenge: Pick<ClubChallenge, 'kind' | 'threshold'>,
+  memberPuuids: Iterable<string>,
+  activity: ChallengeActivity
+): ChallengeResult {
+  const members = new Set(memberPuuids)
+
+  if (challenge.kind === 'CLUB_LP_GAIN') {
+    const byMember = new Map<string, number>()
+    for (const row of activity.lpDeltas) {
+      if (!members.has(row.puuid)) continue
+      byMember.set(row.puuid, (byMember.get(row.puuid) ?? 0) + row.delta)
+    }
+    const total = Array.from(byMember.values()).reduce((sum, delta) => sum + delta, 0)
+    return {
+      progress: Math.max(total, 0),
+      contributors: Array.from(byMember.entries())
+        .filter(([, delta]) => delta > 0)
+        .map(([puuid]) => puuid),
+    }
+  }
+
+  if (challenge.kind === 'MEMBERS_PLAY_GAMES') {
+    const required = Math.max(challenge.threshold ?? 1, 1)
+    const gamesByMember = new Map<string, number>()
+    for (const game of activity.games) {
+      if (!members.has(game.puuid)) continue
+      gamesByMember.set(game.puuid, (gamesByMember.get(game.puuid) ?? 0) + 1)
+    }
+    const qualified = Array.from(gamesByMember.entries())
+      .filter(([, games]) => games >= required)
+      .map(([puuid]) => puuid)
+    return { progress: qualified.length, contributors: qualified }
+  }
+
+  // A champion stays "new" for the whole week, so repeat wins on it all count.
+  const contributors = new Set<string>()
+  let wins = 0
+  for (const game of activity.games) {
+    if (!game.win || !members.has(game.puuid)) continue
+    if (activity.priorChampions.get(game.puuid)?.has(game.championId)) continue
+    wins += 1
+    contributors.add(game.puuid)
+  }
+  return { progress: wins, contributors: Array.from(contributors) }
+}
@@ -0,0 +1,122 @@
+import { randomBytes } from 'node:crypto'
+import type { User } from '@supabase/supabase-js'
+import { createServiceClient } from '@/lib/supabase/service'
+import { resolvePlatform } from '@/lib/riot/resolvePlatform'
+
+export const INVITE_TTL_DAYS = 7
+export const INVITE_LINK_EXPIRY_DAYS = [1, 7, 30] as const
+// Null is unlimited.
+export const INVITE_LINK_MAX_USES = [1, 5, 25, null] as const
+export const MAX_CLUB_MEMBERSHIPS = 3
+
+const DAY_MS = 24 * 60 * 60 * 1000
+// No 0/O or 1/I, so codes survive being read aloud or retyped.
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789'
+const CODE_LENGTH = 8
+
+export type ClubInviteStatus = 'PENDING' | 'ACCEPTED' | 'DECLINED' | 'CANCELLED' | 'EXPIRED'
+
+export type ClubInviteLinkRow = {
+  id: string
+  club_id: string
+  code: string
+  max_uses: number | null
+  use_count: number
+  expires_at: string
+  revoked_at: string | null
+  created_at: string
+}
+
+export const CLUB_INVITE_LINK_COLUMNS = 'id, club_id, code, max_uses, use_count, expires_at, revoked_at, created_at'
+
+export function generateInviteCode(): string {
+  const bytes = randomBytes(CODE_LENGTH)
+  return Array.from(bytes, (byte) => CODE_ALPHABET[byte % CODE_ALPHABET.length]).join('')
+}
+
+export function normalizeInviteCode(input: string): string {
+  return input.toUpperCase().replace(/[^A-Z0-9]/g, '')
+}
+
+export function inviteUrl(code: string): string {
+  return `${process.env.NEXT_PUBLIC_SITE_URL || 'https://cwf.lol'}/clubs/join/${code}`
+}
+
+export function inviteExpiresIso(days: number = INVITE_TTL_DAYS, nowMs: number = Date.now()): string {
+  return new Date(nowMs + days * DAY_MS).toISOString()
+}
+
+// The worker marks lapsed invites EXPIRED; until then they read as expired anyway.
+export function effectiveInviteStatus(
+  invite: { status: string | null; expires_at: string | null },
+  nowMs: number = Date.now()
+): ClubInviteStatus {
+  const status = (invite.status ?? 'PENDING').toUpperCase() as ClubInviteStatus
+  if (status === 'PENDING' && invite.expires_at && new Date(invite.expires_at).getTime() <= nowMs) return 'EXPIRED'
+  return status
+}
+
+// Null when the link can still be redeemed, otherwise why it can't.
+export function inviteLinkProblem(link: ClubInviteLinkRow, nowMs: number = Date.now()): string | null {
+  if (link.revoked_at) return 'This invite link has been revoked'
+  if (new Date(link.expires_at).getTime() <= nowMs) return 'This invite link has expired'
+  if (link.max_uses !== null && link.use_count >= link.max_uses) return 'This invite link has been used up'
+  return null
+}
+
+export type LinkedRiotAccount = {
+  puuid: string | null
+  gameName: string | null
+  tagLine: string | null
+}
+
+// The Riot account the Riot sign-in callback verified for this user. Read from
+// app_metadata, which users can't edit, rather than user_metadata, which they can.
+export function linkedRiotAccount(user: Pick<User, 'app_metadata'>): LinkedRiotAccount {
+  const metadata = user.app_metadata ?? {}
+  return {
+    puuid: typeof metadata.riot_puuid === 'string' ? metadata.riot_puuid : null,
+    gameName: typeof metadata.riot_game_name === 'string' ? metadata.riot_game_name : null,
+    tagLine: typeof metadata.riot_tag_line === 'string' ? metadata.riot_tag_line : null,
+  }
+}
+
+// Adds the user to the club, linked to the given Riot account. A roster entry
+// already added for that Riot ID is claimed rather than duplicated. Returns an
+// error message, or null on success.
+export async function joinClubAsUser(clubId: string, userId: string, riot: LinkedRiotAccount): Promise<string | null> {
+  const supabase = createServiceClient()
+
+  const { data: memberships, error: membershipsError } = await supabase
+    .from('club_members')
+    .select('club_id')
+    .eq('user_id', userId)
+  if (membershipsError) return membershipsError.message
+  if ((memberships ?? []).some((row) => row.club_id === clubId)) return 'Already a member of this club'
+  if ((memberships ?? []).length >= MAX_CLUB_MEMBERSHIPS) return `Member club limit reached (${MAX_CLUB_MEMBERSHIPS} max).`
+
+  if (riot.puuid) {
+    const { data: rosterEntry } = await supabase
+      .from('club_members')
+      .select('id, user_id')
+      .eq('club_id', clubId)
+      .eq('player_puuid', riot.puuid)
+      .maybeSingle()
+    if (rosterEntry?.user_id) return 'That Riot account is already linked to another member'
+    if (rosterEntry?.id) {
+      const { error } = await supabase.from('club_members').update({ user_id: userId }).eq('id', rosterEntry.id)
+      return error?.message ?? null
+    }
+  }
+
+  const { error } = await supabase.from('club_members').insert({
+    club_id: clubId,
+    user_id: userId,
+    role: 'MEMBER',
+    player_puuid: riot.puuid,
+    game_name: riot.gameName,
+    tag_line: riot.tagLine,
+    platform: riot.puuid ? await resolvePlatform(riot.puuid) : null,
+  })
+  return error?.message ?? null
+}
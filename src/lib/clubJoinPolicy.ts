@@ -0,0 +1,25 @@
+export const CLUB_JOIN_POLICIES = ['OPEN', 'REQUEST', 'INVITE_ONLY'] as const
+export type ClubJoinPolicy = (typeof CLUB_JOIN_POLICIES)[number]
+
+export const CLUB_JOIN_POLICY_LABELS: Record<ClubJoinPolicy, string> = {
+  OPEN: 'Open to join',
+  REQUEST: 'Request to join',
+  INVITE_ONLY: 'Invite only',
+}
+
+export const DEFAULT_CLUB_JOIN_POLICY: ClubJoinPolicy = 'REQUEST'
+export const JOIN_REQUEST_MESSAGE_MAX = 280
+
+export type ClubJoinRequestStatus = 'PENDING' | 'APPROVED' | 'REJECTED' | 'CANCELLED'
+
+export function normalizeJoinPolicy(value: string | null | undefined): ClubJoinPolicy {
+  const upper = value?.toUpperCase()
+  return upper && (CLUB_JOIN_POLICIES as readonly string[]).includes(upper) ? (upper as ClubJoinPolicy) : DEFAULT_CLUB_JOIN_POLICY
+}
+
+// Private clubs can't be found, so they can only be joined by invite whatever
+// the setting says. Invites and invite codes work under every policy.
+export function effectiveJoinPolicy(club: { visibility: string | null; join_policy?: string | null }): ClubJoinPolicy {
+  if ((club.visibility ?? 'PUBLIC').toUpperCase() === 'PRIVATE') return 'INVITE_ONLY'
+  return normalizeJoinPolicy(club.join_policy)
+}
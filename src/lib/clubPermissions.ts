@@ -0,0 +1,71 @@
+import { createServiceClient } from '@/lib/supabase/service'
+
+// Highest rank first.
+export const CLUB_ROLES = ['OWNER', 'ADMIN', 'MODERATOR', 'MEMBER'] as const
+export type ClubRole = (typeof CLUB_ROLES)[number]
+
+export const CLUB_PERMISSIONS = [
+  'MANAGE_MEMBERS',
+  'MANAGE_ROLES',
+  'ATTACH_LEADERBOARDS',
+  'MODERATE_HIGHLIGHTS',
+  'SEND_SHOWDOWNS',
+] as const
+export type ClubPermission = (typeof CLUB_PERMISSIONS)[number]
+
+export const CLUB_ROLE_LABELS: Record<ClubRole, string> = {
+  OWNER: 'Owner',
+  ADMIN: 'Admin',
+  MODERATOR: 'Moderator',
+  MEMBER: 'Member',
+}
+
+export const CLUB_ROLE_PERMISSIONS: Record<ClubRole, readonly ClubPermission[]> = {
+  OWNER: CLUB_PERMISSIONS,
+  ADMIN: ['MANAGE_MEMBERS', 'MANAGE_ROLES', 'ATTACH_LEADERBOARDS', 'MODERATE_HIGHLIGHTS', 'SEND_SHOWDOWNS'],
+  MODERATOR: ['MODERATE_HIGHLIGHTS', 'SEND_SHOWDOWNS'],
+  MEMBER: [],
+}
+
+export function normalizeClubRole(value: string | null | undefined): ClubRole | null {
+  const upper = value?.toUpperCase()
+  return upper && (CLUB_ROLES as readonly string[]).includes(upper) ? (upper as ClubRole) : null
+}
+
+function roleRank(role: ClubRole) {
+  return CLUB_ROLES.length - CLUB_ROLES.indexOf(role)
+}
+
+export function roleHasPermission(role: ClubRole | null, permission: ClubPermission): boolean {
+  return role ? CLUB_ROLE_PERMISSIONS[role].includes(permission) : false
+}
+
+// Roles can only be changed on members ranked below the actor, and only to a
+// role that is also below the actor. Ownership never changes hands here.
+export function assignableRoles(actor: ClubRole | null, current: ClubRole | null): ClubRole[] {
+  if (!roleHasPermission(actor, 'MANAGE_ROLES') || !actor) return []
+  if (current && roleRank(current) >= roleRank(actor)) return []
+  return CLUB_ROLES.filter((role) => role !== 'OWNER' && roleRank(role) < roleRank(actor))
+}
+
+// The club owner is always OWNER, even without a club_members row. Roster
+// entries added by Riot ID have no user and never resolve to a role.
+export async function getClubRole(clubId: string, userId: string | null | undefined): Promise<ClubRole | null> {
+  if (!userId) return null
+  const supabase = createServiceClient()
+  const [{ data: club }, { data: member }] = await Promise.all([
+    supabase.from('clubs').select('owner_user_id').eq('id', clubId).maybeSingle(),
+    supabase.from('club_members').select('role').eq('club_id', clubId).eq('user_id', userId).maybeSingle(),
+  ])
+  if (club?.owner_user_id === userId) return 'OWNER'
+  if (!member) return null
+  return normalizeClubRole(member.role) ?? 'MEMBER'
+}
+
+export async function hasClubPermission(
+  clubId: string,
+  userId: string | null | undefined,
+  permission: ClubPermission
+): Promise<boolean> {
+  return roleHasPermission(await getClubRole(clubId, userId), permission)
+}
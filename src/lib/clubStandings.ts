@@ -0,0 +1,160 @@
+import { challengePeriodStartMs } from '@/lib/clubChallenges'
+import { compareRanks } from '@/lib/rankSort'
+import { getSeasonStartIso } from '@/lib/riot/season'
+import { createServiceClient } from '@/lib/supabase/service'
+
+const QUEUE_SOLO = 'RANKED_SOLO_5x5'
+const LP_EVENTS_PAGE_SIZE = 1000
+
+export type ClubStanding = {
+  memberId: string
+  userId: string | null
+  puuid: string
+  gameName: string | null
+  tagLine: string | null
+  tier: string | null
+  rank: string | null
+  leaguePoints: number | null
+  wins: number | null
+  losses: number | null
+  lpThisWeek: number
+  gamesThisWeek: number
+}
+
+export type ClubStandingsData = {
+  weekStartMs: number
+  standings: ClubStanding[]
+}
+
+type MemberRaw = {
+  id: string
+  user_id: string | null
+  player_puuid: string
+  game_name: string | null
+  tag_line: string | null
+}
+
+type SnapshotRaw = {
+  puuid: string
+  tier: string | null
+  rank: string | null
+  league_points: number | null
+  wins: number | null
+  losses: number | null
+}
+
+async function safeDb<T>(
+  query: PromiseLike<{ data: T | null; error: unknown }>,
+  fallback: T,
+  label?: string
+): Promise<T> {
+  try {
+    const { data, error } = await query
+    if (error) {
+      console.error('[club standings] database error', { label, error })
+      return fallback
+    }
+    return (data as T) ?? fallback
+  } catch (error) {
+    console.error('[club standings] database exception', { label, error })
+    return fallback
+  }
+}
+
+// Ranks every member with a linked Riot account by current solo queue rank,
+// then by LP gained since the start of the week (Monday 00:00 UTC, the same
+// week as club challenges). The refresh worker keeps these players polled even
+// when they aren't on any leaderboard.
+export async function getClubStandings(clubId: string, nowMs: number = Date.now()): Promise<ClubStandingsData> {
+  const supabase = createServiceClient()
+  const weekStartMs = challengePeriodStartMs(nowMs)
+
+  const members = await safeDb(
+    supabase
+      .from('club_members')
+      .select('id, user_id, player_puuid, game_name, tag_line')
+      .eq('club_id', clubId)
+      .not('player_puuid', 'is', null),
+    [] as MemberRaw[],
+    'club_members'
+  )
+  const puuids = Array.from(new Set(members.map((member) => member.player_puuid)))
+  if (puuids.length === 0) return { weekStartMs, standings: [] }
+
+  const [snapshots, players] = await Promise.all([
+    safeDb(
+      supabase
+        .from('player_rank_snapshot')
+        .select('puuid, tier, rank, league_points, wins, losses')
+        .in('puuid', puuids)
+        .eq('queue_type', QUEUE_SOLO)
+        .gte('fetched_at', getSeasonStartIso({ now: new Date(nowMs) })),
+      [] as SnapshotRaw[],
+      'player_rank_snapshot'
+    ),
+    safeDb(
+      supabase.from('players').select('puuid, game_name, tag_line').in('puuid', puuids),
+      [] as Array<{ puuid: string; game_name: string | null; tag_line: string | null }>,
+      'players'
+    ),
+  ])
+
+  const lpByPuuid = new Map<string, { lp: number; games: number }>()
+  for (let from = 0; ; from += LP_EVENTS_PAGE_SIZE) {
+    const page = await safeDb(
+      supabase
+        .from('player_lp_events')
+        .select('puuid, match_id, lp_delta')
+        .in('puuid', puuids)
+        .eq('queue_type', QUEUE_SOLO)
+        .gte('recorded_at', new Date(weekStartMs).toISOString())
+        .order('recorded_at', { ascending: true })
+        .range(from, from + LP_EVENTS_PAGE_SIZE - 1),
+      [] as Array<{ puuid: string; match_id: string | null; lp_delta: number | null }>,
+      'player_lp_events'
+    )
+    for (const event of page) {
+      const totals = lpByPuuid.get(event.puuid) ?? { lp: 0, games: 0 }
+      // Dodge and decay events move LP without a game.
+      totals.lp += event.lp_delta ?? 0
+      if (event.match_id) totals.games += 1
+      lpByPuuid.set(event.puuid, totals)
+    }
+    if (page.length < LP_EVENTS_PAGE_SIZE) break
+  }
+
+  const snapshotByPuuid = new Map(snapshots.map((row) => [row.puuid, row]))
+  const playerByPuuid = new Map(players.map((row) => [row.puuid, row]))
+
+  const standings: ClubStanding[] = members.map((member) => {
+    const snapshot = snapshotByPuuid.get(member.player_puuid)
+    const player = playerByPuuid.get(member.player_puuid)
+    const week = lpByPuuid.get(member.player_puuid)
+    return {
+      memberId: member.id,
+      userId: member.user_id,
+      puuid: member.player_puuid,
+      gameName: player?.game_name ?? member.game_name,
+      tagLine: player?.tag_line ?? member.tag_line,
+      tier: snapshot?.tier ?? null,
+      rank: snapshot?.rank ?? null,
+      leaguePoints: snapshot?.league_points ?? null,
+      wins: snapshot?.wins ?? null,
+      losses: snapshot?.losses ?? null,
+      lpThisWeek: week?.lp ?? 0,
+      gamesThisWeek: week?.games ?? 0,
+    }
+  })
+
+  standings.sort(
+    (a, b) =>
+      compareRanks(
+        a.tier ? { tier: a.tier, rank: a.rank, league_points: a.leaguePoints } : undefined,
+        b.tier ? { tier: b.tier, rank: b.rank, league_points: b.leaguePoints } : undefined
+      ) ||
+      b.lpThisWeek - a.lpThisWeek ||
+      (a.gameName ?? '').localeCompare(b.gameName ?? '')
+  )
+
+  return { weekStartMs, standings }
+}
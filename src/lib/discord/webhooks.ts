@@ -0,0 +1,307 @@
+// Discord webhook payloads and delivery for leaderboard notifications.
+// Shared by the dashboard (URL validation, test posts) and the refresh worker
+// (queued deliveries), so this module only uses relative imports.
+
+export type WebhookEventType = 'RANK_CHANGE' | 'PEAK_LP' | 'GOAL_COMPLETED' | 'RACE_STARTED' | 'RACE_ENDED' | 'DAILY_MOVERS'
+
+export type WebhookSettings = {
+  leaderboard_id: string
+  url: string
+  enabled: boolean
+  notify_rank_changes: boolean
+  notify_peak_lp: boolean
+  notify_goals: boolean
+  notify_races: boolean
+  notify_daily_movers: boolean
+}
+
+export type WebhookToggle = keyof Pick<
+  WebhookSettings,
+  'notify_rank_changes' | 'notify_peak_lp' | 'notify_goals' | 'notify_races' | 'notify_daily_movers'
+>
+
+export const WEBHOOK_TOGGLE_BY_EVENT: Record<WebhookEventType, WebhookToggle> = {
+  RANK_CHANGE: 'notify_rank_changes',
+  PEAK_LP: 'notify_peak_lp',
+  GOAL_COMPLETED: 'notify_goals',
+  RACE_STARTED: 'notify_races',
+  RACE_ENDED: 'notify_races',
+  DAILY_MOVERS: 'notify_daily_movers',
+}
+
+export const WEBHOOK_TOGGLE_LABELS: Record<WebhookToggle, string> = {
+  notify_rank_changes: 'Promotions and demotions',
+  notify_peak_lp: 'New peak LP',
+  notify_goals: 'Goal completed',
+  notify_races: 'Race start and end',
+  notify_daily_movers: 'Daily movers summary',
+}
+
+export const WEBHOOK_MAX_ATTEMPTS = 6
+
+export type DiscordEmbed = {
+  title: string
+  description?: string
+  url?: string
+  color?: number
+  fields?: Array<{ name: string; value: string; inline?: boolean }>
+  footer?: { text: string }
+  timestamp?: string
+}
+
+export type DiscordWebhookPayload = {
+  username?: string
+  embeds: DiscordEmbed[]
+}
+
+export type WebhookLeaderboard = {
+  name: string
+  url: string | null
+}
+
+const EMBED_USERNAME = 'climb.lol'
+const COLOR_UP = 0x10b981
+const COLOR_DOWN = 0xf43f5e
+const COLOR_PEAK = 0xf59e0b
+const COLOR_INFO = 0x3b82f6
+
+const DISCORD_WEBHOOK_PATTERN = /^https:\/\/(?:ptb\.|canary\.)?discord(?:app)?\.com\/api\/webhooks\/\d+\/[\w-]+$/
+const LOCAL_HOSTS = new Set(['localhost', '127.0.0.1', '[::1]'])
+
+// Outside production, plain http to localhost is accepted so deliveries can be
+// pointed at the local stand-in (`npm run webhook:standin`).
+export function isValidWebhookUrl(raw: string): boolean {
+  const url = raw.trim()
+  if (DISCORD_WEBHOOK_PATTERN.test(url)) return true
+  if (process.env.NODE_ENV === 'production') return false
+  try {
+    const parsed = new URL(url)
+    return (parsed.protocol === 'http:' || parsed.protocol === 'https:') && LOCAL_HOSTS.has(parsed.hostname)
+  } catch {
+    return false
+  }
+}
+
+export function formatTierForEmbed(tier?: string | null): string {
+  if (!tier) return 'Unranked'
+  return tier.charAt(0).toUpperCase() + tier.slice(1).toLowerCase()
+}
+
+export function formatRankForEmbed(tier?: string | null, rank?: string | null, lp?: number | null): string {
+  if (!tier) return 'Unranked'
+  const upper = tier.toUpperCase()
+  const isApex = upper === 'MASTER' || upper === 'GRANDMASTER' || upper === 'CHALLENGER'
+  const division = !isApex && rank ? ` ${rank}` : ''
+  return `${formatTierForEmbed(upper)}${division} · ${lp ?? 0} LP`
+}
+
+function formatDelta(delta: number) {
+  return `${delta > 0 ? '+' : ''}${delta} LP`
+}
+
+function withLeaderboard(embed: DiscordEmbed, leaderboard: WebhookLeaderboard, at?: string): DiscordWebhookPayload {
+  return {
+    username: EMBED_USERNAME,
+    embeds: [
+      {
+        ...embed,
+        url: embed.url ?? leaderboard.url ?? undefined,
+        footer: { text: leaderboard.name },
+        timestamp: at ?? new Date().toISOString(),
+      },
+    ],
+  }
+}
+
+export function rankChangeEmbed(
+  leaderboard: WebhookLeaderboard,
+  opts: {
+    playerName: string
+    promoted: boolean
+    tier: string | null
+    rank: string | null
+    lp: number | null
+    lpDelta: number
+    at: string
+  }
+): DiscordWebhookPayload {
+  return withLeaderboard(
+    {
+      title: `${opts.playerName} ${opts.promoted ? 'promoted' : 'demoted'} to ${formatRankForEmbed(opts.tier, opts.rank, opts.lp)}`,
+      color: opts.promoted ? COLOR_UP : COLOR_DOWN,
+      fields: [{ name: 'Last game', value: formatDelta(opts.lpDelta), inline: true }],
+    },
+    leaderboard,
+    opts.at
+  )
+}
+
+export function peakLpEmbed(
+  leaderboard: WebhookLeaderboard,
+  opts: {
+    playerName: string
+    tier: string | null
+    rank: string | null
+    lp: number | null
+    previousPeak: string
+    at: string
+  }
+): DiscordWebhookPayload {
+  return withLeaderboard(
+    {
+      title: `New season peak for ${opts.playerName}`,
+      description: formatRankForEmbed(opts.tier, opts.rank, opts.lp),
+      color: COLOR_PEAK,
+      fields: [{ name: 'Previous peak', value: opts.previousPeak, inline: true }],
+    },
+    leaderboard,
+    opts.at
+  )
+}
+
+type GoalWinner = {
+  // Winning score for race-style goals, e.g. "+312 LP".
+  result?: string | null
+  // Set when a team won; winnerName is then the team's top scorer.
+  teamName?: string | null
+  winnerName: string | null
+  tier: string | null
+  rank: string | null
+  lp: number | null
+}
+
+function goalWinnerLine(opts: GoalWinner): string | undefined {
+  const finish = formatRankForEmbed(opts.tier, opts.rank, opts.lp)
+  if (opts.teamName) {
+    const topScorer = opts.winnerName ? ` Top scorer: ${opts.winnerName} at ${finish}.` : ''
+    return `${opts.teamName} wins${opts.result ? ` with ${opts.result}` : ''}.${topScorer}`
+  }
+  if (!opts.winnerName) return undefined
+  if (opts.result) return `${opts.winnerName} wins with ${opts.result}, finishing at ${finish}.`
+  return `${opts.winnerName} got there first at ${finish}.`
+}
+
+export function goalCompletedEmbed(
+  leaderboard: WebhookLeaderboard,
+  opts: GoalWinner & {
+    goalLabel: string
+    at: string
+  }
+): DiscordWebhookPayload {
+  return withLeaderboard(
+    {
+      title: `Goal reached: ${opts.goalLabel}`,
+      description: goalWinnerLine(opts),
+      color: COLOR_PEAK,
+    },
+    leaderboard,
+    opts.at
+  )
+}
+
+export function raceEmbed(
+  leaderboard: WebhookLeaderboard,
+  opts: {
+    started: boolean
+    at: string
+    endsAt?: string | null
+    standings?: Array<{ name: string; rank: string }>
+  }
+): DiscordWebhookPayload {
+  const standings = (opts.standings ?? []).slice(0, 5)
+  return withLeaderboard(
+    {
+      title: opts.started ? 'The race has started' : 'The race is over',
+      description: opts.started
+        ? opts.endsAt
+          ? `Climbing counts until <t:${Math.floor(new Date(opts.endsAt).getTime() / 1000)}:f>.`
+          : undefined
+        : standings.length
+          ? standings.map((row, idx) => `**${idx + 1}.** ${row.name} — ${row.rank}`).join('\n')
+          : undefined,
+      color: opts.started ? COLOR_INFO : COLOR_PEAK,
+    },
+    leaderboard,
+    opts.at
+  )
+}
+
+export function dailyMoversEmbed(
+  leaderboard: WebhookLeaderboard,
+  opts: {
+    day: string
+    topGain: { name: string; lpDelta: number } | null
+    topLoss: { name: string; lpDelta: number } | null
+  }
+): DiscordWebhookPayload {
+  const fields: DiscordEmbed['fields'] = []
+  if (opts.topGain) fields.push({ name: 'Top climber', value: `${opts.topGain.name} (${formatDelta(opts.topGain.lpDelta)})`, inline: true })
+  if (opts.topLoss) fields.push({ name: 'Biggest drop', value: `${opts.topLoss.name} (${formatDelta(opts.topLoss.lpDelta)})`, inline: true })
+  return withLeaderboard(
+    {
+      title: `Daily movers · ${opts.day}`,
+      description: fields.length ? undefined : 'No LP changes today.',
+      color: COLOR_INFO,
+      fields,
+    },
+    leaderboard
+  )
+}
+
+export function testEmbed(leaderboard: WebhookLeaderboard): DiscordWebhookPayload {
+  return withLeaderboard(
+    {
+      title: 'Webhook connected',
+      description: 'Leaderboard notifications will be posted to this channel.',
+      color: COLOR_INFO,
+    },
+    leaderboard
+  )
+}
+
+export type WebhookPostResult =
+  | { ok: true }
+  | { ok: false; retryable: boolean; retryAfterMs: number | null; error: string }
+
+export async function postDiscordWebhook(url: string, payload: DiscordWebhookPayload): Promise<WebhookPostResult> {
+  let res: Response
+  try {
+    res = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(payload),
+      signal: AbortSignal.timeout(10_000),
+    })
+  } catch (error) {
+    return { ok: false, retryable: true, retryAfterMs: null, error: error instanceof Error ? error.message : String(error) }
+  }
+
+  if (res.ok) return { ok: true }
+
+  const text = await res.text().catch(() => '')
+  let retryAfterMs: number | null = null
+  if (res.status === 429) {
+    // Discord reports retry_after in seconds in the body; the header is a fallback.
+    try {
+      const body = JSON.parse(text) as { retry_after?: number }
+      if (typeof body.retry_after === 'number') retryAfterMs = Math.ceil(body.retry_after * 1000)
+    } catch {
+      // not JSON
+    }
+    const header = Number(res.headers.get('retry-after'))
+    if (retryAfterMs === null && Number.isFinite(header)) retryAfterMs = header * 1000
+  }
+
+  return {
+    ok: false,
+    // Other 4xx responses (deleted webhook, malformed payload) won't succeed on retry.
+    retryable: res.status === 429 || res.status >= 500,
+    retryAfterMs,
+    error: `HTTP ${res.status}${text ? `: ${text.slice(0, 200)}` : ''}`,
+  }
+}
+
+export function nextWebhookAttemptAt(attempts: number, retryAfterMs: number | null, nowMs = Date.now()): string {
+  const backoffMs = Math.min(2 ** attempts * 30_000, 6 * 60 * 60 * 1000)
+  return new Date(nowMs + Math.max(backoffMs, retryAfterMs ?? 0)).toISOString()
+}
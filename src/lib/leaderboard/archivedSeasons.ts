@@ -0,0 +1,30 @@
+import { unstable_cache } from 'next/cache'
+import { listArchivedSeasons, type SeasonInfo } from '@/lib/riot/season'
+import { createServiceClient } from '@/lib/supabase/service'
+
+// Rows only appear at a season rollover, so an hour of staleness is harmless.
+const ARCHIVED_SEASONS_CACHE_TTL_SECONDS = 60 * 60
+
+// Finished seasons that have archived ranks in player_season_ranks. Seasons
+// that ended before the worker started archiving have no final standings to show.
+async function fetchArchivedSeasonsWithRanks(): Promise<SeasonInfo[]> {
+  const supabase = createServiceClient()
+  const seasons = listArchivedSeasons()
+  const results = await Promise.all(
+    seasons.map((row) => supabase.from('player_season_ranks').select('season').eq('season', row.season).limit(1))
+  )
+
+  return seasons.filter((row, idx) => {
+    const { data, error } = results[idx]
+    if (error) {
+      console.error('[archived seasons] database error', { season: row.season, error })
+      return false
+    }
+    return (data ?? []).length > 0
+  })
+}
+
+export const getArchivedSeasonsCached = () =>
+  unstable_cache(fetchArchivedSeasonsWithRanks, ['lb-archived-seasons-v1'], {
+    revalidate: ARCHIVED_SEASONS_CACHE_TTL_SECONDS,
+  })()
@@ -3,6 +3,7 @@ import { createServiceClient } from '@/lib/supabase/service'
 
 const LATEST_ACTIVITY_TAG_PREFIX = 'lb-latest-activity'
 const MOVERS_TAG_PREFIX = 'lb-movers'
+const TEAMS_TAG_PREFIX = 'lb-teams'
 
 export function latestActivityTag(lbId: string) {
   return `${LATEST_ACTIVITY_TAG_PREFIX}:${lbId}`
@@ -12,8 +13,12 @@ export function moversTag(lbId: string) {
   return `${MOVERS_TAG_PREFIX}:${lbId}`
 }
 
+export function teamsTag(lbId: string) {
+  return `${TEAMS_TAG_PREFIX}:${lbId}`
+}
+
 export function leaderboardCacheTags(lbId: string) {
-  return [latestActivityTag(lbId), moversTag(lbId)]
+  return [latestActivityTag(lbId), moversTag(lbId), teamsTag(lbId)]
 }
 
 export function revalidateLeaderboardCachesById(lbIds: Iterable<string>) {
@@ -21,6 +26,7 @@ export function revalidateLeaderboardCachesById(lbIds: Iterable<string>) {
   for (const lbId of unique) {
     revalidateTag(latestActivityTag(lbId), 'max')
     revalidateTag(moversTag(lbId), 'max')
+    revalidateTag(teamsTag(lbId), 'max')
   }
 }
 
@@ -0,0 +1,125 @@
+import { createServiceClient } from '@/lib/supabase/service'
+
+// Two or more leaderboard players on the same team of the same match count as
+// a duo/premade game. Every pair inside a premade is credited with the game.
+
+export interface DuoParticipant {
+  match_id: string
+  puuid: string
+  team_id?: number | null
+  win: boolean
+  lp_change?: number | null
+}
+
+export interface DuoGroup {
+  matchId: string
+  win: boolean
+  members: DuoParticipant[]
+}
+
+export interface DuoStats {
+  puuids: [string, string]
+  games: number
+  wins: number
+  losses: number
+  lpGained: number
+}
+
+// Rows ingested before team_id was stored fall back to the result: in ranked
+// games exactly one team wins, so same result means same team.
+function teamKey(row: DuoParticipant) {
+  return row.team_id ? `team:${row.team_id}` : row.win ? 'win' : 'loss'
+}
+
+export function onSameTeam(a: DuoParticipant, b: DuoParticipant) {
+  if (a.team_id && b.team_id) return a.team_id === b.team_id
+  return a.win === b.win
+}
+
+export function findDuoGroups(rows: DuoParticipant[], lbPuuids: Set<string>): DuoGroup[] {
+  const byTeam = new Map<string, DuoParticipant[]>()
+  const seen = new Set<string>()
+  for (const row of rows) {
+    if (!lbPuuids.has(row.puuid)) continue
+    const dedupeKey = `${row.match_id}:${row.puuid}`
+    if (seen.has(dedupeKey)) continue
+    seen.add(dedupeKey)
+
+    const key = `${row.match_id}|${teamKey(row)}`
+    const list = byTeam.get(key)
+    if (list) list.push(row)
+    else byTeam.set(key, [row])
+  }
+
+  const groups: DuoGroup[] = []
+  for (const members of byTeam.values()) {
+    if (members.length < 2) continue
+    groups.push({ matchId: members[0].match_id, win: members[0].win, members })
+  }
+  return groups
+}
+
+export function computeDuoStats(rows: DuoParticipant[], lbPuuids: Set<string>): DuoStats[] {
+  const byPair = new Map<string, DuoStats>()
+
+  for (const group of findDuoGroups(rows, lbPuuids)) {
+    const members = [...group.members].sort((a, b) => a.puuid.localeCompare(b.puuid))
+    for (let i = 0; i < members.length; i++) {
+      for (let j = i + 1; j < members.length; j++) {
+        const a = members[i]
+        const b = members[j]
+        const key = `${a.puuid}|${b.puuid}`
+        let entry = byPair.get(key)
+        if (!entry) {
+          entry = { puuids: [a.puuid, b.puuid], games: 0, wins: 0, losses: 0, lpGained: 0 }
+          byPair.set(key, entry)
+        }
+        entry.games += 1
+        if (group.win) entry.wins += 1
+        else entry.losses += 1
+        entry.lpGained += (a.lp_change ?? 0) + (b.lp_change ?? 0)
+      }
+    }
+  }
+
+  return Array.from(byPair.values()).sort((a, b) => b.games - a.games || b.wins - a.wins)
+}
+
+// Maps `${matchId}:${puuid}` to the other leaderboard players on that player's team.
+export async function getDuoPartnersByMatch(lbId: string, matchIds: string[]): Promise<Map<string, string[]>> {
+  const partners = new Map<string, string[]>()
+  if (matchIds.length === 0) return partners
+
+  const supabase = createServiceClient()
+  const { data: lbPlayers, error: playersErr } = await supabase
+    .from('leaderboard_players')
+    .select('puuid')
+    .eq('leaderboard_id', lbId)
+  if (playersErr) {
+    console.error('[duos] leaderboard_players error', playersErr)
+    return partners
+  }
+
+  const lbPuuids = new Set((lbPlayers ?? []).map((row) => String(row.puuid ?? '')).filter(Boolean))
+  if (lbPuuids.size < 2) return partners
+
+  const { data: rows, error } = await supabase
+    .from('match_participants')
+    .select('match_id, puuid, team_id, win')
+    .in('match_id', matchIds)
+    .in('puuid', Array.from(lbPuuids))
+  if (error) {
+    console.error('[duos] match_participants error', error)
+    return partners
+  }
+
+  for (const group of findDuoGroups((rows ?? []) as DuoParticipant[], lbPuuids)) {
+    for (const member of group.members) {
+      partners.set(
+        `${group.matchId}:${member.puuid}`,
+        group.members.filter((m) => m.puuid !== member.puuid).map((m) => m.puuid)
+      )
+    }
+  }
+  return partners
+}
@@ -3,6 +3,7 @@ import { getChampionMap } from '@/lib/champions'
 import { getSeasonStartIso } from '@/lib/riot/season'
 import { createServiceClient } from '@/lib/supabase/service'
 import { latestActivityTag } from '@/lib/leaderboard/cacheTags'
+import { getDuoPartnersByMatch } from '@/lib/leaderboard/duos'
 
 const PAGE_CACHE_TTL_SECONDS = 30
 const MOVER_QUEUE_ID = 420
@@ -99,6 +100,8 @@ export interface LatestActivityGame {
   lpChange?: number | null
   lpNote?: string | null
   endType?: 'REMAKE' | 'EARLY_SURRENDER' | 'SURRENDER' | 'NORMAL'
+  // Other leaderboard players on the same team in this match.
+  duoPuuids?: string[]
 }
 
 export interface LatestActivityMatchParticipant {
@@ -343,6 +346,8 @@ const fetchLatestActivityData = async (lbId: string, ddVersion: string): Promise
     }
   }
 
+  const duoPartners = await getDuoPartnersByMatch(lbId, latestMatchIds)
+
   const latestGames: LatestActivityGame[] = filteredLatestRaw.map((row: LatestGameRpcRaw) => {
     const lpEvent = lpByMatchAndPlayer.get(makeLpKey(row.match_id, row.puuid))
     const lpChange = row.lp_change ?? row.lp_delta ?? row.lp_diff ?? lpEvent?.delta ?? null
@@ -369,6 +374,7 @@ const fetchLatestActivityData = async (lbId: string, ddVersion: string): Promise
         gameDurationS: durationS,
         lpChange,
       }),
+      duoPuuids: duoPartners.get(`${row.match_id}:${row.puuid}`) ?? [],
     }
   })
 
@@ -488,6 +494,8 @@ export const getLatestGamesFresh = async (lbId: string, ddVersion: string): Prom
     }
   }
 
+  const duoPartners = await getDuoPartnersByMatch(lbId, latestMatchIds)
+
   return filteredLatestRaw.map((row: LatestGameRpcRaw) => {
     const lpEvent = lpByMatchAndPlayer.get(makeLpKey(row.match_id, row.puuid))
     const lpChange = row.lp_change ?? row.lp_delta ?? row.lp_diff ?? lpEvent?.delta ?? null
@@ -514,6 +522,7 @@ export const getLatestGamesFresh = async (lbId: string, ddVersion: string): Prom
         gameDurationS: durationS,
         lpChange,
       }),
+      duoPuuids: duoPartners.get(`${row.match_id}:${row.puuid}`) ?? [],
     }
   })
 }
@@ -0,0 +1,72 @@
+import { createServiceClient } from '@/lib/supabase/service'
+
+// The refresh worker re-observes live games every run; a live row it hasn't
+// touched for this long belongs to a player it stopped polling.
+const LIVE_GAME_STALE_MS = 15 * 60 * 1000
+// Finished games stay linkable this long (the worker prunes them at 30 minutes).
+const FINISHED_GAME_WINDOW_MS = 20 * 60 * 1000
+
+export interface LiveGame {
+  puuid: string
+  matchId: string
+  championId: number | null
+  queueId: number | null
+  gameStartTs: number | null
+  endedAt: string | null
+}
+
+interface LiveGameRaw {
+  puuid: string
+  match_id: string
+  champion_id: number | null
+  queue_id: number | null
+  game_start_at: string | null
+  observed_at: string
+  ended_at: string | null
+}
+
+export async function getLiveGamesForPuuids(puuids: string[], nowMs = Date.now()): Promise<LiveGame[]> {
+  const unique = Array.from(new Set(puuids.filter(Boolean)))
+  if (unique.length === 0) return []
+
+  const supabase = createServiceClient()
+  const rows: LiveGameRaw[] = []
+  for (let i = 0; i < unique.length; i += 500) {
+    const { data, error } = await supabase
+      .from('player_live_games')
+      .select('puuid, match_id, champion_id, queue_id, game_start_at, observed_at, ended_at')
+      .in('puuid', unique.slice(i, i + 500))
+    if (error) {
+      console.error('[live-games] database error', error)
+      return []
+    }
+    rows.push(...((data ?? []) as LiveGameRaw[]))
+  }
+
+  return rows
+    .filter((row) => {
+      if (row.ended_at) return nowMs - new Date(row.ended_at).getTime() <= FINISHED_GAME_WINDOW_MS
+      return nowMs - new Date(row.observed_at).getTime() <= LIVE_GAME_STALE_MS
+    })
+    .map((row) => {
+      const startMs = row.game_start_at ? new Date(row.game_start_at).getTime() : NaN
+      return {
+        puuid: row.puuid,
+        matchId: row.match_id,
+        championId: row.champion_id,
+        queueId: row.queue_id,
+        gameStartTs: Number.isFinite(startMs) ? startMs : null,
+        endedAt: row.ended_at,
+      }
+    })
+}
+
+export async function getLiveGamesForLeaderboard(lbId: string): Promise<LiveGame[]> {
+  const supabase = createServiceClient()
+  const { data, error } = await supabase.from('leaderboard_players').select('puuid').eq('leaderboard_id', lbId)
+  if (error) {
+    console.error('[live-games] database error', error)
+    return []
+  }
+  return getLiveGamesForPuuids((data ?? []).map((row) => String(row.puuid ?? '')))
+}
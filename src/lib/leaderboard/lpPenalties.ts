@@ -0,0 +1,65 @@
+import { createServiceClient } from '@/lib/supabase/service'
+
+// LP lost without a game (queue dodges, Diamond+ decay) is written by the
+// refresh worker as a player_lp_events row with no match and a DODGE/DECAY note.
+export const LP_PENALTY_NOTES = ['DODGE', 'DECAY'] as const
+export type LpPenaltyNote = (typeof LP_PENALTY_NOTES)[number]
+
+const PENALTY_WINDOW_MS = 7 * 24 * 60 * 60 * 1000
+const PENALTY_LIMIT = 10
+
+export interface LpPenalty {
+  puuid: string
+  note: LpPenaltyNote
+  lpDelta: number
+  recordedAt: string
+  ts: number
+}
+
+interface LpPenaltyRaw {
+  puuid: string
+  note: string | null
+  lp_delta: number | null
+  recorded_at: string
+}
+
+export function isLpPenaltyNote(note: string | null | undefined): note is LpPenaltyNote {
+  return note === 'DODGE' || note === 'DECAY'
+}
+
+export async function getRecentLpPenaltiesForLeaderboard(lbId: string, nowMs = Date.now()): Promise<LpPenalty[]> {
+  const supabase = createServiceClient()
+  const { data: players, error: playersErr } = await supabase
+    .from('leaderboard_players')
+    .select('puuid')
+    .eq('leaderboard_id', lbId)
+  if (playersErr) {
+    console.error('[lp-penalties] leaderboard_players error', playersErr)
+    return []
+  }
+
+  const puuids = Array.from(new Set((players ?? []).map((row) => String(row.puuid ?? '')).filter(Boolean)))
+  if (puuids.length === 0) return []
+
+  const { data, error } = await supabase
+    .from('player_lp_events')
+    .select('puuid, note, lp_delta, recorded_at')
+    .in('puuid', puuids)
+    .eq('queue_type', 'RANKED_SOLO_5x5')
+    .in('note', [...LP_PENALTY_NOTES])
+    .gte('recorded_at', new Date(nowMs - PENALTY_WINDOW_MS).toISOString())
+    .order('recorded_at', { ascending: false })
+    .limit(PENALTY_LIMIT)
+  if (error) {
+    console.error('[lp-penalties] player_lp_events error', error)
+    return []
+  }
+
+  const penalties: LpPenalty[] = []
+  for (const row of (data ?? []) as LpPenaltyRaw[]) {
+    const ts = new Date(row.recorded_at).getTime()
+    if (!isLpPenaltyNote(row.note) || typeof row.lp_delta !== 'number' || !Number.isFinite(ts)) continue
+    penalties.push({ puuid: row.puuid, note: row.note, lpDelta: row.lp_delta, recordedAt: row.recorded_at, ts })
+  }
+  return penalties
+}
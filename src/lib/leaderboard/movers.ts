@@ -1,9 +1,9 @@
 import { unstable_cache } from 'next/cache'
 import { createServiceClient } from '@/lib/supabase/service'
 import { moversTag } from '@/lib/leaderboard/cacheTags'
+import { LEADERBOARD_QUEUE_TYPES, type LeaderboardQueue } from '@/lib/leaderboard/queues'
 
 const MOVERS_CACHE_TTL_SECONDS = 90
-const MOVER_QUEUE_TYPE = 'RANKED_SOLO_5x5'
 const EVENT_DRIFT_FALLBACK_THRESHOLD = 20
 
 interface PlayerLite {
@@ -104,8 +104,14 @@ async function safeDb<T>(
   }
 }
 
-async function fetchMoversData(lbId: string): Promise<MoversData> {
+async function fetchMoversData(lbId: string, queue: LeaderboardQueue): Promise<MoversData> {
   const supabase = createServiceClient()
+  const queueType = LEADERBOARD_QUEUE_TYPES[queue]
+  // The two-argument RPC is the original solo-only version.
+  const moverRpcArgs = (startAt: number) =>
+    queue === 'solo'
+      ? { lb_id: lbId, start_at: new Date(startAt).toISOString() }
+      : { lb_id: lbId, start_at: new Date(startAt).toISOString(), queue_type_input: queueType }
 
   const players = await safeDb(
     supabase
@@ -133,20 +139,14 @@ async function fetchMoversData(lbId: string): Promise<MoversData> {
       : ([] as PlayerStateLite[]),
     allRelevantPuuids.length > 0
       ? safeDb(
-          supabase.rpc('get_leaderboard_movers_fast', {
-            lb_id: lbId,
-            start_at: new Date(todayStartTs).toISOString(),
-          }),
+          supabase.rpc('get_leaderboard_movers_fast', moverRpcArgs(todayStartTs)),
           [] as MoverFastRaw[],
           'movers_daily'
         )
       : ([] as MoverFastRaw[]),
     allRelevantPuuids.length > 0
       ? safeDb(
-          supabase.rpc('get_leaderboard_movers_fast', {
-            lb_id: lbId,
-            start_at: new Date(weekStartTs).toISOString(),
-          }),
+          supabase.rpc('get_leaderboard_movers_fast', moverRpcArgs(weekStartTs)),
           [] as MoverFastRaw[],
           'movers_weekly'
         )
@@ -157,7 +157,7 @@ async function fetchMoversData(lbId: string): Promise<MoversData> {
             .from('player_lp_events')
             .select('puuid, lp_delta, recorded_at, queue_type')
             .in('puuid', allRelevantPuuids)
-            .eq('queue_type', MOVER_QUEUE_TYPE)
+            .eq('queue_type', queueType)
             .gte('recorded_at', new Date(weekStartTs).toISOString()),
           [] as LpEventLite[],
           'movers_recent_events'
@@ -170,6 +170,9 @@ async function fetchMoversData(lbId: string): Promise<MoversData> {
   const dailyEventByPuuid = new Map<string, number>()
   const weeklyEventByPuuid = new Map<string, number>()
 
+  // Dodge and decay events have no match but still count toward a player's
+  // movement: this sums lp_delta over every event in the window, with no
+  // match_id filter, and the snapshot-based RPC delta includes them as well.
   for (const row of recentEvents) {
     if (!row?.puuid) continue
     const delta = asFiniteNumber(row.lp_delta)
@@ -229,12 +232,12 @@ async function fetchMoversData(lbId: string): Promise<MoversData> {
   }
 }
 
-export const getMoversDataCached = (lbId: string) =>
+export const getMoversDataCached = (lbId: string, queue: LeaderboardQueue = 'solo') =>
   unstable_cache(
-    () => fetchMoversData(lbId),
-    ['lb-movers-v6', lbId],
+    () => fetchMoversData(lbId, queue),
+    ['lb-movers-v7', lbId, queue],
     { revalidate: MOVERS_CACHE_TTL_SECONDS, tags: [moversTag(lbId)] }
   )()
 
-export const getMoversDataFresh = (lbId: string) => fetchMoversData(lbId)
+export const getMoversDataFresh = (lbId: string, queue: LeaderboardQueue = 'solo') => fetchMoversData(lbId, queue)
 
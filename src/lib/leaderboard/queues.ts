@@ -0,0 +1,20 @@
+export const SOLO_QUEUE_TYPE = 'RANKED_SOLO_5x5'
+export const FLEX_QUEUE_TYPE = 'RANKED_FLEX_SR'
+
+export type LeaderboardQueue = 'solo' | 'flex'
+
+export const LEADERBOARD_QUEUE_TYPES: Record<LeaderboardQueue, string> = {
+  solo: SOLO_QUEUE_TYPE,
+  flex: FLEX_QUEUE_TYPE,
+}
+
+export const LEADERBOARD_QUEUE_LABELS: Record<LeaderboardQueue, string> = {
+  solo: 'Solo/Duo',
+  flex: 'Flex',
+}
+
+// Flex is only selectable on leaderboards that track it; anything else falls back to solo.
+export function parseLeaderboardQueue(value: string | null | undefined, flexEnabled = true): LeaderboardQueue {
+  const raw = String(value ?? '').trim().toLowerCase()
+  return raw === 'flex' && flexEnabled ? 'flex' : 'solo'
+}
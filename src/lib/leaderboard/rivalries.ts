@@ -0,0 +1,105 @@
+import { onSameTeam, type DuoParticipant } from '@/lib/leaderboard/duos'
+
+// Two leaderboard players on opposite teams of the same match is a rivalry
+// encounter. Pairs are keyed with the lower PUUID first so both sides share
+// one record.
+
+export interface RivalryParticipant extends DuoParticipant {
+  champion_id: number
+  end_ts?: number | null
+}
+
+export interface RivalryEncounter {
+  matchId: string
+  endTs: number | null
+  winner: string
+  championIds: [number, number]
+  lpChanges: [number | null, number | null]
+}
+
+export interface RivalryMatchup {
+  championIds: [number, number]
+  games: number
+  wins: [number, number]
+}
+
+export interface Rivalry {
+  puuids: [string, string]
+  games: number
+  wins: [number, number]
+  lpSwing: [number, number]
+  matchups: RivalryMatchup[]
+  // Newest first.
+  encounters: RivalryEncounter[]
+}
+
+export function computeRivalries(rows: RivalryParticipant[], lbPuuids: Set<string>): Rivalry[] {
+  const byMatch = new Map<string, Map<string, RivalryParticipant>>()
+  for (const row of rows) {
+    if (!lbPuuids.has(row.puuid)) continue
+    let players = byMatch.get(row.match_id)
+    if (!players) {
+      players = new Map()
+      byMatch.set(row.match_id, players)
+    }
+    if (!players.has(row.puuid)) players.set(row.puuid, row)
+  }
+
+  const byPair = new Map<string, Rivalry>()
+  const matchupsByPair = new Map<string, Map<string, RivalryMatchup>>()
+
+  for (const [matchId, players] of byMatch) {
+    if (players.size < 2) continue
+    const members = Array.from(players.values()).sort((a, b) => a.puuid.localeCompare(b.puuid))
+
+    for (let i = 0; i < members.length; i++) {
+      for (let j = i + 1; j < members.length; j++) {
+        const a = members[i]
+        const b = members[j]
+        if (onSameTeam(a, b)) continue
+
+        const key = `${a.puuid}|${b.puuid}`
+        let rivalry = byPair.get(key)
+        if (!rivalry) {
+          rivalry = { puuids: [a.puuid, b.puuid], games: 0, wins: [0, 0], lpSwing: [0, 0], matchups: [], encounters: [] }
+          byPair.set(key, rivalry)
+        }
+        rivalry.games += 1
+        if (a.win) rivalry.wins[0] += 1
+        else rivalry.wins[1] += 1
+        rivalry.lpSwing[0] += a.lp_change ?? 0
+        rivalry.lpSwing[1] += b.lp_change ?? 0
+        rivalry.encounters.push({
+          matchId,
+          endTs: a.end_ts ?? b.end_ts ?? null,
+          winner: a.win ? a.puuid : b.puuid,
+          championIds: [a.champion_id, b.champion_id],
+          lpChanges: [a.lp_change ?? null, b.lp_change ?? null],
+        })
+
+        let matchups = matchupsByPair.get(key)
+        if (!matchups) {
+          matchups = new Map()
+          matchupsByPair.set(key, matchups)
+        }
+        const matchupKey = `${a.champion_id}|${b.champion_id}`
+        let matchup = matchups.get(matchupKey)
+        if (!matchup) {
+          matchup = { championIds: [a.champion_id, b.champion_id], games: 0, wins: [0, 0] }
+          matchups.set(matchupKey, matchup)
+        }
+        matchup.games += 1
+        if (a.win) matchup.wins[0] += 1
+        else matchup.wins[1] += 1
+      }
+    }
+  }
+
+  return Array.from(byPair.entries())
+    .map(([key, rivalry]) => ({
+      ...rivalry,
+      matchups: Array.from(matchupsByPair.get(key)?.values() ?? []).sort((x, y) => y.games - x.games),
+      encounters: rivalry.encounters.sort((x, y) => (y.endTs ?? 0) - (x.endTs ?? 0)),
+    }))
+    .sort((a, b) => b.games - a.games)
+}
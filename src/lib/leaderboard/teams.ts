@@ -0,0 +1,215 @@
+import { unstable_cache } from 'next/cache'
+import { createServiceClient } from '@/lib/supabase/service'
+import { teamsTag } from '@/lib/leaderboard/cacheTags'
+import { getSeasonStartIso } from '@/lib/riot/season'
+import {
+  computeWindowScores,
+  DEFAULT_WINRATE_MIN_GAMES,
+  GOAL_WINDOW_BASELINE_MS,
+  isScoredWindowMode,
+  isWindowedGoalMode,
+  normalizeGoalMode,
+  normalizeTeamScoring,
+  scoreTeams,
+  type GoalMode,
+  type LpHistoryRow,
+  type TeamScoring,
+} from '@/lib/leaderboardGoals'
+
+const TEAMS_CACHE_TTL_SECONDS = 90
+const HISTORY_PAGE_SIZE = 1000
+const SERIES_SAMPLES = 48
+
+export const MAX_TEAMS_PER_LEADERBOARD = 8
+export const TEAM_NAME_MAX_LENGTH = 32
+export const TEAM_COLORS = ['#3b82f6', '#f43f5e', '#10b981', '#f59e0b', '#a78bfa', '#22d3ee', '#f472b6', '#84cc16'] as const
+
+export const TEAM_SCORING_LABELS: Record<TeamScoring, string> = {
+  SUM: 'Summed',
+  AVG: 'Averaged',
+}
+
+export interface LeaderboardTeam {
+  id: string
+  name: string
+  color: string
+}
+
+export interface TeamStanding extends LeaderboardTeam {
+  value: number | null
+  players: number
+  games: number
+  members: Array<{ puuid: string; name: string }>
+}
+
+export interface TeamSeries extends LeaderboardTeam {
+  points: Array<{ ts: number; value: number }>
+}
+
+export interface TeamRaceData {
+  // Standings and series score this metric: LP gained unless a games or
+  // win-rate race is running.
+  mode: GoalMode
+  scoring: TeamScoring
+  startIso: string
+  endIso: string | null
+  standings: TeamStanding[]
+  series: TeamSeries[]
+}
+
+interface TeamRaw {
+  id: string
+  name: string
+}
+
+interface TeamPlayerRaw {
+  puuid: string
+  team_id: string | null
+  game_name: string | null
+}
+
+export function teamColor(index: number): string {
+  return TEAM_COLORS[index % TEAM_COLORS.length]
+}
+
+async function safeDb<T>(
+  query: PromiseLike<{ data: T | null; error: unknown }>,
+  fallback: T,
+  label?: string
+): Promise<T> {
+  try {
+    const { data, error } = await query
+    if (error) {
+      console.error('[teams] database error', { label, error })
+      return fallback
+    }
+    return (data as T) ?? fallback
+  } catch (error) {
+    console.error('[teams] database exception', { label, error })
+    return fallback
+  }
+}
+
+async function fetchTeamRaceData(lbId: string): Promise<TeamRaceData | null> {
+  const supabase = createServiceClient()
+
+  const [lb, teamsRaw] = await Promise.all([
+    safeDb(
+      supabase
+        .from('leaderboards')
+        .select('goal_mode, race_start_at, race_end_at, goal_min_games, team_scoring')
+        .eq('id', lbId)
+        .maybeSingle(),
+      null as {
+        goal_mode: string | null
+        race_start_at: string | null
+        race_end_at: string | null
+        goal_min_games: number | null
+        team_scoring: string | null
+      } | null,
+      'leaderboards'
+    ),
+    safeDb(
+      supabase.from('leaderboard_teams').select('id, name').eq('leaderboard_id', lbId).order('created_at', { ascending: true }),
+      [] as TeamRaw[],
+      'leaderboard_teams'
+    ),
+  ])
+  if (!lb || teamsRaw.length === 0) return null
+
+  const teams: LeaderboardTeam[] = teamsRaw.map((team, idx) => ({ id: team.id, name: team.name, color: teamColor(idx) }))
+  const players = await safeDb(
+    supabase.from('leaderboard_players').select('puuid, team_id, game_name').eq('leaderboard_id', lbId),
+    [] as TeamPlayerRaw[],
+    'leaderboard_players'
+  )
+  const teamByPuuid = new Map<string, string>()
+  for (const player of players) {
+    if (player.puuid && player.team_id) teamByPuuid.set(player.puuid, player.team_id)
+  }
+
+  const goalMode = normalizeGoalMode(lb.goal_mode)
+  const windowed = isWindowedGoalMode(goalMode)
+  const mode: GoalMode = isScoredWindowMode(goalMode) ? goalMode : 'LP_RACE'
+  const scoring = normalizeTeamScoring(lb.team_scoring)
+  const minGames = lb.goal_min_games && lb.goal_min_games > 0 ? lb.goal_min_games : DEFAULT_WINRATE_MIN_GAMES
+  // Outside a race window, teams race from the start of the season.
+  const startIso = windowed && lb.race_start_at ? lb.race_start_at : getSeasonStartIso()
+  const endIso = windowed ? lb.race_end_at : null
+  const startMs = new Date(startIso).getTime()
+  const nowMs = Date.now()
+  const endMs = Math.min(endIso ? new Date(endIso).getTime() : nowMs, nowMs)
+
+  const puuids = Array.from(teamByPuuid.keys())
+  const history: LpHistoryRow[] = []
+  // Page through the history: one race can span more rows than a single response holds.
+  if (puuids.length > 0 && startMs < nowMs) {
+    for (let from = 0; ; from += HISTORY_PAGE_SIZE) {
+      const page = await safeDb(
+        supabase
+          .from('player_lp_history')
+          .select('puuid, tier, rank, lp, wins, losses, fetched_at')
+          .in('puuid', puuids)
+          .eq('queue_type', 'RANKED_SOLO_5x5')
+          .gte('fetched_at', new Date(startMs - GOAL_WINDOW_BASELINE_MS).toISOString())
+          .lte('fetched_at', new Date(endMs).toISOString())
+          .order('fetched_at', { ascending: true })
+          .order('puuid', { ascending: true })
+          .range(from, from + HISTORY_PAGE_SIZE - 1),
+        [] as Array<LpHistoryRow & { wins: number | null; losses: number | null }>,
+        'player_lp_history'
+      )
+      history.push(...page)
+      if (page.length < HISTORY_PAGE_SIZE) break
+    }
+  }
+
+  const scoresAt = (ms: number) => scoreTeams(mode, computeWindowScores(history, startMs, ms), teamByPuuid, scoring, minGames)
+
+  const finalScores = new Map(scoresAt(endMs).map((score) => [score.teamId, score]))
+  const membersByTeam = new Map<string, TeamStanding['members']>()
+  for (const player of players) {
+    if (!player.team_id) continue
+    const members = membersByTeam.get(player.team_id) ?? []
+    members.push({ puuid: player.puuid, name: player.game_name?.trim() || player.puuid })
+    membersByTeam.set(player.team_id, members)
+  }
+
+  const standings: TeamStanding[] = teams
+    .map((team) => {
+      const score = finalScores.get(team.id)
+      return {
+        ...team,
+        value: score?.value ?? null,
+        players: score?.players ?? 0,
+        games: score?.games ?? 0,
+        members: membersByTeam.get(team.id) ?? [],
+      }
+    })
+    .sort((a, b) => {
+      if (a.value === null || b.value === null) return a.value === null ? (b.value === null ? 0 : 1) : -1
+      return b.value - a.value
+    })
+
+  // Sampled evenly across the window so long races stay cheap to draw.
+  const series: TeamSeries[] = teams.map((team) => ({ ...team, points: [] }))
+  if (startMs < endMs) {
+    const seriesById = new Map(series.map((entry) => [entry.id, entry]))
+    for (let i = 0; i <= SERIES_SAMPLES; i += 1) {
+      const ts = startMs + ((endMs - startMs) * i) / SERIES_SAMPLES
+      for (const score of scoresAt(ts)) {
+        if (score.value === null) continue
+        seriesById.get(score.teamId)?.points.push({ ts, value: score.value })
+      }
+    }
+  }
+
+  return { mode, scoring, startIso, endIso, standings, series }
+}
+
+export const getTeamRaceDataCached = (lbId: string) =>
+  unstable_cache(
+    () => fetchTeamRaceData(lbId),
+    ['lb-teams-v1', lbId],
+    { revalidate: TEAMS_CACHE_TTL_SECONDS, tags: [teamsTag(lbId)] }
+  )()
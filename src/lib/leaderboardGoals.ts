@@ -1,4 +1,4 @@
-export type GoalMode = 'LIVE' | 'RACE' | 'LP_GOAL' | 'RANK_GOAL'
+export type GoalMode = 'LIVE' | 'RACE' | 'LP_GOAL' | 'RANK_GOAL' | 'LP_RACE' | 'GAMES_RACE' | 'WINRATE_CHALLENGE'
 
 export type GoalStatus = 'LIVE' | 'SCHEDULED' | 'ACTIVE' | 'ENDED' | 'COMPLETED'
 
@@ -8,13 +8,20 @@ export type GoalConfig = {
   race_end_at?: string | null
   lp_goal?: number | null
   rank_goal_tier?: string | null
+  goal_min_games?: number | null
+  team_scoring?: string | null
 }
 
+// How member scores roll up into a team score.
+export type TeamScoring = 'SUM' | 'AVG'
+
 export type LpHistoryRow = {
   puuid: string
   tier: string | null
   rank: string | null
   lp: number | null
+  wins?: number | null
+  losses?: number | null
   fetched_at: string
 }
 
@@ -28,9 +35,27 @@ export type GoalState = {
   winnerLp: number | null
   winnerTier: string | null
   winnerRank: string | null
+  // The winning score for windowed modes: LP gained, games played, or win rate (%).
+  winnerValue: number | null
+  // Set when the leaderboard is split into teams; the winner fields then describe
+  // the winning team's top scorer.
+  winnerTeamId: string | null
 }
 
-const GOAL_MODES = new Set<GoalMode>(['LIVE', 'RACE', 'LP_GOAL', 'RANK_GOAL'])
+const GOAL_MODES = new Set<GoalMode>(['LIVE', 'RACE', 'LP_GOAL', 'RANK_GOAL', 'LP_RACE', 'GAMES_RACE', 'WINRATE_CHALLENGE'])
+
+// Modes scored between race_start_at and race_end_at and decided when the window closes.
+const SCORED_WINDOW_MODES = new Set<GoalMode>(['LP_RACE', 'GAMES_RACE', 'WINRATE_CHALLENGE'])
+
+export const DEFAULT_WINRATE_MIN_GAMES = 20
+
+// Scored windows start from each player's last history row before the start.
+// Rows are looked up this far back; players without one get a fresh row from
+// the refresh worker when the window opens.
+export const GOAL_WINDOW_BASELINE_MS = 14 * 24 * 60 * 60 * 1000
+// The worker starts polling a scored window's players this long before it
+// opens, so their baseline row is written before their first game counts.
+export const GOAL_WINDOW_LEAD_MS = 10 * 60 * 1000
 
 const TIER_WEIGHT: Record<string, number> = {
   CHALLENGER: 10,
@@ -56,11 +81,37 @@ function tierWeight(tier?: string | null): number {
   return TIER_WEIGHT[tier.toUpperCase()] ?? 0
 }
 
+const DIVISION_STEP: Record<string, number> = { IV: 0, III: 1, II: 2, I: 3 }
+
+// Position on one continuous LP ladder: 100 LP per division, apex tiers share one scale.
+export function ladderLp(row: LpHistoryRow): number | null {
+  const weight = tierWeight(row.tier)
+  if (!weight) return null
+  const lp = row.lp ?? 0
+  if (weight >= TIER_WEIGHT.MASTER) return (TIER_WEIGHT.MASTER - 1) * 400 + lp
+  const division = DIVISION_STEP[String(row.rank ?? '').toUpperCase()]
+  if (division === undefined) return null
+  return (weight - 1) * 400 + division * 100 + lp
+}
+
+// Every mode with a start/end window: the worker only polls inside it.
+export function isWindowedGoalMode(mode: GoalMode): boolean {
+  return mode === 'RACE' || SCORED_WINDOW_MODES.has(mode)
+}
+
+export function isScoredWindowMode(mode: GoalMode): boolean {
+  return SCORED_WINDOW_MODES.has(mode)
+}
+
 export function normalizeGoalMode(mode?: string | null): GoalMode {
   const raw = String(mode ?? '').trim().toUpperCase() as GoalMode
   return GOAL_MODES.has(raw) ? raw : 'LIVE'
 }
 
+export function normalizeTeamScoring(scoring?: string | null): TeamScoring {
+  return String(scoring ?? '').trim().toUpperCase() === 'AVG' ? 'AVG' : 'SUM'
+}
+
 export function formatGoalDate(iso?: string | null): string | null {
   if (!iso) return null
   const date = new Date(iso)
@@ -83,6 +134,28 @@ export function formatGoalRange(startIso?: string | null, endIso?: string | null
   return null
 }
 
+export function formatGoalLabel(mode: GoalMode, config: GoalConfig): string {
+  if (mode === 'LP_GOAL') return `${config.lp_goal ?? 0} LP`
+  if (mode === 'RANK_GOAL') {
+    const tier = String(config.rank_goal_tier ?? '')
+    return tier ? tier.charAt(0).toUpperCase() + tier.slice(1).toLowerCase() : 'Rank goal'
+  }
+  if (mode === 'LP_RACE') return 'Most LP gained'
+  if (mode === 'GAMES_RACE') return 'Most games played'
+  if (mode === 'WINRATE_CHALLENGE') {
+    return `Best win rate (min ${config.goal_min_games || DEFAULT_WINRATE_MIN_GAMES} games)`
+  }
+  return mode === 'RACE' ? 'Race' : 'Live'
+}
+
+export function formatGoalResult(mode: GoalMode, value: number | null): string | null {
+  if (value === null) return null
+  if (mode === 'LP_RACE') return `${value > 0 ? '+' : ''}${value} LP`
+  if (mode === 'GAMES_RACE') return `${value} games`
+  if (mode === 'WINRATE_CHALLENGE') return `${value}% win rate`
+  return null
+}
+
 function computeLpGoalCompletion(history: LpHistoryRow[], targetLp: number) {
   let earliestMs: number | null = null
   let winner: LpHistoryRow | null = null
@@ -139,7 +212,149 @@ function computeRankGoalCompletion(history: LpHistoryRow[], targetTier: string)
   }
 }
 
-export function computeGoalState(config: GoalConfig, history: LpHistoryRow[], nowMs = Date.now()): GoalState {
+function gamesPlayed(row: LpHistoryRow): number {
+  return (row.wins ?? 0) + (row.losses ?? 0)
+}
+
+export type WindowScore = {
+  baseline: LpHistoryRow
+  latest: LpHistoryRow
+  games: number
+  wins: number
+  // Ladder LP gained; null when either end is unranked.
+  lpGained: number | null
+}
+
+// Scores each player from their last row at or before the start (or their first
+// row inside the window if they had none, which is the baseline row the worker
+// writes as the window opens) to their last row before the end.
+// Players with no row after the start keep their baseline, i.e. a zero score.
+export function computeWindowScores(history: LpHistoryRow[], startMs: number | null, endMs: number): Map<string, WindowScore> {
+  const byPuuid = new Map<string, { baseline: LpHistoryRow | null; latest: LpHistoryRow | null }>()
+  const sorted = [...history].sort((a, b) => new Date(a.fetched_at).getTime() - new Date(b.fetched_at).getTime())
+
+  for (const row of sorted) {
+    const ts = new Date(row.fetched_at).getTime()
+    if (Number.isNaN(ts) || ts > endMs) continue
+    const entry = byPuuid.get(row.puuid) ?? { baseline: null, latest: null }
+    if (startMs !== null && ts <= startMs) entry.baseline = row
+    else {
+      if (!entry.baseline) entry.baseline = row
+      entry.latest = row
+    }
+    byPuuid.set(row.puuid, entry)
+  }
+
+  const scores = new Map<string, WindowScore>()
+  for (const [puuid, { baseline, latest: lastRow }] of byPuuid) {
+    if (!baseline) continue
+    const latest = lastRow ?? baseline
+    const before = ladderLp(baseline)
+    const after = ladderLp(latest)
+    scores.set(puuid, {
+      baseline,
+      latest,
+      games: gamesPlayed(latest) - gamesPlayed(baseline),
+      wins: (latest.wins ?? 0) - (baseline.wins ?? 0),
+      lpGained: before === null || after === null ? null : after - before,
+    })
+  }
+  return scores
+}
+
+function winRate(wins: number, games: number): number {
+  return Math.round((wins / games) * 1000) / 10
+}
+
+function scorePlayer(mode: GoalMode, score: WindowScore, minGames: number): { value: number; tiebreak: number } | null {
+  if (score.games <= 0) return null
+  if (mode === 'LP_RACE') return score.lpGained === null ? null : { value: score.lpGained, tiebreak: score.games }
+  if (mode === 'GAMES_RACE') return { value: score.games, tiebreak: score.lpGained ?? 0 }
+  if (score.games < minGames) return null
+  return { value: winRate(score.wins, score.games), tiebreak: score.games }
+}
+
+function computeWindowResult(mode: GoalMode, scores: Map<string, WindowScore>, minGames: number) {
+  let winner: { row: LpHistoryRow; value: number; tiebreak: number } | null = null
+  for (const score of scores.values()) {
+    const scored = scorePlayer(mode, score, minGames)
+    if (!scored) continue
+    if (!winner || scored.value > winner.value || (scored.value === winner.value && scored.tiebreak > winner.tiebreak)) {
+      winner = { row: score.latest, ...scored }
+    }
+  }
+
+  return winner ? { winner: winner.row, value: winner.value } : null
+}
+
+export type TeamScore = {
+  teamId: string
+  // Null while the team hasn't qualified (no ranked members, or too few games for a win rate).
+  value: number | null
+  tiebreak: number
+  players: number
+  games: number
+  topScorer: LpHistoryRow | null
+}
+
+// Rolls member scores up per team. LP and games are summed or averaged over the
+// team's ranked members; win rate is pooled across the whole team.
+export function scoreTeams(
+  mode: GoalMode,
+  scores: Map<string, WindowScore>,
+  teamByPuuid: Map<string, string>,
+  scoring: TeamScoring,
+  minGames: number
+): TeamScore[] {
+  const byTeam = new Map<string, { total: number; tiebreak: number; players: number; games: number; wins: number; top: { row: LpHistoryRow; value: number } | null }>()
+
+  for (const [puuid, score] of scores) {
+    const teamId = teamByPuuid.get(puuid)
+    if (!teamId) continue
+    if (mode !== 'GAMES_RACE' && mode !== 'WINRATE_CHALLENGE' && score.lpGained === null) continue
+    const entry = byTeam.get(teamId) ?? { total: 0, tiebreak: 0, players: 0, games: 0, wins: 0, top: null }
+    entry.players += 1
+    entry.games += Math.max(score.games, 0)
+    entry.wins += Math.max(score.wins, 0)
+    if (mode === 'GAMES_RACE') {
+      entry.total += Math.max(score.games, 0)
+      entry.tiebreak += score.lpGained ?? 0
+    } else if (mode !== 'WINRATE_CHALLENGE') {
+      entry.total += score.lpGained ?? 0
+      entry.tiebreak += Math.max(score.games, 0)
+    }
+    const scored = scorePlayer(mode, score, 1)
+    if (scored && (!entry.top || scored.value > entry.top.value)) entry.top = { row: score.latest, value: scored.value }
+    byTeam.set(teamId, entry)
+  }
+
+  const teams: TeamScore[] = []
+  for (const [teamId, entry] of byTeam) {
+    let value: number | null
+    let tiebreak = entry.tiebreak
+    if (mode === 'WINRATE_CHALLENGE') {
+      value = entry.games > 0 && entry.games >= minGames ? winRate(entry.wins, entry.games) : null
+      tiebreak = entry.games
+    } else {
+      value = scoring === 'AVG' ? Math.round((entry.total / entry.players) * 10) / 10 : entry.total
+    }
+    teams.push({ teamId, value, tiebreak, players: entry.players, games: entry.games, topScorer: entry.top?.row ?? null })
+  }
+
+  return teams.sort((a, b) => {
+    if (a.value === null || b.value === null) return a.value === null ? (b.value === null ? 0 : 1) : -1
+    return b.value - a.value || b.tiebreak - a.tiebreak
+  })
+}
+
+// Pass teamByPuuid when the leaderboard is split into teams: scored windows are
+// then won by a team rather than a single player.
+export function computeGoalState(
+  config: GoalConfig,
+  history: LpHistoryRow[],
+  nowMs = Date.now(),
+  teamByPuuid?: Map<string, string> | null
+): GoalState {
   const mode = normalizeGoalMode(config.goal_mode)
   const startMs = parseIsoToMs(config.race_start_at)
   const raceEndMs = parseIsoToMs(config.race_end_at)
@@ -147,12 +362,37 @@ export function computeGoalState(config: GoalConfig, history: LpHistoryRow[], no
   let status: GoalStatus = mode === 'LIVE' ? 'LIVE' : 'ACTIVE'
   let completionAt: string | null = null
   let winner: LpHistoryRow | null = null
+  let winnerValue: number | null = null
+  let winnerTeamId: string | null = null
 
-  if (mode === 'RACE') {
+  if (isWindowedGoalMode(mode)) {
     if (startMs && nowMs < startMs) status = 'SCHEDULED'
     if (raceEndMs && nowMs > raceEndMs) status = 'ENDED'
   }
 
+  if (SCORED_WINDOW_MODES.has(mode) && raceEndMs && nowMs > raceEndMs) {
+    const minGames = config.goal_min_games && config.goal_min_games > 0 ? config.goal_min_games : DEFAULT_WINRATE_MIN_GAMES
+    const scores = computeWindowScores(history, startMs, raceEndMs)
+    if (teamByPuuid && teamByPuuid.size > 0) {
+      const [leader] = scoreTeams(mode, scores, teamByPuuid, normalizeTeamScoring(config.team_scoring), minGames)
+      if (leader && leader.value !== null && leader.games > 0) {
+        completionAt = new Date(raceEndMs).toISOString()
+        winner = leader.topScorer
+        winnerValue = leader.value
+        winnerTeamId = leader.teamId
+        status = 'COMPLETED'
+      }
+    } else {
+      const result = computeWindowResult(mode, scores, minGames)
+      if (result) {
+        completionAt = new Date(raceEndMs).toISOString()
+        winner = result.winner
+        winnerValue = result.value
+        status = 'COMPLETED'
+      }
+    }
+  }
+
   if (mode === 'LP_GOAL' && typeof config.lp_goal === 'number' && config.lp_goal > 0) {
     const result = computeLpGoalCompletion(history, config.lp_goal)
     if (result) {
@@ -172,17 +412,19 @@ export function computeGoalState(config: GoalConfig, history: LpHistoryRow[], no
   }
 
   const completionMs = completionAt ? parseIsoToMs(completionAt) : null
-  const endMs = completionMs ?? (mode === 'RACE' && raceEndMs && nowMs > raceEndMs ? raceEndMs : null)
+  const endMs = completionMs ?? (isWindowedGoalMode(mode) && raceEndMs && nowMs > raceEndMs ? raceEndMs : null)
 
   return {
     mode,
     status,
-    startMs: mode === 'RACE' ? startMs : null,
+    startMs: isWindowedGoalMode(mode) ? startMs : null,
     endMs,
     completionAt,
     winnerPuuid: winner?.puuid ?? null,
     winnerLp: winner?.lp ?? null,
     winnerTier: winner?.tier ?? null,
     winnerRank: winner?.rank ?? null,
+    winnerValue,
+    winnerTeamId,
   }
 }
@@ -0,0 +1,76 @@
+import { regionalBaseUrl } from './platforms'
+import { riotFetch } from './riotClient'
+import type { SyncErrorCategory } from './syncHealth'
+import { createServiceClient } from '@/lib/supabase/service'
+
+type MatchDetail = {
+  info?: { participants?: Array<{ puuid?: string; championId?: number }> }
+}
+
+function sameRiotId(a: { gameName: string; tagLine: string }, b: { game_name: string | null; tag_line: string | null }) {
+  return (
+    a.gameName.trim().toLowerCase() === String(b.game_name ?? '').trim().toLowerCase() &&
+    a.tagLine.trim().toLowerCase() === String(b.tag_line ?? '').trim().toLowerCase()
+  )
+}
+
+// Whether newPuuid is the same Riot account as oldPuuid, so moving oldPuuid's
+// history onto it (migratePuuid) can't merge two different players.
+//
+// - decryption: the Riot ID we already had for oldPuuid resolved to newPuuid.
+// - renamed: the Riot ID changed, so compare history instead. newPuuid must
+//   have played a match we stored for oldPuuid, on the same champion.
+//
+// Any other sync error says nothing about the account, so it never confirms.
+export async function confirmSameAccount(opts: {
+  oldPuuid: string
+  newPuuid: string
+  category: SyncErrorCategory | null
+  riotId: { gameName: string; tagLine: string }
+  platform: string | null
+}): Promise<boolean> {
+  const { oldPuuid, newPuuid, category, riotId, platform } = opts
+  if (oldPuuid === newPuuid) return true
+
+  const service = createServiceClient()
+
+  if (category === 'decryption') {
+    const { data: player, error } = await service
+      .from('players')
+      .select('game_name, tag_line')
+      .eq('puuid', oldPuuid)
+      .maybeSingle()
+    if (error) throw new Error(`[confirmSameAccount] players: ${error.message}`)
+    return !!player && sameRiotId(riotId, player)
+  }
+
+  if (category !== 'renamed') return false
+
+  const { data: stored, error: storedError } = await service
+    .from('match_participants')
+    .select('match_id, champion_id')
+    .eq('puuid', oldPuuid)
+    .order('match_id', { ascending: false })
+    .limit(100)
+  if (storedError) throw new Error(`[confirmSameAccount] match_participants: ${storedError.message}`)
+
+  const championByMatch = new Map(
+    ((stored ?? []) as Array<{ match_id: string; champion_id: number | null }>).map((row) => [String(row.match_id), row.champion_id])
+  )
+  if (championByMatch.size === 0) return false
+
+  const recentIds = await riotFetch<string[]>(
+    `${regionalBaseUrl(platform)}/lol/match/v5/matches/by-puuid/${encodeURIComponent(newPuuid)}/ids?count=100`,
+    { maxRetries: 1, init: { cache: 'no-store' } }
+  )
+  const sharedMatchId = recentIds.find((id) => championByMatch.has(id))
+  if (!sharedMatchId) return false
+
+  const match = await riotFetch<MatchDetail>(`${regionalBaseUrl(platform)}/lol/match/v5/matches/${encodeURIComponent(sharedMatchId)}`, {
+    maxRetries: 1,
+    init: { cache: 'no-store' },
+  })
+  const participant = match.info?.participants?.find((p) => p.puuid === newPuuid)
+  const storedChampion = championByMatch.get(sharedMatchId)
+  return !!participant && typeof storedChampion === 'number' && participant.championId === storedChampion
+}
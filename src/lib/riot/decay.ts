@@ -0,0 +1,71 @@
+// Ranked inactivity decay for Diamond and apex tiers.
+// Each ranked game banks days of protection up to a cap; banked days drain one
+// per day without a game, and once the bank is empty the player loses LP daily.
+
+export type DecayRule = {
+  daysPerGame: number
+  maxBankedDays: number
+  lpPerDay: number
+}
+
+const DIAMOND_RULE: DecayRule = { daysPerGame: 7, maxBankedDays: 28, lpPerDay: 50 }
+const APEX_RULE: DecayRule = { daysPerGame: 1, maxBankedDays: 14, lpPerDay: 75 }
+
+// How far back to replay games; long enough to fill either bank from empty.
+export const DECAY_LOOKBACK_DAYS = 60
+// Cards warn once the bank drops to this many days.
+export const DECAY_WARNING_DAYS = 3
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export type DecayStatus = {
+  // Whole days left before decay starts.
+  bankedDays: number
+  decaying: boolean
+  lpPerDay: number
+}
+
+export function decayRuleForTier(tier: string | null | undefined): DecayRule | null {
+  const normalized = String(tier ?? '').toUpperCase()
+  if (normalized === 'DIAMOND') return DIAMOND_RULE
+  if (['MASTER', 'GRANDMASTER', 'CHALLENGER'].includes(normalized)) return APEX_RULE
+  return null
+}
+
+// Replays ranked game end times through the bank. Games older than the
+// lookback are ignored, so the bank starts empty at the first game in range.
+export function computeDecayStatus(
+  tier: string | null | undefined,
+  gameEndTimestamps: number[],
+  nowMs = Date.now()
+): DecayStatus | null {
+  const rule = decayRuleForTier(tier)
+  if (!rule) return null
+
+  const since = nowMs - DECAY_LOOKBACK_DAYS * DAY_MS
+  const games = gameEndTimestamps.filter((ts) => Number.isFinite(ts) && ts >= since && ts <= nowMs).sort((a, b) => a - b)
+
+  let bankedDays = 0
+  let lastTs: number | null = null
+  for (const ts of games) {
+    if (lastTs !== null) bankedDays = Math.max(0, bankedDays - (ts - lastTs) / DAY_MS)
+    bankedDays = Math.min(rule.maxBankedDays, bankedDays + rule.daysPerGame)
+    lastTs = ts
+  }
+
+  const remaining = lastTs === null ? 0 : Math.max(0, bankedDays - (nowMs - lastTs) / DAY_MS)
+  return {
+    bankedDays: Math.floor(remaining),
+    decaying: remaining <= 0,
+    lpPerDay: rule.lpPerDay,
+  }
+}
+
+export type GamelessLpNote = 'DECAY' | 'DODGE'
+
+// LP lost without a game is either a queue dodge (a few LP at any tier) or, at
+// Diamond+, inactivity decay, which always takes at least a full day's worth.
+export function classifyGamelessLpLoss(tier: string | null | undefined, lpDelta: number): GamelessLpNote {
+  const rule = decayRuleForTier(tier)
+  return rule && -lpDelta >= rule.lpPerDay ? 'DECAY' : 'DODGE'
+}
@@ -1,24 +1,6 @@
 import { getRiotApiKey } from './getRiotApiKey'
-import { riotFetchWithRetry } from './riotFetchWithRetry'
-
-const ROUTING_BY_PLATFORM: Record<string, string> = {
-  NA1: 'americas',
-  BR1: 'americas',
-  LA1: 'americas',
-  LA2: 'americas',
-  OC1: 'sea',
-  KR: 'asia',
-  JP1: 'asia',
-  EUN1: 'europe',
-  EUW1: 'europe',
-  TR1: 'europe',
-  RU: 'europe',
-  PH2: 'sea',
-  SG2: 'sea',
-  TH2: 'sea',
-  TW2: 'sea',
-  VN2: 'sea',
-}
+import { riotFetch } from './riotClient'
+import { platformFromMatchId, regionalRouteForPlatform } from './platforms'
 
 const MATCH_DETAILS_CACHE = new Map<
   string,
@@ -46,14 +28,14 @@ function setCachedMatchDetails(matchId: string, value: MatchDetails) {
 }
 
 function getRoutingFromMatchId(matchId: string) {
-  const platform = matchId.split('_')[0]?.toUpperCase()
+  const platform = platformFromMatchId(matchId)
   if (!platform) return null
-  return ROUTING_BY_PLATFORM[platform] ?? null
+  return regionalRouteForPlatform(platform)
 }
 
-async function riotFetch<T>(url: string, apiKey: string): Promise<T | null> {
+async function tryRiotFetch<T>(url: string): Promise<T | null> {
   try {
-    return await riotFetchWithRetry<T>(url, apiKey, { maxRetries: 2, retryDelay: 2000 })
+    return await riotFetch<T>(url, { maxRetries: 2, retryDelayMs: 2000, init: { next: { revalidate: 30 } } })
   } catch (error) {
     // Silently fail for server-side preloading - we'll fetch on demand if needed
     console.warn(`[fetchMatchDetails] Failed to fetch ${url}:`, error instanceof Error ? error.message : error)
@@ -86,10 +68,7 @@ export async function fetchMatchDetails(matchId: string): Promise<MatchDetails>
   }
 
   // Fetch match data
-  const match = await riotFetch(
-    `https://${routing}.api.riotgames.com/lol/match/v5/matches/${matchId}`,
-    apiKey,
-  )
+  const match = await tryRiotFetch(`https://${routing}.api.riotgames.com/lol/match/v5/matches/${matchId}`)
 
   if (!match) {
     const empty = { match: null, timeline: null, accounts: {} }
@@ -100,16 +79,10 @@ export async function fetchMatchDetails(matchId: string): Promise<MatchDetails>
   // Fetch timeline and accounts in parallel
   // Note: Account API always uses 'americas' routing regardless of region
   const [timeline, accountResults] = await Promise.all([
-    riotFetch(
-      `https://${routing}.api.riotgames.com/lol/match/v5/matches/${matchId}/timeline`,
-      apiKey,
-    ),
+    tryRiotFetch(`https://${routing}.api.riotgames.com/lol/match/v5/matches/${matchId}/timeline`),
     Promise.allSettled(
       (match as any).metadata.participants.map((puuid: string) =>
-        riotFetch(
-          `https://americas.api.riotgames.com/riot/account/v1/accounts/by-puuid/${puuid}`,
-          apiKey,
-        ).then((account) => [puuid, account] as const)
+        tryRiotFetch(`https://americas.api.riotgames.com/riot/account/v1/accounts/by-puuid/${puuid}`).then((account) => [puuid, account] as const)
       )
     ),
   ])
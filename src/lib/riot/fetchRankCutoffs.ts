@@ -2,24 +2,10 @@
  * Fetch Challenger/Grandmaster LP cutoffs from Riot API
  */
 
-const NA1 = 'https://na1.api.riotgames.com'
-
-async function riotFetch<T>(url: string, apiKey: string): Promise<T> {
-  const res = await fetch(url, {
-    headers: {
-      'X-Riot-Token': apiKey,
-      'User-Agent': 'climb.lol-refresh/1.0',
-    },
-  })
-
-  if (!res.ok) {
-    const body = await res.text().catch(() => '')
-    console.error('[riotFetch] FAIL', res.status, url, body.slice(0, 200))
-    throw new Error(`Riot ${res.status}: ${body}`.slice(0, 200))
-  }
+import { DEFAULT_PLATFORM, platformBaseUrl } from './platforms'
+import { riotFetch } from './riotClient'
 
-  return (await res.json()) as T
-}
+const NA1 = platformBaseUrl(DEFAULT_PLATFORM)
 
 type LeagueEntry = {
   leaguePoints: number
@@ -31,15 +17,15 @@ type LeagueList = {
   [key: string]: any
 }
 
-export async function fetchRankCutoffs(apiKey: string) {
+export async function fetchRankCutoffs() {
   const queues = ['RANKED_SOLO_5x5', 'RANKED_FLEX_SR']
   const cutoffs: Array<{ queue_type: string; tier: string; cutoff_lp: number }> = []
 
   const results = await Promise.allSettled(
     queues.flatMap((queue) => [
-      riotFetch<LeagueList>(`${NA1}/lol/league/v4/challengerleagues/by-queue/${queue}`, apiKey)
+      riotFetch<LeagueList>(`${NA1}/lol/league/v4/challengerleagues/by-queue/${queue}`)
         .then((data) => ({ queue, tier: 'CHALLENGER' as const, data })),
-      riotFetch<LeagueList>(`${NA1}/lol/league/v4/grandmasterleagues/by-queue/${queue}`, apiKey)
+      riotFetch<LeagueList>(`${NA1}/lol/league/v4/grandmasterleagues/by-queue/${queue}`)
         .then((data) => ({ queue, tier: 'GRANDMASTER' as const, data })),
     ])
   )
@@ -0,0 +1,55 @@
+// Maps a match-v5 participant onto the per-participant columns of
+// match_participants. Used by the refresh worker (all ten players of every
+// ingested match) and by /api/match when it hydrates a match on read.
+
+export interface RiotMatchParticipant {
+  puuid?: string | null
+  riotIdGameName?: string | null
+  riotIdTagline?: string | null
+  championId?: number
+  teamId?: number
+  teamPosition?: string | null
+  individualPosition?: string | null
+  kills?: number
+  deaths?: number
+  assists?: number
+  totalMinionsKilled?: number
+  neutralMinionsKilled?: number
+  win?: boolean
+  visionScore?: number
+  totalDamageDealtToChampions?: number
+  goldEarned?: number
+  item0?: number
+  item1?: number
+  item2?: number
+  item3?: number
+  item4?: number
+  item5?: number
+  item6?: number
+}
+
+export type MatchEndType = 'REMAKE' | 'EARLY_SURRENDER' | 'SURRENDER' | 'NORMAL'
+
+export function participantRow(matchId: string, puuid: string, part: RiotMatchParticipant, endType: MatchEndType) {
+  const position = String(part.teamPosition || part.individualPosition || '').trim().toUpperCase()
+  return {
+    match_id: matchId,
+    puuid,
+    riot_id_game_name: part.riotIdGameName?.trim() || null,
+    riot_id_tagline: part.riotIdTagline?.trim() || null,
+    champion_id: Number(part.championId ?? 0),
+    team_id: Number(part.teamId ?? 0) || null,
+    // Riot reports "Invalid" for positionless queues (ARAM, Arena).
+    team_position: position && position !== 'INVALID' ? position : null,
+    kills: Number(part.kills ?? 0),
+    deaths: Number(part.deaths ?? 0),
+    assists: Number(part.assists ?? 0),
+    cs: Number((part.totalMinionsKilled ?? 0) + (part.neutralMinionsKilled ?? 0)),
+    win: Boolean(part.win),
+    vision_score: Number(part.visionScore ?? 0),
+    damage_to_champions: Number(part.totalDamageDealtToChampions ?? 0),
+    gold_earned: Number(part.goldEarned ?? 0),
+    items: [part.item0, part.item1, part.item2, part.item3, part.item4, part.item5, part.item6].map((id) => Number(id ?? 0)),
+    end_type: endType,
+  }
+}
@@ -0,0 +1,89 @@
+export const PLATFORMS = [
+  'NA1',
+  'EUW1',
+  'EUN1',
+  'KR',
+  'JP1',
+  'BR1',
+  'LA1',
+  'LA2',
+  'OC1',
+  'TR1',
+  'RU',
+  'PH2',
+  'SG2',
+  'TH2',
+  'TW2',
+  'VN2',
+] as const
+
+export type Platform = (typeof PLATFORMS)[number]
+
+export type RegionalRoute = 'americas' | 'europe' | 'asia' | 'sea'
+
+export const DEFAULT_PLATFORM: Platform = 'NA1'
+
+export const PLATFORM_LABELS: Record<Platform, string> = {
+  NA1: 'NA',
+  EUW1: 'EUW',
+  EUN1: 'EUNE',
+  KR: 'KR',
+  JP1: 'JP',
+  BR1: 'BR',
+  LA1: 'LAN',
+  LA2: 'LAS',
+  OC1: 'OCE',
+  TR1: 'TR',
+  RU: 'RU',
+  PH2: 'PH',
+  SG2: 'SG',
+  TH2: 'TH',
+  TW2: 'TW',
+  VN2: 'VN',
+}
+
+// Match-v5 lives on the regional clusters, not the platform hosts.
+const ROUTING_BY_PLATFORM: Record<Platform, RegionalRoute> = {
+  NA1: 'americas',
+  BR1: 'americas',
+  LA1: 'americas',
+  LA2: 'americas',
+  OC1: 'sea',
+  KR: 'asia',
+  JP1: 'asia',
+  EUN1: 'europe',
+  EUW1: 'europe',
+  TR1: 'europe',
+  RU: 'europe',
+  PH2: 'sea',
+  SG2: 'sea',
+  TH2: 'sea',
+  TW2: 'sea',
+  VN2: 'sea',
+}
+
+export function isPlatform(value: string | null | undefined): value is Platform {
+  return (PLATFORMS as readonly string[]).includes(String(value ?? ''))
+}
+
+export function normalizePlatform(value?: string | null): Platform {
+  const raw = String(value ?? '').trim().toUpperCase()
+  return isPlatform(raw) ? raw : DEFAULT_PLATFORM
+}
+
+export function regionalRouteForPlatform(platform?: string | null): RegionalRoute {
+  return ROUTING_BY_PLATFORM[normalizePlatform(platform)]
+}
+
+export function platformBaseUrl(platform?: string | null) {
+  return `https://${normalizePlatform(platform).toLowerCase()}.api.riotgames.com`
+}
+
+export function regionalBaseUrl(platform?: string | null) {
+  return `https://${regionalRouteForPlatform(platform)}.api.riotgames.com`
+}
+
+export function platformFromMatchId(matchId: string): Platform | null {
+  const prefix = matchId.split('_')[0]?.toUpperCase()
+  return isPlatform(prefix) ? prefix : null
+}
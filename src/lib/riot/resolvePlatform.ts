@@ -0,0 +1,20 @@
+import { riotFetch, RiotApiError } from "./riotClient";
+import { isPlatform, type Platform } from "./platforms";
+
+// The platform Riot reports the account as active on, or null when the lookup
+// fails or returns a shard we don't route to. Callers store null and let the
+// refresh worker retry, so a failed lookup never blocks adding a player.
+export async function resolvePlatform(puuid: string): Promise<Platform | null> {
+  try {
+    const data = await riotFetch<{ region?: string }>(
+      `https://americas.api.riotgames.com/riot/account/v1/region/by-game/lol/by-puuid/${encodeURIComponent(puuid)}`,
+      { maxRetries: 1, init: { cache: "no-store" } }
+    );
+    const region = String(data?.region ?? "").trim().toUpperCase();
+    return isPlatform(region) ? region : null;
+  } catch (error) {
+    const status = error instanceof RiotApiError ? error.status : 0;
+    console.error("[resolvePlatform] Riot lookup failed", status, error instanceof Error ? error.message.slice(0, 200) : error);
+    return null;
+  }
+}
@@ -1,29 +1,24 @@
-import { getRiotApiKey } from "./getRiotApiKey";
+import { riotFetch, RiotApiError } from "./riotClient";
 
 export async function resolvePuuid(gameName: string, tagLine: string): Promise<string> {
-  const key = getRiotApiKey();
+  let data: { puuid: string };
+  try {
+    data = await riotFetch<{ puuid: string }>(
+      `https://americas.api.riotgames.com/riot/account/v1/accounts/by-riot-id/${encodeURIComponent(gameName)}/${encodeURIComponent(tagLine)}`,
+      { maxRetries: 1, init: { cache: "no-store" } }
+    );
+  } catch (error) {
+    const status = error instanceof RiotApiError ? error.status : 0;
+    console.error("[resolvePuuid] Riot lookup failed", status, error instanceof Error ? error.message.slice(0, 200) : error);
 
-  const res = await fetch(
-    `https://americas.api.riotgames.com/riot/account/v1/accounts/by-riot-id/${encodeURIComponent(gameName)}/${encodeURIComponent(tagLine)}`,
-    {
-      headers: { "X-Riot-Token": key },
-      cache: "no-store",
-    }
-  );
-
-  if (!res.ok) {
-    const body = await res.text().catch(() => "");
-    console.error("[resolvePuuid] Riot lookup failed", res.status, body.slice(0, 200));
-    
     const errorMessages: Record<number, string> = {
       401: "Riot API key is invalid or missing.",
       429: "Riot API rate limit hit. Please try again in a moment.",
     };
-    
-    throw new Error(errorMessages[res.status] ?? `Riot lookup failed (${res.status}).`);
+
+    throw new Error(errorMessages[status] ?? `Riot lookup failed (${status || "network"}).`);
   }
 
-  const data = (await res.json()) as { puuid: string };
   if (!data?.puuid) throw new Error("No puuid returned from Riot");
   return data.puuid;
-}
\ No newline at end of file
+}
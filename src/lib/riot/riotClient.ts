@@ -0,0 +1,401 @@
+/**
+ * Shared Riot API client used by the refresh worker, scripts and API routes.
+ *
+ * Riot enforces two layers of limits per routing host: an application limit
+ * (X-App-Rate-Limit) and a per-endpoint method limit (X-Method-Rate-Limit),
+ * each made of several fixed windows such as "20:1,100:120". The client keeps
+ * one bucket per app host and per host+method, reserves a slot in every window
+ * before sending, and waits when a request would exceed the budget instead of
+ * spending the key on 429s.
+ *
+ * Counts are re-synced from the X-*-Rate-Limit-Count headers on every
+ * response. Those counts are global to the key, so separate processes sharing
+ * it (the worker and on-demand routes) see each other's usage.
+ */
+
+import { getRiotApiKey } from './getRiotApiKey'
+
+export type RiotRequestOptions = {
+  /** Retries for 429, 408, 5xx and network failures. */
+  maxRetries?: number
+  /** Base delay for exponential backoff when Riot gives no Retry-After. */
+  retryDelayMs?: number
+  init?: RequestInit
+}
+
+export type RiotBucketStats = {
+  key: string
+  blockedForMs: number
+  windows: Array<{ limit: number; windowSeconds: number; used: number; resetsInMs: number }>
+}
+
+export type RiotUsageStats = {
+  requests: number
+  byStatus: Record<string, number>
+  rateLimited: number
+  retries: number
+  queuedMs: number
+  buckets: RiotBucketStats[]
+}
+
+export type RiotClient = {
+  fetchJson<T>(url: string, options?: RiotRequestOptions): Promise<T>
+  getStats(): RiotUsageStats
+  resetStats(): void
+}
+
+export type RiotClientOptions = {
+  apiKey: string
+  userAgent?: string
+  /** App limit assumed before Riot has reported one, e.g. "20:1,100:120". */
+  defaultAppLimit?: string
+  defaultInit?: RequestInit
+  maxRetries?: number
+  retryDelayMs?: number
+}
+
+export class RiotApiError extends Error {
+  status: number
+  url: string
+  body: string
+
+  constructor(status: number, url: string, body: string, message?: string) {
+    super(message ?? `Riot ${status}: ${body}`.slice(0, 240))
+    this.name = 'RiotApiError'
+    this.status = status
+    this.url = url
+    this.body = body
+  }
+}
+
+type RateWindow = {
+  limit: number
+  windowMs: number
+  used: number
+  resetAt: number
+}
+
+type Bucket = {
+  windows: RateWindow[]
+  blockedUntil: number
+}
+
+const DEV_KEY_APP_LIMIT = '20:1,100:120'
+const RATE_LIMIT_WARN_THRESHOLD = 0.8
+
+// Path segments that follow these are identifiers, not part of the method.
+const ID_PREFIX_SEGMENTS = new Set(['by-puuid', 'by-queue', 'by-summoner', 'by-account', 'by-code', 'by-id'])
+
+function sleep(ms: number) {
+  return new Promise((r) => setTimeout(r, ms))
+}
+
+function parseRateLimitPairs(value: string | null | undefined): Array<{ value: number; windowSeconds: number }> {
+  if (!value) return []
+  return value
+    .split(',')
+    .map((pair) => {
+      const [valueRaw, windowRaw] = pair.trim().split(':')
+      return { value: Number(valueRaw), windowSeconds: Number(windowRaw) }
+    })
+    .filter((p) => Number.isFinite(p.value) && Number.isFinite(p.windowSeconds) && p.windowSeconds > 0)
+}
+
+function createBucket(limitHeader?: string | null): Bucket {
+  return {
+    windows: parseRateLimitPairs(limitHeader).map((p) => ({
+      limit: p.value,
+      windowMs: p.windowSeconds * 1000,
+      used: 0,
+      resetAt: 0,
+    })),
+    blockedUntil: 0,
+  }
+}
+
+function syncBucket(bucket: Bucket, limitHeader: string | null, countHeader: string | null, now: number) {
+  const limits = parseRateLimitPairs(limitHeader)
+  if (limits.length) {
+    bucket.windows = limits.map((p) => {
+      const windowMs = p.windowSeconds * 1000
+      const existing = bucket.windows.find((w) => w.windowMs === windowMs)
+      return existing ? { ...existing, limit: p.value } : { limit: p.value, windowMs, used: 0, resetAt: 0 }
+    })
+  }
+
+  for (const count of parseRateLimitPairs(countHeader)) {
+    const window = bucket.windows.find((w) => w.windowMs === count.windowSeconds * 1000)
+    if (!window) continue
+    if (!window.resetAt || now >= window.resetAt) {
+      window.resetAt = now + window.windowMs
+      window.used = 0
+    }
+    window.used = Math.max(window.used, count.value)
+  }
+}
+
+function bucketWaitMs(bucket: Bucket | undefined, now: number): number {
+  if (!bucket) return 0
+  let wait = Math.max(0, bucket.blockedUntil - now)
+  for (const window of bucket.windows) {
+    if (!window.resetAt || now >= window.resetAt) continue
+    if (window.used >= window.limit) wait = Math.max(wait, window.resetAt - now)
+  }
+  return wait
+}
+
+function commitBucket(bucket: Bucket | undefined, now: number) {
+  if (!bucket) return
+  for (const window of bucket.windows) {
+    if (!window.resetAt || now >= window.resetAt) {
+      window.resetAt = now + window.windowMs
+      window.used = 0
+    }
+    window.used += 1
+  }
+}
+
+function bucketUsage(bucket: Bucket, now: number): number {
+  let usage = 0
+  for (const window of bucket.windows) {
+    if (!window.resetAt || now >= window.resetAt || window.limit <= 0) continue
+    usage = Math.max(usage, window.used / window.limit)
+  }
+  return usage
+}
+
+/**
+ * Builds the method key Riot uses for method limits by dropping identifiers:
+ * /lol/match/v5/matches/NA1_123 -> /lol/match/v5/matches/{id}
+ */
+export function riotMethodKey(url: string): string {
+  const { pathname } = new URL(url)
+  const segments = pathname.split('/').filter(Boolean)
+  const out: string[] = []
+
+  for (let i = 0; i < segments.length; i += 1) {
+    const segment = segments[i]
+    out.push(segment)
+    if (segment === 'by-riot-id') {
+      if (i + 1 < segments.length) out.push('{gameName}')
+      if (i + 2 < segments.length) out.push('{tagLine}')
+      i += 2
+      continue
+    }
+    const next = segments[i + 1]
+    const isIdAfterPrefix = ID_PREFIX_SEGMENTS.has(segment)
+    const isIdAfterCollection =
+      (segment === 'matches' || segment === 'summoners' || segment === 'active-games') &&
+      next !== undefined &&
+      !next.startsWith('by-')
+    if (next !== undefined && (isIdAfterPrefix || isIdAfterCollection)) {
+      out.push('{id}')
+      i += 1
+    }
+  }
+
+  return `/${out.join('/')}`
+}
+
+function retryAfterMs(res: Response): number | null {
+  const raw = res.headers.get('Retry-After')
+  if (!raw) return null
+  const seconds = Number(raw)
+  return Number.isFinite(seconds) && seconds >= 0 ? seconds * 1000 : null
+}
+
+function isRetryableStatus(status: number) {
+  return status === 429 || status === 408 || (status >= 500 && status < 600)
+}
+
+export function createRiotClient(options: RiotClientOptions): RiotClient {
+  const apiKey = options.apiKey
+  const defaultAppLimit = options.defaultAppLimit ?? process.env.RIOT_APP_RATE_LIMIT ?? DEV_KEY_APP_LIMIT
+  const defaultMaxRetries = options.maxRetries ?? 3
+  const defaultRetryDelayMs = options.retryDelayMs ?? 1000
+
+  const appBuckets = new Map<string, Bucket>()
+  const methodBuckets = new Map<string, Bucket>()
+
+  let stats = {
+    requests: 0,
+    byStatus: {} as Record<string, number>,
+    rateLimited: 0,
+    retries: 0,
+    queuedMs: 0,
+  }
+
+  function appBucketFor(host: string) {
+    let bucket = appBuckets.get(host)
+    if (!bucket) {
+      bucket = createBucket(defaultAppLimit)
+      appBuckets.set(host, bucket)
+    }
+    return bucket
+  }
+
+  function methodBucketFor(key: string) {
+    let bucket = methodBuckets.get(key)
+    if (!bucket) {
+      // Method limits are unknown until Riot reports them on the first response.
+      bucket = createBucket(null)
+      methodBuckets.set(key, bucket)
+    }
+    return bucket
+  }
+
+  async function acquire(appBucket: Bucket, methodBucket: Bucket) {
+    const queuedAt = Date.now()
+    while (true) {
+      const now = Date.now()
+      const wait = Math.max(bucketWaitMs(appBucket, now), bucketWaitMs(methodBucket, now))
+      if (wait <= 0) {
+        commitBucket(appBucket, now)
+        commitBucket(methodBucket, now)
+        stats.queuedMs += now - queuedAt
+        return
+      }
+      await sleep(wait)
+    }
+  }
+
+  function recordStatus(status: number | 'network') {
+    const key = String(status)
+    stats.byStatus[key] = (stats.byStatus[key] ?? 0) + 1
+  }
+
+  function syncFromResponse(res: Response, appBucket: Bucket, methodBucket: Bucket, url: string) {
+    const now = Date.now()
+    syncBucket(appBucket, res.headers.get('X-App-Rate-Limit'), res.headers.get('X-App-Rate-Limit-Count'), now)
+    syncBucket(methodBucket, res.headers.get('X-Method-Rate-Limit'), res.headers.get('X-Method-Rate-Limit-Count'), now)
+
+    const usage = Math.max(bucketUsage(appBucket, now), bucketUsage(methodBucket, now))
+    if (usage >= RATE_LIMIT_WARN_THRESHOLD) {
+      console.warn(`[Riot API] Rate limit high ${(usage * 100).toFixed(1)}% for ${riotMethodKey(url)}`)
+    }
+  }
+
+  async function fetchJson<T>(url: string, requestOptions: RiotRequestOptions = {}): Promise<T> {
+    const maxRetries = requestOptions.maxRetries ?? defaultMaxRetries
+    const retryDelayMs = requestOptions.retryDelayMs ?? defaultRetryDelayMs
+    const host = new URL(url).host
+    const methodKey = `${host}${riotMethodKey(url)}`
+    const appBucket = appBucketFor(host)
+    const methodBucket = methodBucketFor(methodKey)
+
+    // Caller headers are kept; the API key and user agent always win.
+    const headers = new Headers(options.defaultInit?.headers)
+    new Headers(requestOptions.init?.headers).forEach((value, key) => headers.set(key, value))
+    headers.set('X-Riot-Token', apiKey)
+    if (options.userAgent) headers.set('User-Agent', options.userAgent)
+
+    for (let attempt = 0; ; attempt += 1) {
+      await acquire(appBucket, methodBucket)
+      stats.requests += 1
+
+      let res: Response
+      try {
+        res = await fetch(url, {
+          ...options.defaultInit,
+          ...requestOptions.init,
+          headers,
+        })
+      } catch (error) {
+        recordStatus('network')
+        if (attempt >= maxRetries) throw error
+        const delay = retryDelayMs * Math.pow(2, attempt)
+        console.warn(`[Riot API] Network error for ${url}. Retrying in ${Math.round(delay / 1000)}s`)
+        stats.retries += 1
+        await sleep(delay)
+        continue
+      }
+
+      recordStatus(res.status)
+      syncFromResponse(res, appBucket, methodBucket, url)
+
+      if (res.ok) {
+        return (await res.json()) as T
+      }
+
+      const retryAfter = retryAfterMs(res)
+      let blockedByBucket = false
+      if (res.status === 429) {
+        stats.rateLimited += 1
+        const limitType = res.headers.get('X-Rate-Limit-Type')
+        if (retryAfter !== null && (limitType === 'application' || limitType === 'method')) {
+          const bucket = limitType === 'application' ? appBucket : methodBucket
+          bucket.blockedUntil = Math.max(bucket.blockedUntil, Date.now() + retryAfter)
+          blockedByBucket = true
+        }
+        console.warn('[Riot API] 429', { type: limitType ?? 'unknown', retryAfterMs: retryAfter, url })
+      }
+
+      if (isRetryableStatus(res.status) && attempt < maxRetries) {
+        // App/method 429s wait in acquire() on the blocked bucket; service
+        // 429s and 5xx back off on this request only.
+        const delay = blockedByBucket ? 0 : retryAfter ?? retryDelayMs * Math.pow(2, attempt)
+        stats.retries += 1
+        if (delay > 0) await sleep(delay)
+        continue
+      }
+
+      const body = await res.text().catch(() => '')
+      if (res.status === 401) {
+        throw new RiotApiError(401, url, body, 'Riot API key invalid or missing. Check RIOT_API_KEY (no quotes).')
+      }
+      if (res.status === 403) {
+        throw new RiotApiError(403, url, body, 'Riot API key forbidden. Key may be expired or blocked.')
+      }
+      if (res.status === 429) {
+        throw new RiotApiError(429, url, body, `Rate limit exceeded after ${attempt + 1} attempts. Wait before retrying.`)
+      }
+      if (res.status !== 404) {
+        console.error('[Riot API] FAIL', res.status, url, body.slice(0, 200))
+      }
+      throw new RiotApiError(res.status, url, body)
+    }
+  }
+
+  function getStats(): RiotUsageStats {
+    const now = Date.now()
+    const describe = (key: string, bucket: Bucket): RiotBucketStats => ({
+      key,
+      blockedForMs: Math.max(0, bucket.blockedUntil - now),
+      windows: bucket.windows.map((w) => ({
+        limit: w.limit,
+        windowSeconds: w.windowMs / 1000,
+        used: w.resetAt && now < w.resetAt ? w.used : 0,
+        resetsInMs: w.resetAt && now < w.resetAt ? w.resetAt - now : 0,
+      })),
+    })
+
+    return {
+      ...stats,
+      byStatus: { ...stats.byStatus },
+      buckets: [
+        ...Array.from(appBuckets.entries()).map(([key, bucket]) => describe(key, bucket)),
+        ...Array.from(methodBuckets.entries()).map(([key, bucket]) => describe(key, bucket)),
+      ],
+    }
+  }
+
+  function resetStats() {
+    stats = { requests: 0, byStatus: {}, rateLimited: 0, retries: 0, queuedMs: 0 }
+  }
+
+  return { fetchJson, getStats, resetStats }
+}
+
+let sharedClient: RiotClient | null = null
+
+/** Process-wide client for Next.js routes; reads RIOT_API_KEY on first use. */
+export function getRiotClient(): RiotClient {
+  if (!sharedClient) {
+    sharedClient = createRiotClient({ apiKey: getRiotApiKey() })
+  }
+  return sharedClient
+}
+
+export function riotFetch<T>(url: string, options?: RiotRequestOptions): Promise<T> {
+  return getRiotClient().fetchJson<T>(url, options)
+}
@@ -110,10 +110,12 @@ function buildSeasonTable(region?: string | null): Array<SeasonInfo> {
   return sorted.map((row, idx) => {
     const next = sorted[idx + 1]
     const regionStart = regionCode ? row.regionStartIso?.[regionCode] : undefined
+    // A season ends when the next one starts in the same region.
+    const nextRegionStart = regionCode ? next?.regionStartIso?.[regionCode] : undefined
     return {
       season: row.season,
       startIso: regionStart ?? row.startIso,
-      endIso: next?.startIso ?? null,
+      endIso: nextRegionStart ?? next?.startIso ?? null,
       source: 'table',
     }
   })
@@ -171,3 +173,30 @@ export function getSeasonStartIso(
 ): string {
   return getCurrentSeasonInfo(args).startIso
 }
+
+// Seasons that have already ended by the calendar, newest first. The season
+// picker only offers those with archived ranks (getArchivedSeasonsCached).
+export function listArchivedSeasons({
+  now = new Date(),
+  region,
+}: {
+  now?: Date
+  region?: string | null
+} = {}): SeasonInfo[] {
+  const current = getCurrentSeasonInfo({ now, region })
+  return buildSeasonTable(region)
+    .filter((row) => row.season < current.season && row.endIso !== null)
+    .sort((a, b) => b.season - a.season)
+}
+
+// Resolves a `?season=` query value to an archived season. Anything that is not
+// a finished season (missing, garbage, the live season) resolves to null, which
+// callers treat as "current season".
+export function parseArchivedSeason(
+  value: string | null | undefined,
+  { now, region }: { now?: Date; region?: string | null } = {}
+): SeasonInfo | null {
+  const season = Number(String(value ?? '').trim())
+  if (!Number.isInteger(season)) return null
+  return listArchivedSeasons({ now, region }).find((row) => row.season === season) ?? null
+}
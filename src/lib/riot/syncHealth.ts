@@ -0,0 +1,60 @@
+// Classifies the free-form player_riot_state.last_error written by the refresh
+// worker so the dashboard can say what went wrong and what to do about it.
+
+export type SyncErrorCategory = 'renamed' | 'decryption' | 'rate_limited' | 'not_found' | 'unknown'
+
+export type SyncHealthStatus = 'ok' | 'stale' | 'error' | 'pending'
+
+export type SyncHealth = {
+  status: SyncHealthStatus
+  category: SyncErrorCategory | null
+  lastPollAt: string | null
+  lastError: string | null
+}
+
+export const SYNC_ERROR_LABELS: Record<SyncErrorCategory, string> = {
+  renamed: 'Renamed account',
+  decryption: 'Decryption mismatch',
+  rate_limited: 'Rate limited',
+  not_found: 'Not found',
+  unknown: 'Sync error',
+}
+
+export const SYNC_ERROR_HINTS: Record<SyncErrorCategory, string> = {
+  renamed: "The stored Riot ID no longer resolves and the PUUID can't be read with the current key. Enter the player's new Riot ID to re-link them.",
+  decryption: 'Riot returned a PUUID encrypted for a different API key. Re-resolving by Riot ID fetches a PUUID that works with ours.',
+  rate_limited: 'Riot throttled the refresh worker. This usually clears on its own within a few runs.',
+  not_found: "Riot has no ranked or account data for this player on the selected region. Check the region or re-resolve by Riot ID.",
+  unknown: 'The last refresh failed. If it keeps happening, try re-resolving by Riot ID.',
+}
+
+// A player not polled for this long is shown as stale even without an error.
+export const SYNC_STALE_AFTER_MS = 30 * 60 * 1000
+
+export function classifySyncError(lastError: string | null | undefined): SyncErrorCategory | null {
+  const message = String(lastError ?? '').trim()
+  if (!message) return null
+
+  const lower = message.toLowerCase()
+  if (message.startsWith('MIGRATION_NEEDED')) return 'renamed'
+  if (lower.includes('decrypt')) return 'decryption'
+  if (lower.includes('riot 429') || lower.includes('rate limit')) return 'rate_limited'
+  if (lower.includes('riot 404') || lower.includes('not found')) return 'not_found'
+  return 'unknown'
+}
+
+export function getSyncHealth(
+  state: { last_poll_at?: string | null; last_error?: string | null } | null | undefined,
+  nowMs = Date.now()
+): SyncHealth {
+  const lastPollAt = state?.last_poll_at ?? null
+  const lastError = state?.last_error ?? null
+  const category = classifySyncError(lastError)
+
+  if (category) return { status: 'error', category, lastPollAt, lastError }
+  if (!lastPollAt) return { status: 'pending', category: null, lastPollAt, lastError }
+
+  const pollMs = new Date(lastPollAt).getTime()
+  const stale = !Number.isFinite(pollMs) || nowMs - pollMs > SYNC_STALE_AFTER_MS
+  return { status: stale ? 'stale' : 'ok', category: null, lastPollAt, lastError }
+}
@@ -0,0 +1,407 @@
+import { createServiceClient } from '@/lib/supabase/service'
+
+export const SHOWDOWN_FORMATS = ['LP_GAINED', 'WINS', 'AVG_RANK_GAIN'] as const
+export type ShowdownFormat = (typeof SHOWDOWN_FORMATS)[number]
+
+export const SHOWDOWN_FORMAT_LABELS: Record<ShowdownFormat, string> = {
+  LP_GAINED: 'Total LP gained',
+  WINS: 'Win count',
+  AVG_RANK_GAIN: 'Average rank gain',
+}
+
+export const SHOWDOWN_FORMAT_HINTS: Record<ShowdownFormat, string> = {
+  LP_GAINED: "Every member's net solo queue LP, added up.",
+  WINS: 'Solo queue wins by any member.',
+  AVG_RANK_GAIN: 'Net LP per member who played, so roster size doesn’t decide it.',
+}
+
+export const SHOWDOWN_DURATION_DAYS = [3, 7, 14] as const
+export const DEFAULT_SHOWDOWN_DURATION_DAYS = 7
+export const SHOWDOWN_MAX_ROSTER_SIZE = 50
+export const DEFAULT_SHOWDOWN_REQUEST_TTL_HOURS = 72
+
+export const SHOWDOWN_HISTORY_STATUSES = [
+  'REQUESTED',
+  'COUNTERED',
+  'ACCEPTED',
+  'DECLINED',
+  'CANCELLED',
+  'EXPIRED',
+  'COMPLETED',
+] as const
+export type ShowdownHistoryStatus = (typeof SHOWDOWN_HISTORY_STATUSES)[number]
+
+export const SHOWDOWN_HISTORY_LABELS: Record<ShowdownHistoryStatus, string> = {
+  REQUESTED: 'Requested',
+  COUNTERED: 'Counter-proposed',
+  ACCEPTED: 'Accepted',
+  DECLINED: 'Declined',
+  CANCELLED: 'Withdrawn',
+  EXPIRED: 'Expired',
+  COMPLETED: 'Completed',
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const HOUR_MS = 60 * 60 * 1000
+const HISTORY_PAGE_SIZE = 1000
+const TIMELINE_SAMPLES = 48
+
+export type ShowdownTerms = {
+  format: ShowdownFormat
+  durationDays: number
+  // Null starts the window as soon as the request is accepted.
+  proposedStartAt: string | null
+  // Null counts every member; otherwise only the club's best N.
+  rosterSize: number | null
+}
+
+export type ShowdownWindow = {
+  requester_club_id: string
+  target_club_id: string
+  format: string | null
+  starts_at: string | null
+  ends_at: string | null
+  roster_size?: number | null
+}
+
+export type ShowdownLpEvent = {
+  puuid: string
+  match_id: string | null
+  lp_delta: number | null
+  wins_before: number | null
+  wins_after: number | null
+  recorded_at: string
+}
+
+export type MemberContribution = {
+  puuid: string
+  name: string
+  lpDelta: number
+  wins: number
+  games: number
+  // The member's share of the club score, in the format's unit.
+  contribution: number
+  // False when a roster limit left the member out of the club score.
+  counted: boolean
+}
+
+export type ClubShowdownScore = {
+  clubId: string
+  score: number
+  members: MemberContribution[]
+}
+
+export type ShowdownTimelinePoint = {
+  ts: number
+  requester: number
+  target: number
+}
+
+export type ShowdownScores = {
+  format: ShowdownFormat
+  startMs: number
+  endMs: number
+  requester: ClubShowdownScore
+  target: ClubShowdownScore
+  timeline: ShowdownTimelinePoint[]
+}
+
+export function isShowdownFormat(value: string): value is ShowdownFormat {
+  return (SHOWDOWN_FORMATS as readonly string[]).includes(value)
+}
+
+export function normalizeShowdownFormat(value: string | null | undefined): ShowdownFormat {
+  return value && isShowdownFormat(value) ? value : 'LP_GAINED'
+}
+
+export function showdownEndIso(startIso: string, durationDays: number): string {
+  return new Date(new Date(startIso).getTime() + durationDays * DAY_MS).toISOString()
+}
+
+export function showdownRequestTtlMs(): number {
+  const hours = Number(process.env.SHOWDOWN_REQUEST_TTL_HOURS ?? DEFAULT_SHOWDOWN_REQUEST_TTL_HOURS)
+  return (Number.isFinite(hours) && hours > 0 ? hours : DEFAULT_SHOWDOWN_REQUEST_TTL_HOURS) * HOUR_MS
+}
+
+export function showdownRequestExpiresIso(nowMs: number = Date.now()): string {
+  return new Date(nowMs + showdownRequestTtlMs()).toISOString()
+}
+
+// A proposed start that has already passed opens the window on acceptance.
+export function showdownStartIso(proposedStartAt: string | null, nowMs: number = Date.now()): string {
+  const proposedMs = proposedStartAt ? new Date(proposedStartAt).getTime() : Number.NaN
+  return new Date(Number.isNaN(proposedMs) ? nowMs : Math.max(proposedMs, nowMs)).toISOString()
+}
+
+export function parseShowdownTerms(formData: FormData): { terms: ShowdownTerms } | { error: string } {
+  const format = String(formData.get('format') ?? '').trim()
+  const durationDays = Number(formData.get('duration_days') ?? DEFAULT_SHOWDOWN_DURATION_DAYS)
+  const startRaw = String(formData.get('proposed_start_at') ?? '').trim()
+  const rosterRaw = String(formData.get('roster_size') ?? '').trim()
+
+  if (!isShowdownFormat(format)) return { error: 'Pick a scoring format' }
+  if (!(SHOWDOWN_DURATION_DAYS as readonly number[]).includes(durationDays)) return { error: 'Pick a showdown duration' }
+
+  let proposedStartAt: string | null = null
+  if (startRaw) {
+    const start = new Date(startRaw)
+    if (Number.isNaN(start.getTime())) return { error: 'Invalid start date' }
+    proposedStartAt = start.toISOString()
+  }
+
+  let rosterSize: number | null = null
+  if (rosterRaw) {
+    rosterSize = Number(rosterRaw)
+    if (!Number.isInteger(rosterSize) || rosterSize < 1 || rosterSize > SHOWDOWN_MAX_ROSTER_SIZE) {
+      return { error: `Roster size must be between 1 and ${SHOWDOWN_MAX_ROSTER_SIZE}` }
+    }
+  }
+
+  return { terms: { format, durationDays, proposedStartAt, rosterSize } }
+}
+
+export function showdownTermsFromRow(row: {
+  format: string | null
+  duration_days: number | null
+  proposed_start_at: string | null
+  roster_size: number | null
+}): ShowdownTerms {
+  return {
+    format: normalizeShowdownFormat(row.format),
+    durationDays: row.duration_days ?? DEFAULT_SHOWDOWN_DURATION_DAYS,
+    proposedStartAt: row.proposed_start_at,
+    rosterSize: row.roster_size,
+  }
+}
+
+export function describeShowdownTerms(terms: ShowdownTerms): string {
+  const start = terms.proposedStartAt
+    ? `from ${new Date(terms.proposedStartAt).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}`
+    : 'from acceptance'
+  const roster = terms.rosterSize ? `best ${terms.rosterSize} count` : 'all members count'
+  return `${SHOWDOWN_FORMAT_LABELS[terms.format]} · ${terms.durationDays} days ${start} · ${roster}`
+}
+
+export function formatShowdownScore(format: ShowdownFormat, score: number): string {
+  if (format === 'WINS') return `${score} ${score === 1 ? 'win' : 'wins'}`
+  const rounded = format === 'AVG_RANK_GAIN' ? Math.round(score * 10) / 10 : Math.round(score)
+  return `${rounded > 0 ? '+' : ''}${rounded} LP${format === 'AVG_RANK_GAIN' ? ' avg' : ''}`
+}
+
+// Queue dodges and decay have no match; they cost LP but aren't games.
+function isGameEvent(event: ShowdownLpEvent) {
+  return Boolean(event.match_id)
+}
+
+function eventWins(event: ShowdownLpEvent) {
+  if (event.wins_before === null || event.wins_after === null) return 0
+  return Math.max(event.wins_after - event.wins_before, 0)
+}
+
+type ScoreOptions = {
+  names?: Map<string, string>
+  untilMs?: number
+  rosterSize?: number | null
+}
+
+export function scoreClub(
+  format: ShowdownFormat,
+  clubId: string,
+  memberPuuids: string[],
+  events: ShowdownLpEvent[],
+  { names = new Map(), untilMs = Number.POSITIVE_INFINITY, rosterSize = null }: ScoreOptions = {}
+): ClubShowdownScore {
+  const members = new Map<string, MemberContribution>(
+    memberPuuids.map((puuid) => [
+      puuid,
+      { puuid, name: names.get(puuid) ?? puuid, lpDelta: 0, wins: 0, games: 0, contribution: 0, counted: false },
+    ])
+  )
+
+  for (const event of events) {
+    const member = members.get(event.puuid)
+    if (!member || new Date(event.recorded_at).getTime() > untilMs) continue
+    member.lpDelta += event.lp_delta ?? 0
+    member.wins += eventWins(event)
+    if (isGameEvent(event)) member.games += 1
+  }
+
+  const rows = Array.from(members.values())
+  // Average rank gain only counts members who played.
+  const eligible = format === 'AVG_RANK_GAIN' ? rows.filter((row) => row.games > 0) : rows
+  for (const row of eligible) row.contribution = format === 'WINS' ? row.wins : row.lpDelta
+
+  const byContribution = (a: MemberContribution, b: MemberContribution) => b.contribution - a.contribution || b.games - a.games
+  const counted = eligible.sort(byContribution).slice(0, rosterSize ?? eligible.length)
+  for (const row of counted) row.counted = true
+
+  const total = counted.reduce((sum, row) => sum + row.contribution, 0)
+  const score = format === 'AVG_RANK_GAIN' ? (counted.length > 0 ? total / counted.length : 0) : total
+
+  return {
+    clubId,
+    score,
+    members: rows.sort(byContribution),
+  }
+}
+
+// Null when the showdown is tied.
+export function showdownWinner(requester: ClubShowdownScore, target: ClubShowdownScore): string | null {
+  if (requester.score === target.score) return null
+  return requester.score > target.score ? requester.clubId : target.clubId
+}
+
+async function safeDb<T>(
+  query: PromiseLike<{ data: T | null; error: unknown }>,
+  fallback: T,
+  label?: string
+): Promise<T> {
+  try {
+    const { data, error } = await query
+    if (error) {
+      console.error('[showdowns] database error', { label, error })
+      return fallback
+    }
+    return (data as T) ?? fallback
+  } catch (error) {
+    console.error('[showdowns] database exception', { label, error })
+    return fallback
+  }
+}
+
+// Like safeDb, but a failed query throws instead of reading as no rows.
+async function strictDb<T>(query: PromiseLike<{ data: T | null; error: unknown }>, fallback: T, label?: string): Promise<T> {
+  const { data, error } = await query
+  if (error) throw new Error(`[showdowns] ${label ?? 'query'} failed: ${error instanceof Error ? error.message : JSON.stringify(error)}`)
+  return (data as T) ?? fallback
+}
+
+type DbRead = typeof safeDb
+
+// For the page: a failed query shows partial scores rather than an error.
+export function getShowdownScores(showdown: ShowdownWindow, nowMs: number = Date.now()): Promise<ShowdownScores | null> {
+  return loadShowdownScores(showdown, nowMs, safeDb)
+}
+
+// For the worker, which stores the result for good: any failed query throws,
+// so the showdown is left open and finalized on a later run.
+export function getFinalShowdownScores(showdown: ShowdownWindow, nowMs: number = Date.now()): Promise<ShowdownScores | null> {
+  return loadShowdownScores(showdown, nowMs, strictDb)
+}
+
+async function loadShowdownScores(showdown: ShowdownWindow, nowMs: number, read: DbRead): Promise<ShowdownScores | null> {
+  if (!showdown.starts_at || !showdown.ends_at) return null
+  const supabase = createServiceClient()
+  const format = normalizeShowdownFormat(showdown.format)
+  const startMs = new Date(showdown.starts_at).getTime()
+  const endMs = new Date(showdown.ends_at).getTime()
+  const untilMs = Math.min(endMs, nowMs)
+  const rosterSize = showdown.roster_size ?? null
+
+  const members = await read(
+    supabase
+      .from('club_members')
+      .select('club_id, player_puuid')
+      .in('club_id', [showdown.requester_club_id, showdown.target_club_id])
+      .not('player_puuid', 'is', null),
+    [] as Array<{ club_id: string; player_puuid: string | null }>,
+    'club_members'
+  )
+  const puuidsFor = (clubId: string) =>
+    Array.from(new Set(members.filter((row) => row.club_id === clubId && row.player_puuid).map((row) => row.player_puuid as string)))
+  const requesterPuuids = puuidsFor(showdown.requester_club_id)
+  const targetPuuids = puuidsFor(showdown.target_club_id)
+  const allPuuids = Array.from(new Set([...requesterPuuids, ...targetPuuids]))
+
+  const events: ShowdownLpEvent[] = []
+  if (allPuuids.length > 0 && startMs < untilMs) {
+    for (let from = 0; ; from += HISTORY_PAGE_SIZE) {
+      const page = await read(
+        supabase
+          .from('player_lp_events')
+          .select('puuid, match_id, lp_delta, wins_before, wins_after, recorded_at')
+          .in('puuid', allPuuids)
+          .eq('queue_type', 'RANKED_SOLO_5x5')
+          .gte('recorded_at', new Date(startMs).toISOString())
+          .lte('recorded_at', new Date(untilMs).toISOString())
+          .order('recorded_at', { ascending: true })
+          .range(from, from + HISTORY_PAGE_SIZE - 1),
+        [] as ShowdownLpEvent[],
+        'player_lp_events'
+      )
+      events.push(...page)
+      if (page.length < HISTORY_PAGE_SIZE) break
+    }
+  }
+
+  const players = allPuuids.length
+    ? await read(
+        supabase.from('players').select('puuid, game_name, tag_line').in('puuid', allPuuids),
+        [] as Array<{ puuid: string; game_name: string | null; tag_line: string | null }>,
+        'players'
+      )
+    : []
+  const names = new Map(
+    players
+      .filter((player) => player.game_name)
+      .map((player) => [player.puuid, player.tag_line ? `${player.game_name}#${player.tag_line}` : String(player.game_name)])
+  )
+
+  const timeline: ShowdownTimelinePoint[] = []
+  if (startMs < untilMs) {
+    for (let i = 0; i <= TIMELINE_SAMPLES; i += 1) {
+      const ts = startMs + ((untilMs - startMs) * i) / TIMELINE_SAMPLES
+      timeline.push({
+        ts,
+        requester: scoreClub(format, showdown.requester_club_id, requesterPuuids, events, { names, untilMs: ts, rosterSize }).score,
+        target: scoreClub(format, showdown.target_club_id, targetPuuids, events, { names, untilMs: ts, rosterSize }).score,
+      })
+    }
+  }
+
+  return {
+    format,
+    startMs,
+    endMs,
+    requester: scoreClub(format, showdown.requester_club_id, requesterPuuids, events, { names, rosterSize }),
+    target: scoreClub(format, showdown.target_club_id, targetPuuids, events, { names, rosterSize }),
+    timeline,
+  }
+}
+
+export type ShowdownHistoryEntry = {
+  showdown_id: string
+  status: ShowdownHistoryStatus
+  actor_club_id?: string | null
+  actor_user_id?: string | null
+  note?: string | null
+  terms?: ShowdownTerms | null
+}
+
+// History is a record, not a gate: a failed write is logged and the transition stands.
+export async function recordShowdownHistory(entry: ShowdownHistoryEntry): Promise<void> {
+  const supabase = createServiceClient()
+  await safeDb(supabase.from('club_showdown_history').insert(entry), null, 'club_showdown_history')
+}
+
+export type ShowdownHistoryRow = {
+  id: string
+  status: ShowdownHistoryStatus
+  actor_club_id: string | null
+  note: string | null
+  terms: ShowdownTerms | null
+  created_at: string
+}
+
+export async function getShowdownHistory(showdownId: string): Promise<ShowdownHistoryRow[]> {
+  const supabase = createServiceClient()
+  return safeDb(
+    supabase
+      .from('club_showdown_history')
+      .select('id, status, actor_club_id, note, terms, created_at')
+      .eq('showdown_id', showdownId)
+      .order('created_at', { ascending: true }),
+    [] as ShowdownHistoryRow[],
+    'club_showdown_history'
+  )
+}
@@ -0,0 +1,267 @@
+export const TOURNAMENT_FORMATS = ['SINGLE_ELIMINATION', 'DOUBLE_ELIMINATION', 'ROUND_ROBIN'] as const
+export type TournamentFormat = (typeof TOURNAMENT_FORMATS)[number]
+
+export const TOURNAMENT_FORMAT_LABELS: Record<TournamentFormat, string> = {
+  SINGLE_ELIMINATION: 'Single elimination',
+  DOUBLE_ELIMINATION: 'Double elimination',
+  ROUND_ROBIN: 'Round robin',
+}
+
+export const ENTRANT_TYPES = ['CLUB', 'PLAYER'] as const
+export type EntrantType = (typeof ENTRANT_TYPES)[number]
+
+export type TournamentStatus = 'REGISTRATION' | 'IN_PROGRESS' | 'COMPLETED'
+export type BracketSide = 'WINNERS' | 'LOSERS' | 'GRAND_FINAL' | 'ROUND_ROBIN'
+export type MatchSlot = 'A' | 'B'
+
+export const MIN_TOURNAMENT_ENTRANTS = 2
+export const MAX_TOURNAMENT_ENTRANTS = 32
+
+export type PlannedMatch = {
+  key: string
+  bracket: BracketSide
+  round: number
+  position: number
+  entrantA: string | null
+  entrantB: string | null
+  winnerTo: { key: string; slot: MatchSlot } | null
+  loserTo: { key: string; slot: MatchSlot } | null
+}
+
+type Source = { kind: 'ENTRANT'; id: string } | { kind: 'BYE' } | { kind: 'WINNER' | 'LOSER'; key: string }
+
+type DraftMatch = {
+  key: string
+  bracket: BracketSide
+  round: number
+  position: number
+  a: Source
+  b: Source
+}
+
+const BYE: Source = { kind: 'BYE' }
+
+export function isTournamentFormat(value: string): value is TournamentFormat {
+  return (TOURNAMENT_FORMATS as readonly string[]).includes(value)
+}
+
+export function isEntrantType(value: string): value is EntrantType {
+  return (ENTRANT_TYPES as readonly string[]).includes(value)
+}
+
+// Standard seeding order: seed 1 meets the lowest seed, and the top two seeds
+// can only meet in the final.
+export function bracketSeedOrder(size: number): number[] {
+  let order = [1]
+  while (order.length < size) {
+    const next = order.length * 2 + 1
+    order = order.flatMap((seed) => [seed, next - seed])
+  }
+  return order
+}
+
+function winnerOf(key: string): Source {
+  return { kind: 'WINNER', key }
+}
+
+function loserOf(key: string): Source {
+  return { kind: 'LOSER', key }
+}
+
+function draftElimination(seededIds: string[], double: boolean): DraftMatch[] {
+  let size = 2
+  while (size < seededIds.length) size *= 2
+  const rounds = Math.log2(size)
+  const order = bracketSeedOrder(size)
+  const seedSource = (seed: number): Source => (seed <= seededIds.length ? { kind: 'ENTRANT', id: seededIds[seed - 1] } : BYE)
+  const wb = (round: number, position: number) => `W${round}-${position}`
+  const lb = (round: number, position: number) => `L${round}-${position}`
+
+  const drafts: DraftMatch[] = []
+  for (let round = 1; round <= rounds; round += 1) {
+    for (let position = 0; position < size >> round; position += 1) {
+      drafts.push({
+        key: wb(round, position),
+        bracket: 'WINNERS',
+        round,
+        position,
+        a: round === 1 ? seedSource(order[position * 2]) : winnerOf(wb(round - 1, position * 2)),
+        b: round === 1 ? seedSource(order[position * 2 + 1]) : winnerOf(wb(round - 1, position * 2 + 1)),
+      })
+    }
+  }
+  if (!double) return drafts
+
+  // Odd losers rounds pair up survivors; even rounds bring in the next winners
+  // round's losers, crossed over so early opponents don't meet again right away.
+  const loserRounds = 2 * (rounds - 1)
+  for (let round = 1; round <= loserRounds; round += 1) {
+    const half = Math.ceil(round / 2)
+    const count = size >> (half + 1)
+    for (let position = 0; position < count; position += 1) {
+      let a: Source
+      let b: Source
+      if (round === 1) {
+        a = loserOf(wb(1, position * 2))
+        b = loserOf(wb(1, position * 2 + 1))
+      } else if (round % 2 === 0) {
+        a = winnerOf(lb(round - 1, position))
+        b = loserOf(wb(half + 1, count - 1 - position))
+      } else {
+        a = winnerOf(lb(round - 1, position * 2))
+        b = winnerOf(lb(round - 1, position * 2 + 1))
+      }
+      drafts.push({ key: lb(round, position), bracket: 'LOSERS', round, position, a, b })
+    }
+  }
+
+  // A single grand final: the losers bracket winner doesn't get a bracket reset.
+  drafts.push({
+    key: 'GF',
+    bracket: 'GRAND_FINAL',
+    round: 1,
+    position: 0,
+    a: winnerOf(wb(rounds, 0)),
+    b: loserRounds > 0 ? winnerOf(lb(loserRounds, 0)) : loserOf(wb(rounds, 0)),
+  })
+  return drafts
+}
+
+// Byes are resolved at generation time: a match with one bye is a walkover and
+// a match with two is dropped, so every stored match has two real opponents
+// (or feeders that will produce them).
+function collapseByes(drafts: DraftMatch[]): PlannedMatch[] {
+  const outcomes = new Map<string, { winner: Source; loser: Source }>()
+  const resolve = (source: Source): Source => {
+    if (source.kind !== 'WINNER' && source.kind !== 'LOSER') return source
+    const outcome = outcomes.get(source.key)
+    if (!outcome) return source
+    return source.kind === 'WINNER' ? outcome.winner : outcome.loser
+  }
+
+  const kept: DraftMatch[] = []
+  for (const draft of drafts) {
+    const a = resolve(draft.a)
+    const b = resolve(draft.b)
+    if (a.kind === 'BYE' || b.kind === 'BYE') {
+      outcomes.set(draft.key, { winner: a.kind === 'BYE' ? b : a, loser: BYE })
+      continue
+    }
+    kept.push({ ...draft, a, b })
+  }
+
+  const planned = new Map<string, PlannedMatch>(
+    kept.map((draft) => [
+      draft.key,
+      {
+        key: draft.key,
+        bracket: draft.bracket,
+        round: draft.round,
+        position: draft.position,
+        entrantA: draft.a.kind === 'ENTRANT' ? draft.a.id : null,
+        entrantB: draft.b.kind === 'ENTRANT' ? draft.b.id : null,
+        winnerTo: null,
+        loserTo: null,
+      },
+    ])
+  )
+
+  for (const draft of kept) {
+    for (const [source, slot] of [
+      [draft.a, 'A'],
+      [draft.b, 'B'],
+    ] as const) {
+      if (source.kind !== 'WINNER' && source.kind !== 'LOSER') continue
+      const feeder = planned.get(source.key)
+      if (!feeder) continue
+      if (source.kind === 'WINNER') feeder.winnerTo = { key: draft.key, slot }
+      else feeder.loserTo = { key: draft.key, slot }
+    }
+  }
+
+  return Array.from(planned.values())
+}
+
+// Circle method: one entrant stays put while the rest rotate, so everyone
+// meets once. Odd fields give one entrant a bye each round.
+function planRoundRobin(seededIds: string[]): PlannedMatch[] {
+  let ring: Array<string | null> = seededIds.length % 2 === 0 ? [...seededIds] : [...seededIds, null]
+  const matches: PlannedMatch[] = []
+
+  for (let round = 1; round < ring.length; round += 1) {
+    let position = 0
+    for (let i = 0; i < ring.length / 2; i += 1) {
+      const a = ring[i]
+      const b = ring[ring.length - 1 - i]
+      if (!a || !b) continue
+      matches.push({
+        key: `R${round}-${position}`,
+        bracket: 'ROUND_ROBIN',
+        round,
+        position,
+        entrantA: a,
+        entrantB: b,
+        winnerTo: null,
+        loserTo: null,
+      })
+      position += 1
+    }
+    ring = [ring[0], ring[ring.length - 1], ...ring.slice(1, ring.length - 1)]
+  }
+
+  return matches
+}
+
+// seededIds are entrant ids ordered best seed first.
+export function planTournament(format: TournamentFormat, seededIds: string[]): PlannedMatch[] {
+  if (format === 'ROUND_ROBIN') return planRoundRobin(seededIds)
+  return collapseByes(draftElimination(seededIds, format === 'DOUBLE_ELIMINATION'))
+}
+
+export type ResultRow = {
+  entrant_a_id: string | null
+  entrant_b_id: string | null
+  winner_entrant_id: string | null
+  score_a: number | null
+  score_b: number | null
+}
+
+export type RoundRobinStanding = {
+  entrantId: string
+  played: number
+  wins: number
+  losses: number
+  scoreDiff: number
+}
+
+// Ranked by wins, then score difference, then seed.
+export function roundRobinStandings(seededIds: string[], matches: ResultRow[]): RoundRobinStanding[] {
+  const rows = new Map(seededIds.map((id) => [id, { entrantId: id, played: 0, wins: 0, losses: 0, scoreDiff: 0 }]))
+
+  for (const match of matches) {
+    if (!match.winner_entrant_id || !match.entrant_a_id || !match.entrant_b_id) continue
+    const a = rows.get(match.entrant_a_id)
+    const b = rows.get(match.entrant_b_id)
+    if (!a || !b) continue
+    a.played += 1
+    b.played += 1
+    const diff = (match.score_a ?? 0) - (match.score_b ?? 0)
+    a.scoreDiff += diff
+    b.scoreDiff -= diff
+    if (match.winner_entrant_id === a.entrantId) {
+      a.wins += 1
+      b.losses += 1
+    } else {
+      b.wins += 1
+      a.losses += 1
+    }
+  }
+
+  const seedIndex = new Map(seededIds.map((id, idx) => [id, idx]))
+  return Array.from(rows.values()).sort(
+    (x, y) =>
+      y.wins - x.wins ||
+      y.scoreDiff - x.scoreDiff ||
+      (seedIndex.get(x.entrantId) ?? 0) - (seedIndex.get(y.entrantId) ?? 0)
+  )
+}
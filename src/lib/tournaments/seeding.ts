@@ -0,0 +1,72 @@
+import { compareRanks, type RankSnapshot } from '@/lib/rankSort'
+import { createServiceClient } from '@/lib/supabase/service'
+
+export type SeedableEntrant = {
+  id: string
+  club_id: string | null
+  player_puuid: string | null
+}
+
+type SnapshotRaw = {
+  puuid: string
+  tier: string | null
+  rank: string | null
+  league_points: number | null
+}
+
+// Orders entrants by current solo queue rank, best first. Players use their own
+// snapshot and clubs use their highest-ranked member. Unranked entrants and ties
+// keep registration order.
+export async function seedEntrants(entrants: SeedableEntrant[]): Promise<string[]> {
+  const supabase = createServiceClient()
+
+  const clubIds = entrants.map((entrant) => entrant.club_id).filter((id): id is string => Boolean(id))
+  const { data: memberRows, error: membersError } =
+    clubIds.length > 0
+      ? await supabase.from('club_members').select('club_id, player_puuid').in('club_id', clubIds)
+      : { data: [] as Array<{ club_id: string; player_puuid: string | null }>, error: null }
+  if (membersError) console.error('[tournaments] club_members error', membersError)
+
+  const puuidsByClub = new Map<string, string[]>()
+  for (const row of memberRows ?? []) {
+    if (!row.player_puuid) continue
+    const list = puuidsByClub.get(row.club_id) ?? []
+    list.push(row.player_puuid)
+    puuidsByClub.set(row.club_id, list)
+  }
+
+  const puuids = new Set<string>()
+  for (const entrant of entrants) {
+    if (entrant.player_puuid) puuids.add(entrant.player_puuid)
+    if (entrant.club_id) for (const puuid of puuidsByClub.get(entrant.club_id) ?? []) puuids.add(puuid)
+  }
+
+  const { data: snapshotRows, error: snapshotError } =
+    puuids.size > 0
+      ? await supabase
+          .from('player_rank_snapshot')
+          .select('puuid, tier, rank, league_points')
+          .in('puuid', Array.from(puuids))
+          .eq('queue_type', 'RANKED_SOLO_5x5')
+      : { data: [] as SnapshotRaw[], error: null }
+  if (snapshotError) console.error('[tournaments] player_rank_snapshot error', snapshotError)
+
+  const rankByPuuid = new Map<string, RankSnapshot>()
+  for (const row of (snapshotRows ?? []) as SnapshotRaw[]) rankByPuuid.set(row.puuid, row)
+
+  const bestRank = (candidates: string[]): RankSnapshot | undefined =>
+    candidates
+      .map((puuid) => rankByPuuid.get(puuid))
+      .filter((rank): rank is RankSnapshot => Boolean(rank))
+      .sort(compareRanks)[0]
+
+  const ranked = entrants.map((entrant, index) => ({
+    id: entrant.id,
+    index,
+    rank: entrant.club_id
+      ? bestRank(puuidsByClub.get(entrant.club_id) ?? [])
+      : bestRank(entrant.player_puuid ? [entrant.player_puuid] : []),
+  }))
+
+  return ranked.sort((a, b) => compareRanks(a.rank, b.rank) || a.index - b.index).map((entry) => entry.id)
+}